@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  env: {
+    // The browser reads fixture data through /api/league-data (lib/providers).
+    NEXT_PUBLIC_LEAGUE_DATA_PROVIDER: process.env.LEAGUE_DATA_PROVIDER?.trim().toLowerCase() || 'sleeper',
+  },
   images: {
     remotePatterns: [
       {
@@ -6,27 +6,46 @@ import { PageLayout } from '@/components/layout/PageLayout';
 import { cn } from '@/lib/utils';
 import AppearanceEditor from './appearance/AppearanceEditor';
 import AIDeskAdmin from './ai-desk/AIDeskAdmin';
+import LeagueDataAdmin from './data/LeagueDataAdmin';
+import ManagersAdmin from './managers/ManagersAdmin';
+import IntegrityAdmin from './integrity/IntegrityAdmin';
+import TankingAdmin from './integrity/TankingAdmin';
+import ConstitutionAdmin from './constitution/ConstitutionAdmin';
+import AccessAdmin from './access/AccessAdmin';
+import type { AdminSession } from '@/lib/adminAuth';
 
 /**
  * The single admin panel.
  *
  * Appearance and the AI desk used to be separate routes with a password gate
  * each, so configuring the app meant signing in twice. The gate lives here now
- * and both editors are rendered as tabs beneath it; they receive the verified
- * password as a prop rather than collecting it again.
+ * and both editors are rendered as tabs beneath it.
+ *
+ * Signing in sets an httpOnly session cookie (lib/adminAuth.ts) that every
+ * admin route checks for itself, so the editors just call their APIs. Tabs a
+ * deputy cannot use are hidden from them; the routes refuse them regardless.
  */
 
 const TABS = [
   { id: 'appearance', label: 'Appearance', blurb: 'Palette, fonts, background and motion.' },
   { id: 'ai',         label: 'AI Desk',    blurb: 'Personalities, publishing and diagnostics.' },
+  { id: 'data',       label: 'League Data', blurb: 'Archived seasons and the Sleeper cache.' },
+  { id: 'managers',   label: 'Managers',   blurb: 'Invite codes for manager sign-in.', commissionerOnly: true },
+  { id: 'constitution', label: 'Constitution', blurb: 'The rules text, its versions and amendments.', commissionerOnly: true },
+  { id: 'integrity',  label: 'Integrity',  blurb: 'Possible loan trades, collusion and tanking, for review.', commissionerOnly: true },
+  { id: 'access',     label: 'Access',     blurb: 'Admin accounts and the audit log.' },
 ] as const;
 type Tab = (typeof TABS)[number]['id'];
 
+const ROLE_LABEL: Record<AdminSession['role'], string> = { commissioner: 'Commissioner', deputy: 'Deputy' };
+
 const STORAGE_KEY = 'lp_admin_tab';
 
 export default function AdminShell() {
+  const [name, setName] = useState('');
   const [password, setPassword] = useState('');
-  const [authed, setAuthed] = useState(false);
+  const [admin, setAdmin] = useState<AdminSession | null>(null);
+  const [checked, setChecked] = useState(false);
   const [error, setError] = useState('');
   const [busy, setBusy] = useState(false);
   const [tab, setTab] = useState<Tab>('appearance');
@@ -38,6 +57,15 @@ export default function AdminShell() {
   }, []);
   useEffect(() => { localStorage.setItem(STORAGE_KEY, tab); }, [tab]);
 
+  // An existing session skips the form.
+  useEffect(() => {
+    fetch('/api/admin/auth')
+      .then(r => r.json())
+      .then(d => setAdmin(d.admin ?? null))
+      .catch(() => {})
+      .finally(() => setChecked(true));
+  }, []);
+
   const login = useCallback(async () => {
     if (!password) return;
     setBusy(true); setError('');
@@ -45,23 +73,47 @@ export default function AdminShell() {
       const res = await fetch('/api/admin/auth', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ name, password }),
       });
-      if (res.ok) setAuthed(true);
-      else setError('Incorrect password.');
+      const d = await res.json();
+      if (res.ok) {
+        setAdmin(d.admin);
+        setPassword('');
+      } else {
+        setError(res.status === 401 ? 'Wrong name or password.' : d.error ?? 'Sign-in failed.');
+      }
     } catch {
       setError('Could not reach the server.');
     } finally {
       setBusy(false);
     }
-  }, [password]);
+  }, [name, password]);
 
-  if (!authed) {
+  const logout = useCallback(async () => {
+    await fetch('/api/admin/auth', { method: 'DELETE' }).catch(() => {});
+    setAdmin(null);
+  }, []);
+
+  if (!checked) return <PageLayout title="Admin" subtitle="Checking your session…"><div /></PageLayout>;
+
+  if (!admin) {
     return (
       <PageLayout title="Admin" subtitle="Sign in to configure LeaguePulse.">
         <div className="mx-auto max-w-sm rounded-xl border border-border bg-card p-6">
+          <label className="mb-2 block text-xs font-medium text-muted-foreground" htmlFor="admin-name">
+            Name <span className="font-normal">(blank for the league&apos;s admin password)</span>
+          </label>
+          <input
+            id="admin-name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && login()}
+            autoComplete="username"
+            autoFocus
+            className="mb-3 w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none"
+          />
           <label className="mb-2 block text-xs font-medium text-muted-foreground" htmlFor="admin-pw">
-            Admin password
+            Password
           </label>
           <input
             id="admin-pw"
@@ -69,7 +121,7 @@ export default function AdminShell() {
             value={password}
             onChange={e => setPassword(e.target.value)}
             onKeyDown={e => e.key === 'Enter' && login()}
-            autoFocus
+            autoComplete="current-password"
             className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none"
           />
           {error && <p className="mt-2 text-xs text-rose-500">{error}</p>}
@@ -85,37 +137,58 @@ export default function AdminShell() {
     );
   }
 
-  const active = TABS.find(t => t.id === tab)!;
+  const tabs = TABS.filter(t => !('commissionerOnly' in t) || admin.role === 'commissioner');
+  const active = tabs.find(t => t.id === tab) ?? tabs[0];
 
   return (
     <PageLayout title="Admin" subtitle={active.blurb}>
-      <div className="mb-6 inline-flex rounded-lg border border-border bg-card p-0.5">
-        {TABS.map(t => (
-          <button
-            key={t.id}
-            onClick={() => setTab(t.id)}
-            className={cn(
-              'relative rounded-md px-4 py-1.5 text-xs font-semibold transition-colors',
-              tab === t.id ? 'text-primary-foreground' : 'text-muted-foreground hover:text-foreground',
-            )}
-          >
-            {tab === t.id && (
-              <motion.span
-                layoutId="admin-tab"
-                className="absolute inset-0 rounded-md bg-primary"
-                transition={{ type: 'spring', stiffness: 380, damping: 32 }}
-              />
-            )}
-            <span className="relative">{t.label}</span>
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <div className="inline-flex rounded-lg border border-border bg-card p-0.5">
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={cn(
+                'relative rounded-md px-4 py-1.5 text-xs font-semibold transition-colors',
+                active.id === t.id ? 'text-primary-foreground' : 'text-muted-foreground hover:text-foreground',
+              )}
+            >
+              {active.id === t.id && (
+                <motion.span
+                  layoutId="admin-tab"
+                  className="absolute inset-0 rounded-md bg-primary"
+                  transition={{ type: 'spring', stiffness: 380, damping: 32 }}
+                />
+              )}
+              <span className="relative">{t.label}</span>
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>
+            <span className="font-semibold text-foreground">{admin.name}</span> · {ROLE_LABEL[admin.role]}
+          </span>
+          <button onClick={logout} className="rounded-md border border-border px-2 py-1 font-semibold hover:border-primary/40 hover:text-primary">
+            Sign out
           </button>
-        ))}
+        </div>
       </div>
 
       {/* Both editors stay mounted-on-demand rather than always: the theme
           editor writes live CSS variables while open, which should not happen
           from behind another tab. */}
-      {tab === 'appearance' && <AppearanceEditor adminPassword={password} />}
-      {tab === 'ai' && <AIDeskAdmin adminPassword={password} />}
+      {active.id === 'appearance' && <AppearanceEditor />}
+      {active.id === 'ai' && <AIDeskAdmin />}
+      {active.id === 'data' && <LeagueDataAdmin />}
+      {active.id === 'managers' && <ManagersAdmin />}
+      {active.id === 'constitution' && <ConstitutionAdmin />}
+      {active.id === 'integrity' && (
+        <div className="space-y-6">
+          <IntegrityAdmin />
+          <TankingAdmin />
+        </div>
+      )}
+      {active.id === 'access' && <AccessAdmin admin={admin} />}
     </PageLayout>
   );
 }
@@ -0,0 +1,238 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import type { AdminAccountSummary, AdminRole, AdminSession } from '@/lib/adminAuth';
+import type { AuditEntry } from '@/lib/auditLog';
+
+const BUTTON =
+  'rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40';
+const INPUT =
+  'rounded-md border border-border bg-background px-2 py-1.5 text-xs text-foreground focus:border-primary focus:outline-none';
+
+/**
+ * Who can sign in to the panel, and everything they have changed. Accounts
+ * are the commissioner's to manage; every admin can read the log.
+ */
+export default function AccessAdmin({ admin }: { admin: AdminSession }) {
+  return (
+    <div className="space-y-6">
+      {admin.role === 'commissioner' && <Accounts />}
+      <AuditLog />
+    </div>
+  );
+}
+
+function Accounts() {
+  const [accounts, setAccounts] = useState<AdminAccountSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [draft, setDraft] = useState({ name: '', role: 'deputy' as AdminRole, password: '' });
+  const [resetFor, setResetFor] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const d = await fetch('/api/admin/accounts').then(r => r.json());
+      if (d.error) setError(d.error);
+      setAccounts(d.accounts ?? []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setAccounts([]);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const send = useCallback(async (method: 'POST' | 'PATCH' | 'DELETE', body: object): Promise<boolean> => {
+    setBusy(true); setError(null);
+    try {
+      const res = await fetch('/api/admin/accounts', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Request failed'); return false; }
+      await load();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }, [load]);
+
+  const create = async () => {
+    if (await send('POST', draft)) setDraft({ name: '', role: 'deputy', password: '' });
+  };
+
+  const resetPassword = async (id: string) => {
+    if (await send('PATCH', { id, password: newPassword })) { setResetFor(null); setNewPassword(''); }
+  };
+
+  return (
+    <section className="rounded-xl border border-border bg-card p-4">
+      <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+        Admin accounts
+      </h2>
+      <p className="mt-1 text-[11px] text-muted-foreground">
+        Deputies can do everything here except manage accounts, manager invite codes, the constitution and the integrity queues.
+        Changing a password or deleting an account signs it out everywhere.
+      </p>
+
+      {error && (
+        <p className="mt-3 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">
+          {error}
+        </p>
+      )}
+
+      {!accounts ? (
+        <div className="flex justify-center py-6"><LoadingSpinner /></div>
+      ) : (
+        <ul className="mt-3">
+          {accounts.map(a => (
+            <li key={a.id} className="flex flex-wrap items-center gap-3 border-b border-border py-2.5 last:border-0">
+              <span className="min-w-0 flex-1">
+                <span className="block truncate text-sm font-semibold text-foreground">{a.name}</span>
+                <span className="block text-[11px] text-muted-foreground">
+                  {a.builtIn ? 'Signs in with ADMIN_PASSWORD' : `Added ${new Date(a.createdAt).toLocaleDateString()}`}
+                </span>
+              </span>
+              {a.builtIn ? (
+                <span className="text-xs font-semibold text-muted-foreground">Commissioner</span>
+              ) : (
+                <>
+                  <select
+                    value={a.role}
+                    disabled={busy}
+                    onChange={e => send('PATCH', { id: a.id, role: e.target.value })}
+                    className={INPUT}
+                  >
+                    <option value="commissioner">Commissioner</option>
+                    <option value="deputy">Deputy</option>
+                  </select>
+                  {resetFor === a.id ? (
+                    <>
+                      <input
+                        type="password"
+                        value={newPassword}
+                        onChange={e => setNewPassword(e.target.value)}
+                        placeholder="New password"
+                        autoComplete="new-password"
+                        className={INPUT}
+                      />
+                      <button onClick={() => resetPassword(a.id)} disabled={busy || !newPassword} className={BUTTON}>Save</button>
+                    </>
+                  ) : (
+                    <button onClick={() => { setResetFor(a.id); setNewPassword(''); }} disabled={busy} className={BUTTON}>
+                      Set password
+                    </button>
+                  )}
+                  <button
+                    onClick={() => send('DELETE', { id: a.id })}
+                    disabled={busy}
+                    className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-muted-foreground transition-colors hover:border-rose-500/40 hover:text-rose-500 disabled:opacity-40"
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 border-t border-border pt-4">
+        <input
+          value={draft.name}
+          onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+          placeholder="Name"
+          className={INPUT}
+        />
+        <select
+          value={draft.role}
+          onChange={e => setDraft(d => ({ ...d, role: e.target.value as AdminRole }))}
+          className={INPUT}
+        >
+          <option value="deputy">Deputy</option>
+          <option value="commissioner">Commissioner</option>
+        </select>
+        <input
+          type="password"
+          value={draft.password}
+          onChange={e => setDraft(d => ({ ...d, password: e.target.value }))}
+          placeholder="Password (8+ characters)"
+          autoComplete="new-password"
+          className={INPUT}
+        />
+        <button onClick={create} disabled={busy || !draft.name.trim() || !draft.password} className={BUTTON}>
+          Add admin
+        </button>
+      </div>
+    </section>
+  );
+}
+
+function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const d = await fetch('/api/admin/audit').then(r => r.json());
+      if (d.error) setError(d.error);
+      setEntries(d.entries ?? []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setEntries([]);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  return (
+    <section className="rounded-xl border border-border bg-card p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+          Audit log
+        </h2>
+        <button onClick={load} className={BUTTON}>Refresh</button>
+      </div>
+      <p className="mt-1 text-[11px] text-muted-foreground">
+        Every change made from this panel, newest first. Entries cannot be edited or removed.
+      </p>
+
+      {error && (
+        <p className="mt-3 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">
+          {error}
+        </p>
+      )}
+
+      {!entries ? (
+        <div className="flex justify-center py-6"><LoadingSpinner /></div>
+      ) : entries.length === 0 ? (
+        <p className="py-6 text-center text-xs text-muted-foreground">Nothing has been changed yet.</p>
+      ) : (
+        <ul className="mt-3">
+          {entries.map((e, i) => (
+            <li key={`${e.at}-${i}`} className="flex flex-wrap items-baseline gap-x-3 gap-y-0.5 border-b border-border py-2 text-xs last:border-0">
+              <span className="w-36 shrink-0 tabular-nums text-muted-foreground">{new Date(e.at).toLocaleString()}</span>
+              <span className="font-semibold text-foreground">
+                {e.actor}
+                <span className={cn('ml-1 text-[10px] font-normal', e.role === 'commissioner' ? 'text-primary' : 'text-muted-foreground')}>
+                  {e.role}
+                </span>
+              </span>
+              <code className="font-mono text-[11px] text-foreground">{e.action}</code>
+              {e.target && <span className="text-foreground">{e.target}</span>}
+              {e.detail && <span className="min-w-0 flex-1 truncate text-muted-foreground">{e.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -5,13 +5,15 @@ import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { cn } from '@/lib/utils';
 import type { Personality, ContentKind } from '@/lib/ai/personalities';
 import { AVATAR_STYLES, DEFAULT_AVATAR_STYLE, personaAvatarUrl } from '@/lib/ai/avatar';
+import ReviewInbox from './ReviewInbox';
 
 const ALL_KINDS: ContentKind[] = [
-  'article', 'powerRankings', 'predictions', 'tweet', 'comment', 'tradeGrade',
+  'article', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap', 'tweet', 'comment', 'tradeGrade',
 ];
 const KIND_LABEL: Record<ContentKind, string> = {
   article: 'Article', tweet: 'Post', comment: 'Comment', tradeGrade: 'Trade Grade',
   powerRankings: 'Power Rankings', predictions: 'Predictions',
+  matchupPreview: 'Matchup Preview', weeklyRecap: 'Weekly Recap',
 };
 
 interface Check {
@@ -55,8 +57,7 @@ function CheckRow({ c }: { c: Check }) {
   );
 }
 
-export default function AIDeskAdmin({ adminPassword }: { adminPassword: string }) {
-  const password = adminPassword;
+export default function AIDeskAdmin() {
   const [configured, setConfigured] = useState<boolean | null>(null);
   const [queued, setQueued] = useState(0);
   const [diag, setDiag] = useState<DiagResult | null>(null);
@@ -74,6 +75,8 @@ export default function AIDeskAdmin({ adminPassword }: { adminPassword: string }
   const [busy, setBusy] = useState(false);
   const [result, setResult] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Bumped after a scheduler run so the inbox picks up the new drafts.
+  const [inboxKey, setInboxKey] = useState(0);
 
   useEffect(() => {
     fetch('/api/ai/status').then(r => r.json()).then(d => { setConfigured(d.configured); setQueued(d.queued ?? 0); }).catch(() => setConfigured(false));
@@ -93,7 +96,7 @@ export default function AIDeskAdmin({ adminPassword }: { adminPassword: string }
     try {
       const res = await fetch('/api/ai/assistant', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'x-admin-password': password },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ name: assistantName }),
       });
       if (res.ok) {
@@ -103,14 +106,12 @@ export default function AIDeskAdmin({ adminPassword }: { adminPassword: string }
         setTimeout(() => setAssistantSaved(false), 2500);
       }
     } catch { /* surfaced by the unchanged field */ }
-  }, [assistantName, password]);
+  }, [assistantName]);
 
   const runDiagnostics = useCallback(async (live: boolean) => {
     setDiagBusy(true);
     try {
-      const res = await fetch(`/api/ai/diagnostics${live ? '?live=1' : ''}`, {
-        headers: { 'x-admin-password': password },
-      });
+      const res = await fetch(`/api/ai/diagnostics${live ? '?live=1' : ''}`);
       setDiag(await res.json());
     } catch (e) {
       setDiag({ checks: [], summary: { pass: 0, warn: 0, fail: 0 },
@@ -118,7 +119,7 @@ export default function AIDeskAdmin({ adminPassword }: { adminPassword: string }
     } finally {
       setDiagBusy(false);
     }
-  }, [password]);
+  }, []);
 
   const active = people.find(p => p.id === activeId);
   const update = (patch: Partial<Personality>) =>
@@ -129,12 +130,12 @@ export default function AIDeskAdmin({ adminPassword }: { adminPassword: string }
     try {
       const res = await fetch('/api/ai/personalities', {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json', 'x-admin-password': password },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ personalities: people }),
       });
       if (res.ok) { setSaved(true); setTimeout(() => setSaved(false), 2500); }
     } finally { setSaving(false); }
-  }, [people, password]);
+  }, [people]);
 
   const generate = useCallback(async () => {
     if (!active) return;
@@ -142,7 +143,7 @@ export default function AIDeskAdmin({ adminPassword }: { adminPassword: string }
     try {
       const res = await fetch('/api/ai/generate', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'x-admin-password': password },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ personalityId: active.id, kind, topic: topic.trim() || undefined, subject: topic.trim() || undefined }),
       });
       const d = await res.json();
@@ -152,13 +153,18 @@ export default function AIDeskAdmin({ adminPassword }: { adminPassword: string }
       setTopic('');
     } catch { setError('Generation failed'); }
     finally { setBusy(false); }
-  }, [active, kind, topic, password]);
+  }, [active, kind, topic]);
 
   const runCron = useCallback(async () => {
     setBusy(true); setError(null); setResult(null);
     try {
       const d = await fetch('/api/ai/cron?force=1').then(r => r.json());
-      setResult(d.posted ? `Posted a ${d.kind} as ${d.persona}.` : `Skipped: ${d.skipped ?? d.error}`);
+      setResult(
+        !d.posted ? `Skipped: ${d.skipped ?? d.error}`
+          : d.review ? `Wrote ${d.posted} for review. Approve them in the inbox above.`
+          : `Scheduled ${d.posted} post${d.posted === 1 ? '' : 's'}.`,
+      );
+      setInboxKey(k => k + 1);
     } catch { setError('Cron run failed'); }
     finally { setBusy(false); }
   }, []);
@@ -173,6 +179,8 @@ export default function AIDeskAdmin({ adminPassword }: { adminPassword: string }
         </div>
       )}
 
+      <ReviewInbox key={inboxKey} />
+
       {/* ── Chat assistant ── */}
       <section className="mb-6 rounded-xl border border-border bg-card p-4">
         <h2 className="mb-3 text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
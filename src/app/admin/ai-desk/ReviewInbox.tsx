@@ -0,0 +1,318 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import type { FeedPost } from '@/lib/ai/store';
+
+type Draft = FeedPost & { problems: string[] };
+
+const BUTTON =
+  'rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40';
+const INPUT =
+  'w-full rounded-md border border-border bg-background px-2 py-1.5 text-xs text-foreground focus:border-primary focus:outline-none';
+
+const KIND_LABEL: Record<FeedPost['kind'], string> = {
+  article: 'Article', tweet: 'Post', comment: 'Comment', tradeGrade: 'Trade Grade',
+  powerRankings: 'Power Rankings', predictions: 'Predictions',
+  matchupPreview: 'Matchup Preview', weeklyRecap: 'Weekly Recap',
+};
+
+const toLocalInput = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+/** What a post is about at a glance: its headline, or the opening of its text. */
+function summary(content: FeedPost['content']): string {
+  const c = (content ?? {}) as Record<string, unknown>;
+  const text = String(c.headline ?? c.text ?? c.verdict ?? '');
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+}
+
+/**
+ * Every string in a post, as an editable field, whatever the kind's shape.
+ * Numbers (ranks) and structure are left alone: an edit changes wording, not
+ * which teams a ranking covers.
+ */
+function ContentFields({ value, onChange, label = '' }: {
+  value: unknown;
+  onChange: (next: unknown) => void;
+  label?: string;
+}) {
+  if (typeof value === 'string') {
+    return (
+      <label className="block">
+        {label && <span className="mb-0.5 block text-[10px] text-muted-foreground">{label}</span>}
+        <textarea
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          rows={Math.min(10, Math.max(1, Math.ceil(value.length / 90)))}
+          className={INPUT}
+        />
+      </label>
+    );
+  }
+  if (Array.isArray(value)) {
+    return (
+      <div className="space-y-2">
+        {value.map((v, i) => (
+          <ContentFields
+            key={i}
+            value={v}
+            label={`${label} ${i + 1}`.trim()}
+            onChange={next => onChange(value.map((x, j) => (j === i ? next : x)))}
+          />
+        ))}
+      </div>
+    );
+  }
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return (
+      <div className={cn('space-y-2', label && 'rounded-md border border-border p-2')}>
+        {label && <span className="block text-[10px] font-semibold text-muted-foreground">{label}</span>}
+        {Object.entries(obj).map(([k, v]) => (
+          <ContentFields key={k} value={v} label={k} onChange={next => onChange({ ...obj, [k]: next })} />
+        ))}
+      </div>
+    );
+  }
+  return null;
+}
+
+function DraftRow({ draft, selected, onSelect, onSaved, onReview }: {
+  draft: Draft;
+  selected: boolean;
+  onSelect: (on: boolean) => void;
+  onSaved: (post: Draft) => void;
+  onReview: (status: 'approved' | 'rejected') => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [content, setContent] = useState<unknown>(draft.content);
+  const [publishAt, setPublishAt] = useState(toLocalInput(draft.publishAt));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const moved = publishAt !== toLocalInput(draft.publishAt);
+
+  const save = async (patch: { content?: unknown; publishAt?: string }) => {
+    setBusy(true); setError(null);
+    try {
+      const res = await fetch('/api/ai/review', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: draft.id, ...patch }),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Failed to save'); return; }
+      onSaved(d.post);
+      setEditing(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="border-b border-border py-3 last:border-0">
+      <div className="flex items-start gap-3">
+        <input type="checkbox" checked={selected} onChange={e => onSelect(e.target.checked)} className="mt-1" />
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-center gap-2 text-[11px] text-muted-foreground">
+            <span className="font-semibold" style={{ color: draft.personaAccent }}>{draft.personaName}</span>
+            <span className="rounded-full bg-primary/10 px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider text-primary">
+              {KIND_LABEL[draft.kind]}
+            </span>
+            {draft.subject && <span>on {draft.subject}</span>}
+            <span>written {formatDistanceToNow(new Date(draft.createdAt), { addSuffix: true })}</span>
+            {draft.review?.edited && <span>edited by {draft.review.by}</span>}
+          </div>
+          <p className="mt-1 text-sm text-foreground">{summary(draft.content)}</p>
+
+          {draft.problems.length > 0 && (
+            <ul className="mt-2 space-y-0.5 rounded-md border border-amber-500/30 bg-amber-500/5 p-2 text-[11px] text-amber-500">
+              {draft.problems.map((p, i) => <li key={i}>{p}</li>)}
+            </ul>
+          )}
+
+          {editing && (
+            <div className="mt-2 space-y-2">
+              <ContentFields value={content} onChange={setContent} />
+              <div className="flex gap-2">
+                <button onClick={() => save({ content })} disabled={busy} className={BUTTON}>
+                  {busy ? 'Saving…' : 'Save copy'}
+                </button>
+                <button onClick={() => { setContent(draft.content); setEditing(false); }} disabled={busy} className={BUTTON}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p className="mt-2 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>
+          )}
+
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <input
+              type="datetime-local"
+              value={publishAt}
+              onChange={e => setPublishAt(e.target.value)}
+              className={cn(INPUT, 'w-auto')}
+            />
+            {moved && (
+              <button onClick={() => save({ publishAt: new Date(publishAt).toISOString() })} disabled={busy || !publishAt} className={BUTTON}>
+                Reschedule
+              </button>
+            )}
+            {!editing && <button onClick={() => setEditing(true)} className={BUTTON}>Edit</button>}
+            <button onClick={() => onReview('approved')} disabled={busy} className={BUTTON}>Approve</button>
+            <button
+              onClick={() => onReview('rejected')}
+              disabled={busy}
+              className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-muted-foreground transition-colors hover:border-rose-500/40 hover:text-rose-500 disabled:opacity-40"
+            >
+              Reject
+            </button>
+          </div>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Drafts waiting for an editor before they reach the feed. The scheduler
+ * writes here instead of publishing when AI_DESK_REVIEW is on; an approved
+ * draft goes out at its scheduled time, or straight away if that has passed.
+ */
+export default function ReviewInbox() {
+  const [drafts, setDrafts] = useState<Draft[] | null>(null);
+  const [rejected, setRejected] = useState<FeedPost[]>([]);
+  const [reviewRequired, setReviewRequired] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/ai/review');
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Failed to load'); setDrafts([]); return; }
+      setDrafts(d.drafts ?? []);
+      setRejected(d.rejected ?? []);
+      setReviewRequired(!!d.reviewRequired);
+      setSelected(s => new Set([...s].filter(id => d.drafts?.some((p: Draft) => p.id === id))));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setDrafts([]);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const review = async (ids: string[], status: 'approved' | 'rejected') => {
+    setBusy(true); setError(null);
+    try {
+      const res = await fetch('/api/ai/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids, status }),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Failed'); return; }
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = (id: string, on: boolean) =>
+    setSelected(s => { const next = new Set(s); if (on) next.add(id); else next.delete(id); return next; });
+
+  if (!drafts) return <div className="mb-6 flex justify-center py-6"><LoadingSpinner /></div>;
+  if (!reviewRequired && drafts.length === 0) {
+    return (
+      <p className="mb-6 text-[11px] text-muted-foreground">
+        Scheduler output publishes on its own. Set <code className="font-mono text-foreground">AI_DESK_REVIEW=1</code> to
+        have it wait here for approval instead.
+      </p>
+    );
+  }
+
+  const allIds = drafts.map(p => p.id);
+  return (
+    <section className="mb-6 rounded-xl border border-border bg-card p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+            Review inbox · {drafts.length} draft{drafts.length === 1 ? '' : 's'}
+          </h2>
+          <p className="mt-1 text-[11px] text-muted-foreground">
+            {reviewRequired
+              ? 'Scheduler output waits here until someone approves it.'
+              : 'Review is off, so new scheduler output publishes on its own; these were written while it was on.'}
+          </p>
+        </div>
+        {drafts.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setSelected(selected.size === allIds.length ? new Set() : new Set(allIds))}
+              className="text-[11px] font-semibold text-primary hover:underline"
+            >
+              {selected.size === allIds.length ? 'Select none' : 'Select all'}
+            </button>
+            <button onClick={() => review([...selected], 'approved')} disabled={busy || !selected.size} className={BUTTON}>
+              Approve {selected.size || ''}
+            </button>
+            <button onClick={() => review([...selected], 'rejected')} disabled={busy || !selected.size} className={BUTTON}>
+              Reject {selected.size || ''}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-3 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>
+      )}
+
+      {drafts.length === 0 ? (
+        <p className="py-6 text-center text-xs text-muted-foreground">Nothing is waiting for review.</p>
+      ) : (
+        <ul className="mt-3">
+          {drafts.map(p => (
+            <DraftRow
+              key={p.id}
+              draft={p}
+              selected={selected.has(p.id)}
+              onSelect={on => toggle(p.id, on)}
+              onSaved={post => setDrafts(ds => (ds ?? []).map(x => (x.id === post.id ? post : x)))}
+              onReview={status => review([p.id], status)}
+            />
+          ))}
+        </ul>
+      )}
+
+      {rejected.length > 0 && (
+        <details className="mt-3">
+          <summary className="cursor-pointer text-[11px] font-semibold text-muted-foreground">
+            Recently rejected ({rejected.length})
+          </summary>
+          <ul className="mt-2 space-y-1.5">
+            {rejected.map(p => (
+              <li key={p.id} className="flex flex-wrap items-baseline gap-2 text-[11px] text-muted-foreground">
+                <span className="font-semibold text-foreground">{p.personaName}</span>
+                <span className="min-w-0 flex-1 truncate">{summary(p.content)}</span>
+                {p.review && <span>by {p.review.by}</span>}
+                <button onClick={() => review([p.id], 'approved')} disabled={busy} className="font-semibold text-primary hover:underline">
+                  Approve instead
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </section>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
-import { CheckIcon, ArrowPathIcon, LockClosedIcon, EyeIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+import { CheckIcon, ArrowPathIcon, EyeIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
 import type { ThemeConfig, FontPairKey, TxColors, PaletteKey, BackgroundStyle, MotionLevel } from '@/lib/themeConfig';
 import { accentPresets, fontPairs, txColorPresets, DEFAULT_THEME, palettes, buildThemeCss } from '@/lib/themeConfig';
 import { cn } from '@/lib/utils';
@@ -168,15 +168,12 @@ function Preview({ h, s, radius, lightness = 44 }: { h: number; s: number; radiu
 // ─── Main page ────────────────────────────────────────────────────────────────
 
 /**
- * Theme editor. Rendered inside the single admin shell, which owns the
- * password gate, so `adminPassword` arrives already verified.
+ * Theme editor. Rendered inside the single admin shell, which owns sign-in;
+ * the session cookie goes along with every request.
  */
-export default function AppearanceEditor({ adminPassword }: { adminPassword: string }) {
+export default function AppearanceEditor() {
   const router = useRouter();
 
-  const [authed,    setAuthed]    = useState(true);
-  const [password,  setPassword]  = useState(adminPassword);
-  const [authError, setAuthError] = useState('');
   const [loading,   setLoading]   = useState(false);
   const [saved,     setSaved]     = useState(false);
   const [saveError, setSaveError] = useState('');
@@ -189,21 +186,19 @@ export default function AppearanceEditor({ adminPassword }: { adminPassword: str
   const [customHexDark,  setCustomHexDark]  = useState(hslToHex(DEFAULT_THEME.primaryH,      DEFAULT_THEME.primaryS,      44));
   const [customHexLight, setCustomHexLight] = useState(hslToHex(DEFAULT_THEME.primaryHLight,  DEFAULT_THEME.primarySLight,  35));
 
-  // Apply CSS variables immediately whenever theme state changes (once authed)
+  // Apply CSS variables immediately whenever theme state changes
   useEffect(() => {
-    if (authed) applyThemePreview(theme);
-  }, [theme, authed]);
+    applyThemePreview(theme);
+  }, [theme]);
 
   // Drop the preview override when leaving the page, so an unsaved experiment
   // doesn't follow the admin around the rest of the app.
   useEffect(() => clearThemePreview, []);
 
 
-  // Load current theme once authenticated
-  const loadTheme = useCallback(async (pwd: string) => {
-    const res = await fetch('/api/admin/theme', {
-      headers: { 'x-admin-password': pwd },
-    });
+  // Load the saved theme
+  const loadTheme = useCallback(async () => {
+    const res = await fetch('/api/admin/theme');
     if (res.ok) {
       const data: ThemeConfig = await res.json();
       const merged = { ...DEFAULT_THEME, ...data };
@@ -214,30 +209,7 @@ export default function AppearanceEditor({ adminPassword }: { adminPassword: str
   }, []);
 
   // The shell already authenticated, so pull the saved theme straight away.
-  useEffect(() => { loadTheme(adminPassword); }, [adminPassword, loadTheme]);
-
-  const handleLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setAuthError('');
-    try {
-      const res = await fetch('/api/admin/auth', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password }),
-      });
-      if (res.ok) {
-        setAuthed(true);
-        await loadTheme(password);
-      } else {
-        setAuthError('Incorrect password.');
-      }
-    } catch {
-      setAuthError('Connection error. Try again.');
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => { loadTheme(); }, [loadTheme]);
 
   const handleSave = async () => {
     setLoading(true);
@@ -245,10 +217,7 @@ export default function AppearanceEditor({ adminPassword }: { adminPassword: str
     try {
       const res = await fetch('/api/admin/theme', {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-admin-password': password,
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(theme),
       });
       if (!res.ok) {
@@ -270,10 +239,7 @@ export default function AppearanceEditor({ adminPassword }: { adminPassword: str
   const handleReset = async () => {
     setResetting(true);
     try {
-      const res = await fetch('/api/admin/theme', {
-        method: 'DELETE',
-        headers: { 'x-admin-password': password },
-      });
+      const res = await fetch('/api/admin/theme', { method: 'DELETE' });
       if (res.ok) {
         const defaults: ThemeConfig = await res.json();
         const merged = { ...DEFAULT_THEME, ...defaults };
@@ -337,64 +303,6 @@ export default function AppearanceEditor({ adminPassword }: { adminPassword: str
     setCustomHexLight(hslToHex(p.accentLight.h, p.accentLight.s, p.accentLight.l));
   };
 
-  // ── Login gate ──
-  if (!authed) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background p-4">
-        <motion.div
-          initial={{ opacity: 0, y: 16 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="w-full max-w-sm"
-        >
-          <div className="rounded-lg border border-border bg-card p-8 space-y-6">
-            <div className="flex items-center gap-3">
-              <div className="flex h-9 w-9 items-center justify-center rounded-md bg-primary/10 text-primary">
-                <LockClosedIcon className="h-5 w-5" />
-              </div>
-              <div>
-                <h1 className="font-display text-lg font-semibold text-foreground">Appearance</h1>
-                <p className="text-xs text-muted-foreground">Admin access required</p>
-              </div>
-            </div>
-
-            <form onSubmit={handleLogin} className="space-y-4">
-              <div>
-                <label className="block text-xs font-medium text-muted-foreground mb-1.5">
-                  Admin password
-                </label>
-                <input
-                  type="password"
-                  value={password}
-                  onChange={e => setPassword(e.target.value)}
-                  className="
-                    w-full rounded-md border border-border bg-background px-3 py-2
-                    text-sm text-foreground placeholder:text-muted-foreground
-                    focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary
-                  "
-                  placeholder="Enter password"
-                  autoFocus
-                />
-              </div>
-              {authError && (
-                <p className="text-xs text-destructive">{authError}</p>
-              )}
-              <button
-                type="submit"
-                disabled={loading || !password}
-                className="
-                  w-full rounded-md bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground
-                  hover:opacity-90 disabled:opacity-40 disabled:cursor-not-allowed
-                "
-              >
-                {loading ? 'Signing in…' : 'Sign in'}
-              </button>
-            </form>
-          </div>
-        </motion.div>
-      </div>
-    );
-  }
-
   // ── Editor ──
   return (
     <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
@@ -0,0 +1,269 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import type { Amendment, AmendmentStatus, ConstitutionVersion } from '@/lib/constitutionStore';
+import type { DriftReport } from '@/lib/constitutionDrift';
+import Redline from '@/app/constitution/Redline';
+import DriftNotice from '@/app/constitution/DriftNotice';
+
+type ListedAmendment = Amendment & { status: AmendmentStatus };
+
+const BUTTON =
+  'rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40';
+const INPUT =
+  'w-full rounded-md border border-border bg-background px-2 py-1.5 text-xs text-foreground focus:border-primary focus:outline-none';
+
+/**
+ * The constitution's text and the amendments waiting on the commissioner.
+ * Every save is a new version; nothing published is ever overwritten.
+ */
+export default function ConstitutionAdmin() {
+  const [versions, setVersions] = useState<ConstitutionVersion[] | null>(null);
+  const [amendments, setAmendments] = useState<ListedAmendment[]>([]);
+  const [drift, setDrift] = useState<DriftReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/constitution');
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Failed to load'); return; }
+      setVersions(d.versions);
+      setAmendments(d.amendments ?? []);
+      setDrift(d.drift ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  if (!versions) {
+    return error ? (
+      <p className="rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>
+    ) : (
+      <div className="flex justify-center py-6"><LoadingSpinner /></div>
+    );
+  }
+
+  const current = versions[versions.length - 1];
+  return (
+    <div className="space-y-6">
+      {drift && <DriftNotice report={drift} sectionHref={id => `/constitution#${id}`} />}
+      <AmendmentQueue amendments={amendments} versions={versions} current={current} onChange={load} />
+      <Editor key={current.version} current={current} onPublished={load} />
+    </div>
+  );
+}
+
+function Editor({ current, onPublished }: { current: ConstitutionVersion; onPublished: () => void }) {
+  const [markdown, setMarkdown] = useState(current.markdown);
+  const [description, setDescription] = useState(current.description ?? '');
+  const [note, setNote] = useState('');
+  const [preview, setPreview] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dirty = markdown !== current.markdown || description !== (current.description ?? '');
+
+  const publish = async () => {
+    setBusy(true); setError(null);
+    try {
+      const res = await fetch('/api/admin/constitution', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ markdown, description, note }),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Failed to publish'); return; }
+      onPublished();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-border bg-card p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+          Constitution · v{current.version}
+        </h2>
+        <Link href="/constitution#history" className="text-[11px] font-semibold text-primary hover:underline">
+          Version history
+        </Link>
+      </div>
+      <p className="mt-1 text-[11px] text-muted-foreground">
+        Markdown. Headings (## and ###) become sections, and their titles become the links cited from the trade
+        docket and the integrity queues, so rename one with care.
+      </p>
+
+      <input
+        value={description}
+        onChange={e => setDescription(e.target.value)}
+        placeholder="Description shown under the title"
+        className={cn(INPUT, 'mt-3')}
+      />
+      <div className="mt-2 flex justify-end">
+        <button onClick={() => setPreview(p => !p)} disabled={!dirty} className="text-[11px] font-semibold text-primary hover:underline disabled:opacity-40">
+          {preview ? 'Edit' : 'Preview changes'}
+        </button>
+      </div>
+      <div className="mt-1">
+        {preview && dirty ? (
+          <Redline before={current.markdown} after={markdown} />
+        ) : (
+          <textarea
+            value={markdown}
+            onChange={e => setMarkdown(e.target.value)}
+            rows={24}
+            className={cn(INPUT, 'font-mono')}
+          />
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-3 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>
+      )}
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <input
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="What changed and why, for the version history"
+          className={cn(INPUT, 'min-w-0 flex-1')}
+        />
+        <button onClick={publish} disabled={busy || !dirty || !note.trim()} className={BUTTON}>
+          {busy ? 'Publishing…' : 'Publish as new version'}
+        </button>
+        {dirty && (
+          <button
+            onClick={() => { setMarkdown(current.markdown); setDescription(current.description ?? ''); setPreview(false); }}
+            disabled={busy}
+            className={BUTTON}
+          >
+            Discard
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
+
+function AmendmentQueue({
+  amendments, versions, current, onChange,
+}: {
+  amendments: ListedAmendment[];
+  versions: ConstitutionVersion[];
+  current: ConstitutionVersion;
+  onChange: () => void;
+}) {
+  const [open, setOpen] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pending = amendments.filter(a => !a.resolution);
+
+  const resolve = async (amendmentId: string, outcome: 'merged' | 'rejected') => {
+    setBusy(true); setError(null);
+    try {
+      const res = await fetch('/api/admin/constitution', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amendmentId, outcome, note }),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Failed'); return; }
+      setNote(''); setOpen(null);
+      onChange();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-border bg-card p-4">
+      <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+        Amendments · {pending.length} pending
+      </h2>
+      <p className="mt-1 text-[11px] text-muted-foreground">
+        Managers propose and vote on the constitution page. A ratified amendment merges as the next version;
+        one written against an older version has to be proposed again.
+      </p>
+
+      {error && (
+        <p className="mt-3 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>
+      )}
+
+      {pending.length === 0 ? (
+        <p className="py-6 text-center text-xs text-muted-foreground">No amendments are waiting.</p>
+      ) : (
+        <ul className="mt-3">
+          {pending.map(a => {
+            const yes = a.votes.filter(v => v.vote === 'yes').length;
+            const no = a.votes.filter(v => v.vote === 'no').length;
+            const stale = a.baseVersion !== current.version;
+            const base = versions.find(v => v.version === a.baseVersion);
+            return (
+              <li key={a.id} className="border-b border-border py-3 last:border-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={cn(
+                    'rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider',
+                    a.status === 'ratified' ? 'bg-emerald-500/10 text-emerald-500'
+                      : a.status === 'failed' ? 'bg-rose-500/10 text-rose-500'
+                      : 'bg-primary/10 text-primary',
+                  )}>
+                    {a.status}
+                  </span>
+                  <span className="text-[11px] text-muted-foreground">
+                    {yes} yes · {no} no · {a.votesNeeded} of {a.electorate} needed · by {a.proposedBy.teamName}
+                  </span>
+                  {stale && <span className="text-[11px] font-semibold text-amber-500">Written against v{a.baseVersion}</span>}
+                </div>
+                <p className="mt-1.5 text-sm font-semibold text-foreground">{a.title}</p>
+                <p className="mt-0.5 text-xs text-muted-foreground">{a.rationale}</p>
+
+                {open === a.id ? (
+                  <div className="mt-2 space-y-2">
+                    {base && <Redline before={base.markdown} after={a.markdown} />}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                        placeholder="Note (optional)"
+                        className={cn(INPUT, 'min-w-0 flex-1')}
+                      />
+                      <button
+                        onClick={() => resolve(a.id, 'merged')}
+                        disabled={busy || a.status !== 'ratified' || stale}
+                        className={BUTTON}
+                      >
+                        Merge
+                      </button>
+                      <button
+                        onClick={() => resolve(a.id, 'rejected')}
+                        disabled={busy}
+                        className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-muted-foreground transition-colors hover:border-rose-500/40 hover:text-rose-500 disabled:opacity-40"
+                      >
+                        Reject
+                      </button>
+                      <button onClick={() => setOpen(null)} disabled={busy} className={BUTTON}>Close</button>
+                    </div>
+                  </div>
+                ) : (
+                  <button onClick={() => { setOpen(a.id); setNote(''); }} className="mt-2 text-[11px] font-semibold text-primary hover:underline">
+                    Review
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
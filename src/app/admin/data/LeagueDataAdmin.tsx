@@ -0,0 +1,147 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import type { ArchiveStatus } from '@/lib/seasonArchive';
+import type { CacheStats } from '@/lib/dataCache';
+
+/**
+ * The league data behind every page: which past seasons are frozen, and how
+ * the shared Sleeper cache is doing on the instance that answered.
+ */
+export default function LeagueDataAdmin() {
+  const [seasons, setSeasons] = useState<ArchiveStatus[] | null>(null);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [rebuilding, setRebuilding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [a, c] = await Promise.all([
+        fetch('/api/admin/archive').then(r => r.json()),
+        fetch('/api/admin/cache').then(r => r.json()),
+      ]);
+      if (a.error) setError(a.error);
+      setSeasons(a.seasons ?? []);
+      if (!c.error) setStats(c);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setSeasons([]);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const rebuild = useCallback(async (leagueId: string) => {
+    setRebuilding(leagueId); setError(null);
+    try {
+      const res = await fetch('/api/admin/archive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leagueId }),
+      });
+      const d = await res.json();
+      if (!res.ok) setError(d.error ?? 'Rebuild failed');
+      else setSeasons(ss => (ss ?? []).map(s => (s.leagueId === leagueId ? d.season : s)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRebuilding(null);
+    }
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      {/* ── Season archive ── */}
+      <section className="rounded-xl border border-border bg-card p-4">
+        <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+          Season archive
+        </h2>
+        <p className="mt-1 text-[11px] text-muted-foreground">
+          Completed seasons are frozen the first time anything reads them, and every page
+          reads the snapshot from then on. Rebuild a season if Sleeper corrected it afterwards.
+        </p>
+
+        {error && (
+          <p className="mt-3 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">
+            {error}
+          </p>
+        )}
+
+        {!seasons ? (
+          <div className="flex justify-center py-6"><LoadingSpinner /></div>
+        ) : (
+          <ul className="mt-3">
+            {seasons.map(s => (
+              <li key={s.leagueId} className="flex items-center gap-3 border-b border-border py-2.5 last:border-0">
+                <span className="w-12 font-mono text-sm font-semibold text-foreground">{s.season}</span>
+                <span className="min-w-0 flex-1 text-[11px] text-muted-foreground">
+                  {s.frozenAt
+                    ? <>Frozen {new Date(s.frozenAt).toLocaleString()} · {s.weeks} weeks · {s.transactions} transactions</>
+                    : s.status === 'complete' ? 'Complete, frozen on next read' : `In progress (${s.status.replace('_', ' ')})`}
+                </span>
+                <span className={cn('h-2 w-2 shrink-0 rounded-full', s.frozenAt ? 'bg-emerald-500' : 'bg-muted-foreground/40')} />
+                <button
+                  onClick={() => rebuild(s.leagueId)}
+                  disabled={s.status !== 'complete' || rebuilding !== null}
+                  className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40"
+                >
+                  {rebuilding === s.leagueId ? 'Rebuilding…' : s.frozenAt ? 'Rebuild' : 'Freeze'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* ── Cache ── */}
+      <section className="rounded-xl border border-border bg-card p-4">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+            Sleeper cache
+          </h2>
+          <button onClick={load}
+            className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary">
+            Refresh
+          </button>
+        </div>
+        {stats ? (
+          <>
+            <p className="mt-1 text-[11px] text-muted-foreground">
+              {stats.backend} · {stats.entries} entries · counting since {new Date(stats.since).toLocaleString()}
+            </p>
+            <table className="mt-3 w-full text-[11px]">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 font-medium">Endpoint</th>
+                  <th className="py-1 text-right font-medium">Hits</th>
+                  <th className="py-1 text-right font-medium">Stale</th>
+                  <th className="py-1 text-right font-medium">Redis</th>
+                  <th className="py-1 text-right font-medium">Misses</th>
+                  <th className="py-1 text-right font-medium">Joined</th>
+                  <th className="py-1 text-right font-medium">Errors</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-foreground">
+                {Object.entries(stats.byEndpoint).map(([name, c]) => (
+                  <tr key={name} className="border-t border-border">
+                    <td className="py-1">{name}</td>
+                    <td className="py-1 text-right">{c.hits}</td>
+                    <td className="py-1 text-right">{c.staleHits}</td>
+                    <td className="py-1 text-right">{c.redisHits}</td>
+                    <td className="py-1 text-right">{c.misses}</td>
+                    <td className="py-1 text-right">{c.coalesced}</td>
+                    <td className={cn('py-1 text-right', c.errors > 0 && 'text-red-500')}>{c.errors}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        ) : (
+          <p className="mt-1 text-[11px] text-muted-foreground">No cache activity yet.</p>
+        )}
+      </section>
+    </div>
+  );
+}
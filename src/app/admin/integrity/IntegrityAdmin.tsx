@@ -0,0 +1,175 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import type { IntegrityFinding, IntegrityFindingKind, IntegrityReview } from '@/lib/tradeIntegrity';
+
+const KIND_LABEL: Record<IntegrityFindingKind, string> = {
+  loan: 'Loan trade',
+  'value-gap': 'Value gap',
+  'one-way': 'One-way dealing',
+};
+
+const BUTTON =
+  'rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40';
+
+function FindingCard({
+  f, onReview,
+}: {
+  f: IntegrityFinding;
+  onReview: (status: IntegrityReview['status'], note: string) => Promise<void>;
+}) {
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const review = async (status: IntegrityReview['status']) => {
+    setBusy(true);
+    await onReview(status, note);
+    setBusy(false);
+  };
+
+  return (
+    <li className="border-b border-border py-3 last:border-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+          {KIND_LABEL[f.kind]}
+        </span>
+        <span className={cn(
+          'rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider',
+          f.severity === 'high' ? 'bg-rose-500/10 text-rose-500' : 'bg-amber-500/10 text-amber-500',
+        )}>
+          {f.severity}
+        </span>
+        <Link href={`/constitution#${f.sectionId}`} className="text-[11px] font-semibold text-primary hover:underline">
+          Constitution
+        </Link>
+      </div>
+      <p className="mt-1.5 text-sm font-semibold text-foreground">{f.title}</p>
+      <p className="mt-0.5 text-xs text-muted-foreground">{f.detail}</p>
+      <p className="mt-1 text-[11px] text-muted-foreground">
+        {f.trades.map(t => `${t.season} Wk ${t.week}`).join(' · ')}
+      </p>
+
+      {f.review ? (
+        <p className="mt-2 text-[11px] text-muted-foreground">
+          <span className={cn('font-semibold', f.review.status === 'confirmed' ? 'text-rose-500' : 'text-emerald-500')}>
+            {f.review.status === 'confirmed' ? 'Confirmed' : 'Cleared'}
+          </span>
+          {' '}by {f.review.by}, {new Date(f.review.at).toLocaleDateString()}
+          {f.review.note && `: ${f.review.note}`}
+        </p>
+      ) : (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <input
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="min-w-0 flex-1 rounded-md border border-border bg-background px-2 py-1.5 text-xs text-foreground focus:border-primary focus:outline-none"
+          />
+          <button onClick={() => review('cleared')} disabled={busy} className={BUTTON}>Clear</button>
+          <button
+            onClick={() => review('confirmed')}
+            disabled={busy}
+            className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-muted-foreground transition-colors hover:border-rose-500/40 hover:text-rose-500 disabled:opacity-40"
+          >
+            Confirm violation
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * The commissioner's review queue: trades the detector thinks may be loans
+ * or collusion. Clearing or confirming one only records the decision; any
+ * reversal still happens in Sleeper.
+ */
+export default function IntegrityAdmin() {
+  const [findings, setFindings] = useState<IntegrityFinding[] | null>(null);
+  const [weeks, setWeeks] = useState(8);
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (loanWeeks: number) => {
+    setFindings(null); setError(null);
+    try {
+      const d = await fetch(`/api/admin/integrity?weeks=${loanWeeks}`).then(r => r.json());
+      if (d.error) setError(d.error);
+      setFindings(d.findings ?? []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setFindings([]);
+    }
+  }, []);
+
+  useEffect(() => { load(weeks); }, [load, weeks]);
+
+  const review = useCallback(async (findingId: string, status: IntegrityReview['status'], note: string) => {
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/integrity', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ findingId, status, note }),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Review failed'); return; }
+      setFindings(fs => (fs ?? []).map(f => (f.id === findingId ? { ...f, review: d.review } : f)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  const open = findings?.filter(f => !f.review) ?? [];
+  const shown = showReviewed ? findings ?? [] : open;
+
+  return (
+    <section className="rounded-xl border border-border bg-card p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+          Trade integrity review{findings && ` · ${open.length} open`}
+        </h2>
+        <div className="flex items-center gap-3 text-[11px] text-muted-foreground">
+          <label className="flex items-center gap-1.5">
+            Loans returned within
+            <select
+              value={weeks}
+              onChange={e => setWeeks(Number(e.target.value))}
+              className="rounded border border-border bg-background px-1.5 py-0.5 text-[11px] text-foreground"
+            >
+              {[2, 4, 8, 12, 17].map(w => <option key={w} value={w}>{w} weeks</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={showReviewed} onChange={e => setShowReviewed(e.target.checked)} />
+            Show reviewed
+          </label>
+        </div>
+      </div>
+      <p className="mt-1 text-[11px] text-muted-foreground">
+        Trades returned between the same two managers, trades where one side got nearly all the value, and
+        pairs of managers where the same one keeps winning. A finding is a reason to look, not a verdict.
+      </p>
+
+      {error && (
+        <p className="mt-3 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">
+          {error}
+        </p>
+      )}
+
+      {!findings ? (
+        <div className="flex justify-center py-6"><LoadingSpinner /></div>
+      ) : shown.length === 0 ? (
+        <p className="py-6 text-center text-xs text-muted-foreground">
+          {findings.length ? 'Everything has been reviewed.' : 'Nothing to review. Every trade looks clean.'}
+        </p>
+      ) : (
+        <ul className="mt-3">
+          {shown.map(f => <FindingCard key={f.id} f={f} onReview={(status, note) => review(f.id, status, note)} />)}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import type { TankingFlag, TankingReport } from '@/lib/tanking';
+import type { IntegrityReview } from '@/lib/tradeIntegrity';
+
+const BUTTON =
+  'rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40';
+
+function FlagCard({
+  f, onReview,
+}: {
+  f: TankingFlag;
+  onReview: (status: IntegrityReview['status'], note: string) => Promise<void>;
+}) {
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const review = async (status: IntegrityReview['status']) => {
+    setBusy(true);
+    await onReview(status, note);
+    setBusy(false);
+  };
+
+  return (
+    <li className="border-b border-border py-3 last:border-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+          Week {f.week}
+        </span>
+        <span className={cn(
+          'rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider',
+          f.severity === 'high' ? 'bg-rose-500/10 text-rose-500' : 'bg-amber-500/10 text-amber-500',
+        )}>
+          {f.severity}
+        </span>
+        {f.eliminated && (
+          <span className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+            Eliminated
+          </span>
+        )}
+        <Link href="/constitution#tanking" className="text-[11px] font-semibold text-primary hover:underline">
+          Constitution
+        </Link>
+      </div>
+      <p className="mt-1.5 text-sm font-semibold text-foreground">
+        {f.teamName} started {f.actual.toFixed(1)} of a possible {f.optimal.toFixed(1)} ({f.efficiency}%)
+      </p>
+      {f.lostGame && (
+        <p className="mt-0.5 text-xs text-muted-foreground">
+          Lost to {f.lostGame.opponent} ({f.lostGame.opponentPoints.toFixed(1)}), a game the best lineup would have won.
+        </p>
+      )}
+      <ul className="mt-1 list-disc pl-4 text-xs text-muted-foreground">
+        {f.evidence.map(e => <li key={e}>{e}</li>)}
+      </ul>
+      {!f.ranked && (
+        <p className="mt-1 text-[11px] text-muted-foreground">No FantasyPros ranks were archived for this week.</p>
+      )}
+
+      {f.review ? (
+        <p className="mt-2 text-[11px] text-muted-foreground">
+          <span className={cn('font-semibold', f.review.status === 'confirmed' ? 'text-rose-500' : 'text-emerald-500')}>
+            {f.review.status === 'confirmed' ? 'Confirmed' : 'Cleared'}
+          </span>
+          {' '}by {f.review.by}, {new Date(f.review.at).toLocaleDateString()}
+          {f.review.note && `: ${f.review.note}`}
+        </p>
+      ) : (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <input
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="min-w-0 flex-1 rounded-md border border-border bg-background px-2 py-1.5 text-xs text-foreground focus:border-primary focus:outline-none"
+          />
+          <button onClick={() => review('cleared')} disabled={busy} className={BUTTON}>Clear</button>
+          <button
+            onClick={() => review('confirmed')}
+            disabled={busy}
+            className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-muted-foreground transition-colors hover:border-rose-500/40 hover:text-rose-500 disabled:opacity-40"
+          >
+            Confirm tanking
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Lineups this season that gave away a lot of points through choices that
+ * were bad before kickoff. Reviewing one only records the decision; the
+ * warning itself is the commissioner's to deliver.
+ */
+export default function TankingAdmin() {
+  const [report, setReport] = useState<TankingReport | null>(null);
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/tanking');
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Failed to check lineups'); return; }
+      setReport(d);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const send = useCallback(async (method: 'POST' | 'PATCH', body: object) => {
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/tanking', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Request failed'); return null; }
+      return d;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return null;
+    }
+  }, []);
+
+  const review = async (flagId: string, status: IntegrityReview['status'], note: string) => {
+    const d = await send('POST', { flagId, status, note });
+    if (d) setReport(r => r && { ...r, flags: r.flags.map(f => (f.id === flagId ? { ...f, review: d.review } : f)) });
+  };
+
+  const toggleChat = async (chatTool: boolean) => {
+    const d = await send('PATCH', { chatTool });
+    if (d) setReport(r => r && { ...r, chatTool: d.chatTool });
+  };
+
+  const open = report?.flags.filter(f => !f.review) ?? [];
+  const shown = showReviewed ? report?.flags ?? [] : open;
+
+  return (
+    <section className="rounded-xl border border-border bg-card p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+          Tanking review{report && ` · ${open.length} open`}
+        </h2>
+        <div className="flex items-center gap-3 text-[11px] text-muted-foreground">
+          <label className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={report?.chatTool ?? false}
+              disabled={!report}
+              onChange={e => toggleChat(e.target.checked)}
+            />
+            Chat assistant can cite these
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={showReviewed} onChange={e => setShowReviewed(e.target.checked)} />
+            Show reviewed
+          </label>
+        </div>
+      </div>
+      <p className="mt-1 text-[11px] text-muted-foreground">
+        Lineups that started under 80% of their best possible points, with an empty slot, a starter who never played,
+        or a benched player the experts ranked as a clear starter.
+        {report && ` ${report.weeksChecked} weeks checked, ${report.weeksRanked} with archived FantasyPros ranks.`}
+      </p>
+
+      {error && (
+        <p className="mt-3 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">
+          {error}
+        </p>
+      )}
+
+      {!report ? (
+        !error && <div className="flex justify-center py-6"><LoadingSpinner /></div>
+      ) : shown.length === 0 ? (
+        <p className="py-6 text-center text-xs text-muted-foreground">
+          {report.flags.length ? 'Everything has been reviewed.' : 'Nothing to review. Every lineup looks like a real attempt to win.'}
+        </p>
+      ) : (
+        <ul className="mt-3">
+          {shown.map(f => <FlagCard key={f.id} f={f} onReview={(status, note) => review(f.id, status, note)} />)}
+        </ul>
+      )}
+    </section>
+  );
+}
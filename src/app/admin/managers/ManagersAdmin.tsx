@@ -0,0 +1,115 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Avatar from '@/components/ui/Avatar';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import type { LeagueManager } from '@/lib/managerContext';
+
+type ManagerRow = LeagueManager & { inviteIssuedAt: string | null };
+
+/**
+ * Invite codes, one per manager. A code is shown here once, when issued, and
+ * only its hash is kept, so a lost code is reissued rather than looked up.
+ */
+export default function ManagersAdmin() {
+  const [managers, setManagers] = useState<ManagerRow[] | null>(null);
+  const [codes, setCodes] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const d = await fetch('/api/admin/managers').then(r => r.json());
+      if (d.error) setError(d.error);
+      setManagers(d.managers ?? []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setManagers([]);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const act = useCallback(async (userId: string, method: 'POST' | 'DELETE') => {
+    setBusy(userId); setError(null);
+    try {
+      const res = await fetch('/api/admin/managers', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId }),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Request failed'); return; }
+      setCodes(cs => {
+        const next = { ...cs };
+        if (method === 'POST') next[userId] = d.code;
+        else delete next[userId];
+        return next;
+      });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  }, [load]);
+
+  return (
+    <section className="rounded-xl border border-border bg-card p-4">
+      <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+        Manager sign-in
+      </h2>
+      <p className="mt-1 text-[11px] text-muted-foreground">
+        Give each manager their code; they redeem it at /signin. Reissuing or revoking a code
+        signs that manager out on every device.
+      </p>
+
+      {error && (
+        <p className="mt-3 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">
+          {error}
+        </p>
+      )}
+
+      {!managers ? (
+        <div className="flex justify-center py-6"><LoadingSpinner /></div>
+      ) : (
+        <ul className="mt-3">
+          {managers.map(m => (
+            <li key={m.userId} className="flex flex-wrap items-center gap-3 border-b border-border py-2.5 last:border-0">
+              <Avatar avatarId={m.avatar} size={28} className="shrink-0 rounded" />
+              <span className="min-w-0 flex-1">
+                <span className="block truncate text-sm font-semibold text-foreground">{m.teamName}</span>
+                <span className="block text-[11px] text-muted-foreground">
+                  {m.inviteIssuedAt ? `Code issued ${new Date(m.inviteIssuedAt).toLocaleString()}` : 'No code yet'}
+                </span>
+              </span>
+              {codes[m.userId] && (
+                <code className="rounded-md border border-primary/30 bg-primary/10 px-2 py-1 font-mono text-sm font-bold tracking-widest text-primary">
+                  {codes[m.userId]}
+                </code>
+              )}
+              <span className={cn('h-2 w-2 shrink-0 rounded-full', m.inviteIssuedAt ? 'bg-emerald-500' : 'bg-muted-foreground/40')} />
+              <button
+                onClick={() => act(m.userId, 'POST')}
+                disabled={busy !== null}
+                className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40"
+              >
+                {busy === m.userId ? 'Working…' : m.inviteIssuedAt ? 'Reissue' : 'Issue code'}
+              </button>
+              {m.inviteIssuedAt && (
+                <button
+                  onClick={() => act(m.userId, 'DELETE')}
+                  disabled={busy !== null}
+                  className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-muted-foreground transition-colors hover:border-rose-500/40 hover:text-rose-500 disabled:opacity-40"
+                >
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import {
+  createAdminAccount, deleteAdminAccount, isAdminRole, listAdminAccounts, requireAdmin, updateAdminAccount,
+} from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+
+export const dynamic = 'force-dynamic';
+
+// Admin accounts are the commissioner's alone: a deputy who could make
+// accounts could make themselves a commissioner.
+
+export async function GET() {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  try {
+    return NextResponse.json({ accounts: await listAdminAccounts() });
+  } catch (err) {
+    console.error('[api/admin/accounts]', err);
+    return NextResponse.json({ error: 'Failed to load accounts' }, { status: 500 });
+  }
+}
+
+/** Create an account. Body: { name, role, password }. */
+export async function POST(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const { name, role, password } = (await request.json()) as { name?: string; role?: string; password?: string };
+    if (!isAdminRole(role)) return NextResponse.json({ error: 'role must be commissioner or deputy' }, { status: 400 });
+    const account = await createAdminAccount(String(name ?? ''), role, String(password ?? ''));
+    await appendAudit(admin, 'account.create', { target: account.name, detail: role });
+    return NextResponse.json({ account });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to create account' },
+      { status: 400 },
+    );
+  }
+}
+
+/** Change an account's role or password. Body: { id, role?, password? }. */
+export async function PATCH(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const { id, role, password } = (await request.json()) as { id?: string; role?: string; password?: string };
+    if (role !== undefined && !isAdminRole(role)) {
+      return NextResponse.json({ error: 'role must be commissioner or deputy' }, { status: 400 });
+    }
+    const account = await updateAdminAccount(String(id ?? ''), { role, password });
+    if (!account) return NextResponse.json({ error: 'No such account' }, { status: 404 });
+    const changed = [role && `role → ${role}`, password !== undefined && 'password'].filter(Boolean).join(', ');
+    await appendAudit(admin, 'account.update', { target: account.name, detail: changed });
+    return NextResponse.json({ account });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to update account' },
+      { status: 400 },
+    );
+  }
+}
+
+/** Delete an account, ending its sessions. Body: { id }. */
+export async function DELETE(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const { id } = (await request.json()) as { id?: string };
+    const name = (await listAdminAccounts()).find(a => a.id === id && !a.builtIn)?.name;
+    if (!id || !name || !(await deleteAdminAccount(id))) {
+      return NextResponse.json({ error: 'No such account' }, { status: 404 });
+    }
+    await appendAudit(admin, 'account.delete', { target: name });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error('[api/admin/accounts]', err);
+    return NextResponse.json({ error: 'Failed to delete account' }, { status: 500 });
+  }
+}
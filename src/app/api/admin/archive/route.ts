@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getRequestLinkedLeagueIds } from '@/lib/leagueContext';
+import { getOriginProvider } from '@/lib/providers';
+import { listArchiveStatus, rebuildSeason } from '@/lib/seasonArchive';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/** Every season of the current chain and whether it has been frozen. */
+export async function GET(request: Request) {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const leagueIds = await getRequestLinkedLeagueIds(request);
+    return NextResponse.json({ seasons: await listArchiveStatus(leagueIds, getOriginProvider()) });
+  } catch (err) {
+    console.error('[api/admin/archive]', err);
+    return NextResponse.json({ error: 'Failed to list seasons' }, { status: 500 });
+  }
+}
+
+/** Re-snapshot one completed season. Body: { leagueId }. */
+export async function POST(request: Request) {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const { leagueId } = await request.json();
+    const leagueIds = await getRequestLinkedLeagueIds(request);
+    if (typeof leagueId !== 'string' || !leagueIds.includes(leagueId)) {
+      return NextResponse.json({ error: 'Not a season of this league' }, { status: 400 });
+    }
+    const season = await rebuildSeason(leagueId, getOriginProvider());
+    await appendAudit(admin, 'archive.rebuild', { target: leagueId });
+    return NextResponse.json({ season });
+  } catch (err) {
+    console.error('[api/admin/archive]', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to rebuild season' },
+      { status: 500 },
+    );
+  }
+}
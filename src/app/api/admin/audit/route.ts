@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/adminAuth';
+import { listAudit } from '@/lib/auditLog';
+
+export const dynamic = 'force-dynamic';
+
+/** Recent admin changes, newest first. `?limit=` up to 1000. Read-only: the log cannot be edited. */
+export async function GET(request: Request) {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+  const limit = Math.min(Number(new URL(request.url).searchParams.get('limit')) || 200, 1000);
+  try {
+    return NextResponse.json({ entries: await listAudit(limit) });
+  } catch (err) {
+    console.error('[api/admin/audit]', err);
+    return NextResponse.json({ error: 'Failed to load the audit log' }, { status: 500 });
+  }
+}
@@ -1,24 +1,53 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { ADMIN_COOKIE, ADMIN_SESSION_MAX_AGE, getAdminSession, signInAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+import { clientIp, rateLimit } from '@/lib/rateLimit';
+import { canSignSessions } from '@/lib/sessionSigning';
 
-export async function POST(request: NextRequest) {
+export const dynamic = 'force-dynamic';
+
+// Per IP. Generous for a typo-prone commissioner, useless for guessing.
+const SIGNIN_LIMIT = 10;
+const SIGNIN_WINDOW_MS = 15 * 60 * 1000;
+
+/** The signed-in admin, or null. */
+export async function GET() {
+  return NextResponse.json({ admin: await getAdminSession() });
+}
+
+/** Sign in. Body: { name?, password }; no name is the built-in commissioner. */
+export async function POST(request: Request) {
+  if (!canSignSessions()) {
+    return NextResponse.json({ error: 'Sign-in is off until ADMIN_PASSWORD or SESSION_SECRET is set' }, { status: 503 });
+  }
+  const { ok } = await rateLimit(`lp_admin_signin_rl_${clientIp(request)}`, SIGNIN_LIMIT, SIGNIN_WINDOW_MS);
+  if (!ok) {
+    return NextResponse.json({ error: 'Too many attempts. Try again in a few minutes.' }, { status: 429 });
+  }
   try {
-    const { password } = await request.json();
-    
-    const adminPassword = process.env.ADMIN_PASSWORD || 'admin123'; // Default for development
-    
-    if (password === adminPassword) {
-      return NextResponse.json({ success: true });
-    } else {
-      return NextResponse.json(
-        { error: 'Invalid password' },
-        { status: 401 }
-      );
-    }
-  } catch (error) {
-    console.error('Auth error:', error);
-    return NextResponse.json(
-      { error: 'Authentication failed' },
-      { status: 500 }
-    );
+    const { name, password } = (await request.json()) as { name?: string; password?: string };
+    const result = await signInAdmin(String(name ?? ''), String(password ?? ''));
+    if (!result) return NextResponse.json({ error: 'Wrong name or password' }, { status: 401 });
+
+    await appendAudit(result.session, 'admin.signin');
+    const res = NextResponse.json({ admin: result.session });
+    res.cookies.set(ADMIN_COOKIE, result.token, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: ADMIN_SESSION_MAX_AGE,
+    });
+    return res;
+  } catch (err) {
+    console.error('[api/admin/auth]', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 500 });
   }
+}
+
+/** Sign out on this device. */
+export async function DELETE() {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.delete(ADMIN_COOKIE);
+  return res;
 }
\ No newline at end of file
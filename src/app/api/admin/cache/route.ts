@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getCacheStats } from '@/lib/dataCache';
+import { requireAdmin } from '@/lib/adminAuth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Hit/miss counters for the shared league-data cache, per endpoint.
+ *
+ * Counters are per instance and reset on a cold start, so on serverless this
+ * describes whichever instance answered. `redisHits` is the number to watch:
+ * it counts cold reads that Redis saved from a trip to Sleeper.
+ */
+export async function GET() {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+  return NextResponse.json(getCacheStats());
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+import {
+  ConstitutionError, amendmentStatus, getConstitutionVersions, listAmendments, publishConstitution,
+  resolveAmendment,
+} from '@/lib/constitutionStore';
+import { checkConstitutionDrift } from '@/lib/constitutionDrift';
+
+export const dynamic = 'force-dynamic';
+
+// The constitution has the Commissioner maintain the document, so editing it
+// and merging amendments are closed to deputies.
+
+/** Every version and every amendment, for the editor, and where the text has drifted from Sleeper. */
+export async function GET(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const [versions, amendments, drift] = await Promise.all([
+      getConstitutionVersions(league.rootLeagueId),
+      listAmendments(league.rootLeagueId),
+      getRequestLeagueId(request)
+        .then(leagueId => checkConstitutionDrift(league.rootLeagueId, leagueId))
+        .catch(err => { console.error('[api/admin/constitution] drift', err); return null; }),
+    ]);
+    return NextResponse.json({
+      versions,
+      amendments: amendments.map(a => ({ ...a, status: amendmentStatus(a) })),
+      drift,
+    });
+  } catch (err) {
+    console.error('[api/admin/constitution]', err);
+    return NextResponse.json({ error: 'Failed to load the constitution' }, { status: 500 });
+  }
+}
+
+/** Publish an edit as the next version. Body: { markdown, description, note }. */
+export async function POST(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const { markdown, description, note } = (await request.json()) as {
+      markdown?: string; description?: string; note?: string;
+    };
+    const version = await publishConstitution(league.rootLeagueId, admin, {
+      markdown: String(markdown ?? ''),
+      description: typeof description === 'string' ? description : undefined,
+      note: String(note ?? ''),
+    });
+    await appendAudit(admin, 'constitution.publish', { target: `v${version.version}`, detail: version.note });
+    return NextResponse.json({ version });
+  } catch (err) {
+    if (err instanceof ConstitutionError) return NextResponse.json({ error: err.message }, { status: 400 });
+    console.error('[api/admin/constitution]', err);
+    return NextResponse.json({ error: 'Failed to publish' }, { status: 500 });
+  }
+}
+
+/** Merge or reject an amendment. Body: { amendmentId, outcome: 'merged' | 'rejected', note }. */
+export async function PATCH(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const { amendmentId, outcome, note } = (await request.json()) as {
+      amendmentId?: string; outcome?: 'merged' | 'rejected'; note?: string;
+    };
+    if (!amendmentId || (outcome !== 'merged' && outcome !== 'rejected')) {
+      return NextResponse.json({ error: 'amendmentId and outcome are required' }, { status: 400 });
+    }
+    const amendment = await resolveAmendment(league.rootLeagueId, admin, amendmentId, outcome, String(note ?? ''));
+    await appendAudit(admin, outcome === 'merged' ? 'constitution.merge' : 'constitution.reject', {
+      target: amendment.title,
+      detail: amendment.resolution?.version ? `v${amendment.resolution.version}` : amendment.resolution?.note,
+    });
+    return NextResponse.json({ amendment: { ...amendment, status: amendmentStatus(amendment) } });
+  } catch (err) {
+    if (err instanceof ConstitutionError) return NextResponse.json({ error: err.message }, { status: 400 });
+    console.error('[api/admin/constitution]', err);
+    return NextResponse.json({ error: 'Failed to resolve the amendment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+import { getIntegrityFindings, reviewIntegrityFinding, type IntegrityReview } from '@/lib/tradeIntegrity';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Accusations of collusion are the commissioner's to weigh, so the queue is
+// closed to deputies as well as the public.
+
+/** Possible loan trades and collusion, unreviewed first. `?weeks=` sets the loan window. */
+export async function GET(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  const weeks = Number(new URL(request.url).searchParams.get('weeks'));
+  try {
+    const findings = await getIntegrityFindings(league.rootLeagueId, await getRequestLeagueId(request), {
+      loanWindowWeeks: weeks > 0 ? Math.min(weeks, 52) : undefined,
+    });
+    return NextResponse.json({ findings });
+  } catch (err) {
+    console.error('[api/admin/integrity]', err);
+    return NextResponse.json({ error: 'Failed to check trades' }, { status: 500 });
+  }
+}
+
+/** Review a finding. Body: { findingId, status: 'cleared' | 'confirmed', note }. */
+export async function POST(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const { findingId, status, note } = (await request.json()) as {
+      findingId?: string; status?: IntegrityReview['status']; note?: string;
+    };
+    if (!findingId || (status !== 'cleared' && status !== 'confirmed')) {
+      return NextResponse.json({ error: 'findingId and status are required' }, { status: 400 });
+    }
+    const review = await reviewIntegrityFinding(league.rootLeagueId, admin, findingId, status, String(note ?? ''));
+    await appendAudit(admin, 'integrity.review', { target: findingId, detail: `${status}${review.note ? `: ${review.note}` : ''}` });
+    return NextResponse.json({ review });
+  } catch (err) {
+    console.error('[api/admin/integrity]', err);
+    return NextResponse.json({ error: 'Failed to save the review' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { getLeagueManagers, issueInvite, listInvites, revokeInvite } from '@/lib/managerContext';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+
+export const dynamic = 'force-dynamic';
+
+// Issuing a code hands out someone's identity, so this is the commissioner's
+// alone; deputies cannot.
+
+/** Every manager in the league and when their current invite code was issued. */
+export async function GET(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const [managers, invites] = await Promise.all([
+      getLeagueManagers(await getRequestLeagueId(request)),
+      listInvites(),
+    ]);
+    return NextResponse.json({
+      managers: managers.map(m => ({ ...m, inviteIssuedAt: invites[m.userId] ?? null })),
+    });
+  } catch (err) {
+    console.error('[api/admin/managers]', err);
+    return NextResponse.json({ error: 'Failed to load managers' }, { status: 500 });
+  }
+}
+
+/** Issue (or reissue) a manager's invite code. Body: { userId }. The code is returned once. */
+export async function POST(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const { userId } = (await request.json()) as { userId?: string };
+    const managers = await getLeagueManagers(await getRequestLeagueId(request));
+    const manager = managers.find(m => m.userId === userId);
+    if (!userId || !manager) {
+      return NextResponse.json({ error: 'Not a manager in this league' }, { status: 400 });
+    }
+    const code = await issueInvite(userId);
+    await appendAudit(admin, 'invite.issue', { target: manager.teamName });
+    return NextResponse.json({ code });
+  } catch (err) {
+    console.error('[api/admin/managers]', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to issue code' },
+      { status: 500 },
+    );
+  }
+}
+
+/** Revoke a manager's code, signing them out everywhere. Body: { userId }. */
+export async function DELETE(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const { userId } = (await request.json()) as { userId?: string };
+    if (!userId) return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+    await revokeInvite(userId);
+    await appendAudit(admin, 'invite.revoke', { target: userId });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error('[api/admin/managers]', err);
+    return NextResponse.json({ error: 'Failed to revoke code' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeague } from '@/lib/leagueContext';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+import { ProtestError, ruleOnProtest, statusOf, type ProtestDecision } from '@/lib/tradeProtests';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Record a ruling on a trade protest. Body: { caseId, decision, note }.
+ * Deputies may rule: the constitution has them act when the Commissioner
+ * cannot, and rule instead when the Commissioner's own team is involved.
+ */
+export async function POST(request: Request) {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const { caseId, decision, note } = (await request.json()) as { caseId?: string; decision?: ProtestDecision; note?: string };
+    if (!caseId || (decision !== 'reversed' && decision !== 'stands')) {
+      return NextResponse.json({ error: 'caseId and decision are required' }, { status: 400 });
+    }
+    if (!note?.trim()) return NextResponse.json({ error: 'Give the reasoning for the ruling' }, { status: 400 });
+    const ruled = await ruleOnProtest(league.rootLeagueId, admin, caseId, decision, note);
+    await appendAudit(admin, 'protest.rule', {
+      target: ruled.trade.sides.map(s => s.teamName).join(' ⇄ '),
+      detail: `${decision}: ${ruled.ruling!.note}`,
+    });
+    return NextResponse.json({ case: { ...ruled, status: statusOf(ruled) } });
+  } catch (err) {
+    if (err instanceof ProtestError) return NextResponse.json({ error: err.message }, { status: 400 });
+    console.error('[api/admin/protests]', err);
+    return NextResponse.json({ error: 'Failed to record the ruling' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+import { getTankingReport, reviewTankingFlag, setTankingChatTool } from '@/lib/tanking';
+import type { IntegrityReview } from '@/lib/tradeIntegrity';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Like the trade integrity queue, tanking accusations are the commissioner's
+// to weigh, so deputies cannot read them either.
+
+/** This season's flagged lineups, unreviewed first. */
+export async function GET(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    return NextResponse.json(await getTankingReport(league.rootLeagueId, await getRequestLeagueId(request)));
+  } catch (err) {
+    console.error('[api/admin/tanking]', err);
+    return NextResponse.json({ error: 'Failed to check lineups' }, { status: 500 });
+  }
+}
+
+/** Review a flag. Body: { flagId, status: 'cleared' | 'confirmed', note }. */
+export async function POST(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const { flagId, status, note } = (await request.json()) as {
+      flagId?: string; status?: IntegrityReview['status']; note?: string;
+    };
+    if (!flagId || (status !== 'cleared' && status !== 'confirmed')) {
+      return NextResponse.json({ error: 'flagId and status are required' }, { status: 400 });
+    }
+    const review = await reviewTankingFlag(league.rootLeagueId, admin, flagId, status, String(note ?? ''));
+    await appendAudit(admin, 'tanking.review', { target: flagId, detail: `${status}${review.note ? `: ${review.note}` : ''}` });
+    return NextResponse.json({ review });
+  } catch (err) {
+    console.error('[api/admin/tanking]', err);
+    return NextResponse.json({ error: 'Failed to save the review' }, { status: 500 });
+  }
+}
+
+/** Lets the chat assistant look flags up, or stops it. Body: { chatTool: boolean }. */
+export async function PATCH(request: Request) {
+  const admin = await requireAdmin('commissioner');
+  if (admin instanceof NextResponse) return admin;
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const { chatTool } = (await request.json()) as { chatTool?: boolean };
+    if (typeof chatTool !== 'boolean') {
+      return NextResponse.json({ error: 'chatTool must be true or false' }, { status: 400 });
+    }
+    await setTankingChatTool(league.rootLeagueId, chatTool);
+    await appendAudit(admin, 'tanking.chat', { detail: chatTool ? 'on' : 'off' });
+    return NextResponse.json({ chatTool });
+  } catch (err) {
+    console.error('[api/admin/tanking]', err);
+    return NextResponse.json({ error: 'Failed to save' }, { status: 500 });
+  }
+}
@@ -1,13 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTheme, saveTheme, resetTheme } from '@/lib/themeStorage';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
 // Note: themeStorage is server-only (Node.js Redis / fs). This file is an API route so it's fine.
 
-function isAuthorized(req: NextRequest): boolean {
-  const password = req.headers.get('x-admin-password');
-  const expected = process.env.ADMIN_PASSWORD || 'admin123';
-  return password === expected;
-}
-
 export async function GET() {
   try {
     const theme = await getTheme();
@@ -19,13 +15,16 @@ export async function GET() {
 }
 
 export async function PUT(req: NextRequest) {
-  if (!isAuthorized(req)) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
 
   try {
     const body = await req.json();
+    const before = await getTheme();
     const updated = await saveTheme(body);
+    const changed = (Object.keys(updated) as (keyof typeof updated)[])
+      .filter(k => JSON.stringify(updated[k]) !== JSON.stringify(before[k]));
+    await appendAudit(admin, 'theme.save', { detail: changed.join(', ') || 'no changes' });
     return NextResponse.json(updated);
   } catch (err) {
     console.error('PUT /api/admin/theme error:', err);
@@ -33,13 +32,13 @@ export async function PUT(req: NextRequest) {
   }
 }
 
-export async function DELETE(req: NextRequest) {
-  if (!isAuthorized(req)) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+export async function DELETE() {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
 
   try {
     const reset = await resetTheme();
+    await appendAudit(admin, 'theme.reset');
     return NextResponse.json(reset);
   } catch (err) {
     console.error('DELETE /api/admin/theme error:', err);
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getAssistant, saveAssistant } from '@/lib/ai/store';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
 
 export const dynamic = 'force-dynamic';
 
@@ -14,16 +16,15 @@ export async function GET() {
 
 /** Admin write. */
 export async function POST(request: Request) {
-  const admin = process.env.ADMIN_PASSWORD;
-  if (admin && request.headers.get('x-admin-password') !== admin) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
   try {
     const body = await request.json();
     if (typeof body?.name !== 'string' || !body.name.trim()) {
       return NextResponse.json({ error: 'A name is required' }, { status: 400 });
     }
     await saveAssistant({ name: body.name });
+    await appendAudit(admin, 'assistant.rename', { detail: body.name.trim() });
     return NextResponse.json(await getAssistant());
   } catch (err) {
     return NextResponse.json(
@@ -3,11 +3,17 @@ import { NextResponse } from 'next/server';
 import { isAIConfigured } from '@/lib/ai/claude';
 import { writeArticle, writeTweet, writePowerRankings, writePredictions, angleAt } from '@/lib/ai/generate';
 import { getLeagueRosters, getLeagueUsers } from '@/lib/api';
-import { getCurrentLeagueId } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { getAdminSession } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+import { seedArgument } from '@/lib/ai/threads';
 import {
   addPost,
   getPersonalities,
+  getPopularPosts,
   getRecentSubjects,
+  getThreads,
+  isReviewRequired,
   lastGeneratedAt,
   lastPublishAt,
   type FeedPost,
@@ -51,13 +57,24 @@ const SPREAD_HOURS    = num('AI_SPREAD_HOURS', 22);
  */
 const TIME_BUDGET_MS = 40_000;
 
+/**
+ * Persona arguments started per run, under the posts managers are reacting to
+ * and replying under. Each is a few short comments, written with whatever time
+ * the batch leaves.
+ */
+const ARGUMENTS_PER_RUN = Math.min(num('AI_ARGUMENTS_PER_DAY', 1), 3);
+/** How far back a post can be and still draw an argument. */
+const ARGUMENT_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
 /** Guard against a double-trigger writing two batches the same day. */
 const RERUN_GUARD_MS  = num('AI_RERUN_GUARD_HOURS', 12) * 60 * 60 * 1000;
 
-function authorized(request: Request): boolean {
+async function authorized(request: Request): Promise<boolean> {
   const secret = process.env.CRON_SECRET;
-  if (!secret) return true; // unset locally so the admin panel can trigger it
-  return request.headers.get('authorization') === `Bearer ${secret}`;
+  if (!secret) return true; // unset locally
+  if (request.headers.get('authorization') === `Bearer ${secret}`) return true;
+  // The admin panel's "run now".
+  return !!(await getAdminSession());
 }
 
 /** Randomised, strictly increasing publish times across the window. The first
@@ -77,7 +94,7 @@ function pick<T>(list: T[]): T {
 }
 
 export async function GET(request: Request) {
-  if (!authorized(request)) {
+  if (!(await authorized(request))) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
   if (!isAIConfigured()) {
@@ -85,6 +102,8 @@ export async function GET(request: Request) {
   }
 
   const force = new URL(request.url).searchParams.get('force') === '1';
+  const admin = await getAdminSession();
+  if (force && admin) await appendAudit(admin, 'desk.run');
   const sinceGenerated = Date.now() - (await lastGeneratedAt());
   if (!force && sinceGenerated < RERUN_GUARD_MS) {
     return NextResponse.json({
@@ -101,7 +120,7 @@ export async function GET(request: Request) {
   // league written about instead.
   let subjects: string[] = [];
   try {
-    const leagueId = await getCurrentLeagueId();
+    const leagueId = await getRequestLeagueId();
     const [rosters, users] = await Promise.all([
       getLeagueRosters(leagueId), getLeagueUsers(leagueId),
     ]);
@@ -181,6 +200,10 @@ export async function GET(request: Request) {
     plan.push({ kind, persona });
   }
 
+  // With review on, the batch lands in the admin inbox as drafts. They still
+  // take their staggered slots, which an editor can move before approving.
+  const review = isReviewRequired();
+
   // Advances for every subject-bearing piece in this batch.
   let subjectCursor = 0;
   const written: { kind: string; persona: string; publishAt: string }[] = [];
@@ -234,6 +257,7 @@ export async function GET(request: Request) {
         createdAt: new Date().toISOString(),
         publishAt: new Date(times[slot]).toISOString(),
         source: 'cron',
+        status: review ? 'draft' : 'approved',
       };
       // Written one at a time so a later failure never discards earlier work.
       await addPost(post);
@@ -247,6 +271,23 @@ export async function GET(request: Request) {
     }
   }
 
+  // Arguments are seasoning, so they only get the time the batch left over,
+  // and a failure here never fails the run. Replies publish as they are
+  // written, so with review on the scheduler leaves threads alone.
+  let argued = 0;
+  if (written.length && !deferred && !review && ARGUMENTS_PER_RUN) {
+    try {
+      const popular = await getPopularPosts(ARGUMENT_WINDOW_MS, ARGUMENTS_PER_RUN);
+      const threads = await getThreads(popular.map(p => p.id));
+      for (const post of popular) {
+        if (Date.now() - startedAt > TIME_BUDGET_MS) break;
+        argued += await seedArgument(post, threads[post.id], people, startedAt + TIME_BUDGET_MS);
+      }
+    } catch (err) {
+      console.error('[api/ai/cron] argument failed:', err instanceof Error ? err.message : err);
+    }
+  }
+
   if (!written.length) {
     return NextResponse.json(
       { posted: 0, error: failures[0] ?? 'nothing generated', failures },
@@ -257,9 +298,11 @@ export async function GET(request: Request) {
   return NextResponse.json({
     posted: written.length,
     requested: POSTS_PER_RUN,
+    ...(review ? { review: true } : {}),
     ...(deferred ? { deferred, note: 'Ran out of time; the rest roll into the next run.' } : {}),
     spreadHours: SPREAD_HOURS,
     written,
+    ...(argued ? { replies: argued } : {}),
     ...(failures.length ? { failures } : {}),
   });
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { runDiagnostics } from '@/lib/ai/diagnostics';
+import { requireAdmin } from '@/lib/adminAuth';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
@@ -12,10 +13,8 @@ export const maxDuration = 60;
  * `?live=1` additionally spends one token proving the Anthropic key works.
  */
 export async function GET(request: Request) {
-  const admin = process.env.ADMIN_PASSWORD;
-  if (admin && request.headers.get('x-admin-password') !== admin) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
   const live = new URL(request.url).searchParams.get('live') === '1';
   try {
     return NextResponse.json(await runDiagnostics({ live }));
@@ -1,23 +1,26 @@
 import { NextResponse } from 'next/server';
-import { checkTradeClaims, loadTradeFacts } from '@/lib/ai/factCheck';
+import { checkClaims, loadResultFacts, loadTradeFacts } from '@/lib/ai/factCheck';
+import { requireAdmin } from '@/lib/adminAuth';
 
 export const dynamic = 'force-dynamic';
 
-/** Admin-only harness for exercising the trade-claim checker against copy. */
+/** Admin-only harness for exercising the fact checker against copy. */
 export async function POST(request: Request) {
-  const admin = process.env.ADMIN_PASSWORD;
-  if (admin && request.headers.get('x-admin-password') !== admin) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
   const { text, debug } = await request.json();
   if (debug) {
-    const { facts, teams } = await loadTradeFacts();
+    const [{ facts, teams }, results] = await Promise.all([loadTradeFacts(), loadResultFacts()]);
     return NextResponse.json({
       teams,
       players: [...facts.values()].map(f => ({
         player: f.player, received: [...f.receivedBy], gaveUp: [...f.gaveUpBy],
       })),
+      results: results.teams.map(t => ({
+        team: t.name, aliases: t.aliases,
+        record: t.record, games: t.games.length, titles: t.titles,
+      })),
     });
   }
-  return NextResponse.json({ problems: await checkTradeClaims(String(text ?? '')) });
+  return NextResponse.json({ problems: await checkClaims(String(text ?? '')) });
 }
@@ -2,21 +2,23 @@ import { personaAvatarUrl } from '@/lib/ai/avatar';
 import { NextRequest, NextResponse } from 'next/server';
 import { AINotConfiguredError, isAIConfigured } from '@/lib/ai/claude';
 import { personalityById, type ContentKind } from '@/lib/ai/personalities';
-import { writeArticle, writeTweet, writeComment, writePowerRankings, writePredictions, angleAt } from '@/lib/ai/generate';
+import {
+  writeArticle, writeTweet, writeComment, writePowerRankings, writePredictions, writeMatchupPreview,
+  writeWeeklyRecap, angleAt,
+} from '@/lib/ai/generate';
+import { buildPreviewSlate, buildRecapSlate, weeklyKey } from '@/lib/ai/weekly';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
 import { addPost, getPersonalities, type FeedPost } from '@/lib/ai/store';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
-function authorized(req: NextRequest): boolean {
-  return req.headers.get('x-admin-password') === (process.env.ADMIN_PASSWORD || 'admin123');
-}
-
 /** Admin-only: visitors read the feed, they never generate into it. */
 export async function POST(request: NextRequest) {
-  if (!authorized(request)) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
   if (!isAIConfigured()) {
     return NextResponse.json(
       { error: 'AI is not configured', setup: 'Add ANTHROPIC_API_KEY to .env.local and restart.' },
@@ -39,6 +41,7 @@ export async function POST(request: NextRequest) {
 
     const started = Date.now();
     let content: unknown;
+    let eventKey: string | undefined;
     // Manual runs get a random lens so repeated clicks do not repeat themselves.
     const angle = angleAt(Math.floor(Math.random() * 1000));
     if (kind === 'article')             content = await writeArticle(persona, topic, angle);
@@ -46,6 +49,20 @@ export async function POST(request: NextRequest) {
     else if (kind === 'predictions')    content = await writePredictions(persona);
     else if (kind === 'tweet')          content = await writeTweet(persona, topic, angle);
     else if (kind === 'comment')        content = await writeComment(persona, subject ?? topic ?? '');
+    else if (kind === 'matchupPreview' || kind === 'weeklyRecap') {
+      const leagueId = await getRequestLeagueId();
+      const slate = kind === 'matchupPreview'
+        ? await buildPreviewSlate(leagueId, (await getRequestLeague())?.rootLeagueId ?? leagueId)
+        : await buildRecapSlate(leagueId);
+      if (!slate) {
+        return NextResponse.json(
+          { error: kind === 'matchupPreview' ? 'There are no matchups to preview this week' : 'No week has finished to recap' },
+          { status: 400 },
+        );
+      }
+      content = 'results' in slate ? await writeWeeklyRecap(persona, slate) : await writeMatchupPreview(persona, slate);
+      eventKey = weeklyKey(kind, slate.season, slate.week);
+    }
     else return NextResponse.json({ error: 'Use /api/ai/grade-trade for trade grades' }, { status: 400 });
 
     const post: FeedPost = {
@@ -57,14 +74,19 @@ export async function POST(request: NextRequest) {
       personaAvatar: personaAvatarUrl(persona),
       kind,
       content: content as any,
+      ...(eventKey ? { eventKey } : {}),
       createdAt: new Date().toISOString(),
       // Admin publishes are immediate; only the daily batch is staggered.
       publishAt: new Date().toISOString(),
       source: 'admin',
+      status: 'approved',
     };
     // Published straight to the same feed the scheduler writes to, so admin
     // output and auto-posts are indistinguishable to readers.
-    if (kind !== 'comment') await addPost(post);
+    if (kind !== 'comment') {
+      await addPost(post);
+      await appendAudit(admin, 'post.publish', { target: post.id, detail: `${persona.name} ${kind}` });
+    }
 
     return NextResponse.json({ post, ms: Date.now() - started });
   } catch (err) {
@@ -1,25 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPersonalities, savePersonalities } from '@/lib/ai/store';
 import type { Personality } from '@/lib/ai/personalities';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
 
 export const dynamic = 'force-dynamic';
 
-function authorized(req: NextRequest): boolean {
-  return req.headers.get('x-admin-password') === (process.env.ADMIN_PASSWORD || 'admin123');
-}
-
 export async function GET() {
   return NextResponse.json({ personalities: await getPersonalities() });
 }
 
 export async function PUT(req: NextRequest) {
-  if (!authorized(req)) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
   try {
     const { personalities } = await req.json() as { personalities: Personality[] };
     if (!Array.isArray(personalities)) {
       return NextResponse.json({ error: 'personalities must be an array' }, { status: 400 });
     }
     await savePersonalities(personalities);
+    await appendAudit(admin, 'personalities.update', {
+      detail: personalities.map(p => `${p.name}${p.enabled ? '' : ' (off)'}`).join(', '),
+    });
     return NextResponse.json({ personalities });
   } catch (err) {
     console.error('[api/ai/personalities]', err);
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { REACTIONS, threadView, toggleReaction, type ReactionId } from '@/lib/ai/store';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { getRequestManager } from '@/lib/managerContext';
+
+export const dynamic = 'force-dynamic';
+
+/** Toggle the signed-in manager's reaction. Body: { reaction }. */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const manager = await getRequestManager(await getRequestLeagueId(request));
+    if (!manager) return NextResponse.json({ error: 'Sign in first' }, { status: 401 });
+    const { reaction } = (await request.json()) as { reaction?: string };
+    if (!reaction || !Object.hasOwn(REACTIONS, reaction)) {
+      return NextResponse.json({ error: 'Unknown reaction' }, { status: 400 });
+    }
+    const thread = await toggleReaction(id, reaction as ReactionId, manager.userId);
+    if (!thread) return NextResponse.json({ error: 'No such post' }, { status: 404 });
+    return NextResponse.json({ thread: threadView(thread, manager.userId) });
+  } catch (err) {
+    console.error('[api/ai/posts/reactions]', err);
+    return NextResponse.json({ error: 'Failed to react' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { isAIConfigured } from '@/lib/ai/claude';
+import { addresseeOf, replyAsPersona } from '@/lib/ai/threads';
+import {
+  MAX_REPLY_LENGTH, addReply, deleteReply, getPersonalities, getThreads, threadView,
+} from '@/lib/ai/store';
+import { getAdminSession } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { getRequestManager } from '@/lib/managerContext';
+import { rateLimit } from '@/lib/rateLimit';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Each reply to a persona costs a model call, so a manager gets a budget.
+const REPLY_LIMIT = 10;
+const REPLY_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Reply as the signed-in manager. Body: { text, parentId? }, parentId being
+ * the reply answered, if any. A reply to the post or to a persona gets an
+ * answer from that persona in the same branch, when it is on the desk and
+ * writes comments; the response carries both.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const manager = await getRequestManager(await getRequestLeagueId(request));
+    if (!manager) return NextResponse.json({ error: 'Sign in first' }, { status: 401 });
+    const { text, parentId } = (await request.json()) as { text?: string; parentId?: string };
+    if (!text?.trim()) return NextResponse.json({ error: 'Write something first' }, { status: 400 });
+    if (text.length > MAX_REPLY_LENGTH) {
+      return NextResponse.json({ error: `Keep it under ${MAX_REPLY_LENGTH} characters` }, { status: 400 });
+    }
+    const { ok } = await rateLimit(`lp_desk_reply_rl_${manager.userId}`, REPLY_LIMIT, REPLY_WINDOW_MS);
+    if (!ok) return NextResponse.json({ error: 'You are replying too fast. Try again later.' }, { status: 429 });
+
+    const added = await addReply(id, {
+      author: { kind: 'manager', userId: manager.userId, teamName: manager.teamName, avatar: manager.avatar },
+      text,
+      parentId,
+    });
+    if (!added) return NextResponse.json({ error: 'No such post' }, { status: 404 });
+
+    let thread = added.thread;
+    const personaId = addresseeOf(added.post, thread, parentId);
+    const persona = personaId && isAIConfigured()
+      ? (await getPersonalities()).find(p => p.id === personaId && p.enabled && p.kinds.includes('comment'))
+      : undefined;
+    if (persona) {
+      try {
+        const answer = await replyAsPersona(persona, added.post, thread, added.reply.parentId ?? added.reply.id);
+        if (answer) thread = answer.thread;
+      } catch (err) {
+        // The manager's reply stands either way; a persona who cannot answer
+        // without getting the facts wrong stays quiet.
+        console.error(`[api/ai/posts/replies] ${persona.name} did not answer:`, err);
+      }
+    }
+    return NextResponse.json({ thread: threadView(thread, manager.userId) });
+  } catch (err) {
+    console.error('[api/ai/posts/replies]', err);
+    return NextResponse.json({ error: 'Failed to reply' }, { status: 500 });
+  }
+}
+
+/**
+ * Remove a reply, and any answers under it. Managers can remove their own;
+ * an admin can remove anyone's. Query: ?replyId=
+ */
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const replyId = new URL(request.url).searchParams.get('replyId');
+  if (!replyId) return NextResponse.json({ error: 'replyId is required' }, { status: 400 });
+  try {
+    const [manager, admin] = await Promise.all([
+      getRequestLeagueId(request).then(getRequestManager).catch(() => null),
+      getAdminSession(),
+    ]);
+    const reply = (await getThreads([id]))[id]?.replies.find(r => r.id === replyId);
+    if (!reply) return NextResponse.json({ error: 'No such reply' }, { status: 404 });
+    const own = reply.author.kind === 'manager' && reply.author.userId === manager?.userId;
+    if (!own && !admin) return NextResponse.json({ error: 'You can only remove your own replies' }, { status: 403 });
+
+    await deleteReply(id, replyId);
+    if (!own && admin) {
+      await appendAudit(admin, 'reply.delete', {
+        target: id,
+        detail: `${reply.author.kind === 'manager' ? reply.author.teamName : reply.author.name}: ${reply.text.slice(0, 80)}`,
+      });
+    }
+    return NextResponse.json({ thread: threadView((await getThreads([id]))[id], manager?.userId) });
+  } catch (err) {
+    console.error('[api/ai/posts/replies]', err);
+    return NextResponse.json({ error: 'Failed to remove the reply' }, { status: 500 });
+  }
+}
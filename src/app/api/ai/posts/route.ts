@@ -1,14 +1,39 @@
-import { NextResponse } from 'next/server';
-import { getPosts } from '@/lib/ai/store';
+import { after, NextResponse } from 'next/server';
+import { isAIConfigured } from '@/lib/ai/claude';
+import { getPosts, getThreads, threadView } from '@/lib/ai/store';
+import { pollTrades } from '@/lib/ai/tradeWatch';
+import { getAdminSession } from '@/lib/adminAuth';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { getRequestManager } from '@/lib/managerContext';
 
 export const dynamic = 'force-dynamic';
+// Room for the trade watcher, which runs after the response has gone.
+export const maxDuration = 60;
+
+const TRADE_WATCH_BUDGET_MS = 40_000;
 
 /** Public, read-only. The feed is written by the scheduler and the admin
- *  back office — never by a visitor. */
+ *  back office — never by a visitor. Readers add to the threads under it
+ *  through ./[id]/reactions and ./[id]/replies. */
 export async function GET(request: Request) {
   const limit = Math.min(Number(new URL(request.url).searchParams.get('limit')) || 40, 100);
+  if (isAIConfigured()) {
+    // Readers are the clock: a trade is picked up within minutes of going
+    // through without a cron more frequent than Hobby allows.
+    after(() => pollTrades(Date.now() + TRADE_WATCH_BUDGET_MS));
+  }
   try {
-    return NextResponse.json({ posts: await getPosts(limit) });
+    const posts = await getPosts(limit);
+    const [threads, manager, admin] = await Promise.all([
+      getThreads(posts.map(p => p.id)),
+      getRequestLeagueId(request).then(getRequestManager).catch(() => null),
+      getAdminSession(),
+    ]);
+    return NextResponse.json({
+      posts,
+      threads: Object.fromEntries(posts.map(p => [p.id, threadView(threads[p.id], manager?.userId)])),
+      canModerate: !!admin,
+    });
   } catch (err) {
     console.error('[api/ai/posts]', err);
     return NextResponse.json({ error: 'Failed to load feed' }, { status: 500 });
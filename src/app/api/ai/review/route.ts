@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+import { checkClaims, collectText } from '@/lib/ai/factCheck';
+import { contentEditProblem } from '@/lib/ai/generate';
+import {
+  getPost, getReviewQueue, isReviewRequired, reviewPosts, updatePost, type FeedPost,
+} from '@/lib/ai/store';
+
+export const dynamic = 'force-dynamic';
+
+/** A post with whatever the fact checker still objects to in its copy. */
+async function withProblems(post: FeedPost) {
+  const problems = await checkClaims(collectText(post.content).join(' '));
+  return { ...post, problems };
+}
+
+/** The review inbox: drafts, recent rejections, and whether cron output waits here. */
+export async function GET() {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const { drafts, rejected } = await getReviewQueue();
+    return NextResponse.json({
+      reviewRequired: isReviewRequired(),
+      drafts: await Promise.all(drafts.map(withProblems)),
+      rejected,
+    });
+  } catch (err) {
+    console.error('[api/ai/review]', err);
+    return NextResponse.json({ error: 'Failed to load the review queue' }, { status: 500 });
+  }
+}
+
+/** Approve or reject a batch. Body: { ids: string[], status: 'approved' | 'rejected' }. */
+export async function POST(request: Request) {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const { ids, status } = (await request.json()) as { ids?: unknown; status?: string };
+    if (!Array.isArray(ids) || !ids.length || (status !== 'approved' && status !== 'rejected')) {
+      return NextResponse.json({ error: 'ids and a status of approved or rejected are required' }, { status: 400 });
+    }
+    const changed = await reviewPosts(ids.map(String), status, admin.name);
+    for (const p of changed) {
+      await appendAudit(admin, status === 'approved' ? 'post.approve' : 'post.reject', {
+        target: p.id, detail: `${p.personaName} ${p.kind}`,
+      });
+    }
+    return NextResponse.json({ changed: changed.length });
+  } catch (err) {
+    console.error('[api/ai/review]', err);
+    return NextResponse.json({ error: 'Failed to review' }, { status: 500 });
+  }
+}
+
+/**
+ * Edit a post's copy or reschedule it. Body: { id, content?, publishAt? }.
+ * New content must keep the shape of the post's kind.
+ */
+export async function PATCH(request: Request) {
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+  try {
+    const { id, content, publishAt } = (await request.json()) as {
+      id?: string; content?: unknown; publishAt?: string;
+    };
+    if (!id) return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    if (publishAt !== undefined && Number.isNaN(new Date(publishAt).getTime())) {
+      return NextResponse.json({ error: 'publishAt is not a valid date' }, { status: 400 });
+    }
+    if (content !== undefined) {
+      const current = await getPost(id);
+      if (!current) return NextResponse.json({ error: 'No such post' }, { status: 404 });
+      const problem = contentEditProblem(current.kind, current.content, content);
+      if (problem) return NextResponse.json({ error: problem }, { status: 400 });
+    }
+    const post = await updatePost(id, {
+      content,
+      publishAt: publishAt ? new Date(publishAt).toISOString() : undefined,
+    }, admin.name);
+    if (!post) return NextResponse.json({ error: 'No such post' }, { status: 404 });
+    await appendAudit(admin, 'post.edit', {
+      target: post.id,
+      detail: [content !== undefined && 'copy', publishAt && `moved to ${post.publishAt}`].filter(Boolean).join(', '),
+    });
+    return NextResponse.json({ post: await withProblems(post) });
+  } catch (err) {
+    console.error('[api/ai/review]', err);
+    return NextResponse.json({ error: 'Failed to save' }, { status: 500 });
+  }
+}
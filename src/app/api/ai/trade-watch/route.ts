@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { isAIConfigured } from '@/lib/ai/claude';
+import { watchAllLeagues } from '@/lib/ai/tradeWatch';
+import { isReviewRequired } from '@/lib/ai/store';
+import { getAdminSession } from '@/lib/adminAuth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Grades trades as they go through, with a couple of reaction posts each.
+ *
+ * The feed sets the same run off itself every few minutes while anyone is
+ * reading (lib/ai/tradeWatch.ts); this route is it on demand, for the daily
+ * schedule in vercel.json and for anything pinging it more often with
+ * CRON_SECRET. Every configured league chain is watched, whichever one the
+ * caller has picked. Safe to call as often as you like: a trade is only
+ * covered once, even by runs that overlap.
+ */
+const TIME_BUDGET_MS = 40_000;
+
+async function authorized(request: Request): Promise<boolean> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return true; // unset locally
+  if (request.headers.get('authorization') === `Bearer ${secret}`) return true;
+  return !!(await getAdminSession());
+}
+
+export async function GET(request: Request) {
+  if (!(await authorized(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!isAIConfigured()) {
+    return NextResponse.json({ skipped: 'ai-not-configured' });
+  }
+
+  try {
+    const leagues = await watchAllLeagues(Date.now() + TIME_BUDGET_MS);
+    const trades = leagues.flatMap(l => l.trades);
+    return NextResponse.json({
+      leagues,
+      posted: trades.reduce((n, t) => n + (t.graded ? 1 : 0) + t.tweets, 0),
+      ...(trades.length && isReviewRequired() ? { review: true } : {}),
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[api/ai/trade-watch] failed:', msg);
+    return NextResponse.json({ posted: 0, error: msg }, { status: 500 });
+  }
+}
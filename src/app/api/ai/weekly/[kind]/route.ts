@@ -0,0 +1,99 @@
+import { personaAvatarUrl } from '@/lib/ai/avatar';
+import { NextResponse } from 'next/server';
+import { isAIConfigured } from '@/lib/ai/claude';
+import { writeMatchupPreview, writeWeeklyRecap } from '@/lib/ai/generate';
+import { buildPreviewSlate, buildRecapSlate, weeklyKey } from '@/lib/ai/weekly';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+import { getAdminSession } from '@/lib/adminAuth';
+import { appendAudit } from '@/lib/auditLog';
+import { addPost, getPersonalities, hasPostFor, isReviewRequired, type FeedPost } from '@/lib/ai/store';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * The desk's weekly pieces, each on its own schedule (vercel.json): the recap
+ * on Tuesday once Monday night is final, the preview on Thursday before the
+ * first game. One piece per run, by a writer picked at random from those who
+ * write that kind, and never a second piece on the same week unless an admin
+ * forces it.
+ */
+const KINDS = {
+  recap: 'weeklyRecap',
+  preview: 'matchupPreview',
+} as const;
+
+async function authorized(request: Request): Promise<boolean> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return true; // unset locally
+  if (request.headers.get('authorization') === `Bearer ${secret}`) return true;
+  return !!(await getAdminSession());
+}
+
+export async function GET(request: Request, { params }: { params: Promise<{ kind: string }> }) {
+  const { kind: slug } = await params;
+  const kind = KINDS[slug as keyof typeof KINDS];
+  if (!kind) return NextResponse.json({ error: 'Unknown weekly piece' }, { status: 404 });
+  if (!(await authorized(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!isAIConfigured()) {
+    return NextResponse.json({ skipped: 'ai-not-configured' });
+  }
+
+  const force = new URL(request.url).searchParams.get('force') === '1';
+  const admin = await getAdminSession();
+  if (force && admin) await appendAudit(admin, 'desk.weekly', { detail: kind });
+
+  try {
+    const leagueId = await getRequestLeagueId(request);
+    const slate = kind === 'matchupPreview'
+      ? await buildPreviewSlate(leagueId, (await getRequestLeague(request))?.rootLeagueId ?? leagueId)
+      : await buildRecapSlate(leagueId);
+    if (!slate) {
+      return NextResponse.json({ skipped: kind === 'matchupPreview' ? 'no-matchups' : 'no-finished-week' });
+    }
+    const eventKey = weeklyKey(kind, slate.season, slate.week);
+    if (!force && await hasPostFor(eventKey)) {
+      return NextResponse.json({ skipped: 'already-covered', week: slate.week });
+    }
+
+    const writers = (await getPersonalities()).filter(p => p.enabled && p.kinds.includes(kind));
+    if (!writers.length) return NextResponse.json({ skipped: 'no-personality-writes-this-kind' });
+    const persona = writers[Math.floor(Math.random() * writers.length)];
+
+    const content = 'results' in slate
+      ? await writeWeeklyRecap(persona, slate)
+      : await writeMatchupPreview(persona, slate);
+    // Goes out now: a preview is no use after kickoff, and a recap is the
+    // day's news. With review on it waits in the inbox like the daily batch.
+    const review = isReviewRequired();
+    const post: FeedPost = {
+      id: `${Date.now()}-${persona.id}-${kind}`,
+      personalityId: persona.id,
+      personaName: persona.name,
+      personaHandle: persona.handle,
+      personaAccent: persona.accent,
+      personaAvatar: personaAvatarUrl(persona),
+      kind,
+      content,
+      eventKey,
+      createdAt: new Date().toISOString(),
+      publishAt: new Date().toISOString(),
+      source: 'cron',
+      status: review ? 'draft' : 'approved',
+    };
+    await addPost(post);
+    return NextResponse.json({
+      posted: 1,
+      kind,
+      week: slate.week,
+      persona: persona.name,
+      ...(review ? { review: true } : {}),
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[api/ai/weekly] ${kind} failed:`, msg);
+    return NextResponse.json({ posted: 0, error: msg }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getLeagueInfo, getLeagueRosters, getLeagueUsers } from '@/lib/api';
-import { getCurrentLeagueId } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
 import { getPlayersDirectory, type PlayerCard } from '@/lib/playerStats';
 import { getSnapshot } from '@/lib/fantasyProsStore';
 
@@ -116,7 +116,7 @@ export async function GET() {
   try {
     const snapshot = await getSnapshot();
 
-    const leagueId = await getCurrentLeagueId();
+    const leagueId = await getRequestLeagueId();
     const [league, rosters, users, players] = await Promise.all([
       getLeagueInfo(leagueId),
       getLeagueRosters(leagueId),
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getRequestLinkedLeagueIds } from '@/lib/leagueContext';
+import { getOriginProvider } from '@/lib/providers';
+import { getSeasonArchive } from '@/lib/seasonArchive';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * A completed season's snapshot, for history views that run in the browser.
+ * 404 while the season is still being played; the caller then reads the
+ * platform directly. Only seasons of the request's own chain are served, so
+ * this cannot be used to archive arbitrary leagues into our storage.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ leagueId: string }> }) {
+  const { leagueId } = await params;
+  try {
+    const chain = await getRequestLinkedLeagueIds(request);
+    if (!chain.includes(leagueId)) {
+      return NextResponse.json({ error: 'Not a season of this league' }, { status: 404 });
+    }
+    const archive = await getSeasonArchive(leagueId, getOriginProvider());
+    if (!archive) return NextResponse.json({ error: 'Season is not archived' }, { status: 404 });
+    // Snapshots only change on an admin rebuild, so browsers may keep one for
+    // an hour rather than re-downloading it on every history page view.
+    return NextResponse.json(archive, { headers: { 'Cache-Control': 'private, max-age=3600' } });
+  } catch (err) {
+    console.error('[api/archive]', err);
+    return NextResponse.json({ error: 'Failed to load season archive' }, { status: 500 });
+  }
+}
@@ -2,12 +2,13 @@ import { streamText, stepCountIs } from 'ai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { claude, MODEL_FAST, isAIConfigured, GROUNDING_RULES } from '@/lib/ai/claude';
 import { buildLeagueBrief } from '@/lib/ai/leagueBrief';
-import { getRedis } from '@/lib/redisClient';
+import { rateLimit, clientIp } from '@/lib/rateLimit';
 import { getAssistant } from '@/lib/ai/store';
 import { buildChatTools } from '@/lib/ai/chatTools';
 import { resolvePhase } from '@/lib/ai/seasonPhase';
 import { getLeagueInfo, getNFLState } from '@/lib/api';
-import { getCurrentLeagueId } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { getRequestManager, type LeagueManager } from '@/lib/managerContext';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
@@ -36,55 +37,13 @@ const MAX_BODY_BYTES = 64 * 1024;
 const RATE_LIMIT = 20;
 const RATE_WINDOW_MS = 60 * 60 * 1000;
 
-/** In-memory fallback when Redis is not configured (local dev). */
-const memoryHits = new Map<string, { count: number; resetAt: number }>();
-
-async function rateLimit(ip: string): Promise<{ ok: boolean; remaining: number }> {
-  const key = `lp_chat_rl_${ip}`;
-  const now = Date.now();
-  const { client } = getRedis();
-
-  if (!client) {
-    const hit = memoryHits.get(key);
-    if (!hit || now > hit.resetAt) {
-      memoryHits.set(key, { count: 1, resetAt: now + RATE_WINDOW_MS });
-      return { ok: true, remaining: RATE_LIMIT - 1 };
-    }
-    hit.count += 1;
-    return { ok: hit.count <= RATE_LIMIT, remaining: Math.max(RATE_LIMIT - hit.count, 0) };
-  }
-
-  try {
-    const raw = await client.get(key);
-    const hit = raw ? (JSON.parse(raw) as { count: number; resetAt: number }) : null;
-    if (!hit || now > hit.resetAt) {
-      await client.set(key, JSON.stringify({ count: 1, resetAt: now + RATE_WINDOW_MS }));
-      return { ok: true, remaining: RATE_LIMIT - 1 };
-    }
-    hit.count += 1;
-    await client.set(key, JSON.stringify(hit));
-    return { ok: hit.count <= RATE_LIMIT, remaining: Math.max(RATE_LIMIT - hit.count, 0) };
-  } catch {
-    // Never let a rate-limiter outage take the feature down.
-    return { ok: true, remaining: RATE_LIMIT };
-  }
-}
-
-function clientIp(request: Request): string {
-  return (
-    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
-    request.headers.get('x-real-ip') ||
-    'unknown'
-  );
-}
-
 export async function POST(request: Request) {
   if (!isAIConfigured()) {
     return Response.json({ error: 'AI is not configured' }, { status: 503 });
   }
 
   const ip = clientIp(request);
-  const { ok, remaining } = await rateLimit(ip);
+  const { ok, remaining } = await rateLimit(`lp_chat_rl_${ip}`, RATE_LIMIT, RATE_WINDOW_MS);
   if (!ok) {
     return Response.json(
       { error: 'Rate limit reached. Try again later.' },
@@ -139,10 +98,15 @@ export async function POST(request: Request) {
   // Where the season is. Without it the assistant gives midseason advice in
   // March and dynasty advice during a playoff week.
   let phase = null as ReturnType<typeof resolvePhase> | null;
+  // Who is asking, when they have signed in, so "my team" means something.
+  let reader: LeagueManager | null = null;
   try {
-    const leagueId = await getCurrentLeagueId();
-    const [league, nflState] = await Promise.all([getLeagueInfo(leagueId), getNFLState()]);
+    const leagueId = await getRequestLeagueId(request);
+    const [league, nflState, manager] = await Promise.all([
+      getLeagueInfo(leagueId), getNFLState(), getRequestManager(leagueId).catch(() => null),
+    ]);
     phase = resolvePhase(nflState, league);
+    reader = manager;
   } catch (err) {
     console.error('[api/chat] phase failed:', err);
   }
@@ -159,6 +123,12 @@ export async function POST(request: Request) {
     '  full, CALL A TOOL rather than saying you lack the record: listTeams,',
     '  getRoster, getMatchups, getHeadToHead, getTransactions, getHistory,',
     '  getTeamMetrics and getExpertRankings read the live league.',
+    '- For any question about the league\'s rules (what is allowed, deadlines,',
+    '  penalties, how disputes work), call searchConstitution and answer from',
+    '  the sections it returns. Cite each section you rely on as a markdown link',
+    '  to its link, e.g. [Temporary Loan Trades](/constitution#temporary-loan-trades).',
+    '  If no section covers the question, say the constitution does not address',
+    '  it rather than guessing what the rule would be.',
     '- Prefer a tool call over hedging. If asked about a specific roster, week,',
     '  trade, rivalry or past season, fetch it.',
     '- Never invent a number. Everything you state must come from the context or',
@@ -210,6 +180,11 @@ export async function POST(request: Request) {
       : []),
     '',
     brief ? `LEAGUE CONTEXT (authoritative):\n\n${brief}` : 'LEAGUE CONTEXT: unavailable.',
+    // Last, so everything above stays a prefix shared by every reader.
+    ...(reader
+      ? ['', `THE READER: the manager of ${reader.teamName} (roster ${reader.rosterId}). "My team", "my roster"`,
+         'and "my matchup" mean theirs; answer those from their team without asking which.']
+      : []),
   ].join('\n');
 
   try {
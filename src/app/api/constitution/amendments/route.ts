@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+import { getRequestManager } from '@/lib/managerContext';
+import {
+  ConstitutionError, amendmentStatus, listAmendments, proposeAmendment, voteOnAmendment,
+  type AmendmentVoteChoice,
+} from '@/lib/constitutionStore';
+
+export const dynamic = 'force-dynamic';
+
+// Amendments are kept with the constitution, per league chain; managers come
+// from the current season's league. Merging is the commissioner's, in
+// /api/admin/constitution.
+
+/** Every amendment with its status, plus who is reading. */
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const [amendments, manager] = await Promise.all([
+      listAmendments(league.rootLeagueId),
+      getRequestManager(await getRequestLeagueId(request)),
+    ]);
+    return NextResponse.json({
+      amendments: amendments.map(a => ({ ...a, status: amendmentStatus(a) })),
+      manager,
+    });
+  } catch (err) {
+    console.error('[api/constitution/amendments]', err);
+    return NextResponse.json({ error: 'Failed to load amendments' }, { status: 500 });
+  }
+}
+
+/** Propose an amendment. Body: { title, rationale, markdown }. */
+export async function POST(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const leagueId = await getRequestLeagueId(request);
+    const manager = await getRequestManager(leagueId);
+    if (!manager) return NextResponse.json({ error: 'Sign in first' }, { status: 401 });
+    const { title, rationale, markdown } = (await request.json()) as {
+      title?: string; rationale?: string; markdown?: string;
+    };
+    const amendment = await proposeAmendment(league.rootLeagueId, leagueId, manager, {
+      title: String(title ?? ''),
+      rationale: String(rationale ?? ''),
+      markdown: String(markdown ?? ''),
+    });
+    return NextResponse.json({ amendment: { ...amendment, status: amendmentStatus(amendment) } });
+  } catch (err) {
+    if (err instanceof ConstitutionError) return NextResponse.json({ error: err.message }, { status: 400 });
+    console.error('[api/constitution/amendments]', err);
+    return NextResponse.json({ error: 'Failed to propose the amendment' }, { status: 500 });
+  }
+}
+
+/** Vote on an amendment. Body: { amendmentId, vote: 'yes' | 'no' }. */
+export async function PATCH(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const manager = await getRequestManager(await getRequestLeagueId(request));
+    if (!manager) return NextResponse.json({ error: 'Sign in first' }, { status: 401 });
+    const { amendmentId, vote } = (await request.json()) as { amendmentId?: string; vote?: AmendmentVoteChoice };
+    if (!amendmentId || (vote !== 'yes' && vote !== 'no')) {
+      return NextResponse.json({ error: 'amendmentId and vote are required' }, { status: 400 });
+    }
+    const amendment = await voteOnAmendment(league.rootLeagueId, manager, amendmentId, vote);
+    return NextResponse.json({ amendment: { ...amendment, status: amendmentStatus(amendment) } });
+  } catch (err) {
+    if (err instanceof ConstitutionError) return NextResponse.json({ error: err.message }, { status: 400 });
+    console.error('[api/constitution/amendments]', err);
+    return NextResponse.json({ error: 'Failed to record the vote' }, { status: 500 });
+  }
+}
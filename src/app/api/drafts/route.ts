@@ -1,10 +1,10 @@
 import { NextResponse } from 'next/server';
 import { getAllLinkedLeagueIds } from '@/lib/api';
+import { getRequestLeague } from '@/lib/leagueContext';
+import { getProvider } from '@/lib/providers';
 
 export const dynamic = 'force-dynamic';
 
-const BASE = 'https://api.sleeper.app/v1';
-
 // ── Types ─────────────────────────────────────────────────────────────────────
 
 export interface DraftPickEnriched {
@@ -257,33 +257,28 @@ async function enrichDraft(
 
 // ── Route ─────────────────────────────────────────────────────────────────────
 
-export async function GET() {
-  const initialId = process.env.NEXT_PUBLIC_LEAGUE_ID;
-  if (!initialId) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
 
   try {
-    const allLeagueIds = await getAllLinkedLeagueIds(initialId);
+    const allLeagueIds = await getAllLinkedLeagueIds(league.rootLeagueId);
 
     const allDrafts: EnrichedDraft[] = [];
 
     await Promise.all(allLeagueIds.map(async leagueId => {
+      const provider = getProvider();
       const [draftsRaw, rosters, users, tradedPicksRaw] = await Promise.all([
-        fetch(`${BASE}/league/${leagueId}/drafts`, { cache: 'no-store' })
-          .then(r => r.ok ? r.json() : []).catch(() => []),
-        fetch(`${BASE}/league/${leagueId}/rosters`, { next: { revalidate: 3600 } })
-          .then(r => r.ok ? r.json() : []).catch(() => []),
-        fetch(`${BASE}/league/${leagueId}/users`, { next: { revalidate: 3600 } })
-          .then(r => r.ok ? r.json() : []).catch(() => []),
-        fetch(`${BASE}/league/${leagueId}/traded_picks`, { cache: 'no-store' })
-          .then(r => r.ok ? r.json() : []).catch(() => []),
+        provider.getDrafts(leagueId, { freshness: 'live' }).catch(() => []),
+        provider.getRosters(leagueId, { freshness: 'recent' }).catch(() => []),
+        provider.getLeagueUsers(leagueId, { freshness: 'recent' }).catch(() => []),
+        provider.getTradedPicks(leagueId, { freshness: 'live' }).catch(() => []),
       ]);
 
       for (const rawDraft of (draftsRaw ?? [])) {
         const isActive    = rawDraft.status === 'drafting' || rawDraft.status === 'pre_draft';
-        const picksOpts: RequestInit = isActive ? { cache: 'no-store' } : { next: { revalidate: 86400 } };
-
-        const picks = await fetch(`${BASE}/draft/${rawDraft.draft_id}/picks`, picksOpts)
-          .then(r => r.ok ? r.json() : [])
+        const picks = await provider
+          .getDraftPicks(rawDraft.draft_id, { freshness: isActive ? 'live' : 'settled' })
           .catch(() => []);
 
         const enriched = await enrichDraft(rawDraft, picks ?? [], tradedPicksRaw ?? [], rosters, users);
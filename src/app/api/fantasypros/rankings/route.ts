@@ -2,8 +2,9 @@ import { NextResponse } from 'next/server';
 import { getSnapshot } from '@/lib/fantasyProsStore';
 import { isFantasyProsConfigured } from '@/lib/fantasypros';
 import { getLeagueRosters, getLeagueUsers } from '@/lib/api';
-import { getCurrentLeagueId } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
 import { getPlayersDirectory } from '@/lib/playerStats';
+import { playerKey, sleeperName } from '@/lib/ecrMatch';
 
 export const dynamic = 'force-dynamic';
 
@@ -16,17 +17,6 @@ export const dynamic = 'force-dynamic';
  * the top plays are already owned and by whom.
  */
 
-/** FantasyPros and Sleeper spell names differently often enough that an exact
- *  match loses real players. Strip punctuation, suffixes, and case. */
-function normalizeName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[.'`]/g, '')
-    .replace(/\s+(jr|sr|ii|iii|iv|v)$/i, '')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
 interface Owner {
   userId: string;
   teamName: string;
@@ -47,7 +37,7 @@ export async function GET() {
 
   let ownership: Record<string, Owner> = {};
   try {
-    const leagueId = await getCurrentLeagueId();
+    const leagueId = await getRequestLeagueId();
     const [rosters, users, players] = await Promise.all([
       getLeagueRosters(leagueId),
       getLeagueUsers(leagueId),
@@ -70,9 +60,9 @@ export async function GET() {
       for (const pid of roster.players ?? []) {
         const p = players[pid];
         if (!p) continue;
-        const name = p.full_name || `${p.first_name ?? ''} ${p.last_name ?? ''}`.trim();
+        const name = sleeperName(p);
         if (!name || !p.position) continue;
-        ownership[`${normalizeName(name)}|${p.position}`] = owner;
+        ownership[playerKey(name, p.position)] = owner;
       }
     }
   } catch (err) {
@@ -92,7 +82,7 @@ export async function GET() {
             ...board,
             players: board.players.map(p => ({
               ...p,
-              ownedBy: ownership[`${normalizeName(p.name)}|${p.position}`] ?? null,
+              ownedBy: ownership[playerKey(p.name, p.position)] ?? null,
             })),
           },
         ]),
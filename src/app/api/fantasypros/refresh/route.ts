@@ -11,7 +11,8 @@ import {
 } from '@/lib/fantasypros';
 import { getSnapshot, saveSnapshot, type EcrSnapshot } from '@/lib/fantasyProsStore';
 import { getLeagueInfo, getNFLState } from '@/lib/api';
-import { getCurrentLeagueId } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { getAdminSession } from '@/lib/adminAuth';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
@@ -41,15 +42,14 @@ async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
   }
 }
 
-function authorized(request: Request): boolean {
+async function authorized(request: Request): Promise<boolean> {
   const secret = process.env.CRON_SECRET;
   // Vercel attaches this header to scheduled invocations automatically.
   if (secret && request.headers.get('authorization') === `Bearer ${secret}`) return true;
   // Admin can trigger a refresh by hand from the back office.
-  const admin = process.env.ADMIN_PASSWORD;
-  if (admin && request.headers.get('x-admin-password') === admin) return true;
+  if (await getAdminSession()) return true;
   // With neither configured we are running locally.
-  return !secret && !admin;
+  return !secret && !process.env.ADMIN_PASSWORD;
 }
 
 /** PPR/half/standard changes the board materially, so read it off the league. */
@@ -61,7 +61,7 @@ function scoringOf(league: any): 'PPR' | 'HALF' | 'STD' {
 }
 
 export async function GET(request: Request) {
-  if (!authorized(request)) {
+  if (!(await authorized(request))) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
   if (!isFantasyProsConfigured()) {
@@ -69,7 +69,7 @@ export async function GET(request: Request) {
   }
 
   try {
-    const leagueId = await getCurrentLeagueId();
+    const leagueId = await getRequestLeagueId();
     const [league, nflState] = await Promise.all([getLeagueInfo(leagueId), getNFLState()]);
 
     const season = nflState?.season ?? String(new Date().getFullYear());
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getOriginProvider, type LeagueDataProvider } from '@/lib/providers';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The fixture provider for the browser, at Sleeper's paths, so client views
+ * read the same canned league as the server (lib/providers/index.ts). 404 in
+ * any other mode: this is not a proxy to the real platform.
+ */
+function read(p: LeagueDataProvider, path: string[]): Promise<unknown> | null {
+  const [kind, id, what, arg, season] = path;
+  // Ids become file paths in the fixture provider: numbers only, never `..`.
+  const numeric = (...parts: (string | undefined)[]) => parts.every(s => s !== undefined && /^\d+$/.test(s));
+  if (kind === 'state' && id === 'nfl' && path.length === 2) return p.getNFLState();
+  if (kind === 'players' && id === 'nfl' && path.length === 2) return p.getPlayers();
+  if (kind === 'draft' && numeric(id)) {
+    if (path.length === 2) return p.getDraft(id);
+    if (what === 'picks' && path.length === 3) return p.getDraftPicks(id);
+    return null;
+  }
+  if (kind === 'user' && numeric(id, season) && what === 'leagues' && arg === 'nfl' && path.length === 5) {
+    return p.getUserLeagues(id, season);
+  }
+  if (kind !== 'league' || !numeric(id)) return null;
+
+  if (path.length === 4) {
+    if (!numeric(arg)) return null;
+    const week = Number(arg);
+    if (what === 'matchups') return p.getMatchups(id, week);
+    if (what === 'transactions') return p.getTransactions(id, week);
+    return null;
+  }
+  if (path.length === 2) return p.getLeague(id);
+  if (path.length !== 3) return null;
+  switch (what) {
+    case 'users':           return p.getLeagueUsers(id);
+    case 'rosters':         return p.getRosters(id);
+    case 'winners_bracket': return p.getBracket(id, 'winners');
+    case 'losers_bracket':  return p.getBracket(id, 'losers');
+    case 'drafts':          return p.getDrafts(id);
+    case 'traded_picks':    return p.getTradedPicks(id);
+    default:                return null;
+  }
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params;
+  const provider = getOriginProvider();
+  const pending = provider.name === 'fixture' ? read(provider, path) : null;
+  if (!pending) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  try {
+    const data = await pending;
+    // Same as Sleeper: a missing thing is a 404, which the provider reads as "does not exist".
+    if (data === null) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json(data);
+  } catch (err) {
+    console.error('[api/league-data]', err);
+    return NextResponse.json({ error: 'Failed to load league data' }, { status: 500 });
+  }
+}
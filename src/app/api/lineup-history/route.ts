@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { getLineupHistory } from '@/lib/lineupHistory';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Every manager's lineups against the best they could have set, across all
+ * linked seasons: efficiency, points left on the bench and bench losses, plus
+ * the record-book entries they produce.
+ */
+export async function GET(request: Request) {
+  try {
+    return NextResponse.json(await getLineupHistory(await getRequestLeagueId(request)));
+  } catch (err) {
+    console.error('[api/lineup-history]', err);
+    return NextResponse.json({ error: 'Failed to build lineup history' }, { status: 500 });
+  }
+}
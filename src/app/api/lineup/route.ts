@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { getLineupAdvice } from '@/lib/lineupOptimizer';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The best lineup each roster could set this week and the start/sit changes
+ * that get there. `?roster=` narrows it to one roster.
+ */
+export async function GET(request: Request) {
+  try {
+    const leagueId = await getRequestLeagueId(request);
+    const rosterId = new URL(request.url).searchParams.get('roster');
+    const teams = await getLineupAdvice(leagueId);
+    return NextResponse.json({
+      teams: rosterId ? teams.filter(t => String(t.rosterId) === rosterId) : teams,
+    });
+  } catch (err) {
+    console.error('[api/lineup]', err);
+    return NextResponse.json({ error: 'Failed to optimise lineups' }, { status: 500 });
+  }
+}
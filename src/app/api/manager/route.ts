@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import {
+  MANAGER_COOKIE, SESSION_MAX_AGE, getLeagueManagers, getRequestManagerId, redeemInvite,
+} from '@/lib/managerContext';
+import { clientIp, rateLimit } from '@/lib/rateLimit';
+import { canSignSessions } from '@/lib/sessionSigning';
+
+export const dynamic = 'force-dynamic';
+
+// Per IP, as admin sign-in: plenty for a mistyped code, useless for guessing one.
+const REDEEM_LIMIT = 10;
+const REDEEM_WINDOW_MS = 15 * 60 * 1000;
+
+/** The signed-in manager, if any, and every manager in the league. */
+export async function GET(request: Request) {
+  try {
+    const [managers, userId] = await Promise.all([
+      getLeagueManagers(await getRequestLeagueId(request)),
+      getRequestManagerId(),
+    ]);
+    return NextResponse.json({ manager: managers.find(m => m.userId === userId) ?? null, managers });
+  } catch (err) {
+    console.error('[api/manager]', err);
+    return NextResponse.json({ error: 'Failed to load managers' }, { status: 500 });
+  }
+}
+
+/** Sign in. Body: { code }, an invite code from the commissioner. */
+export async function POST(request: Request) {
+  if (!canSignSessions()) {
+    return NextResponse.json({ error: 'Sign-in is off until the commissioner sets SESSION_SECRET' }, { status: 503 });
+  }
+  const { ok } = await rateLimit(`lp_manager_redeem_rl_${clientIp(request)}`, REDEEM_LIMIT, REDEEM_WINDOW_MS);
+  if (!ok) {
+    return NextResponse.json({ error: 'Too many attempts. Try again in a few minutes.' }, { status: 429 });
+  }
+  try {
+    const { code } = (await request.json()) as { code?: string };
+    if (!code?.trim()) return NextResponse.json({ error: 'Enter your invite code' }, { status: 400 });
+    const redeemed = await redeemInvite(code);
+    if (!redeemed) return NextResponse.json({ error: 'That code is not valid' }, { status: 401 });
+
+    const managers = await getLeagueManagers(await getRequestLeagueId(request));
+    const res = NextResponse.json({ manager: managers.find(m => m.userId === redeemed.userId) ?? null });
+    res.cookies.set(MANAGER_COOKIE, redeemed.session, {
+      path: '/',
+      maxAge: SESSION_MAX_AGE,
+      sameSite: 'lax',
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+    });
+    return res;
+  } catch (err) {
+    console.error('[api/manager]', err);
+    return NextResponse.json({ error: 'Sign-in failed' }, { status: 500 });
+  }
+}
+
+/** Sign out. */
+export async function DELETE() {
+  const res = NextResponse.json({ manager: null });
+  res.cookies.delete(MANAGER_COOKIE);
+  return res;
+}
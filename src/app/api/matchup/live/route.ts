@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { buildLiveScoreboard } from '@/lib/liveScoring';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The current week as it stands. The matchups page polls this while `live`
+ * is true and stops when the last game of the window ends.
+ */
+export async function GET(request: Request) {
+  try {
+    const leagueId = await getRequestLeagueId(request);
+    return NextResponse.json(await buildLiveScoreboard(leagueId), {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (err) {
+    console.error('[api/matchup/live]', err);
+    return NextResponse.json({ error: 'Failed to load live scores' }, { status: 500 });
+  }
+}
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { fetchRivalriesData, type GameRecord } from '@/lib/rivalries';
 import { getLeagueRosters, getLeagueUsers, getNFLState } from '@/lib/api';
-import { getCurrentLeagueId, INITIAL_LEAGUE_ID } from '@/config/league';
+import { INITIAL_LEAGUE_ID } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
 import {
   getPlayersDirectory,
   getSeasonStats,
@@ -81,7 +82,7 @@ export async function GET(request: Request) {
   }
 
   try {
-    const leagueId = await getCurrentLeagueId();
+    const leagueId = await getRequestLeagueId(request);
     const [rivalries, rosters, users, nflState] = await Promise.all([
       fetchRivalriesData(),
       getLeagueRosters(leagueId),
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+import { getPlayoffOdds } from '@/lib/playoffOdds';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Playoff, bye and seed odds for every team from simulating the rest of the
+ * regular season, with clinch and elimination flags.
+ */
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    return NextResponse.json(await getPlayoffOdds(await getRequestLeagueId(request), league.rootLeagueId));
+  } catch (err) {
+    console.error('[api/playoff-odds]', err);
+    return NextResponse.json({ error: 'Failed to simulate playoff odds' }, { status: 500 });
+  }
+}
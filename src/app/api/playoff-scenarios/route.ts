@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+import { getPlayoffOdds } from '@/lib/playoffOdds';
+import { getProjections } from '@/lib/projections';
+import type { ScenarioData, ScenarioGame } from '@/lib/playoffScenarios';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Everything the scenario explorer needs to recompute standings in the
+ * browser: standings so far, every regular-season game still to play with
+ * its projection, and who is already certain either way.
+ */
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const leagueId = await getRequestLeagueId(request);
+    const [odds, projections] = await Promise.all([
+      getPlayoffOdds(leagueId, league.rootLeagueId),
+      getProjections(leagueId, league.rootLeagueId),
+    ]);
+
+    const games: ScenarioGame[] = projections.matchups
+      .filter(m => odds.remainingWeeks.includes(m.week))
+      .map(m => ({
+        id: `${m.week}:${m.matchupId}`,
+        week: m.week,
+        a: m.teams[0].rosterId,
+        b: m.teams[1].rosterId,
+        projected: [m.teams[0].projected, m.teams[1].projected],
+        winProbability: m.winProbability,
+      }));
+
+    // Each week's median game goes to the top half by projected score.
+    const projectedMedianWinners: Record<string, number[]> = {};
+    if (odds.medianGames) {
+      for (const week of odds.remainingWeeks) {
+        const sides = projections.matchups.filter(m => m.week === week).flatMap(m => m.teams);
+        projectedMedianWinners[String(week)] = [...sides]
+          .sort((a, b) => b.projected - a.projected)
+          .slice(0, Math.floor(sides.length / 2))
+          .map(s => s.rosterId);
+      }
+    }
+
+    const data: ScenarioData = {
+      season: odds.season,
+      playoffTeams: odds.playoffTeams,
+      byes: odds.byes,
+      medianGames: odds.medianGames,
+      projectedMedianWinners,
+      teams: odds.teams.map(t => ({
+        rosterId: t.rosterId,
+        userId: t.userId,
+        teamName: t.teamName,
+        avatar: t.avatar,
+        wins: t.wins,
+        losses: t.losses,
+        ties: t.ties,
+        pointsFor: t.pointsFor,
+      })),
+      games,
+      clinched: odds.teams.filter(t => t.clinchedPlayoffs).map(t => t.rosterId),
+      eliminated: odds.teams.filter(t => t.eliminated).map(t => t.rosterId),
+    };
+    return NextResponse.json(data);
+  } catch (err) {
+    console.error('[api/playoff-scenarios]', err);
+    return NextResponse.json({ error: 'Failed to load playoff scenarios' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+import { getProjections } from '@/lib/projections';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Projected scores and win probabilities for every scheduled matchup left in
+ * the regular season. `?week=N` narrows the matchups to one week.
+ */
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const payload = await getProjections(await getRequestLeagueId(request), league.rootLeagueId);
+    const week = Number(new URL(request.url).searchParams.get('week'));
+    if (!week) return NextResponse.json(payload);
+    return NextResponse.json({ ...payload, matchups: payload.matchups.filter(m => m.week === week) });
+  } catch (err) {
+    console.error('[api/projections]', err);
+    return NextResponse.json({ error: 'Failed to compute projections' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { getAllLinkedLeagueIds, getLeagueUsers, getLeagueRosters, getNFLState } from '@/lib/api';
-import { getCurrentLeagueId, INITIAL_LEAGUE_ID } from '@/config/league';
+import { INITIAL_LEAGUE_ID } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { getProvider } from '@/lib/providers';
 import {
   getPlayersDirectory,
   getSeasonStats,
@@ -12,8 +14,6 @@ import {
 
 export const dynamic = 'force-dynamic';
 
-const BASE = 'https://api.sleeper.app/v1';
-
 export interface PlayerMove {
   transactionId: string;
   type:     'trade' | 'free_agent' | 'waiver';
@@ -46,7 +46,7 @@ export async function GET(
   }
 
   try {
-    const leagueId = await getCurrentLeagueId();
+    const leagueId = await getRequestLeagueId(request);
     const [nflState, players, linkedIds] = await Promise.all([
       getNFLState(),
       getPlayersDirectory(),
@@ -72,7 +72,7 @@ export async function GET(
     // per-player transaction endpoint, so the weeks must be swept.
     const perSeason = await Promise.all(linkedIds.map(async (id: string) => {
       const [info, rosters, users] = await Promise.all([
-        fetch(`${BASE}/league/${id}`, { next: { revalidate: 86400 } }).then(r => r.json()).catch(() => null),
+        getProvider().getLeague(id, { freshness: 'settled' }).catch(() => null),
         getLeagueRosters(id).catch(() => []),
         getLeagueUsers(id).catch(() => []),
       ]);
@@ -81,13 +81,11 @@ export async function GET(
       const status = info.status as string;
       const live = status === 'in_season' || status === 'post_season' || status === 'drafting' || status === 'pre_draft';
       const maxWeek = live ? Math.max(1, currentNFLWeek) : 22;
-      const opts: RequestInit = live ? { cache: 'no-store' } : { next: { revalidate: 86400 } };
+      const freshness = live ? 'live' : 'settled';
 
       const batches = await Promise.all(
         Array.from({ length: maxWeek }, (_, i) =>
-          fetch(`${BASE}/league/${id}/transactions/${i + 1}`, opts)
-            .then(r => (r.ok ? r.json() : []))
-            .catch(() => []),
+          getProvider().getTransactions(id, i + 1, { freshness }).catch(() => []),
         ),
       );
 
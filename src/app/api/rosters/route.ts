@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getLeagueRosters, getLeagueUsers, getNFLState, getAllLeagueSeasons } from '@/lib/api';
-import { getCurrentLeagueId, INITIAL_LEAGUE_ID } from '@/config/league';
+import { INITIAL_LEAGUE_ID } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
 import {
   getPlayersDirectory,
   getSeasonStats,
@@ -39,7 +40,7 @@ export async function GET(request: Request) {
     // The roster shown is always the current one — the season picker changes
     // which year's production is laid over those players, it does not travel
     // back to that year's roster.
-    const leagueId = await getCurrentLeagueId();
+    const leagueId = await getRequestLeagueId(request);
     const [nflState, seasons] = await Promise.all([
       getNFLState(),
       getAllLeagueSeasons(leagueId),
@@ -1,25 +1,14 @@
 import { NextResponse } from 'next/server';
 import { getAllLinkedLeagueIds } from '@/lib/api';
+import { getRequestLeague } from '@/lib/leagueContext';
+import { getProvider } from '@/lib/providers';
+import { cached, type CachePolicy } from '@/lib/dataCache';
 
 export const dynamic = 'force-dynamic';
 
-const BASE = 'https://api.sleeper.app/v1';
-
-let responseCache: { data: ScheduleLabResponse; ts: number } | null = null;
-const RESPONSE_TTL_MS = 900_000; // 15 min
-
-/** Transient Sleeper failures shouldn't silently zero out a season's schedule data. */
-async function fetchJson<T>(url: string, opts: RequestInit, fallback: T, tries = 3): Promise<T> {
-  for (let i = 0; i < tries; i++) {
-    try {
-      const r = await fetch(url, opts);
-      if (r.ok) return await r.json();
-      if (r.status === 404) return fallback;
-    } catch { /* retry */ }
-    if (i < tries - 1) await new Promise(res => setTimeout(res, 300 * (i + 1)));
-  }
-  return fallback;
-}
+// Shared cache, keyed by chain root. After 15 minutes the last build is still
+// served while a fresh one runs, so no visitor waits on the full rebuild.
+const RESPONSE_POLICY: CachePolicy = { freshMs: 900_000, staleMs: 6 * 3_600_000 }; // 15 min, then 6h stale
 
 // ── Public types ──────────────────────────────────────────────────────────────
 
@@ -116,10 +105,13 @@ interface RawWeekGame {
 }
 
 async function loadSeason(leagueId: string): Promise<SeasonScheduleData | null> {
-  const [info, rosters, users] = await Promise.all([
-    fetchJson<any>(`${BASE}/league/${leagueId}`, { next: { revalidate: 3600 } }, null),
-    fetchJson<any[]>(`${BASE}/league/${leagueId}/rosters`, { next: { revalidate: 3600 } }, []),
-    fetchJson<any[]>(`${BASE}/league/${leagueId}/users`, { next: { revalidate: 3600 } }, []),
+  // The provider already retries transient failures; what still fails drops
+  // the season rather than silently zeroing out its schedule.
+  const provider = getProvider();
+  const [info, rosters, users]: [any, any[], any[]] = await Promise.all([
+    provider.getLeague(leagueId, { freshness: 'recent' }).catch(() => null),
+    provider.getRosters(leagueId, { freshness: 'recent' }).catch(() => []),
+    provider.getLeagueUsers(leagueId, { freshness: 'recent' }).catch(() => []),
   ]);
   if (!info || rosters.length === 0) return null;
 
@@ -133,13 +125,11 @@ async function loadSeason(leagueId: string): Promise<SeasonScheduleData | null>
   const weeksPlayed = Math.min(regularSeasonWeeks, lastScored);
   if (weeksPlayed < 1) return null;
 
-  const fetchOpts: RequestInit = isComplete
-    ? { next: { revalidate: 86400 } }
-    : { cache: 'no-store' };
+  const freshness = isComplete ? 'settled' : 'live';
 
-  const matchupBatches = await Promise.all(
+  const matchupBatches: any[][] = await Promise.all(
     Array.from({ length: weeksPlayed }, (_, i) =>
-      fetchJson<any[]>(`${BASE}/league/${leagueId}/matchups/${i + 1}`, fetchOpts, [])
+      provider.getMatchups(leagueId, i + 1, { freshness }).catch(() => [])
     )
   );
 
@@ -320,27 +310,28 @@ async function loadSeason(leagueId: string): Promise<SeasonScheduleData | null>
   return { season, isLive, regularSeasonWeeks, weeksPlayed, teams, hasMedianGames, matrix, summaries };
 }
 
-// ── Route ─────────────────────────────────────────────────────────────────────
+async function buildResponse(rootLeagueId: string): Promise<ScheduleLabResponse> {
+  const allLeagueIds = await getAllLinkedLeagueIds(rootLeagueId);
+  const seasons = (await Promise.all(allLeagueIds.map(loadSeason)))
+    .filter((s): s is SeasonScheduleData => s !== null)
+    .sort((a, b) => Number(b.season) - Number(a.season));
 
-export async function GET() {
-  const initialId = process.env.NEXT_PUBLIC_LEAGUE_ID;
-  if (!initialId) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+  const bySeason: Record<string, SeasonScheduleData> = {};
+  for (const s of seasons) bySeason[s.season] = s;
 
-  if (responseCache && Date.now() - responseCache.ts < RESPONSE_TTL_MS) {
-    return NextResponse.json(responseCache.data);
-  }
+  return { seasons: seasons.map(s => s.season), bySeason };
+}
 
-  try {
-    const allLeagueIds = await getAllLinkedLeagueIds(initialId);
-    const seasons = (await Promise.all(allLeagueIds.map(loadSeason)))
-      .filter((s): s is SeasonScheduleData => s !== null)
-      .sort((a, b) => Number(b.season) - Number(a.season));
+// ── Route ─────────────────────────────────────────────────────────────────────
 
-    const bySeason: Record<string, SeasonScheduleData> = {};
-    for (const s of seasons) bySeason[s.season] = s;
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
 
-    const payload: ScheduleLabResponse = { seasons: seasons.map(s => s.season), bySeason };
-    responseCache = { data: payload, ts: Date.now() };
+  try {
+    const payload = await cached(
+      `route:schedule-lab:${league.rootLeagueId}`, RESPONSE_POLICY, () => buildResponse(league.rootLeagueId),
+    );
     return NextResponse.json(payload);
   } catch (err) {
     console.error('[api/schedule-lab]', err);
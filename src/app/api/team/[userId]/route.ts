@@ -2,15 +2,18 @@ import { NextResponse } from 'next/server';
 import {
   getAllLinkedLeagueIds, getLeagueUsers, getLeagueRosters, getAdvancedTeamMetrics,
 } from '@/lib/api';
-import { getCurrentLeagueId } from '@/config/league';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
 import { generateEnhancedLeagueHistory, type EnhancedLeagueHistory, type EnhancedHistoricalRecord } from '@/lib/enhancedHistoryApi';
+import { getLineupHistory, type LineupHistoryPayload, type LineupTotals } from '@/lib/lineupHistory';
 
 export const dynamic = 'force-dynamic';
 
 // The full league computation is user-independent and expensive (many Sleeper
 // calls across every linked season), compute it once and serve every manager's
 // profile from the cache instead of redoing it per request.
-let historyCache: { history: EnhancedLeagueHistory; advanced: Awaited<ReturnType<typeof getAdvancedTeamMetrics>>; identities: Map<string, IdentityInfo>; ts: number } | null = null;
+// Keyed by league chain, so a side league never serves the main league's profiles.
+interface SharedHistory { history: EnhancedLeagueHistory; advanced: Awaited<ReturnType<typeof getAdvancedTeamMetrics>>; lineups: LineupHistoryPayload | null; identities: Map<string, IdentityInfo>; ts: number }
+const historyCache = new Map<string, SharedHistory>();
 const CACHE_TTL_MS = 900_000; // 15 min
 
 interface IdentityInfo {
@@ -19,14 +22,20 @@ interface IdentityInfo {
   avatar: string;
 }
 
-async function loadShared() {
-  if (historyCache && Date.now() - historyCache.ts < CACHE_TTL_MS) return historyCache;
+async function loadShared(request: Request, leagueKey: string): Promise<SharedHistory> {
+  const cached = historyCache.get(leagueKey);
+  if (cached && Date.now() - cached.ts < CACHE_TTL_MS) return cached;
 
-  const leagueId = await getCurrentLeagueId();
-  const [history, advanced, allLeagueIds] = await Promise.all([
+  const leagueId = await getRequestLeagueId(request);
+  const [history, advanced, allLeagueIds, lineups] = await Promise.all([
     generateEnhancedLeagueHistory(leagueId),
     getAdvancedTeamMetrics(leagueId),
     getAllLinkedLeagueIds(leagueId),
+    // Hindsight lineups are a nice-to-have; the profile stands without them.
+    getLineupHistory(leagueId).catch(err => {
+      console.error('[api/team] lineup history', err);
+      return null;
+    }),
   ]);
 
   // generateEnhancedLeagueHistory tracks Sleeper display_name, not the custom
@@ -48,8 +57,9 @@ async function loadShared() {
     }
   }
 
-  historyCache = { history, advanced, identities, ts: Date.now() };
-  return historyCache;
+  const shared = { history, advanced, lineups, identities, ts: Date.now() };
+  historyCache.set(leagueKey, shared);
+  return shared;
 }
 
 // ── Public types ──────────────────────────────────────────────────────────────
@@ -66,6 +76,8 @@ export interface SeasonEntry {
   championship: boolean;
   regularSeasonChamp: boolean;
   highlights: string[];
+  /** Set lineups against the best possible ones; null without matchup detail. */
+  lineups: LineupTotals | null;
 }
 
 export interface RivalEntry {
@@ -118,6 +130,9 @@ export interface TeamProfileResponse {
 
   advanced: AdvancedProfile | null;
 
+  /** Career lineup efficiency, points left on the bench and bench losses. */
+  lineups: LineupTotals | null;
+
   recordsHeld: {
     type: string;
     season: string;
@@ -132,13 +147,13 @@ export interface TeamProfileResponse {
 
 // ── Route ─────────────────────────────────────────────────────────────────────
 
-export async function GET(_req: Request, { params }: { params: Promise<{ userId: string }> }) {
+export async function GET(request: Request, { params }: { params: Promise<{ userId: string }> }) {
   const { userId } = await params;
-  const initialId = process.env.NEXT_PUBLIC_LEAGUE_ID;
-  if (!initialId) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
 
   try {
-    const { history, advanced, identities } = await loadShared();
+    const { history, advanced, lineups, identities } = await loadShared(request, league.key);
     const stats = history.allTimeStats.find(u => u.userId === userId);
     if (!stats) return NextResponse.json({ error: 'Manager not found' }, { status: 404 });
 
@@ -149,7 +164,8 @@ export async function GET(_req: Request, { params }: { params: Promise<{ userId:
     // Record descriptions are baked with the raw Sleeper display name at
     // generation time; swap in the custom team name so the profile reads as one
     // consistent voice instead of surfacing an account username.
-    const myRecords: EnhancedHistoricalRecord[] = history.records
+    const myLineups = lineups?.managers.find(m => m.userId === userId) ?? null;
+    const myRecords: EnhancedHistoricalRecord[] = [...history.records, ...(lineups?.records ?? [])]
       .filter(r => r.userId === userId)
       .map(r => ({ ...r, description: r.description.split(stats.username).join(teamName) }))
       .sort((a, b) => (b.isAllTime ? 1 : 0) - (a.isAllTime ? 1 : 0) || Number(b.season) - Number(a.season));
@@ -175,6 +191,7 @@ export async function GET(_req: Request, { params }: { params: Promise<{ userId:
         championship: s.championship,
         regularSeasonChamp: s.regularSeasonChamp,
         highlights,
+        lineups: myLineups?.seasons.find(l => l.season === season) ?? null,
       };
     });
 
@@ -241,6 +258,7 @@ export async function GET(_req: Request, { params }: { params: Promise<{ userId:
       },
       rings,
       advanced: advancedProfile,
+      lineups: myLineups?.career ?? null,
       recordsHeld: myRecords.map(r => ({
         type: r.type, season: r.season, week: r.week, description: r.description, isAllTime: !!r.isAllTime,
       })),
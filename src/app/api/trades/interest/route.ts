@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeague } from '@/lib/leagueContext';
+import { getRequestManager } from '@/lib/managerContext';
+import { getManagerInterest, markMatchesSeen, recordSwipe, type SwipeDirection } from '@/lib/tradeInterest';
+import { dealKey } from '@/lib/tradeColors';
+import type { TradeProposal } from '@/lib/tradeEngine';
+
+export const dynamic = 'force-dynamic';
+
+// Keyed by the same league ID the suggestions are generated for, so roster
+// IDs on the cards line up with the manager's.
+
+/** The reader's swipes and mutual-interest matches. */
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const manager = await getRequestManager(league.rootLeagueId);
+    if (!manager) return NextResponse.json({ manager: null, swipes: {}, matches: [] });
+    return NextResponse.json({ manager, ...(await getManagerInterest(league.rootLeagueId, manager)) });
+  } catch (err) {
+    console.error('[api/trades/interest]', err);
+    return NextResponse.json({ error: 'Failed to load trade interest' }, { status: 500 });
+  }
+}
+
+/**
+ * Body: { proposal, direction }. Only the deal's key is taken from the
+ * proposal; a match is rebuilt from the rosters. Returns the match the swipe
+ * completes, if any.
+ */
+export async function POST(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const manager = await getRequestManager(league.rootLeagueId);
+    if (!manager) return NextResponse.json({ error: 'Sign in first' }, { status: 401 });
+    const { proposal, direction } = (await request.json()) as { proposal?: TradeProposal; direction?: SwipeDirection };
+    if (!Array.isArray(proposal?.sideA?.gives) || !Array.isArray(proposal?.sideB?.gives)
+      || (direction !== 'right' && direction !== 'left')) {
+      return NextResponse.json({ error: 'proposal and direction are required' }, { status: 400 });
+    }
+    const match = await recordSwipe(league.rootLeagueId, manager, dealKey(proposal), direction);
+    return NextResponse.json({ match });
+  } catch (err) {
+    console.error('[api/trades/interest]', err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : 'Failed to save swipe' }, { status: 500 });
+  }
+}
+
+/** Marks the reader's matches as seen. */
+export async function PATCH(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const manager = await getRequestManager(league.rootLeagueId);
+    if (!manager) return NextResponse.json({ error: 'Sign in first' }, { status: 401 });
+    await markMatchesSeen(league.rootLeagueId, manager);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error('[api/trades/interest]', err);
+    return NextResponse.json({ error: 'Failed to update matches' }, { status: 500 });
+  }
+}
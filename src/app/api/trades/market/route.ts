@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getTradeMarket } from '@/lib/tradeEngine';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+
+export const dynamic = 'force-dynamic';
+
+/** Every roster's players and future picks, valued, for the trade builder. */
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    return NextResponse.json(await getTradeMarket(await getRequestLeagueId(request)));
+  } catch (err) {
+    console.error('[api/trades/market]', err);
+    return NextResponse.json({ error: 'Failed to load the trade market' }, { status: 500 });
+  }
+}
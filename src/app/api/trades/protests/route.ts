@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+import { getRequestManager } from '@/lib/managerContext';
+import { getAdminSession } from '@/lib/adminAuth';
+import {
+  PROTEST_GROUNDS, ProtestError, castProtestVote, fileProtest, getProtestRules, getProtestableTrades,
+  listProtests, statusOf, type ProtestGround, type ProtestVoteChoice,
+} from '@/lib/tradeProtests';
+
+export const dynamic = 'force-dynamic';
+
+// Cases are kept per league chain, keyed by its root league ID, so past
+// seasons' cases stay on the docket; trades and managers come from the
+// current season's league.
+
+/** The public docket, plus what the reader can do on it. */
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const leagueId = await getRequestLeagueId(request);
+    const { windowMs, vetoVotesNeeded } = await getProtestRules(leagueId);
+    const [cases, trades, manager, admin] = await Promise.all([
+      listProtests(league.rootLeagueId),
+      getProtestableTrades(leagueId, windowMs),
+      getRequestManager(leagueId),
+      getAdminSession(),
+    ]);
+    return NextResponse.json({
+      cases: cases.map(c => ({ ...c, status: statusOf(c) })),
+      trades: trades.filter(t => !cases.some(c => c.trade.transactionId === t.transactionId)),
+      grounds: Object.entries(PROTEST_GROUNDS).map(([id, g]) => ({ id, label: g.label })),
+      windowHours: Math.round(windowMs / 3_600_000),
+      vetoVotesNeeded,
+      manager,
+      canRule: !!admin,
+    });
+  } catch (err) {
+    console.error('[api/trades/protests]', err);
+    return NextResponse.json({ error: 'Failed to load the docket' }, { status: 500 });
+  }
+}
+
+/** File a protest. Body: { transactionId, ground, reason }. */
+export async function POST(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const leagueId = await getRequestLeagueId(request);
+    const manager = await getRequestManager(leagueId);
+    if (!manager) return NextResponse.json({ error: 'Sign in first' }, { status: 401 });
+    const { transactionId, ground, reason } = (await request.json()) as {
+      transactionId?: string; ground?: ProtestGround; reason?: string;
+    };
+    const filed = await fileProtest(league.rootLeagueId, leagueId, manager, {
+      transactionId: String(transactionId ?? ''),
+      ground: ground as ProtestGround,
+      reason: String(reason ?? ''),
+    });
+    return NextResponse.json({ case: { ...filed, status: statusOf(filed) } });
+  } catch (err) {
+    if (err instanceof ProtestError) return NextResponse.json({ error: err.message }, { status: 400 });
+    console.error('[api/trades/protests]', err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : 'Failed to file the protest' }, { status: 500 });
+  }
+}
+
+/** Vote on an open case. Body: { caseId, vote: 'veto' | 'stand' }. */
+export async function PATCH(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+
+  try {
+    const manager = await getRequestManager(await getRequestLeagueId(request));
+    if (!manager) return NextResponse.json({ error: 'Sign in first' }, { status: 401 });
+    const { caseId, vote } = (await request.json()) as { caseId?: string; vote?: ProtestVoteChoice };
+    if (!caseId || (vote !== 'veto' && vote !== 'stand')) {
+      return NextResponse.json({ error: 'caseId and vote are required' }, { status: 400 });
+    }
+    const updated = await castProtestVote(league.rootLeagueId, manager, caseId, vote);
+    return NextResponse.json({ case: { ...updated, status: statusOf(updated) } });
+  } catch (err) {
+    if (err instanceof ProtestError) return NextResponse.json({ error: err.message }, { status: 400 });
+    console.error('[api/trades/protests]', err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : 'Failed to record the vote' }, { status: 500 });
+  }
+}
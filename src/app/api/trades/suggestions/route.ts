@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { generateTradeProposals } from '@/lib/tradeEngine';
+import { getRequestLeague } from '@/lib/leagueContext';
 
 // Cache the full response for 2 hours. AI call is expensive.
 export const revalidate = 7200;
@@ -7,14 +8,14 @@ export const revalidate = 7200;
 // Vercel Pro: up to 60s. Hobby: capped at 10s. Upgrade if hitting limit.
 export const maxDuration = 60;
 
-export async function GET() {
-  const leagueId = process.env.NEXT_PUBLIC_LEAGUE_ID;
-  if (!leagueId) {
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) {
     return NextResponse.json({ error: 'No league configured' }, { status: 400 });
   }
 
   try {
-    const result = await generateTradeProposals(leagueId);
+    const result = await generateTradeProposals(league.rootLeagueId);
     return NextResponse.json(result);
   } catch (error) {
     console.error('[trades/suggestions]', error);
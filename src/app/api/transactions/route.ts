@@ -1,26 +1,11 @@
 import { NextResponse } from 'next/server';
 import { getAllLinkedLeagueIds } from '@/lib/api';
+import { getRequestLeague } from '@/lib/leagueContext';
+import { getProvider } from '@/lib/providers';
+import { getPlayersDirectory } from '@/lib/playerStats';
 
 export const dynamic = 'force-dynamic';
 
-const BASE = 'https://api.sleeper.app/v1';
-
-// Module-level cache for the 19MB players blob, too large for Next.js data cache (2MB limit).
-// Survives across requests within the same serverless function instance.
-let playersCache: { data: Record<string, any>; ts: number } | null = null;
-const PLAYERS_TTL_MS = 86_400_000; // 24 h
-
-async function fetchAllPlayers(): Promise<Record<string, any>> {
-  if (playersCache && Date.now() - playersCache.ts < PLAYERS_TTL_MS) {
-    return playersCache.data;
-  }
-  const data = await fetch(`${BASE}/players/nfl`, { cache: 'no-store' })
-    .then(r => r.ok ? r.json() : {})
-    .catch(() => ({}));
-  playersCache = { data, ts: Date.now() };
-  return data;
-}
-
 export interface PlayerSummary {
   id: string;
   name: string;
@@ -127,26 +112,28 @@ function enrichTransactions(
 
 // ── Route ─────────────────────────────────────────────────────────────────────
 
-export async function GET() {
-  const initialId = process.env.NEXT_PUBLIC_LEAGUE_ID;
-  if (!initialId) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
+export async function GET(request: Request) {
+  const league = await getRequestLeague(request);
+  if (!league) return NextResponse.json({ error: 'No league configured' }, { status: 400 });
 
   try {
     const [nflState, allLeagueIds, allPlayers] = await Promise.all([
-      fetch(`${BASE}/state/nfl`, { cache: 'no-store' }).then(r => r.json()),
-      getAllLinkedLeagueIds(initialId),
-      fetchAllPlayers(),
+      getProvider().getNFLState({ freshness: 'live' }),
+      getAllLinkedLeagueIds(league.rootLeagueId),
+      getPlayersDirectory().catch(() => ({})),
     ]);
 
     const currentNFLWeek = Math.max(1, nflState.week ?? 1);
 
     // Fetch all seasons in parallel: info + rosters + users + transactions per week
     const seasonData = await Promise.all(allLeagueIds.map(async leagueId => {
+      const provider = getProvider();
       const [info, rosters, users] = await Promise.all([
-        fetch(`${BASE}/league/${leagueId}`, { next: { revalidate: 86400 } }).then(r => r.json()),
-        fetch(`${BASE}/league/${leagueId}/rosters`, { next: { revalidate: 3600 } }).then(r => r.json()),
-        fetch(`${BASE}/league/${leagueId}/users`,   { next: { revalidate: 3600 } }).then(r => r.json()),
+        provider.getLeague(leagueId, { freshness: 'settled' }),
+        provider.getRosters(leagueId, { freshness: 'recent' }),
+        provider.getLeagueUsers(leagueId, { freshness: 'recent' }),
       ]);
+      if (!info) throw new Error(`League ${leagueId} not found`);
 
       const season = info.season as string;
       const status = info.status as string;
@@ -160,15 +147,11 @@ export async function GET() {
       // Completed seasons never change, cache aggressively. Current/offseason leagues must
       // always hit Sleeper fresh so new transactions appear immediately (no-store bypasses
       // the Next.js Data Cache which can survive redeployments).
-      const fetchOpts: RequestInit = (isActive || isOffseason)
-        ? { cache: 'no-store' }
-        : { next: { revalidate: 86400 } };
+      const freshness = (isActive || isOffseason) ? 'live' : 'settled';
 
       const weekBatches = await Promise.all(
         Array.from({ length: maxWeek }, (_, i) =>
-          fetch(`${BASE}/league/${leagueId}/transactions/${i + 1}`, fetchOpts)
-            .then(r => r.ok ? r.json() : [])
-            .catch(() => [])
+          provider.getTransactions(leagueId, i + 1, { freshness }).catch(() => [])
         )
       );
 
@@ -0,0 +1,266 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Vote } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import type { LeagueManager } from '@/lib/managerContext';
+import type {
+  Amendment, AmendmentStatus, AmendmentVoteChoice, ConstitutionVersion,
+} from '@/lib/constitutionStore';
+import Redline from './Redline';
+
+type ListedAmendment = Amendment & { status: AmendmentStatus };
+
+const STATUS_LABEL: Record<AmendmentStatus, string> = {
+  open: 'Voting open',
+  ratified: 'Ratified, awaiting merge',
+  failed: 'Failed',
+  merged: 'Adopted',
+  rejected: 'Rejected',
+};
+
+const BUTTON =
+  'rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40';
+const INPUT =
+  'w-full rounded-md border border-border bg-background px-2 py-1.5 text-xs text-foreground focus:border-primary focus:outline-none';
+
+function AmendmentCard({
+  a, base, manager, onVote,
+}: {
+  a: ListedAmendment;
+  base: ConstitutionVersion | undefined;
+  manager: LeagueManager | null;
+  onVote: (vote: AmendmentVoteChoice) => void;
+}) {
+  const [showText, setShowText] = useState(false);
+  const yes = a.votes.filter(v => v.vote === 'yes');
+  const no = a.votes.filter(v => v.vote === 'no');
+  const mine = manager ? a.votes.find(v => v.userId === manager.userId)?.vote : undefined;
+  const canVote = !!manager && !a.resolution;
+
+  return (
+    <article className="rounded-xl border border-border bg-card p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={cn(
+          'rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider',
+          a.status === 'open' ? 'bg-primary/10 text-primary'
+            : a.status === 'ratified' || a.status === 'merged' ? 'bg-emerald-500/10 text-emerald-500'
+            : 'bg-muted text-muted-foreground',
+        )}>
+          {STATUS_LABEL[a.status]}
+        </span>
+        <span className="text-[11px] text-muted-foreground">
+          Proposed by {a.proposedBy.teamName} {formatDistanceToNow(new Date(a.proposedAt), { addSuffix: true })}, against v{a.baseVersion}
+        </span>
+      </div>
+      <h3 className="mt-2 text-sm font-semibold text-foreground">{a.title}</h3>
+      <p className="mt-1 text-xs text-muted-foreground">{a.rationale}</p>
+
+      <div className="mt-3">
+        <div className="flex items-center justify-between text-[11px] text-muted-foreground">
+          <span>
+            <span className="font-semibold text-emerald-500">{yes.length} yes</span>
+            {' · '}
+            <span className="font-semibold text-rose-500">{no.length} no</span>
+          </span>
+          <span>{a.votesNeeded} of {a.electorate} to ratify</span>
+        </div>
+        <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full rounded-full bg-emerald-500 transition-all"
+            style={{ width: `${Math.min(100, (yes.length / Math.max(1, a.votesNeeded)) * 100)}%` }}
+          />
+        </div>
+        <p className="mt-1 text-[10px] text-muted-foreground">
+          {a.votes.map(v => `${v.teamName} (${v.vote})`).join(', ')}
+        </p>
+      </div>
+
+      {canVote && (
+        <div className="mt-3 flex items-center gap-2">
+          <button onClick={() => onVote('yes')} className={cn(BUTTON, mine === 'yes' && 'border-emerald-500/60 text-emerald-500')}>
+            Yes
+          </button>
+          <button onClick={() => onVote('no')} className={cn(BUTTON, mine === 'no' && 'border-rose-500/60 text-rose-500')}>
+            No
+          </button>
+          {mine && <span className="text-[11px] text-muted-foreground">You can change your vote until the Commissioner acts on it.</span>}
+        </div>
+      )}
+
+      {a.resolution && (
+        <p className="mt-3 text-xs text-muted-foreground">
+          {a.resolution.outcome === 'merged' ? `Adopted as v${a.resolution.version}` : 'Rejected'} by {a.resolution.by},{' '}
+          {new Date(a.resolution.at).toLocaleDateString()}
+          {a.resolution.note && `: ${a.resolution.note}`}
+        </p>
+      )}
+
+      <button onClick={() => setShowText(s => !s)} className="mt-3 text-[11px] font-semibold text-primary hover:underline">
+        {showText ? 'Hide changes' : 'Show changes'}
+      </button>
+      {showText && (
+        <div className="mt-2">
+          {base ? <Redline before={base.markdown} after={a.markdown} /> : (
+            <p className="text-xs text-muted-foreground">Version {a.baseVersion} is no longer on record.</p>
+          )}
+        </div>
+      )}
+    </article>
+  );
+}
+
+function ProposeForm({ current, onProposed }: { current: ConstitutionVersion; onProposed: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [rationale, setRationale] = useState('');
+  const [markdown, setMarkdown] = useState(current.markdown);
+  const [preview, setPreview] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    setBusy(true); setError(null);
+    try {
+      const res = await fetch('/api/constitution/amendments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, rationale, markdown }),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Failed to propose'); return; }
+      setOpen(false); setTitle(''); setRationale(''); setMarkdown(current.markdown);
+      onProposed();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!open) return <button onClick={() => setOpen(true)} className={BUTTON}>Propose an amendment</button>;
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 space-y-2">
+      <input value={title} onChange={e => setTitle(e.target.value)} placeholder="Title, e.g. Raise the trade review window to 72 hours" className={INPUT} />
+      <textarea
+        value={rationale}
+        onChange={e => setRationale(e.target.value)}
+        rows={2}
+        placeholder="What it changes and why"
+        className={INPUT}
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] text-muted-foreground">Edit the text as you want it to read (markdown).</span>
+        <button onClick={() => setPreview(p => !p)} className="text-[11px] font-semibold text-primary hover:underline">
+          {preview ? 'Edit' : 'Preview changes'}
+        </button>
+      </div>
+      {preview ? (
+        <Redline before={current.markdown} after={markdown} />
+      ) : (
+        <textarea
+          value={markdown}
+          onChange={e => setMarkdown(e.target.value)}
+          rows={16}
+          className={cn(INPUT, 'font-mono')}
+        />
+      )}
+      {error && (
+        <p className="rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>
+      )}
+      <div className="flex gap-2">
+        <button onClick={submit} disabled={busy || !title.trim() || !rationale.trim()} className={BUTTON}>
+          {busy ? 'Proposing…' : 'Propose'}
+        </button>
+        <button onClick={() => setOpen(false)} disabled={busy} className={BUTTON}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Amendments up for a vote and past ones. Any signed-in manager may propose
+ * one or vote; the Commissioner merges what is ratified.
+ */
+export default function Amendments({ versions }: { versions: ConstitutionVersion[] }) {
+  const [amendments, setAmendments] = useState<ListedAmendment[] | null>(null);
+  const [manager, setManager] = useState<LeagueManager | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const current = versions[versions.length - 1];
+
+  const load = useCallback(async () => {
+    try {
+      const d = await fetch('/api/constitution/amendments').then(r => r.json());
+      if (d.error) setError(d.error);
+      setAmendments(d.amendments ?? []);
+      setManager(d.manager ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setAmendments([]);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const vote = async (amendmentId: string, choice: AmendmentVoteChoice) => {
+    setError(null);
+    try {
+      const res = await fetch('/api/constitution/amendments', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amendmentId, vote: choice }),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Vote failed'); return; }
+      setAmendments(as => (as ?? []).map(a => (a.id === amendmentId ? d.amendment : a)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <section id="amendment-proposals" className="scroll-mt-24">
+      <h2 className="text-xl font-semibold text-foreground mt-8 mb-3 flex items-center gap-2">
+        <Vote className="h-5 w-5 text-muted-foreground" />
+        Amendment Proposals
+      </h2>
+      <div className="h-px bg-border mb-4" />
+
+      {error && (
+        <p className="mb-3 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>
+      )}
+
+      <div className="mb-4">
+        {manager ? (
+          <ProposeForm current={current} onProposed={load} />
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            <Link href="/signin" className="font-semibold text-primary hover:underline">Sign in</Link> to propose an amendment or vote on one.
+          </p>
+        )}
+      </div>
+
+      {!amendments ? (
+        <div className="flex justify-center py-6"><LoadingSpinner /></div>
+      ) : amendments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No amendments have been proposed.</p>
+      ) : (
+        <div className="space-y-3">
+          {amendments.map(a => (
+            <AmendmentCard
+              key={a.id}
+              a={a}
+              base={versions.find(v => v.version === a.baseVersion)}
+              manager={manager}
+              onVote={choice => vote(a.id, choice)}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -3,9 +3,18 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Search, X, ChevronRight, BookOpen, Zap } from 'lucide-react';
 import type { ConstitutionMeta, ConstitutionSection, LeagueSettings } from '@/lib/constitution';
+import type { ConstitutionVersion } from '@/lib/constitutionStore';
+import type { DriftReport } from '@/lib/constitutionDrift';
+import DriftNotice from './DriftNotice';
+import VersionHistory from './VersionHistory';
+import Amendments from './Amendments';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
 function highlight(text: string, query: string): string {
   if (!query.trim()) return text;
   const esc = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -297,7 +306,7 @@ function Chip({ label, value }: { label: string; value: string }) {
 // ── Markdown section block ────────────────────────────────────────────────────
 
 function SectionBlock({ section, query }: { section: ConstitutionSection; query: string }) {
-  const titleHtml   = highlight(section.title, query);
+  const titleHtml   = highlight(escapeHtml(section.title), query);
   const contentHtml = query.trim() ? highlight(section.html, query) : section.html;
 
   const headingClass =
@@ -354,6 +363,8 @@ interface Props {
   meta: ConstitutionMeta;
   markdownSections: ConstitutionSection[];
   leagueSettings: LeagueSettings | null;
+  versions: ConstitutionVersion[];
+  drift: DriftReport | null;
 }
 
 function buildAutoToc(s: LeagueSettings): TocItem[] {
@@ -367,7 +378,7 @@ function buildAutoToc(s: LeagueSettings): TocItem[] {
   ];
 }
 
-export default function ConstitutionView({ meta, markdownSections, leagueSettings }: Props) {
+export default function ConstitutionView({ meta, markdownSections, leagueSettings, versions, drift }: Props) {
   const [query,    setQuery]   = useState('');
   const [activeId, setActive]  = useState('');
   const [tocOpen,  setTocOpen] = useState(false);
@@ -378,9 +389,12 @@ export default function ConstitutionView({ meta, markdownSections, leagueSetting
     .filter(s => s.level <= 2)
     .map(s => ({ id: s.id, title: s.title, level: s.level }));
 
-  const tocItems: TocItem[] = leagueSettings
-    ? [...buildAutoToc(leagueSettings), ...mdTocItems]
-    : mdTocItems;
+  const tocItems: TocItem[] = [
+    ...(leagueSettings ? buildAutoToc(leagueSettings) : []),
+    ...mdTocItems,
+    { id: 'amendment-proposals', title: 'Amendment Proposals', level: 2 },
+    { id: 'history', title: 'Version History', level: 2 },
+  ];
 
   const filteredMd = query.trim()
     ? markdownSections.filter(s =>
@@ -432,12 +446,15 @@ export default function ConstitutionView({ meta, markdownSections, leagueSetting
           </h1>
           {meta.description && <p className="text-muted-foreground text-sm">{meta.description}</p>}
           <div className="flex flex-wrap gap-4 mt-4 text-xs text-muted-foreground">
-            <span>Version {meta.version}</span>
+            <button onClick={() => scrollTo('history')} className="hover:text-primary hover:underline">
+              Version {meta.version}
+            </button>
             {meta.lastUpdated && (
               <span>Last updated {new Date(meta.lastUpdated).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}</span>
             )}
             {leagueSettings && <span>{leagueSettings.season} season</span>}
           </div>
+          {drift && <div className="mt-4"><DriftNotice report={drift} sectionHref={id => `#${id}`} /></div>}
         </div>
 
         {/* Search + mobile ToC */}
@@ -498,6 +515,14 @@ export default function ConstitutionView({ meta, markdownSections, leagueSetting
           {filteredMd.map(section => (
             <SectionBlock key={section.id} section={section} query={query} />
           ))}
+
+          {/* Amendments and history: hidden during search */}
+          {!query.trim() && (
+            <>
+              <Amendments versions={versions} />
+              <VersionHistory versions={versions} />
+            </>
+          )}
         </div>
 
         {/* Footer */}
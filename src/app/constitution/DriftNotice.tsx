@@ -0,0 +1,51 @@
+import { AlertTriangle } from 'lucide-react';
+import type { DriftReport } from '@/lib/constitutionDrift';
+
+/**
+ * Where the written rules no longer match Sleeper, and what Sleeper changed
+ * since last season. Renders nothing when both lists are empty.
+ */
+export default function DriftNotice({ report, sectionHref }: {
+  report: DriftReport;
+  /** Link to the section a claim was read from. */
+  sectionHref: (sectionId: string) => string;
+}) {
+  if (report.drift.length === 0 && report.seasonChanges.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-4 text-xs">
+      {report.drift.length > 0 && (
+        <>
+          <p className="flex items-center gap-2 font-semibold text-amber-500">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            The text disagrees with the {report.season} Sleeper settings in {report.drift.length} place{report.drift.length === 1 ? '' : 's'}
+          </p>
+          <ul className="mt-2 space-y-1.5">
+            {report.drift.map((d, i) => (
+              <li key={i} className="text-foreground">
+                <span className="font-semibold">{d.label}:</span> the constitution says {d.says}, Sleeper has {d.sleeper}.{' '}
+                <a href={sectionHref(d.sectionId)} className="text-primary hover:underline">{d.sectionTitle}</a>
+                <span className="block text-[11px] italic text-muted-foreground">&ldquo;{d.quote}&rdquo;</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {report.seasonChanges.length > 0 && (
+        <>
+          <p className={`flex items-center gap-2 font-semibold text-amber-500 ${report.drift.length > 0 ? 'mt-4' : ''}`}>
+            <AlertTriangle className="h-3.5 w-3.5" />
+            Sleeper settings changed since {report.previousSeason}
+          </p>
+          <ul className="mt-2 space-y-1 text-foreground">
+            {report.seasonChanges.map(c => (
+              <li key={c.label}>
+                <span className="font-semibold">{c.label}:</span> {c.before} → {c.after}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
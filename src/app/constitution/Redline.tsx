@@ -0,0 +1,55 @@
+'use client';
+
+import { useMemo } from 'react';
+import { redline, redlineStats } from '@/lib/redline';
+
+// Unchanged stretches longer than this many lines are folded down to their
+// first and last CONTEXT lines.
+const FOLD_LINES = 8;
+const CONTEXT = 2;
+
+function Same({ text, first, last }: { text: string; first: boolean; last: boolean }) {
+  const lines = text.split('\n');
+  if (lines.length <= FOLD_LINES) return <span>{text}</span>;
+  const head = first ? [] : lines.slice(0, CONTEXT + 1);
+  const tail = last ? [] : lines.slice(-CONTEXT - 1);
+  const hidden = lines.length - head.length - tail.length;
+  return (
+    <>
+      {head.length > 0 && <span>{head.join('\n')}{'\n'}</span>}
+      <span className="my-1 block select-none text-center text-[10px] uppercase tracking-wider text-muted-foreground/60">
+        {hidden} unchanged lines
+      </span>
+      {tail.length > 0 && <span>{tail.join('\n')}</span>}
+    </>
+  );
+}
+
+/**
+ * One version of the constitution's markdown against another: removed words
+ * struck through in red, added ones underlined in green. Shown as source,
+ * not rendered, so a changed heading or list marker is visible too.
+ */
+export default function Redline({ before, after }: { before: string; after: string }) {
+  const parts = useMemo(() => redline(before, after), [before, after]);
+  const { added, removed } = redlineStats(parts);
+
+  if (!added && !removed) {
+    return <p className="text-xs text-muted-foreground">No changes to the text.</p>;
+  }
+
+  return (
+    <div>
+      <p className="mb-2 text-[11px] text-muted-foreground">
+        <span className="font-semibold text-emerald-500">+{added}</span> words added,{' '}
+        <span className="font-semibold text-rose-500">−{removed}</span> removed
+      </p>
+      <pre className="max-h-[32rem] overflow-y-auto whitespace-pre-wrap break-words rounded-lg border border-border bg-muted/20 p-3 font-sans text-xs leading-relaxed text-muted-foreground">
+        {parts.map((p, i) =>
+          p.kind === 'same' ? <Same key={i} text={p.text} first={i === 0} last={i === parts.length - 1} />
+          : p.kind === 'added' ? <ins key={i} className="bg-emerald-500/10 text-emerald-600 underline decoration-emerald-500/50 dark:text-emerald-400">{p.text}</ins>
+          : <del key={i} className="bg-rose-500/10 text-rose-600 line-through decoration-rose-500/60 dark:text-rose-400">{p.text}</del>)}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import { History } from 'lucide-react';
+import type { ConstitutionVersion } from '@/lib/constitutionStore';
+import Redline from './Redline';
+
+const SELECT =
+  'rounded-md border border-border bg-background px-2 py-1 text-xs text-foreground focus:border-primary focus:outline-none';
+
+/**
+ * Every published version, and a redline between any two. Defaults to what
+ * the latest version changed.
+ */
+export default function VersionHistory({ versions }: { versions: ConstitutionVersion[] }) {
+  const latest = versions.length - 1;
+  const [to, setTo] = useState(latest);
+  const [from, setFrom] = useState(Math.max(0, latest - 1));
+
+  const label = (v: ConstitutionVersion) =>
+    `v${v.version}${v.publishedAt ? `, ${new Date(v.publishedAt).toLocaleDateString()}` : ''}`;
+
+  return (
+    <section id="history" className="scroll-mt-24">
+      <h2 className="text-xl font-semibold text-foreground mt-8 mb-3 flex items-center gap-2">
+        <History className="h-5 w-5 text-muted-foreground" />
+        Version History
+      </h2>
+      <div className="h-px bg-border mb-4" />
+
+      <ol className="mb-5 space-y-2">
+        {[...versions].reverse().map((v, i) => (
+          <li key={v.version} className="flex flex-wrap items-baseline gap-x-3 gap-y-0.5 text-sm">
+            <span className="font-mono text-xs font-semibold text-primary">v{v.version}</span>
+            <span className="text-xs text-muted-foreground">
+              {v.publishedAt && new Date(v.publishedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+              {' · '}{v.by}
+              {i === 0 && ' · current'}
+            </span>
+            <span className="min-w-0 flex-1 text-xs text-foreground">{v.note}</span>
+          </li>
+        ))}
+      </ol>
+
+      {versions.length > 1 && (
+        <>
+          <div className="mb-3 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            Compare
+            <select value={from} onChange={e => setFrom(Number(e.target.value))} className={SELECT}>
+              {versions.map((v, i) => <option key={v.version} value={i}>{label(v)}</option>)}
+            </select>
+            with
+            <select value={to} onChange={e => setTo(Number(e.target.value))} className={SELECT}>
+              {versions.map((v, i) => <option key={v.version} value={i}>{label(v)}</option>)}
+            </select>
+          </div>
+          <Redline before={versions[from].markdown} after={versions[to].markdown} />
+        </>
+      )}
+    </section>
+  );
+}
@@ -1,32 +1,28 @@
 import { Scroll } from 'lucide-react';
 import { PageLayout } from '@/components/layout/PageLayout';
-import { getMarkdownSections, parseLeagueSettings } from '@/lib/constitution';
-import { getCurrentLeagueId } from '@/config/league';
-import { getLeagueInfo } from '@/lib/api';
+import { fetchLeagueSettings } from '@/lib/constitution';
+import { getConstitution, getConstitutionVersions } from '@/lib/constitutionStore';
+import { checkConstitutionDrift, type DriftReport } from '@/lib/constitutionDrift';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
 import ConstitutionView from './ConstitutionView';
 
 export const dynamic = 'force-dynamic';
 
 export default async function ConstitutionPage() {
-  const { meta, sections } = getMarkdownSections();
+  const storeId = (await getRequestLeague())?.rootLeagueId ?? null;
+  const [{ meta, sections }, versions] = await Promise.all([
+    getConstitution(storeId),
+    getConstitutionVersions(storeId),
+  ]);
 
   let leagueSettings = null;
+  let drift: DriftReport | null = null;
   try {
-    const leagueId  = await getCurrentLeagueId();
-    const [leagueRaw, draftsRaw] = await Promise.all([
-      getLeagueInfo(leagueId),
-      fetch(`https://api.sleeper.app/v1/league/${leagueId}/drafts`, { next: { revalidate: 3600 } })
-        .then(r => r.ok ? r.json() : [])
-        .catch(() => []),
+    const leagueId = await getRequestLeagueId();
+    [leagueSettings, drift] = await Promise.all([
+      fetchLeagueSettings(leagueId),
+      checkConstitutionDrift(storeId, leagueId),
     ]);
-
-    if (leagueRaw) {
-      // Most recent draft (highest season first)
-      const drafts: any[] = draftsRaw ?? [];
-      const latestDraft = drafts.sort((a: any, b: any) => Number(b.season) - Number(a.season))[0];
-      const draftType: string | null = latestDraft?.type ?? null;
-      leagueSettings = parseLeagueSettings(leagueRaw, draftType);
-    }
   } catch {
     // Render without live settings if fetch fails
   }
@@ -40,6 +36,8 @@ export default async function ConstitutionPage() {
         meta={meta}
         markdownSections={sections}
         leagueSettings={leagueSettings}
+        versions={versions}
+        drift={drift}
       />
     </PageLayout>
   );
@@ -1,13 +1,18 @@
 'use client';
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import { PageLayout } from '@/components/layout/PageLayout';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import ManagerAvatar from '@/components/ui/Avatar';
+import { useManager } from '@/components/auth/ManagerProvider';
 import { cn } from '@/lib/utils';
 import {
-  MessageCircle, TrendingUp, Trophy, Newspaper, Scale, ChevronDown, Users,
+  MessageCircle, TrendingUp, Trophy, Newspaper, Scale, ChevronDown, Users, CornerDownRight, X,
+  Swords, ClipboardList,
 } from 'lucide-react';
+import type { MatchupPreview, WeeklyRecap } from '@/lib/ai/generate';
 
 /**
  * The Desk: the AI writers' timeline.
@@ -20,7 +25,9 @@ import {
  * a one-line jab can share the same column without one burying the other.
  */
 
-type Kind = 'article' | 'tweet' | 'comment' | 'tradeGrade' | 'powerRankings' | 'predictions';
+type Kind =
+  | 'article' | 'tweet' | 'comment' | 'tradeGrade' | 'powerRankings' | 'predictions'
+  | 'matchupPreview' | 'weeklyRecap';
 
 interface FeedPost {
   id: string;
@@ -34,6 +41,30 @@ interface FeedPost {
   subject?: string;
 }
 
+type ReactionId = 'fire' | 'laugh' | 'facts' | 'cap' | 'salty';
+
+const REACTIONS: Record<ReactionId, string> = {
+  fire: '🔥', laugh: '😂', facts: '💯', cap: '🧢', salty: '🧂',
+};
+
+interface Reply {
+  id: string;
+  parentId?: string;
+  author:
+    | { kind: 'manager'; userId: string; teamName: string; avatar: string }
+    | { kind: 'persona'; personalityId: string; name: string; handle: string; accent: string; avatar?: string };
+  text: string;
+  createdAt: string;
+}
+
+interface Thread {
+  reactions: Partial<Record<ReactionId, number>>;
+  mine: ReactionId[];
+  replies: Reply[];
+}
+
+const EMPTY_THREAD: Thread = { reactions: {}, mine: [], replies: [] };
+
 const KIND_META: Record<Kind, { label: string; icon: typeof Newspaper } | null> = {
   tweet: null,
   comment: null,
@@ -41,6 +72,8 @@ const KIND_META: Record<Kind, { label: string; icon: typeof Newspaper } | null>
   powerRankings: { label: 'Power Rankings', icon: TrendingUp },
   predictions: { label: 'Predictions', icon: Trophy },
   tradeGrade: { label: 'Trade Grade', icon: Scale },
+  matchupPreview: { label: 'Matchup Preview', icon: Swords },
+  weeklyRecap: { label: 'Weekly Recap', icon: ClipboardList },
 };
 
 const FILTERS = [
@@ -66,13 +99,17 @@ function AiBadge() {
   );
 }
 
-function Avatar({ post }: { post: FeedPost }) {
+function Avatar({ post, className }: {
+  post: Pick<FeedPost, 'personaName' | 'personaAccent' | 'personaAvatar'>;
+  className?: string;
+}) {
   const initials = post.personaName.split(' ').map(w => w[0]).slice(0, 2).join('');
   return (
     <span className={cn(
       'relative flex h-11 w-11 shrink-0 items-center justify-center overflow-hidden rounded-full',
       'border border-border bg-card text-[11px] font-bold',
       post.personaAccent,
+      className,
     )}>
       {initials}
       {post.personaAvatar && (
@@ -84,6 +121,145 @@ function Avatar({ post }: { post: FeedPost }) {
   );
 }
 
+const pts = (n: number) => n.toFixed(1);
+
+/** Every matchup with the writer's pick, the odds, and both lineups on demand. */
+function PreviewBody({ c }: { c: MatchupPreview }) {
+  return (
+    <div className="space-y-3">
+      {c.matchups.map(m => (
+        <div key={m.matchupId} className="rounded-lg border border-border px-3 py-2.5">
+          <div className="grid grid-cols-2 gap-3">
+            {m.teams.map((t, i) => {
+              const odds = m.winProbability === null ? null : i === 0 ? m.winProbability : 1 - m.winProbability;
+              return (
+                <div key={t.teamName} className={cn('min-w-0', i === 1 && 'text-right')}>
+                  <p className="truncate text-[13px] font-semibold text-foreground">
+                    {t.teamName}
+                    {m.pick === t.teamName && (
+                      <span className="ml-1.5 text-[9px] font-bold uppercase tracking-wider text-primary">Pick</span>
+                    )}
+                  </p>
+                  <p className="font-display text-lg font-bold tabular-nums text-foreground">{pts(t.lineupProjected)}</p>
+                  {odds !== null && (
+                    <p className="text-[11px] tabular-nums text-muted-foreground">{Math.round(odds * 100)}% to win</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {m.winProbability !== null && (
+            <div className="mt-1.5 h-1 overflow-hidden rounded-full bg-muted">
+              <div className="h-full bg-primary" style={{ width: `${Math.round(m.winProbability * 100)}%` }} />
+            </div>
+          )}
+          {m.take && <p className="mt-2 text-[13px] leading-relaxed text-foreground/85">{m.take}</p>}
+          <details className="mt-2">
+            <summary className="cursor-pointer text-[11px] font-semibold text-muted-foreground">Lineups</summary>
+            <div className="mt-1.5 grid grid-cols-2 gap-3">
+              {m.teams.map(t => (
+                <ul key={t.teamName} className="space-y-0.5 text-[11px]">
+                  {t.starters.map((s, i) => (
+                    <li key={i} className="flex items-baseline gap-1.5">
+                      <span className="w-8 shrink-0 text-muted-foreground">{s.slot.replace('SUPER_FLEX', 'SF')}</span>
+                      <span className={cn('min-w-0 flex-1 truncate', s.injury ? 'text-amber-500' : 'text-foreground')}>
+                        {s.name}{s.injury && ` (${s.injury})`}
+                      </span>
+                      <span className="shrink-0 tabular-nums text-muted-foreground">{pts(s.projected)}</span>
+                    </li>
+                  ))}
+                </ul>
+              ))}
+            </div>
+          </details>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** The scoreboard first, then the week's standouts, each with the writer's verdict. */
+function RecapBody({ c }: { c: WeeklyRecap }) {
+  const label = 'text-[10px] font-bold uppercase tracking-widest text-muted-foreground';
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2">
+        {c.results.map(r => (
+          <li key={r.matchupId} className="rounded-lg border border-border px-3 py-2">
+            <div className="flex items-baseline justify-between gap-3 text-[13px]">
+              {r.teams.map((t, i) => (
+                <span key={t.teamName} className={cn('min-w-0 truncate', i === 1 && 'text-right',
+                  t.teamName === r.winner ? 'font-semibold text-foreground' : 'text-muted-foreground')}>
+                  {i === 0 ? <>{t.teamName} <span className="tabular-nums">{pts(t.points)}</span></>
+                    : <><span className="tabular-nums">{pts(t.points)}</span> {t.teamName}</>}
+                </span>
+              ))}
+            </div>
+            {r.take && <p className="mt-1 text-[13px] leading-relaxed text-foreground/85">{r.take}</p>}
+          </li>
+        ))}
+      </ul>
+
+      {c.topScorers.length > 0 && (
+        <div>
+          <p className={label}>Top scorers</p>
+          <ol className="mt-1 space-y-0.5">
+            {c.topScorers.map((s, i) => (
+              <li key={i} className="flex items-baseline gap-2 text-[13px]">
+                <span className="min-w-0 flex-1 truncate text-foreground">
+                  {s.name} <span className="text-muted-foreground">{s.position}, {s.teamName}</span>
+                </span>
+                <span className="shrink-0 font-semibold tabular-nums text-primary">{pts(s.points)}</span>
+              </li>
+            ))}
+          </ol>
+          {c.takes.topScorers && <p className="mt-1 text-[13px] leading-relaxed text-foreground/85">{c.takes.topScorers}</p>}
+        </div>
+      )}
+
+      {c.benchBlunders.length > 0 && (
+        <div>
+          <p className={label}>Bench blunders</p>
+          <ul className="mt-1 space-y-1">
+            {c.benchBlunders.map(b => (
+              <li key={b.teamName} className="text-[13px] text-foreground">
+                <span className="font-semibold">{b.teamName}</span> left {pts(b.pointsLeft)} on the bench,
+                {' '}{b.benched.name} scored {pts(b.benched.points)} sitting down
+                {b.costGame && (
+                  <span className="ml-1.5 text-[9px] font-bold uppercase tracking-wider text-rose-500">Cost the game</span>
+                )}
+              </li>
+            ))}
+          </ul>
+          {c.takes.bench && <p className="mt-1 text-[13px] leading-relaxed text-foreground/85">{c.takes.bench}</p>}
+        </div>
+      )}
+
+      {c.closestGame && (
+        <div>
+          <p className={label}>Closest game · {pts(c.closestGame.margin)} points</p>
+          <p className="mt-0.5 text-[13px] text-foreground">
+            {c.closestGame.teams[0].teamName} {pts(c.closestGame.teams[0].points)},
+            {' '}{c.closestGame.teams[1].teamName} {pts(c.closestGame.teams[1].points)}
+          </p>
+          {c.takes.closestGame && <p className="mt-1 text-[13px] leading-relaxed text-foreground/85">{c.takes.closestGame}</p>}
+        </div>
+      )}
+
+      {c.biggestUpset && (
+        <div>
+          <p className={label}>Biggest upset</p>
+          <p className="mt-0.5 text-[13px] text-foreground">
+            {c.biggestUpset.winner} ({pts(c.biggestUpset.winnerAverage)} a week coming in) beat
+            {' '}{c.biggestUpset.loser} ({pts(c.biggestUpset.loserAverage)})
+          </p>
+          {c.takes.upset && <p className="mt-1 text-[13px] leading-relaxed text-foreground/85">{c.takes.upset}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /** Long-form bodies collapse so the timeline stays scannable. */
 function LongForm({ post, open, onToggle }: { post: FeedPost; open: boolean; onToggle: () => void }) {
   const c = post.content;
@@ -203,6 +379,10 @@ function LongForm({ post, open, onToggle }: { post: FeedPost; open: boolean; onT
                 </div>
               )}
 
+              {post.kind === 'matchupPreview' && <PreviewBody c={c} />}
+
+              {post.kind === 'weeklyRecap' && <RecapBody c={c} />}
+
               {c.boldestTake && (
                 <p className="mt-3 rounded-lg border border-primary/30 bg-primary/5 px-3 py-2 text-[13px] text-foreground">
                   <span className="font-bold uppercase tracking-widest text-primary">Boldest take </span>
@@ -217,8 +397,188 @@ function LongForm({ post, open, onToggle }: { post: FeedPost; open: boolean; onT
   );
 }
 
-function Post({ post, index, open, onToggle }: {
+function ReplyItem({ reply, canRemove, onReply, onRemove }: {
+  reply: Reply;
+  canRemove: boolean;
+  onReply?: () => void;
+  onRemove: () => void;
+}) {
+  const a = reply.author;
+  return (
+    <div className="flex gap-2">
+      {a.kind === 'persona'
+        ? <Avatar post={{ personaName: a.name, personaAccent: a.accent, personaAvatar: a.avatar }} className="h-7 w-7 text-[9px]" />
+        : <ManagerAvatar avatarId={a.avatar || null} size={28} className="shrink-0" />}
+      <div className="min-w-0 flex-1">
+        <div className="flex flex-wrap items-center gap-x-1.5">
+          <span className={cn('text-[13px] font-semibold', a.kind === 'persona' ? a.accent : 'text-foreground')}>
+            {a.kind === 'persona' ? a.name : a.teamName}
+          </span>
+          {a.kind === 'persona' && <AiBadge />}
+          <span className="text-[11px] text-muted-foreground">{timeAgo(reply.createdAt)}</span>
+        </div>
+        <p className="whitespace-pre-wrap text-[13px] leading-relaxed text-foreground/90">{reply.text}</p>
+        <div className="mt-0.5 flex gap-3 text-[11px] font-semibold text-muted-foreground">
+          {onReply && <button onClick={onReply} className="hover:text-primary">Reply</button>}
+          {canRemove && <button onClick={onRemove} className="hover:text-rose-500">Remove</button>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Reactions and replies under a post. Managers react and reply once signed
+ * in; a reply to the post or to a writer's comment draws an answer from that
+ * writer, so sending can take a few seconds.
+ */
+function PostThread({ postId, thread, canModerate, onChange }: {
+  postId: string;
+  thread: Thread;
+  canModerate: boolean;
+  onChange: (thread: Thread) => void;
+}) {
+  const { manager } = useManager();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [replyTo, setReplyTo] = useState<Reply | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const call = async (path: string, init: RequestInit) => {
+    setBusy(true); setError(null);
+    try {
+      const res = await fetch(`/api/ai/posts/${encodeURIComponent(postId)}/${path}`, {
+        headers: { 'Content-Type': 'application/json' },
+        ...init,
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Something went wrong'); return false; }
+      onChange(d.thread);
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const react = (reaction: ReactionId) =>
+    call('reactions', { method: 'POST', body: JSON.stringify({ reaction }) });
+
+  const send = async () => {
+    const ok = await call('replies', { method: 'POST', body: JSON.stringify({ text, parentId: replyTo?.id }) });
+    if (ok) { setText(''); setReplyTo(null); setOpen(true); }
+  };
+
+  const remove = (reply: Reply) =>
+    call(`replies?replyId=${encodeURIComponent(reply.id)}`, { method: 'DELETE' });
+
+  const canRemove = (r: Reply) =>
+    canModerate || (r.author.kind === 'manager' && r.author.userId === manager?.userId);
+
+  const roots = thread.replies.filter(r => !r.parentId);
+  const shownReactions = (Object.keys(REACTIONS) as ReactionId[])
+    .filter(r => manager || thread.reactions[r]);
+
+  return (
+    <div className="mt-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {shownReactions.map(r => (
+          <button
+            key={r}
+            onClick={() => react(r)}
+            disabled={!manager || busy}
+            title={manager ? undefined : 'Sign in to react'}
+            className={cn(
+              'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors disabled:cursor-default',
+              thread.mine.includes(r)
+                ? 'border-primary/50 bg-primary/10 text-primary'
+                : 'border-border text-muted-foreground enabled:hover:border-primary/40',
+            )}
+          >
+            <span>{REACTIONS[r]}</span>
+            {!!thread.reactions[r] && <span className="tabular-nums">{thread.reactions[r]}</span>}
+          </button>
+        ))}
+        <button
+          onClick={() => setOpen(!open)}
+          className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-semibold text-muted-foreground hover:text-primary"
+        >
+          <MessageCircle className="h-3.5 w-3.5" />
+          {thread.replies.length ? `${thread.replies.length} repl${thread.replies.length === 1 ? 'y' : 'ies'}` : 'Reply'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-3 border-l-2 border-border pl-3">
+          {roots.map(root => (
+            <div key={root.id} className="space-y-2">
+              <ReplyItem
+                reply={root}
+                canRemove={canRemove(root)}
+                onReply={manager ? () => setReplyTo(root) : undefined}
+                onRemove={() => remove(root)}
+              />
+              {thread.replies.filter(r => r.parentId === root.id).map(child => (
+                <div key={child.id} className="flex gap-1.5 pl-4">
+                  <CornerDownRight className="mt-1.5 h-3 w-3 shrink-0 text-muted-foreground/50" />
+                  <ReplyItem
+                    reply={child}
+                    canRemove={canRemove(child)}
+                    onReply={manager ? () => setReplyTo(child) : undefined}
+                    onRemove={() => remove(child)}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {manager ? (
+            <div className="space-y-1.5">
+              {replyTo && (
+                <p className="flex items-center gap-1 text-[11px] text-muted-foreground">
+                  Replying to {replyTo.author.kind === 'persona' ? replyTo.author.name : replyTo.author.teamName}
+                  <button onClick={() => setReplyTo(null)} aria-label="Cancel reply" className="hover:text-foreground">
+                    <X className="h-3 w-3" />
+                  </button>
+                </p>
+              )}
+              <textarea
+                value={text}
+                onChange={e => setText(e.target.value)}
+                rows={2}
+                maxLength={500}
+                placeholder={`Reply as ${manager.teamName}`}
+                className="w-full rounded-md border border-border bg-background px-2 py-1.5 text-[13px] text-foreground focus:border-primary focus:outline-none"
+              />
+              <button
+                onClick={send}
+                disabled={busy || !text.trim()}
+                className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40"
+              >
+                {busy ? 'Sending…' : 'Reply'}
+              </button>
+            </div>
+          ) : (
+            <p className="text-[11px] text-muted-foreground">
+              <Link href="/signin" className="font-semibold text-primary hover:underline">Sign in</Link> to react and reply.
+            </p>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-2 rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>
+      )}
+    </div>
+  );
+}
+
+function Post({ post, index, open, onToggle, thread, canModerate, onThread }: {
   post: FeedPost; index: number; open: boolean; onToggle: () => void;
+  thread: Thread; canModerate: boolean; onThread: (thread: Thread) => void;
 }) {
   const isLong = post.kind !== 'tweet' && post.kind !== 'comment';
   return (
@@ -251,6 +611,8 @@ function Post({ post, index, open, onToggle }: {
             <Users className="h-3 w-3" /> on {post.subject}
           </p>
         )}
+
+        <PostThread postId={post.id} thread={thread} canModerate={canModerate} onChange={onThread} />
       </div>
     </motion.article>
   );
@@ -258,13 +620,19 @@ function Post({ post, index, open, onToggle }: {
 
 export default function DeskView() {
   const [posts, setPosts] = useState<FeedPost[] | null>(null);
+  const [threads, setThreads] = useState<Record<string, Thread>>({});
+  const [canModerate, setCanModerate] = useState(false);
   const [filter, setFilter] = useState<Filter>('all');
   const [openId, setOpenId] = useState<string | null>(null);
 
   const load = useCallback(() => {
     fetch('/api/ai/posts?limit=60')
       .then(r => r.json())
-      .then(d => setPosts(d.posts ?? []))
+      .then(d => {
+        setPosts(d.posts ?? []);
+        setThreads(d.threads ?? {});
+        setCanModerate(!!d.canModerate);
+      })
       .catch(() => setPosts([]));
   }, []);
 
@@ -340,6 +708,9 @@ export default function DeskView() {
               index={i}
               open={openId === p.id}
               onToggle={() => setOpenId(openId === p.id ? null : p.id)}
+              thread={threads[p.id] ?? EMPTY_THREAD}
+              canModerate={canModerate}
+              onThread={t => setThreads(ts => ({ ...ts, [p.id]: t }))}
             />
           ))
         )}
@@ -13,6 +13,9 @@ import {
   ShieldCheck,
   Users,
   Activity,
+  Armchair,
+  Gauge,
+  Sofa,
 } from 'lucide-react';
 import dynamic from 'next/dynamic';
 import TransactionActivity from './TransactionActivity';
@@ -24,6 +27,7 @@ const ChampionRing = dynamic(() => import('@/components/ui/ChampionRing'), { ssr
 import {
   generateEnhancedLeagueHistory,
   type EnhancedLeagueHistory,
+  type EnhancedHistoricalRecord,
 } from '@/lib/enhancedHistoryApi';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -40,6 +44,9 @@ const RECORD_CATEGORIES = [
   { type: 'blowout',            label: 'Biggest Blowouts', icon: Zap,              unit: 'margin', higher: true  },
   { type: 'closeGame',          label: 'Closest Games',    icon: Heart,             unit: 'margin', higher: false },
 { type: 'regularSeasonChamp', label: 'Reg Season Title', icon: ShieldCheck,       unit: 'wins',   higher: true  },
+  { type: 'benchBlunder',       label: 'Left on Bench',    icon: Sofa,              unit: 'pts',    higher: true  },
+  { type: 'benchLoss',          label: 'Bench Losses',     icon: Armchair,          unit: 'pts',    higher: true  },
+  { type: 'lineupEfficiency',   label: 'Lineup Efficiency', icon: Gauge,            unit: '%',      higher: true  },
 ] as const;
 
 // ─── Sub-components ───────────────────────────────────────────────────────────
@@ -77,8 +84,18 @@ export default function EnhancedHistoryView({ ringSeasons = [] }: { ringSeasons?
   const [processingProgress, setProcessingProgress] = useState(0);
   const [activeTab, setActiveTab]                   = useState<Tab>('managers');
   const [activeRecord, setActiveRecord]             = useState('highScore');
+  const [lineupRecords, setLineupRecords]           = useState<EnhancedHistoricalRecord[]>([]);
   const lastUpdateRef                               = useRef(0);
 
+  // Hindsight lineups need the player directory, so they are built on the
+  // server and joined to the record book when they arrive.
+  useEffect(() => {
+    fetch('/api/lineup-history')
+      .then(r => r.json())
+      .then(d => { if (!d.error) setLineupRecords(d.records ?? []); })
+      .catch(() => {});
+  }, []);
+
   useEffect(() => {
     let cancelled = false;
     const run = async () => {
@@ -136,7 +153,8 @@ export default function EnhancedHistoryView({ ringSeasons = [] }: { ringSeasons?
   if (error) return <ErrorMessage title="Error" message={error} />;
   if (!historyData) return null;
 
-  const { leagueMetadata, allTimeStats, records } = historyData;
+  const { leagueMetadata, allTimeStats } = historyData;
+  const records = [...historyData.records, ...lineupRecords];
 
   // ── Derived data ──────────────────────────────────────────────────────────
 
@@ -547,6 +565,7 @@ export default function EnhancedHistoryView({ ringSeasons = [] }: { ringSeasons?
                       const displayValue =
                         activeCategory.unit === 'pts'    ? formatPoints(record.value) :
                         activeCategory.unit === 'margin' ? record.value.toFixed(2)    :
+                        activeCategory.unit === '%'      ? `${record.value.toFixed(1)}%` :
                                                            String(record.value);
 
                       const barWidth = activeCategory.higher
@@ -8,6 +8,7 @@ import ChatWidget from '@/components/chat/ChatWidget';
 import { ThemeProvider } from '@/components/ThemeProvider';
 import { ThemeInjector } from '@/components/ThemeInjector';
 import { InstallPromptProvider } from '@/components/pwa/InstallPromptProvider';
+import { ManagerProvider } from '@/components/auth/ManagerProvider';
 import { getTheme } from '@/lib/themeStorage';
 import Analytics from '@/components/analytics/Analytics';
 
@@ -53,15 +54,17 @@ export default async function RootLayout({ children }: { children: React.ReactNo
         <ThemeInjector />
         <ThemeProvider>
           <InstallPromptProvider logoUrl={theme.logoUrl} leagueName={theme.leagueName}>
-            <Analytics />
-            <div className="flex min-h-screen flex-col">
-              <Navbar logoUrl={theme.logoUrl} leagueName={theme.leagueName} />
-              <main className="flex-1 pb-[env(safe-area-inset-bottom)]">
-                <PageTransition>{children}</PageTransition>
-              </main>
-              <Footer />
-              <ChatWidget />
-            </div>
+            <ManagerProvider>
+              <Analytics />
+              <div className="flex min-h-screen flex-col">
+                <Navbar logoUrl={theme.logoUrl} leagueName={theme.leagueName} />
+                <main className="flex-1 pb-[env(safe-area-inset-bottom)]">
+                  <PageTransition>{children}</PageTransition>
+                </main>
+                <Footer />
+                <ChatWidget />
+              </div>
+            </ManagerProvider>
           </InstallPromptProvider>
         </ThemeProvider>
       </body>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import MatchupDetailModal, { type MatchupTarget } from '@/components/matchup/MatchupDetailModal';
 import { Card, CardContent, CardHeader } from '@/components/ui/Card';
@@ -11,8 +11,11 @@ import { ErrorMessage } from '@/components/ui/ErrorMessage';
 import { LoadingPage, LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { Select, SelectTrigger, SelectContent, SelectItem } from '@/components/ui/Select';
 import { SeasonSelect } from '@/components/ui/SeasonSelect';
+import { useManager } from '@/components/auth/ManagerProvider';
 import { getDefaultSeason } from '@/lib/utils';
 import type { SleeperMatchup } from '@/types/sleeper';
+import type { LiveScoreboard, LiveTeam } from '@/lib/liveScoring';
+import type { ProjectionsPayload } from '@/lib/projections';
 import { motion } from 'framer-motion';
 import { ChevronLeft, ChevronRight, Flame, Trophy } from 'lucide-react';
 
@@ -20,6 +23,42 @@ interface MatchupsViewProps {
   currentWeek?: number;
 }
 
+// Sleeper refreshes points about once a minute; polling faster buys nothing.
+const LIVE_POLL_MS = 30_000;
+// Outside a game window, check occasionally so the page notices kickoff.
+const IDLE_POLL_MS = 5 * 60_000;
+
+/** Live and projected matchups both carry odds for their first team. */
+interface Odds {
+  teams: [{ rosterId: number }, { rosterId: number }];
+  winProbability: number;
+}
+
+function WinProbabilityBar({ matchup, firstRosterId, label = 'win probability' }: { matchup: Odds; firstRosterId: number; label?: string }) {
+  const p = matchup.teams[0].rosterId === firstRosterId ? matchup.winProbability : 1 - matchup.winProbability;
+  return (
+    <div className="mt-2">
+      <div className="flex h-1 overflow-hidden rounded-full bg-muted">
+        <motion.div className="bg-primary" animate={{ width: `${p * 100}%` }} transition={{ duration: 0.6 }} />
+        <div className="flex-1 bg-muted-foreground/40" />
+      </div>
+      <div className="mt-1 flex justify-between text-[10px] font-semibold tabular-nums text-muted-foreground">
+        <span>{Math.round(p * 100)}%</span>
+        <span>{label}</span>
+        <span>{Math.round((1 - p) * 100)}%</span>
+      </div>
+    </div>
+  );
+}
+
+function LiveCounts({ team }: { team: LiveTeam }) {
+  return (
+    <span className="text-[11px] text-muted-foreground">
+      {team.yetToPlay} yet · {team.playing} playing · {team.finished} done
+    </span>
+  );
+}
+
 export default function MatchupsView({ currentWeek: initialWeek }: MatchupsViewProps) {
   const [openMatchup, setOpenMatchup] = useState<MatchupTarget | null>(null);
   const [loading, setLoading] = useState(true);
@@ -34,6 +73,12 @@ export default function MatchupsView({ currentWeek: initialWeek }: MatchupsViewP
   const [selectedSeason, setSelectedSeason] = useState<string>('');
   const [seasonRosters, setSeasonRosters] = useState<any[]>([]);
   const [loadingSeasonData, setLoadingSeasonData] = useState(false);
+  const [scoreboard, setScoreboard] = useState<LiveScoreboard | null>(null);
+  const [playerDeltas, setPlayerDeltas] = useState<Record<string, number>>({});
+  const [teamDeltas, setTeamDeltas] = useState<Record<number, number>>({});
+  const [projections, setProjections] = useState<ProjectionsPayload | null>(null);
+  const { manager } = useManager();
+  const lastPoints = useRef<Map<string, number> | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -124,6 +169,85 @@ export default function MatchupsView({ currentWeek: initialWeek }: MatchupsViewP
     fetchSeasonData();
   }, [selectedSeason, selectedWeek, league, rosters]);
 
+  const isCurrentWeek = Boolean(
+    league && nflState && league.status === 'in_season' &&
+    selectedSeason === league.season && selectedWeek === nflState.week,
+  );
+
+  // Live mode: only for the week being played right now. Each poll's points
+  // are diffed against the previous one for the per-player deltas.
+  useEffect(() => {
+    if (!isCurrentWeek) {
+      setScoreboard(null);
+      lastPoints.current = null;
+      return;
+    }
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      let live = false;
+      try {
+        const res = await fetch('/api/matchup/live');
+        const board: LiveScoreboard = await res.json();
+        if (cancelled || !res.ok) return;
+        live = board.live;
+
+        const points = new Map<string, number>();
+        const pDeltas: Record<string, number> = {};
+        const tDeltas: Record<number, number> = {};
+        for (const m of board.matchups) {
+          for (const t of m.teams) {
+            points.set(`team:${t.rosterId}`, t.points);
+            const prevTeam = lastPoints.current?.get(`team:${t.rosterId}`);
+            if (prevTeam != null && t.points !== prevTeam) tDeltas[t.rosterId] = t.points - prevTeam;
+            for (const p of t.starters) {
+              points.set(p.playerId, p.points);
+              const prev = lastPoints.current?.get(p.playerId);
+              if (prev != null && p.points !== prev) pDeltas[p.playerId] = p.points - prev;
+            }
+          }
+        }
+        lastPoints.current = points;
+        setScoreboard(board);
+        setPlayerDeltas(pDeltas);
+        setTeamDeltas(tDeltas);
+
+        // Keep the cards' scores in step with the live feed.
+        const byRoster = new Map(board.matchups.flatMap(m => m.teams).map(t => [t.rosterId, t]));
+        setMatchups(ms => ms.map(m => {
+          const t = byRoster.get(m.roster_id);
+          if (!t) return m;
+          return {
+            ...m,
+            points: t.points,
+            players_points: { ...m.players_points, ...Object.fromEntries(t.starters.map(p => [p.playerId, p.points])) },
+          };
+        }));
+      } catch {
+        // A missed poll is not worth an error state; the next one will try again.
+      } finally {
+        if (!cancelled) timer = setTimeout(poll, live ? LIVE_POLL_MS : IDLE_POLL_MS);
+      }
+    };
+
+    poll();
+    return () => { cancelled = true; if (timer) clearTimeout(timer); };
+  }, [isCurrentWeek]);
+
+  // Projections cover the rest of the current regular season, so one fetch
+  // serves every week the selector can reach.
+  const projectable = Boolean(league && league.status !== 'complete' && selectedSeason === league.season);
+  useEffect(() => {
+    if (!projectable) { setProjections(null); return; }
+    let cancelled = false;
+    fetch('/api/projections')
+      .then(r => r.json())
+      .then(d => { if (!cancelled && !d.error) setProjections(d); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [projectable]);
+
   if (loading) return <LoadingPage />;
   if (error) return <ErrorMessage title="Error" message={error} />;
   if (!league || !users.length || !rosters.length) return null;
@@ -144,6 +268,12 @@ export default function MatchupsView({ currentWeek: initialWeek }: MatchupsViewP
 
   const finalGroupedMatchups = sortedGroupedMatchups;
 
+  // The signed-in manager's own game leads the week.
+  const isMine = (matchup: SleeperMatchup[]) => Boolean(manager && matchup.some(m =>
+    seasonRosters.find(r => r.roster_id === m.roster_id)?.owner_id === manager.userId));
+  const orderedMatchups = Object.values(finalGroupedMatchups)
+    .sort((a, b) => Number(isMine(b)) - Number(isMine(a)));
+
   const getMatchupContext = () => {
     const isPlayoffs = selectedWeek >= (league?.settings?.playoff_week_start || 15);
     const isCurrentWeek = selectedWeek === nflState?.week && selectedSeason === league?.season;
@@ -257,7 +387,7 @@ export default function MatchupsView({ currentWeek: initialWeek }: MatchupsViewP
           animate={{ opacity: 1 }}
           transition={{ duration: 0.4 }}
         >
-          {Object.values(finalGroupedMatchups).map((matchup, index) => {
+          {orderedMatchups.map((matchup, index) => {
             const [team1, team2] = matchup;
             if (!team1 || !team2) return null;
 
@@ -268,9 +398,20 @@ export default function MatchupsView({ currentWeek: initialWeek }: MatchupsViewP
 
             if (!roster1 || !roster2 || !user1 || !user2) return null;
 
+            const liveMatchup = scoreboard?.matchups.find(m => m.matchupId === team1.matchup_id);
+            const live1 = liveMatchup?.teams.find(t => t.rosterId === team1.roster_id);
+            const live2 = liveMatchup?.teams.find(t => t.rosterId === team2.roster_id);
+            // Points on the board after Thursday night do not make a week final.
+            const stillToPlay = Boolean(live1 && live2 &&
+              live1.yetToPlay + live1.playing + live2.yetToPlay + live2.playing > 0);
+            const isLive = Boolean(scoreboard?.live && stillToPlay);
+            const projected = projections?.matchups.find(m => m.week === selectedWeek && m.matchupId === team1.matchup_id);
+            const proj1 = projected?.teams.find(t => t.rosterId === team1.roster_id);
+            const proj2 = projected?.teams.find(t => t.rosterId === team2.roster_id);
+
             const team1Points = team1.points || 0;
             const team2Points = team2.points || 0;
-            const matchupComplete = team1.points !== null && team2.points !== null && (team1Points > 0 || team2Points > 0);
+            const matchupComplete = !stillToPlay && team1.points !== null && team2.points !== null && (team1Points > 0 || team2Points > 0);
             const team1Winning = team1Points > team2Points;
             const team2Winning = team2Points > team1Points;
             const isTie = matchupComplete && team1Points === team2Points;
@@ -290,11 +431,22 @@ export default function MatchupsView({ currentWeek: initialWeek }: MatchupsViewP
                         <h3 className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground">
                           {isPlayoffWeek ? 'Playoff Match' : 'Matchup'}
                         </h3>
+                        {isMine(matchup) && (
+                          <span className="text-[11px] font-semibold uppercase tracking-wide text-primary bg-primary/10 px-2 py-0.5 rounded">
+                            Your matchup
+                          </span>
+                        )}
                         {matchupComplete && (
                           <span className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground bg-muted px-2 py-0.5 rounded">
                             Final
                           </span>
                         )}
+                        {isLive && (
+                          <span className="flex items-center gap-1.5 rounded bg-red-500/10 px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide text-red-500">
+                            <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-red-500" />
+                            Live
+                          </span>
+                        )}
                       </div>
 
                       <button
@@ -355,6 +507,11 @@ export default function MatchupsView({ currentWeek: initialWeek }: MatchupsViewP
                               +{pointDifference.toFixed(1)}
                             </div>
                           )}
+                          {isLive && teamDeltas[team1.roster_id] > 0 && (
+                            <div className="text-xs font-semibold tabular-nums text-emerald-500">
+                              +{teamDeltas[team1.roster_id].toFixed(1)}
+                            </div>
+                          )}
                         </div>
                       </Link>
 
@@ -414,10 +571,37 @@ export default function MatchupsView({ currentWeek: initialWeek }: MatchupsViewP
                               +{pointDifference.toFixed(1)}
                             </div>
                           )}
+                          {isLive && teamDeltas[team2.roster_id] > 0 && (
+                            <div className="text-xs font-semibold tabular-nums text-emerald-500">
+                              +{teamDeltas[team2.roster_id].toFixed(1)}
+                            </div>
+                          )}
                         </div>
                       </Link>
                     </div>
 
+                    {/* Live status: who still has players to come, and the odds */}
+                    {stillToPlay && live1 && live2 && liveMatchup && (
+                      <div className="px-4 py-3 md:px-5 bg-muted/40 border-t border-border">
+                        <div className="flex items-center justify-between gap-2">
+                          <LiveCounts team={live1} />
+                          <LiveCounts team={live2} />
+                        </div>
+                        <WinProbabilityBar matchup={liveMatchup} firstRosterId={team1.roster_id} />
+                      </div>
+                    )}
+
+                    {/* Before kickoff: the projection, until live scoring takes over */}
+                    {projected && proj1 && proj2 && !matchupComplete && !(stillToPlay && liveMatchup) && (
+                      <div className="px-4 py-3 md:px-5 bg-muted/40 border-t border-border">
+                        <div className="flex items-center justify-between text-xs tabular-nums text-muted-foreground">
+                          <span>Proj <span className="font-semibold text-foreground">{proj1.projected.toFixed(1)}</span></span>
+                          <span>Proj <span className="font-semibold text-foreground">{proj2.projected.toFixed(1)}</span></span>
+                        </div>
+                        <WinProbabilityBar matchup={projected} firstRosterId={team1.roster_id} label="projected win probability" />
+                      </div>
+                    )}
+
                     {/* Matchup Summary */}
                     {matchupComplete && (
                       <div className="px-4 py-3 md:px-5 bg-muted/40 border-t border-border">
@@ -439,7 +623,17 @@ export default function MatchupsView({ currentWeek: initialWeek }: MatchupsViewP
         </motion.div>
       )}
 
-      <MatchupDetailModal target={openMatchup} onClose={() => setOpenMatchup(null)} />
+      <MatchupDetailModal
+        target={openMatchup}
+        onClose={() => setOpenMatchup(null)}
+        live={openMatchup && scoreboard?.live
+          ? scoreboard.matchups.find(m => m.teams.some(t => t.userId === openMatchup.a.userId)) ?? null
+          : null}
+        projection={openMatchup
+          ? projections?.matchups.find(m => m.week === selectedWeek && m.teams.some(t => t.userId === openMatchup.a.userId)) ?? null
+          : null}
+        deltas={playerDeltas}
+      />
     </div>
   );
 }
@@ -5,6 +5,7 @@ import Avatar from '@/components/ui/Avatar';
 import { Tooltip } from '@/components/ui/Tooltip';
 import { Trophy } from 'lucide-react';
 import type { SleeperRoster, SleeperUser } from '@/types/sleeper';
+import type { PlayoffOddsPayload, TeamOdds } from '@/lib/playoffOdds';
 
 interface PlayoffBracketProps {
   matchups: {
@@ -23,9 +24,68 @@ interface PlayoffBracketProps {
     matchup_id: number;
     isComplete: boolean;
   }[];
+  /** Before the bracket is set: the simulated race, shown as projected seeds. */
+  projection?: PlayoffOddsPayload | null;
 }
 
-export default function PlayoffBracket({ matchups }: PlayoffBracketProps) {
+/**
+ * Each seed's most likely holder, filled from the top seed down so no team is
+ * placed twice.
+ */
+function projectedSeeds(odds: PlayoffOddsPayload): { seed: number; team: TeamOdds; chance: number }[] {
+  const placed = new Set<number>();
+  const seeds: { seed: number; team: TeamOdds; chance: number }[] = [];
+  for (let i = 0; i < odds.playoffTeams; i++) {
+    const team = odds.teams
+      .filter(t => !placed.has(t.rosterId))
+      .sort((a, b) => b.seedOdds[i] - a.seedOdds[i] || b.playoffOdds - a.playoffOdds)[0];
+    if (!team) break;
+    placed.add(team.rosterId);
+    seeds.push({ seed: i + 1, team, chance: team.seedOdds[i] });
+  }
+  return seeds;
+}
+
+function ProjectedBracket({ odds }: { odds: PlayoffOddsPayload }) {
+  const seeds = projectedSeeds(odds);
+  // Byes go to the top seeds; everyone else meets in round one, best left
+  // against worst left.
+  const open = seeds.slice(odds.byes);
+  const pairings = open.slice(0, Math.floor(open.length / 2)).map((s, i) => [s, open[open.length - 1 - i]]);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+        {seeds.map(({ seed, team, chance }) => (
+          <Card key={seed}>
+            <CardContent className="flex items-center gap-2 p-3">
+              <span className="w-6 text-center font-display text-lg font-bold tabular-nums text-primary">{seed}</span>
+              <Avatar avatarId={team.avatar} size={24} />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-foreground">{team.teamName}</p>
+                <p className="text-[11px] tabular-nums text-muted-foreground">
+                  {Math.round(chance * 100)}% to hold · {team.clinchedPlayoffs ? 'clinched' : `${Math.round(team.playoffOdds * 100)}% in`}
+                </p>
+              </div>
+              {seed <= odds.byes && (
+                <span className="rounded bg-amber-500/10 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-amber-500">Bye</span>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      {pairings.length > 0 && (
+        <p className="text-center text-[11px] text-muted-foreground">
+          Round one if it ended today: {pairings.map(([a, b]) => `${a.seed} v ${b.seed}`).join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function PlayoffBracket({ matchups, projection }: PlayoffBracketProps) {
+  if (!matchups.length && projection) return <ProjectedBracket odds={projection} />;
+
   // Sort matchups by ID to ensure correct order
   const sortedMatchups = [...matchups].sort((a, b) => a.matchup_id - b.matchup_id);
   const championshipMatch = sortedMatchups.find(m => m.matchup_id === 1);
@@ -7,6 +7,7 @@ import { PageLayout } from '@/components/layout/PageLayout';
 import ForYouFeed from './ForYouFeed';
 import InjuryReport from './InjuryReport';
 import TeamFilterBar from './TeamFilterBar';
+import { useManager } from '@/components/auth/ManagerProvider';
 import { PulseIcon, InjuryIcon, TrendingIcon, TrendingDownIcon, GridIcon, ListIcon } from '@/components/icons/MediaIcons';
 
 type Tab = 'foryou' | 'waivers' | 'injuries';
@@ -30,7 +31,10 @@ export default function MediaView() {
   const requested = params.get('tab');
   const initialTab: Tab = TABS.some(t => t.id === requested) ? (requested as Tab) : 'foryou';
   const [activeTab, setActiveTab] = useState<Tab>(initialTab);
-  const [teamId, setTeamId] = useState<string | null>(null);
+  // Undefined until the reader picks: the signed-in manager's team, else all.
+  const [picked, setTeamId] = useState<string | null | undefined>(undefined);
+  const { manager, ready } = useManager();
+  const teamId = picked === undefined ? manager?.userId ?? null : picked;
   const [trend, setTrend] = useState<TrendType>('add');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
 
@@ -130,7 +134,8 @@ export default function MediaView() {
       {activeTab === 'foryou' && (
         <>
           {viewToggle}
-          <ForYouFeed teamId={teamId ?? undefined} kinds={FORYOU_KINDS} layout={viewMode} />
+          {/* Waits for the session so a signed-in reader's feed does not load twice. */}
+          {ready && <ForYouFeed teamId={teamId ?? undefined} kinds={FORYOU_KINDS} layout={viewMode} />}
         </>
       )}
 
@@ -144,7 +149,7 @@ export default function MediaView() {
         </>
       )}
 
-      {activeTab === 'injuries' && <InjuryReport teamId={teamId ?? undefined} />}
+      {activeTab === 'injuries' && ready && <InjuryReport teamId={teamId ?? undefined} />}
 
     </PageLayout>
   );
@@ -1,6 +1,7 @@
 import { Activity } from 'lucide-react';
 import { getAdvancedTeamMetrics, getAllLeagueSeasons } from '@/lib/api';
-import { INITIAL_LEAGUE_ID, getCurrentLeagueId } from '@/config/league';
+import { INITIAL_LEAGUE_ID } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
 import { ErrorMessage } from '@/components/ui/ErrorMessage';
 import { PageLayout } from '@/components/layout/PageLayout';
 import NextGenStats from './NextGenStats';
@@ -18,7 +19,7 @@ export default async function NextGenStatsPage() {
   }
 
   try {
-    const leagueId = await getCurrentLeagueId();
+    const leagueId = await getRequestLeagueId();
     const [initialMetrics, seasons] = await Promise.all([
       getAdvancedTeamMetrics(leagueId),
       getAllLeagueSeasons(leagueId),
@@ -0,0 +1,280 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Avatar from '@/components/ui/Avatar';
+import TeamLink from '@/components/ui/TeamLink';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import {
+  favouriteOf,
+  pathsToPlayoffs,
+  resolveStandings,
+  type Outcome,
+  type Picks,
+  type ScenarioData,
+  type ScenarioTeam,
+} from '@/lib/playoffScenarios';
+
+// ── Micro-components ─────────────────────────────────────────────────────────
+
+function GameRow({
+  game, teams, picked, onPick,
+}: {
+  game: ScenarioData['games'][number];
+  teams: Map<number, ScenarioTeam>;
+  picked: number | undefined;
+  onPick: (winner: number | undefined) => void;
+}) {
+  const favourite = favouriteOf(game);
+  const side = (rosterId: number, p: number) => {
+    const team = teams.get(rosterId);
+    const isPick = picked === rosterId;
+    const isProjected = picked === undefined && favourite === rosterId;
+    return (
+      <button
+        onClick={() => onPick(isPick ? undefined : rosterId)}
+        className={cn(
+          'flex min-w-0 flex-1 items-center gap-2 rounded-lg border px-2.5 py-2 text-left text-xs transition-colors',
+          isPick
+            ? 'border-primary bg-primary/10 text-primary'
+            : isProjected
+            ? 'border-dashed border-primary/40 text-foreground'
+            : 'border-border text-muted-foreground hover:border-primary/40 hover:text-foreground',
+        )}
+      >
+        <Avatar avatarId={team?.avatar ?? ''} size={18} className="shrink-0 rounded" />
+        <span className="min-w-0 flex-1 truncate font-medium">{team?.teamName ?? `Roster ${rosterId}`}</span>
+        <span className="shrink-0 tabular-nums text-[10px] opacity-70">{Math.round(p * 100)}%</span>
+      </button>
+    );
+  };
+  return (
+    <div className="flex items-center gap-2">
+      {side(game.a, game.winProbability)}
+      <span className="shrink-0 text-[10px] font-semibold uppercase tracking-widest text-muted-foreground">v</span>
+      {side(game.b, 1 - game.winProbability)}
+    </div>
+  );
+}
+
+function OutcomeLine({ o, teams }: { o: Outcome; teams: Map<number, ScenarioTeam> }) {
+  return (
+    <span>
+      <span className="text-muted-foreground">Wk {o.week}:</span>{' '}
+      <span className="font-medium text-foreground">{teams.get(o.winner)?.teamName}</span>
+      {' beat '}
+      {teams.get(o.loser)?.teamName}
+    </span>
+  );
+}
+
+// ── View ─────────────────────────────────────────────────────────────────────
+
+export default function ScenarioExplorerView() {
+  const [data, setData] = useState<ScenarioData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [picks, setPicks] = useState<Picks>({});
+  const [focus, setFocus] = useState<number | null>(null);
+  const [goal, setGoal] = useState<'playoffs' | 'bye'>('playoffs');
+
+  useEffect(() => {
+    fetch('/api/playoff-scenarios')
+      .then(r => r.json())
+      .then(d => {
+        if (d.error) { setError(d.error); return; }
+        setData(d);
+        // Start on the bubble: the first team out as things stand.
+        setFocus(d.teams[Math.min(d.playoffTeams, d.teams.length - 1)]?.rosterId ?? null);
+      })
+      .catch(e => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  const teams = useMemo(() => new Map((data?.teams ?? []).map(t => [t.rosterId, t])), [data]);
+  const standings = useMemo(() => (data ? resolveStandings(data, picks) : []), [data, picks]);
+  // Paths depend only on the real standings, not on the picks.
+  const paths = useMemo(
+    () => (data && focus != null ? pathsToPlayoffs(data, focus, goal) : null),
+    [data, focus, goal],
+  );
+  const weeks = useMemo(() => [...new Set((data?.games ?? []).map(g => g.week))].sort((a, b) => a - b), [data]);
+
+  if (error) return <p className="rounded-xl border border-border bg-card p-6 text-sm text-muted-foreground">{error}</p>;
+  if (!data) return <div className="flex justify-center py-20"><LoadingSpinner className="h-8 w-8" /></div>;
+  if (!data.games.length) {
+    return (
+      <p className="rounded-xl border border-border bg-card p-6 text-sm text-muted-foreground">
+        No regular-season games left to pick. The field is set.
+      </p>
+    );
+  }
+
+  const pick = (gameId: string, winner: number | undefined) =>
+    setPicks(p => {
+      const next = { ...p };
+      if (winner === undefined) delete next[gameId]; else next[gameId] = winner;
+      return next;
+    });
+  const focusTeam = focus != null ? teams.get(focus) : undefined;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+      {/* ── Remaining games ── */}
+      <section className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-[11px] text-muted-foreground">
+            Dashed = projected favourite. Tap a team to pick it, tap again to clear.
+          </p>
+          <div className="flex gap-1.5">
+            {focus != null && (
+              <button
+                onClick={() => setPicks(p => ({
+                  ...p,
+                  ...Object.fromEntries(data.games.filter(g => g.a === focus || g.b === focus).map(g => [g.id, focus])),
+                }))}
+                className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary"
+              >
+                Win out
+              </button>
+            )}
+            <button
+              onClick={() => setPicks({})}
+              disabled={!Object.keys(picks).length}
+              className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+
+        {weeks.map(week => (
+          <div key={week} className="rounded-xl border border-border bg-card p-4">
+            <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">Week {week}</h2>
+            <div className="mt-3 space-y-2">
+              {data.games.filter(g => g.week === week).map(g => (
+                <GameRow key={g.id} game={g} teams={teams} picked={picks[g.id]} onPick={w => pick(g.id, w)} />
+              ))}
+            </div>
+          </div>
+        ))}
+        {data.medianGames && (
+          <p className="text-[11px] text-muted-foreground">
+            Median games are filled in from projections: the top half of each week&apos;s projected scores win.
+          </p>
+        )}
+      </section>
+
+      <div className="space-y-6">
+        {/* ── Standings under these picks ── */}
+        <section className="rounded-xl border border-border bg-card p-4">
+          <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+            Final standings, as picked
+          </h2>
+          <ul className="mt-3">
+            {standings.map(row => {
+              const team = teams.get(row.rosterId);
+              const tiebreak = row.tiedWith.length > 0;
+              return (
+                <li
+                  key={row.rosterId}
+                  onClick={() => setFocus(row.rosterId)}
+                  className={cn(
+                    'flex cursor-pointer items-center gap-2 border-b border-border py-2 text-xs last:border-0',
+                    row.seed === data.playoffTeams && 'border-b-2 border-b-primary/40',
+                    row.rosterId === focus && 'bg-primary/5',
+                  )}
+                >
+                  <span className={cn('w-5 text-right font-display font-bold tabular-nums',
+                    row.seed <= data.playoffTeams ? 'text-primary' : 'text-muted-foreground')}>
+                    {row.seed}
+                  </span>
+                  <TeamLink
+                    userId={team?.userId ?? ''}
+                    teamName={team?.teamName ?? ''}
+                    avatar={team?.avatar ?? ''}
+                    className="flex-1"
+                    textClassName="font-medium text-foreground"
+                  />
+                  {row.seed <= data.byes && (
+                    <span className="rounded bg-amber-500/10 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-amber-500">Bye</span>
+                  )}
+                  <span className="tabular-nums text-muted-foreground">
+                    {row.wins}-{row.losses}{row.ties ? `-${row.ties}` : ''}
+                  </span>
+                  <span
+                    title={tiebreak ? `Level on record with ${row.tiedWith.map(id => teams.get(id)?.teamName).join(', ')}; points for decides` : undefined}
+                    className={cn('w-16 text-right tabular-nums', tiebreak ? 'font-semibold text-amber-500' : 'text-muted-foreground')}
+                  >
+                    {row.pointsFor.toFixed(0)}{tiebreak && '*'}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          <p className="mt-3 text-[10px] text-muted-foreground">
+            Ties on record are broken on points for, counting projected points for games not yet played (*).
+          </p>
+        </section>
+
+        {/* ── Paths ── */}
+        {focusTeam && paths && (
+          <section className="rounded-xl border border-border bg-card p-4">
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+                {focusTeam.teamName}: paths to {goal === 'bye' ? 'a bye' : 'the playoffs'}
+              </h2>
+              {data.byes > 0 && (
+                <div className="inline-flex rounded-lg border border-border p-0.5">
+                  {(['playoffs', 'bye'] as const).map(g => (
+                    <button
+                      key={g}
+                      onClick={() => setGoal(g)}
+                      className={cn('rounded-md px-2.5 py-1 text-[11px] font-semibold capitalize',
+                        goal === g ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground')}
+                    >
+                      {g}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {paths.status === 'clinched' ? (
+              <p className="mt-3 text-sm text-primary">Already clinched. Nothing needed.</p>
+            ) : paths.status === 'eliminated' ? (
+              <p className="mt-3 text-sm text-muted-foreground">Mathematically eliminated.</p>
+            ) : paths.paths.length === 0 ? (
+              <p className="mt-3 text-xs text-muted-foreground">
+                No set of four results or fewer guarantees it on record alone. It can still happen, but it will
+                come down to more results than that, points for, or median games.
+              </p>
+            ) : (
+              <>
+                <p className="mt-1 text-[11px] text-muted-foreground">
+                  Any one of these is enough on its own, whatever else happens and on record alone.
+                </p>
+                <ol className="mt-3 space-y-2">
+                  {paths.paths.map((path, i) => (
+                    <li key={i} className="flex items-start gap-3 rounded-lg border border-border p-2.5 text-xs">
+                      <ul className="min-w-0 flex-1 space-y-0.5">
+                        {path.map(o => <li key={o.gameId}><OutcomeLine o={o} teams={teams} /></li>)}
+                      </ul>
+                      <button
+                        onClick={() => setPicks(p => ({ ...p, ...Object.fromEntries(path.map(o => [o.gameId, o.winner])) }))}
+                        className="shrink-0 rounded-md border border-border px-2 py-1 text-[11px] font-semibold text-muted-foreground transition-colors hover:border-primary/40 hover:text-primary"
+                      >
+                        Apply
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+                {paths.truncated && (
+                  <p className="mt-2 text-[10px] text-muted-foreground">Search stopped early; there may be other paths this size.</p>
+                )}
+              </>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
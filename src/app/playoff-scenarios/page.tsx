@@ -0,0 +1,15 @@
+import { PageLayout } from '@/components/layout/PageLayout';
+import ScenarioExplorerView from './ScenarioExplorerView';
+
+export const metadata = { title: 'Playoff Scenarios | League Pulse' };
+
+export default function PlayoffScenariosPage() {
+  return (
+    <PageLayout
+      title="Playoff Scenarios"
+      subtitle="Pick the rest of the regular season and watch the standings settle, or ask what it takes to get in."
+    >
+      <ScenarioExplorerView />
+    </PageLayout>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Avatar from '@/components/ui/Avatar';
+import PlayoffBracket from '@/app/matchups/PlayoffBracket';
+import { cn } from '@/lib/utils';
+import type { PlayoffOddsPayload, TeamOdds } from '@/lib/playoffOdds';
+
+function pct(p: number): string {
+  if (p >= 0.995 && p < 1) return '>99%';
+  if (p > 0 && p < 0.005) return '<1%';
+  return `${Math.round(p * 100)}%`;
+}
+
+function Badge({ team }: { team: TeamOdds }) {
+  const [label, title, tone] = team.clinchedBye
+    ? ['y', 'Clinched a first-round bye', 'bg-amber-500/10 text-amber-500']
+    : team.clinchedPlayoffs
+    ? ['x', 'Clinched a playoff spot', 'bg-primary/10 text-primary']
+    : team.eliminated
+    ? ['e', 'Eliminated from playoff contention', 'bg-muted text-muted-foreground']
+    : [null, '', ''];
+  if (!label) return null;
+  return (
+    <span title={title} className={cn('rounded px-1.5 py-0.5 text-[10px] font-bold uppercase', tone)}>
+      {label}
+    </span>
+  );
+}
+
+/** Where a team could finish: one bar per seed, playoff seeds highlighted. */
+function SeedStrip({ team, playoffTeams }: { team: TeamOdds; playoffTeams: number }) {
+  const peak = Math.max(...team.seedOdds, 0.01);
+  return (
+    <div className="flex h-5 items-end gap-px" aria-hidden>
+      {team.seedOdds.map((p, i) => (
+        <div
+          key={i}
+          title={`Seed ${i + 1}: ${pct(p)}`}
+          className={cn('w-1.5 rounded-sm', i < playoffTeams ? 'bg-primary' : 'bg-muted-foreground/40')}
+          style={{ height: `${Math.max(p > 0 ? 8 : 0, (p / peak) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The playoff race: every team's odds from simulating the rest of the
+ * regular season, and the bracket those odds point to. Renders nothing once
+ * the regular season is decided or when there is no current season to run.
+ */
+export default function PlayoffRace() {
+  const [odds, setOdds] = useState<PlayoffOddsPayload | null>(null);
+
+  useEffect(() => {
+    fetch('/api/playoff-odds')
+      .then(r => r.json())
+      .then(d => { if (!d.error) setOdds(d); })
+      .catch(() => {});
+  }, []);
+
+  if (!odds || !odds.remainingWeeks.length) return null;
+  const weeks = odds.remainingWeeks;
+  const span = weeks.length === 1 ? `week ${weeks[0]}` : `weeks ${weeks[0]}-${weeks[weeks.length - 1]}`;
+
+  return (
+    <section className="space-y-4">
+      <div className="rounded-xl border border-border bg-card p-4">
+        <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+          Playoff race
+        </h2>
+        <p className="mt-1 text-[11px] text-muted-foreground">
+          {odds.simulations.toLocaleString()} simulations of {span}. {odds.playoffTeams} teams make it
+          {odds.byes > 0 && `, the top ${odds.byes} on a bye`}; ties are broken on points for.
+        </p>
+
+        <table className="mt-3 w-full text-xs">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-wider text-muted-foreground">
+              <th className="py-1.5 font-medium">Team</th>
+              <th className="py-1.5 text-right font-medium">Record</th>
+              <th className="hidden py-1.5 text-right font-medium sm:table-cell">Proj. W</th>
+              <th className="py-1.5 text-right font-medium">Playoffs</th>
+              {odds.byes > 0 && <th className="py-1.5 text-right font-medium">Bye</th>}
+              <th className="hidden py-1.5 pl-4 font-medium md:table-cell">Seed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {odds.teams.map((t, i) => (
+              <tr key={t.rosterId} className={cn('border-t border-border', i === odds.playoffTeams && 'border-t-2 border-t-primary/40')}>
+                <td className="py-2">
+                  <Link href={t.userId ? `/team/${t.userId}` : '#'} className="flex min-w-0 items-center gap-2 hover:text-primary">
+                    <span className="w-4 shrink-0 text-right tabular-nums text-muted-foreground">{i + 1}</span>
+                    <Avatar avatarId={t.avatar} size={20} className="shrink-0 rounded-md" />
+                    <span className="truncate font-medium text-foreground">{t.teamName}</span>
+                    <Badge team={t} />
+                  </Link>
+                </td>
+                <td className="py-2 text-right tabular-nums text-muted-foreground">
+                  {t.wins}-{t.losses}{t.ties ? `-${t.ties}` : ''}
+                </td>
+                <td className="hidden py-2 text-right tabular-nums text-muted-foreground sm:table-cell">{t.projectedWins.toFixed(1)}</td>
+                <td className={cn('py-2 text-right font-semibold tabular-nums',
+                  t.clinchedPlayoffs ? 'text-primary' : t.eliminated ? 'text-muted-foreground' : 'text-foreground')}>
+                  {t.clinchedPlayoffs ? '✓' : t.eliminated ? '—' : pct(t.playoffOdds)}
+                </td>
+                {odds.byes > 0 && (
+                  <td className="py-2 text-right tabular-nums text-muted-foreground">
+                    {t.clinchedBye ? '✓' : pct(t.byeOdds)}
+                  </td>
+                )}
+                <td className="hidden py-2 pl-4 md:table-cell">
+                  <SeedStrip team={t} playoffTeams={odds.playoffTeams} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="mt-3 text-[10px] text-muted-foreground">
+          x clinched playoffs · y clinched bye · e eliminated. Clinches are certain, not rounded odds.
+        </p>
+      </div>
+
+      <div>
+        <h2 className="mb-2 text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+          Projected bracket
+        </h2>
+        <PlayoffBracket matchups={[]} projection={odds} />
+      </div>
+    </section>
+  );
+}
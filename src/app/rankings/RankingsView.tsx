@@ -8,6 +8,7 @@ import { PageLayout } from '@/components/layout/PageLayout';
 import Avatar from '@/components/ui/Avatar';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { cn } from '@/lib/utils';
+import PlayoffRace from './PlayoffRace';
 
 const POSITIONS = ['ALL', 'QB', 'RB', 'WR', 'TE'] as const;
 type Position = (typeof POSITIONS)[number];
@@ -146,6 +147,8 @@ export default function RankingsView() {
 
   return (
     <PageLayout title="Player Rankings" subtitle={subtitle}>
+      <PlayoffRace />
+
       {!data ? (
         <div className="flex justify-center py-20"><LoadingSpinner className="h-8 w-8" /></div>
       ) : !data.configured ? (
@@ -8,10 +8,12 @@ import Avatar from '@/components/ui/Avatar';
 import { ErrorMessage } from '@/components/ui/ErrorMessage';
 import { LoadingPage, LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { SeasonSelect } from '@/components/ui/SeasonSelect';
+import { useManager } from '@/components/auth/ManagerProvider';
 import { cn } from '@/lib/utils';
 import { POSITION_STYLE } from './positions';
 import PlayerDetailModal from './PlayerDetailModal';
 import type { PlayerCard } from '@/lib/playerStats';
+import type { LineupAdvice, LineupPlayer } from '@/lib/lineupOptimizer';
 
 interface RosterTeam {
   rosterId: number;
@@ -107,15 +109,99 @@ function RosterSection({
   );
 }
 
+function LineupName({ player }: { player: LineupPlayer | null }) {
+  if (!player) return <span className="text-muted-foreground">Empty</span>;
+  const flag = player.onBye ? 'Bye' : player.injury;
+  return (
+    <span className="flex min-w-0 items-center gap-1.5">
+      <span className="truncate">{player.name}</span>
+      {flag && (
+        <span className={cn('shrink-0 text-[9px] font-bold uppercase tracking-wider',
+          player.unavailable ? 'text-rose-500' : 'text-amber-500')}>
+          {flag}
+        </span>
+      )}
+      {player.locked && <span className="shrink-0 text-[9px] uppercase tracking-wider text-muted-foreground">Locked</span>}
+    </span>
+  );
+}
+
+/**
+ * This week's lineup against the best one the roster could set. Slots where
+ * the optimiser would start someone new are highlighted.
+ */
+function LineupCheck({ advice }: { advice: LineupAdvice }) {
+  const gain = advice.optimalProjected - advice.currentProjected;
+  return (
+    <div className="mb-6 rounded-xl border border-border bg-card p-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">
+          Week {advice.week} lineup check
+        </h2>
+        <span className={cn('text-xs font-semibold tabular-nums', gain > 0.05 ? 'text-primary' : 'text-muted-foreground')}>
+          {gain > 0.05
+            ? `+${gain.toFixed(1)} projected pts available`
+            : 'Lineup is optimal'}
+        </span>
+      </div>
+
+      <div className="mt-3 space-y-1">
+        {advice.slots.map((s, i) => (
+          <div
+            key={i}
+            className={cn(
+              'grid grid-cols-[3.5rem_minmax(0,1fr)_minmax(0,1fr)] items-center gap-2 rounded-lg px-2 py-1.5 text-xs',
+              s.changed ? 'bg-primary/10' : '',
+            )}
+          >
+            <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+              {s.slot.replace('SUPER_FLEX', 'SF').replace('_FLEX', ' FLX')}
+            </span>
+            <span className={cn('text-muted-foreground', s.changed && 'line-through decoration-rose-500/60')}>
+              <LineupName player={s.current} />
+            </span>
+            <span className={cn('flex items-center justify-between gap-2', s.changed ? 'font-semibold text-primary' : 'text-foreground')}>
+              <LineupName player={s.recommended} />
+              <span className="shrink-0 tabular-nums text-[11px] text-muted-foreground">
+                {s.recommended ? s.recommended.projected.toFixed(1) : ''}
+              </span>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {advice.changes.length > 0 && (
+        <ul className="mt-3 space-y-1 border-t border-border pt-3 text-xs">
+          {advice.changes.map(c => (
+            <li key={c.start.playerId} className="flex justify-between gap-2">
+              <span>
+                Start <span className="font-semibold text-foreground">{c.start.name}</span>
+                {c.sit && <> over <span className="font-semibold text-foreground">{c.sit.name}</span></>}
+              </span>
+              <span className="shrink-0 tabular-nums text-primary">+{c.gain.toFixed(1)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-3 text-[10px] text-muted-foreground">
+        Projections blend {advice.ecrWeek ? `week ${advice.ecrWeek} FantasyPros ranks with ` : ''}season scoring,
+        and account for injuries and byes. Players whose game has started stay where they are.
+      </p>
+    </div>
+  );
+}
+
 export default function RostersView() {
   const [teams, setTeams] = useState<RosterTeam[]>([]);
   const [statsSeason, setStatsSeason] = useState('');
   const [seasons, setSeasons] = useState<string[]>([]);
   const [switching, setSwitching] = useState(false);
-  const [selected, setSelected] = useState<string | null>(null);
+  const [picked, setPicked] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [openPlayer, setOpenPlayer] = useState<PlayerCard | null>(null);
+  const [lineups, setLineups] = useState<LineupAdvice[]>([]);
 
   const load = useCallback((season?: string) => {
     const params = season ? `?season=${season}` : '';
@@ -131,13 +217,19 @@ export default function RostersView() {
         setTeams(d.teams);
         setSeasons(d.seasons ?? []);
         setStatsSeason(d.statsSeason);
-        setSelected(prev => prev ?? d.teams[0]?.userId ?? null);
       })
       .catch(() => !cancelled && setError('Failed to load rosters'))
       .finally(() => !cancelled && setLoading(false));
     return () => { cancelled = true; };
   }, [load]);
 
+  useEffect(() => {
+    fetch('/api/lineup')
+      .then(r => r.json())
+      .then(d => { if (!d.error) setLineups(d.teams ?? []); })
+      .catch(() => {});
+  }, []);
+
   // The roster itself never changes — only the production laid over it — so
   // the selected manager always survives a season switch.
   const changeSeason = useCallback((season: string) => {
@@ -153,7 +245,12 @@ export default function RostersView() {
       .finally(() => setSwitching(false));
   }, [load]);
 
+  // Until a team is picked, the signed-in manager's own, else the first.
+  const { manager } = useManager();
+  const selected = picked
+    ?? (manager && teams.some(t => t.userId === manager.userId) ? manager.userId : teams[0]?.userId ?? null);
   const team = useMemo(() => teams.find(t => t.userId === selected) ?? null, [teams, selected]);
+  const advice = useMemo(() => lineups.find(l => l.rosterId === team?.rosterId) ?? null, [lineups, team]);
   const best = useMemo(
     () => (team ? Math.max(...[...team.starters, ...team.bench].map(p => p.points ?? 0), 0) : 0),
     [team],
@@ -187,7 +284,7 @@ export default function RostersView() {
           return (
             <button
               key={t.userId}
-              onClick={() => setSelected(t.userId)}
+              onClick={() => setPicked(t.userId)}
               className={cn(
                 'flex shrink-0 items-center gap-2 whitespace-nowrap rounded-full border px-3 py-1.5 text-sm font-medium transition-colors',
                 isActive
@@ -220,6 +317,8 @@ export default function RostersView() {
             </div>
           </div>
 
+          {advice && <LineupCheck advice={advice} />}
+
           <div className="grid gap-6 lg:grid-cols-2">
             <RosterSection title="Starters" players={team.starters} best={best} onOpen={setOpenPlayer} />
             <RosterSection title="Bench"    players={team.bench}    best={best} onOpen={setOpenPlayer} />
@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import Avatar from '@/components/ui/Avatar';
+import { useManager } from '@/components/auth/ManagerProvider';
+
+export default function SignInView() {
+  const { manager, ready, signIn, signOut } = useManager();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    if (!code.trim()) return;
+    setBusy(true);
+    setError(await signIn(code));
+    setBusy(false);
+  };
+
+  if (!ready) return null;
+
+  if (manager) {
+    return (
+      <div className="mx-auto max-w-sm rounded-xl border border-border bg-card p-6 text-center">
+        <Avatar avatarId={manager.avatar} size={56} className="mx-auto rounded-lg" />
+        <p className="mt-3 text-sm text-muted-foreground">Signed in as</p>
+        <p className="font-display text-xl font-bold text-foreground">{manager.teamName}</p>
+        <p className="mt-2 text-[11px] text-muted-foreground">
+          Rosters, matchups, media and trades now open on your team.
+        </p>
+        <div className="mt-4 flex justify-center gap-2">
+          <Link href={`/team/${manager.userId}`} className="rounded-md bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground">
+            My team
+          </Link>
+          <button onClick={signOut} className="rounded-md border border-border px-4 py-2 text-sm font-semibold text-foreground">
+            Sign out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-sm rounded-xl border border-border bg-card p-6">
+      <label className="mb-2 block text-xs font-medium text-muted-foreground" htmlFor="invite-code">
+        Invite code
+      </label>
+      <input
+        id="invite-code"
+        value={code}
+        onChange={e => setCode(e.target.value)}
+        onKeyDown={e => e.key === 'Enter' && submit()}
+        placeholder="XXXX-XXXX"
+        autoFocus
+        autoComplete="one-time-code"
+        className="w-full rounded-md border border-border bg-background px-3 py-2 font-mono text-sm uppercase tracking-widest text-foreground focus:border-primary focus:outline-none"
+      />
+      {error && <p className="mt-2 text-xs text-rose-500">{error}</p>}
+      <button
+        onClick={submit}
+        disabled={busy || !code.trim()}
+        className="mt-3 w-full rounded-md bg-primary py-2 text-sm font-semibold text-primary-foreground disabled:opacity-40"
+      >
+        {busy ? 'Signing in…' : 'Sign in'}
+      </button>
+      <p className="mt-3 text-[11px] text-muted-foreground">
+        No code? Ask your commissioner. The same code works on every device you use.
+      </p>
+    </div>
+  );
+}
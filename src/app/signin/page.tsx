@@ -0,0 +1,12 @@
+import { PageLayout } from '@/components/layout/PageLayout';
+import SignInView from './SignInView';
+
+export const metadata = { title: 'Sign in | League Pulse' };
+
+export default function SignInPage() {
+  return (
+    <PageLayout title="Sign in" subtitle="Claim your team with the invite code from your commissioner.">
+      <SignInView />
+    </PageLayout>
+  );
+}
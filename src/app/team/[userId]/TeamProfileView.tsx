@@ -30,6 +30,7 @@ const RECORD_LABELS: Record<string, string> = {
   perfectSeason: 'Perfect Season', mostImproved: 'Most Improved', biggestUpset: 'Biggest Upset',
   championshipGame: 'Championship Game', playoffHighScore: 'Playoff High', playoffLowScore: 'Playoff Low',
   consistency: 'Consistency', explosiveness: 'Explosiveness', seasonHigh: 'Season High', seasonLow: 'Season Low',
+  benchBlunder: 'Left on Bench', benchLoss: 'Bench Loss', lineupEfficiency: 'Lineup Efficiency',
 };
 
 // ── Franchise report: deterministic flavor derived from real performance ────
@@ -137,6 +138,14 @@ function SeasonCard({ season }: { season: SeasonEntry }) {
         <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[11px] text-muted-foreground/70">
           <span>{season.pointsFor.toFixed(1)} pts for</span>
           <span>{season.pointsAgainst.toFixed(1)} pts against</span>
+          {season.lineups && season.lineups.weeks > 0 && (
+            <span title={`${season.lineups.pointsLeftOnBench.toFixed(1)} pts left on the bench`}>
+              {season.lineups.efficiency.toFixed(1)}% lineup efficiency
+            </span>
+          )}
+          {season.lineups && season.lineups.benchLosses > 0 && (
+            <span>{season.lineups.benchLosses} bench loss{season.lineups.benchLosses !== 1 ? 'es' : ''}</span>
+          )}
         </div>
         {season.highlights.length > 0 && (
           <ul className="mt-2.5 space-y-1 border-t border-border/40 pt-2.5">
@@ -294,6 +303,25 @@ export default function TeamProfileView({ userId }: { userId: string }) {
           <StatCell label="Best Finish" value={career.bestFinish > 0 ? ordinal(career.bestFinish) : '-'} />
           {career.worstFinish > 0 && <StatCell label="Worst Finish" value={ordinal(career.worstFinish)} />}
           <StatCell label="Trades Made" value={String(career.totalTrades)} />
+          {data.lineups && data.lineups.weeks > 0 && (
+            <>
+              <StatCell
+                label="Lineup Efficiency"
+                value={`${data.lineups.efficiency.toFixed(1)}%`}
+                sub={`of the best possible, over ${data.lineups.weeks} weeks`}
+              />
+              <StatCell
+                label="Left on Bench"
+                value={(data.lineups.pointsLeftOnBench / data.lineups.weeks).toFixed(1)}
+                sub={`per game, ${Math.round(data.lineups.pointsLeftOnBench).toLocaleString()} all-time`}
+              />
+              <StatCell
+                label="Bench Losses"
+                value={String(data.lineups.benchLosses)}
+                sub="losses the best lineup would have won"
+              />
+            </>
+          )}
         </div>
       </div>
 
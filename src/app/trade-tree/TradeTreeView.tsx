@@ -13,7 +13,7 @@ import { SeasonSelect } from '@/components/ui/SeasonSelect';
 import { cn } from '@/lib/utils';
 import type {
   TradeTreeResponse, TradeTreeEntry, TradeSideResult, AssetResult,
-} from '@/app/api/trade-tree/route';
+} from '@/lib/tradeTree';
 
 // Position colors match the Transactions page for cross-page consistency.
 const POS_COLOR: Record<string, string> = {
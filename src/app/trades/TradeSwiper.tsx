@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import {
   motion,
   useMotionValue,
@@ -8,8 +9,11 @@ import {
   AnimatePresence,
   animate,
 } from 'framer-motion';
-import { X, Check, RefreshCw, Flame, TrendingUp, Filter } from 'lucide-react';
-import { type TradeProposal, type PlayerValue, type TeamInfo, POSITION_COLORS } from '@/lib/tradeEngine';
+import { X, Check, RefreshCw, Flame, TrendingUp, Filter, Handshake } from 'lucide-react';
+import type { TradeProposal, PlayerValue, TeamInfo } from '@/lib/tradeEngine';
+import { POSITION_COLORS, dealKey } from '@/lib/tradeColors';
+import type { LeagueManager } from '@/lib/managerContext';
+import type { TradeMatch } from '@/lib/tradeInterest';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 
 const SWIPE_THRESHOLD = 90;
@@ -57,7 +61,7 @@ function PlayerPill({ player }: { player: PlayerValue }) {
 
 // ── Fairness bar ───────────────────────────────────────────────────────────────
 
-function FairnessBar({ fairness, nameA, nameB }: { fairness: number; nameA: string; nameB: string }) {
+export function FairnessBar({ fairness, nameA, nameB }: { fairness: number; nameA: string; nameB: string }) {
   const label =
     fairness >= 42 && fairness <= 58 ? 'Even'
     : fairness < 42 ? `Favors ${nameA}`
@@ -289,6 +293,60 @@ function TeamFilter({
   );
 }
 
+// ── Who's swiping ──────────────────────────────────────────────────────────────
+
+function ManagerBar({ manager }: { manager: LeagueManager | null }) {
+  return (
+    <div className="w-full max-w-sm rounded-xl border border-border bg-card px-3 py-2.5 text-xs">
+      {manager ? (
+        <span className="text-muted-foreground">
+          Swiping as <span className="font-semibold text-foreground">{manager.teamName}</span>
+        </span>
+      ) : (
+        <span className="text-muted-foreground">
+          <Link href="/signin" className="font-semibold text-primary hover:text-primary/80">Sign in</Link>
+          {' '}to save your swipes and see when the other side wants the deal too.
+        </span>
+      )}
+    </div>
+  );
+}
+
+// ── Mutual interest ────────────────────────────────────────────────────────────
+
+function MutualInterest({ matches }: { matches: (TradeMatch & { seen: boolean })[] }) {
+  if (!matches.length) return null;
+
+  return (
+    <div className="w-full max-w-sm space-y-2">
+      <div className="flex items-center gap-2">
+        <Handshake className="h-3 w-3 text-emerald-400 shrink-0" />
+        <span className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60">
+          Mutual interest
+        </span>
+      </div>
+      {matches.map(({ dealKey: key, proposal: p, seen }) => (
+        <div key={key} className={`rounded-xl border bg-card p-3 ${seen ? 'border-border' : 'border-emerald-500/40'}`}>
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <span className="font-semibold text-foreground text-xs truncate">
+              {p.sideA.teamName} ↔ {p.sideB.teamName}
+            </span>
+            {!seen && (
+              <span className="shrink-0 rounded-full border border-emerald-500/30 bg-emerald-500/10 px-1.5 py-0.5 text-[9px] font-bold uppercase text-emerald-400">
+                New
+              </span>
+            )}
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            {p.sideA.gives.map(pl => pl.name).join(', ')} ←→ {p.sideB.gives.map(pl => pl.name).join(', ')}
+          </p>
+          <p className="text-[10px] text-muted-foreground/70 mt-1">Both sides swiped right. Time to talk.</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // ── Summary ────────────────────────────────────────────────────────────────────
 
 function Summary({ liked, total, onReset }: { liked: TradeProposal[]; total: number; onReset: () => void }) {
@@ -348,12 +406,38 @@ export default function TradeSwiper() {
   const [liked,         setLiked]         = useState<TradeProposal[]>([]);
   const [loading,       setLoading]       = useState(true);
   const [error,         setError]         = useState<string | null>(null);
+  const [manager,       setManager]       = useState<LeagueManager | null>(null);
+  const [matches,       setMatches]       = useState<(TradeMatch & { seen: boolean })[]>([]);
+  // Deals this manager swiped on before, kept out of the deck. Only refreshed
+  // on load: swipes made now must not reshuffle the deck under the cursor.
+  const [swiped,        setSwiped]        = useState<Set<string>>(new Set());
+  const [newMatch,      setNewMatch]      = useState<TradeMatch | null>(null);
+
+  async function loadInterest() {
+    try {
+      const res = await fetch('/api/trades/interest');
+      if (!res.ok) return;
+      const data = await res.json();
+      setManager(data.manager ?? null);
+      // A signed-in manager's deck opens on deals involving their own team.
+      if (data.manager) setSelectedTeams(prev => (prev.size ? prev : new Set([data.manager.rosterId])));
+      setSwiped(new Set(Object.keys(data.swipes ?? {})));
+      setMatches(data.matches ?? []);
+      // Showing them is the notification; next visit they are no longer new.
+      if ((data.matches ?? []).some((m: { seen: boolean }) => !m.seen)) {
+        fetch('/api/trades/interest', { method: 'PATCH' }).catch(() => {});
+      }
+    } catch {
+      // Swipes still work locally without persistence.
+    }
+  }
 
   async function load() {
     setLoading(true);
     setError(null);
     setCurrentIndex(0);
     setLiked([]);
+    setNewMatch(null);
     try {
       const res = await fetch('/api/trades/suggestions');
       if (!res.ok) throw new Error('Failed to load');
@@ -367,15 +451,16 @@ export default function TradeSwiper() {
     }
   }
 
-  useEffect(() => { load(); }, []);
+  useEffect(() => { load(); loadInterest(); }, []);
 
   // When filter changes, reset the deck to the beginning
   const filteredProposals = useMemo(() => {
-    if (selectedTeams.size === 0) return proposals;
-    return proposals.filter(p =>
+    const unswiped = proposals.filter(p => !swiped.has(dealKey(p)));
+    if (selectedTeams.size === 0) return unswiped;
+    return unswiped.filter(p =>
       selectedTeams.has(p.sideA.rosterId) || selectedTeams.has(p.sideB.rosterId)
     );
-  }, [proposals, selectedTeams]);
+  }, [proposals, selectedTeams, swiped]);
 
   // Reset deck position when filter changes
   useEffect(() => { setCurrentIndex(0); setLiked([]); }, [selectedTeams]);
@@ -389,8 +474,31 @@ export default function TradeSwiper() {
   }
 
   function handleSwipe(dir: 'left' | 'right') {
-    if (dir === 'right') setLiked(prev => [...prev, filteredProposals[currentIndex]]);
+    const proposal = filteredProposals[currentIndex];
+    if (dir === 'right') setLiked(prev => [...prev, proposal]);
     setCurrentIndex(prev => prev + 1);
+    if (manager && proposal) saveSwipe(proposal, dir);
+  }
+
+  async function saveSwipe(proposal: TradeProposal, direction: 'left' | 'right') {
+    try {
+      const res = await fetch('/api/trades/interest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ proposal, direction }),
+      });
+      if (!res.ok) return;
+      const { match } = (await res.json()) as { match: TradeMatch | null };
+      const key = dealKey(proposal);
+      if (match && !matches.some(m => m.dealKey === key)) {
+        setNewMatch(match);
+        setMatches(prev => [{ ...match, seen: true }, ...prev]);
+      } else if (!match) {
+        setMatches(prev => prev.filter(m => m.dealKey !== key));
+      }
+    } catch {
+      // A lost swipe only costs a match; the deck carries on.
+    }
   }
 
   const done = currentIndex >= filteredProposals.length;
@@ -441,6 +549,34 @@ export default function TradeSwiper() {
 
   return (
     <div className="flex flex-col items-center gap-5">
+      <ManagerBar manager={manager} />
+
+      {/* Match banner */}
+      <AnimatePresence>
+        {newMatch && (
+          <motion.div
+            key={newMatch.dealKey}
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="w-full max-w-sm flex items-start gap-3 rounded-xl border border-emerald-500/40 bg-emerald-500/10 p-3"
+          >
+            <Handshake className="h-5 w-5 shrink-0 text-emerald-400" />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-bold text-foreground">It&apos;s a match!</p>
+              <p className="text-xs text-muted-foreground">
+                {newMatch.proposal.sideA.teamName} and {newMatch.proposal.sideB.teamName} both want this one.
+              </p>
+            </div>
+            <button onClick={() => setNewMatch(null)} className="text-muted-foreground hover:text-foreground" aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <MutualInterest matches={matches} />
+
       {/* Team filter */}
       {teams.length > 0 && (
         <TeamFilter
@@ -452,15 +588,25 @@ export default function TradeSwiper() {
       )}
 
       {/* Empty filter state */}
-      {filteredProposals.length === 0 && !done && (
+      {filteredProposals.length === 0 && selectedTeams.size > 0 && (
         <div className="flex h-64 items-center justify-center text-center px-8">
           <div className="space-y-2">
-            <p className="text-base font-semibold text-foreground">No trades match this filter</p>
+            <p className="text-base font-semibold text-foreground">No new trades match this filter</p>
             <p className="text-sm text-muted-foreground">Try selecting different teams.</p>
           </div>
         </div>
       )}
 
+      {/* Every card already swiped on an earlier visit */}
+      {filteredProposals.length === 0 && selectedTeams.size === 0 && (
+        <div className="flex h-64 items-center justify-center text-center px-8">
+          <div className="space-y-2">
+            <p className="text-base font-semibold text-foreground">You&apos;ve swiped on every idea</p>
+            <p className="text-sm text-muted-foreground">Fresh suggestions arrive every couple of hours.</p>
+          </div>
+        </div>
+      )}
+
       {filteredProposals.length > 0 && (
         <>
           {/* Progress */}
@@ -483,7 +629,7 @@ export default function TradeSwiper() {
           <div className="relative w-full max-w-sm" style={{ height: 500 }}>
             {done ? (
               <div className="absolute inset-x-0 top-0 h-[476px] rounded-2xl border border-border bg-card overflow-hidden">
-                <Summary liked={liked} total={filteredProposals.length} onReset={load} />
+                <Summary liked={liked} total={filteredProposals.length} onReset={() => { load(); loadInterest(); }} />
               </div>
             ) : (
               <AnimatePresence initial={false}>
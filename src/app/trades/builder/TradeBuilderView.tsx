@@ -0,0 +1,321 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Plus, Sparkles, X } from 'lucide-react';
+import Avatar from '@/components/ui/Avatar';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import { POSITION_COLORS } from '@/lib/tradeColors';
+import { evaluateTrade, type TradeAsset, type TradeMarket, type TradeMove, type TradeSide } from '@/lib/tradeBuilder';
+import type { TradeGrade } from '@/lib/ai/generate';
+import { FairnessBar } from '../TradeSwiper';
+import { useManager } from '@/components/auth/ManagerProvider';
+
+const PICK_COLOR = 'text-muted-foreground bg-muted/40 border-border';
+
+interface GradeResponse {
+  personality: { name: string; handle: string };
+  grade: TradeGrade;
+}
+
+// ── Micro-components ─────────────────────────────────────────────────────────
+
+function AssetRow({
+  asset, selected, destinations, to, onToggle, onRoute,
+}: {
+  asset: TradeAsset;
+  selected: boolean;
+  /** Other teams in a three-team trade; empty when there is only one place to send it. */
+  destinations: { rosterId: number; teamName: string }[];
+  to: number | undefined;
+  onToggle: () => void;
+  onRoute: (to: number) => void;
+}) {
+  const color = asset.kind === 'pick' ? PICK_COLOR : POSITION_COLORS[asset.position] ?? PICK_COLOR;
+  return (
+    <div className={cn('rounded-lg border transition-colors', selected ? 'border-primary bg-primary/10' : 'border-border/60 hover:border-primary/40')}>
+      <button onClick={onToggle} className="flex w-full items-center gap-2.5 px-2.5 py-2 text-left">
+        <span className={cn('w-10 shrink-0 rounded border px-1 py-0.5 text-center text-[9px] font-bold uppercase tracking-widest', color)}>
+          {asset.kind === 'pick' ? 'Pick' : asset.position}
+        </span>
+        <span className="min-w-0 flex-1">
+          <span className="block truncate text-xs font-semibold text-foreground">{asset.label}</span>
+          {asset.kind === 'player' && (
+            <span className="block text-[10px] text-muted-foreground">
+              {asset.nflTeam} · {asset.avgPPG.toFixed(1)} ppg{asset.dynastyRank && ` · dynasty ${asset.dynastyRank}`}
+            </span>
+          )}
+        </span>
+        <span className="shrink-0 font-display text-sm font-bold tabular-nums text-foreground">{asset.tradeValue}</span>
+      </button>
+      {selected && destinations.length > 1 && (
+        <div className="flex items-center gap-2 border-t border-primary/20 px-2.5 py-1.5 text-[10px] text-muted-foreground">
+          To
+          <select
+            value={to}
+            onChange={e => onRoute(Number(e.target.value))}
+            className="min-w-0 flex-1 rounded border border-border bg-background px-1.5 py-0.5 text-[11px] text-foreground"
+          >
+            {destinations.map(d => <option key={d.rosterId} value={d.rosterId}>{d.teamName}</option>)}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SideSummary({ side, others }: { side: TradeSide; others: string }) {
+  const delta = side.lineupAfter - side.lineupBefore;
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 space-y-3">
+      <p className="truncate text-sm font-bold text-foreground">{side.teamName}</p>
+      <div className="grid grid-cols-2 gap-3 text-xs">
+        <div>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60">Gets ({side.valueIn})</p>
+          <ul className="mt-1 space-y-0.5">
+            {side.receives.length ? side.receives.map(a => <li key={a.id} className="truncate text-foreground">{a.label}</li>)
+              : <li className="text-muted-foreground">Nothing</li>}
+          </ul>
+        </div>
+        <div>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60">Gives ({side.valueOut})</p>
+          <ul className="mt-1 space-y-0.5">
+            {side.gives.length ? side.gives.map(a => <li key={a.id} className="truncate text-muted-foreground">{a.label}</li>)
+              : <li className="text-muted-foreground">Nothing</li>}
+          </ul>
+        </div>
+      </div>
+      <div className="flex items-baseline justify-between border-t border-border/40 pt-2 text-[11px]">
+        <span className="text-muted-foreground">Starting lineup</span>
+        <span className="tabular-nums text-foreground">
+          {side.lineupBefore.toFixed(1)} → {side.lineupAfter.toFixed(1)} ppg{' '}
+          <span className={cn('font-semibold', delta > 0.05 ? 'text-emerald-500' : delta < -0.05 ? 'text-rose-500' : 'text-muted-foreground')}>
+            ({delta >= 0 ? '+' : ''}{delta.toFixed(1)})
+          </span>
+        </span>
+      </div>
+      <FairnessBar fairness={side.fairness} nameA={side.teamName} nameB={others} />
+    </div>
+  );
+}
+
+// ── View ─────────────────────────────────────────────────────────────────────
+
+export default function TradeBuilderView() {
+  const [market, setMarket] = useState<TradeMarket | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [teamIds, setTeamIds] = useState<number[]>([]);
+  const [moves, setMoves] = useState<TradeMove[]>([]);
+  const [grade, setGrade] = useState<GradeResponse | null>(null);
+  const [grading, setGrading] = useState(false);
+  const [gradeError, setGradeError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/trades/market')
+      .then(r => r.json())
+      .then(d => {
+        if (d.error) { setError(d.error); return; }
+        setMarket(d);
+      })
+      .catch(e => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  // Opens on the signed-in manager's team against the next one down.
+  const { manager, ready } = useManager();
+  useEffect(() => {
+    if (!market || !ready) return;
+    const mine = market.teams.find(t => t.userId === manager?.userId)?.rosterId;
+    setTeamIds(ids => (ids.length ? ids : [
+      ...(mine != null ? [mine] : []),
+      ...market.teams.map(t => t.rosterId).filter(id => id !== mine),
+    ].slice(0, 2)));
+  }, [market, ready, manager]);
+
+  const evaluation = useMemo(() => (market ? evaluateTrade(market, moves) : null), [market, moves]);
+  // Any change to the trade makes an earlier grade stale.
+  useEffect(() => { setGrade(null); setGradeError(null); }, [moves]);
+
+  if (error) return <p className="rounded-xl border border-border bg-card p-6 text-sm text-muted-foreground">{error}</p>;
+  if (!market) return <div className="flex justify-center py-20"><LoadingSpinner className="h-8 w-8" /></div>;
+
+  const teamById = new Map(market.teams.map(t => [t.rosterId, t]));
+  const inTrade = teamIds.map(id => teamById.get(id)).filter((t): t is NonNullable<typeof t> => !!t);
+
+  const toggle = (from: number, assetId: string) => setMoves(ms => {
+    if (ms.some(m => m.from === from && m.assetId === assetId)) return ms.filter(m => !(m.from === from && m.assetId === assetId));
+    const to = teamIds.find(id => id !== from);
+    return to == null ? ms : [...ms, { assetId, from, to }];
+  });
+  const route = (from: number, assetId: string, to: number) =>
+    setMoves(ms => ms.map(m => (m.from === from && m.assetId === assetId ? { ...m, to } : m)));
+  const swapTeam = (index: number, rosterId: number) => {
+    const old = teamIds[index];
+    setTeamIds(ids => ids.map((id, i) => (i === index ? rosterId : id)));
+    setMoves(ms => ms.filter(m => m.from !== old && m.to !== old));
+  };
+
+  const requestGrade = async () => {
+    if (!evaluation) return;
+    setGrading(true);
+    setGradeError(null);
+    try {
+      const res = await fetch('/api/ai/grade-trade', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          trade: {
+            season: market.season,
+            week: market.week,
+            proposed: true,
+            sides: evaluation.sides.map(s => ({
+              teamName: s.teamName,
+              receives: s.receives.map(a => a.label),
+              gives: s.gives.map(a => a.label),
+            })),
+          },
+        }),
+      });
+      const d = await res.json();
+      if (!res.ok) throw new Error(d.error ?? 'Grading failed');
+      setGrade(d);
+    } catch (e) {
+      setGradeError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  const sides = evaluation?.sides ?? [];
+  const balanced = sides.length >= 2 && sides.every(s => s.gives.length > 0 && s.receives.length > 0);
+
+  return (
+    <div className="space-y-6">
+      {/* ── Rosters ── */}
+      <div className={cn('grid gap-4', inTrade.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2')}>
+        {inTrade.map((team, index) => (
+          <section key={index} className="rounded-xl border border-border bg-card p-4">
+            <div className="mb-3 flex items-center gap-2">
+              <Avatar avatarId={team.avatar} size={24} className="shrink-0 rounded" />
+              <select
+                value={team.rosterId}
+                onChange={e => swapTeam(index, Number(e.target.value))}
+                className="min-w-0 flex-1 rounded-lg border border-border bg-background px-2 py-1.5 text-sm font-semibold text-foreground"
+              >
+                {market.teams
+                  .filter(t => t.rosterId === team.rosterId || !teamIds.includes(t.rosterId))
+                  .map(t => <option key={t.rosterId} value={t.rosterId}>{t.teamName} ({t.record})</option>)}
+              </select>
+              {index === 2 && (
+                <button
+                  onClick={() => { setMoves(ms => ms.filter(m => m.from !== team.rosterId && m.to !== team.rosterId)); setTeamIds(ids => ids.slice(0, 2)); }}
+                  className="rounded-md p-1 text-muted-foreground hover:text-foreground"
+                  aria-label="Remove team"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <div className="max-h-[28rem] space-y-1.5 overflow-y-auto pr-1">
+              {team.assets.map(asset => {
+                const move = moves.find(m => m.from === team.rosterId && m.assetId === asset.id);
+                return (
+                  <AssetRow
+                    key={asset.id}
+                    asset={asset}
+                    selected={!!move}
+                    to={move?.to}
+                    destinations={inTrade.filter(t => t.rosterId !== team.rosterId)}
+                    onToggle={() => toggle(team.rosterId, asset.id)}
+                    onRoute={to => route(team.rosterId, asset.id, to)}
+                  />
+                );
+              })}
+            </div>
+          </section>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {inTrade.length === 2 && market.teams.length > 2 && (
+          <button
+            onClick={() => setTeamIds(ids => [...ids, market.teams.find(t => !ids.includes(t.rosterId))!.rosterId])}
+            className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary"
+          >
+            <Plus className="h-3.5 w-3.5" /> Add a third team
+          </button>
+        )}
+        <button
+          onClick={() => setMoves([])}
+          disabled={!moves.length}
+          className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40"
+        >
+          Clear
+        </button>
+      </div>
+
+      {/* ── Evaluation ── */}
+      {sides.length > 0 && evaluation && (
+        <section className="space-y-4">
+          <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">The trade</h2>
+          {sides.length === 2 && (
+            <div className="rounded-xl border border-border bg-card p-4">
+              <FairnessBar fairness={evaluation.fairness} nameA={sides[0].teamName} nameB={sides[1].teamName} />
+            </div>
+          )}
+          <div className={cn('grid gap-4', sides.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2')}>
+            {sides.map(s => (
+              <SideSummary
+                key={s.rosterId}
+                side={s}
+                others={sides.filter(o => o.rosterId !== s.rosterId).map(o => o.teamName).join(' & ')}
+              />
+            ))}
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            Values are 0-100: a player&apos;s production percentile at his position over recent weeks
+            {market.ecrFetchedAt ? ', blended with his FantasyPros dynasty rank where he has one' : ''}. Picks are valued by round
+            and year. Lineup strength is the best starting lineup&apos;s points per game.
+          </p>
+
+          {/* ── AI grade ── */}
+          <div className="rounded-xl border border-border bg-card p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">Second opinion</p>
+              <button
+                onClick={requestGrade}
+                disabled={!balanced || grading}
+                className="inline-flex items-center gap-1.5 rounded-lg bg-primary px-3 py-1.5 text-xs font-semibold text-primary-foreground disabled:opacity-40"
+              >
+                {grading ? <LoadingSpinner className="h-3.5 w-3.5" /> : <Sparkles className="h-3.5 w-3.5" />}
+                Grade this trade
+              </button>
+            </div>
+            {!balanced && (
+              <p className="mt-2 text-[11px] text-muted-foreground">Every team needs to give and get something before it can be graded.</p>
+            )}
+            {gradeError && <p className="mt-2 text-xs text-rose-500">{gradeError}</p>}
+            {grade && (
+              <div className="mt-3 space-y-3">
+                <p className="text-sm font-semibold text-foreground">{grade.grade.verdict}</p>
+                <div className={cn('grid gap-3', grade.grade.sides.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2')}>
+                  {grade.grade.sides.map(s => (
+                    <div key={s.teamName} className="rounded-lg border border-border/60 p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate text-xs font-semibold text-foreground">{s.teamName}</span>
+                        <span className="font-display text-lg font-bold text-primary">{s.grade}</span>
+                      </div>
+                      <p className="mt-1 text-[11px] leading-relaxed text-muted-foreground">{s.reasoning}</p>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[10px] text-muted-foreground">
+                  {grade.personality.name} ({grade.personality.handle}) · {grade.grade.confidence} confidence
+                </p>
+              </div>
+            )}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { PageLayout } from '@/components/layout/PageLayout';
+import TradeBuilderView from './TradeBuilderView';
+
+export const metadata = { title: 'Trade Builder | League Pulse' };
+
+export default function TradeBuilderPage() {
+  return (
+    <PageLayout
+      title="Trade Builder"
+      subtitle="Put together your own trade between two or three teams and see what it does to each side"
+    >
+      <TradeBuilderView />
+    </PageLayout>
+  );
+}
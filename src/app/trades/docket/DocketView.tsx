@@ -0,0 +1,354 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeftRight, Gavel, ScrollText } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { cn } from '@/lib/utils';
+import type { LeagueManager } from '@/lib/managerContext';
+import type {
+  ProtestCase, ProtestDecision, ProtestGround, ProtestStatus, ProtestTrade, ProtestVoteChoice,
+} from '@/lib/tradeProtests';
+
+type DocketCase = ProtestCase & { status: ProtestStatus };
+
+interface Docket {
+  cases: DocketCase[];
+  trades: ProtestTrade[];
+  grounds: { id: ProtestGround; label: string }[];
+  windowHours: number;
+  vetoVotesNeeded: number;
+  manager: LeagueManager | null;
+  canRule: boolean;
+}
+
+const STATUS_LABEL: Record<ProtestStatus, string> = {
+  voting: 'Voting open',
+  'awaiting-ruling': 'Awaiting ruling',
+  ruled: 'Ruled',
+};
+
+const BUTTON =
+  'rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-foreground transition-colors hover:border-primary/40 hover:text-primary disabled:opacity-40';
+
+const isParty = (trade: ProtestTrade, manager: LeagueManager | null) =>
+  !!manager && trade.sides.some(s => s.rosterId === manager.rosterId);
+
+// ── Micro-components ─────────────────────────────────────────────────────────
+
+function TradeSummary({ trade }: { trade: ProtestTrade }) {
+  return (
+    <div className="flex flex-wrap items-start gap-3">
+      {trade.sides.map((side, i) => (
+        <Fragment key={side.rosterId}>
+          {i > 0 && <ArrowLeftRight className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />}
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-xs font-semibold text-foreground">{side.teamName} gets</p>
+            <ul className="mt-0.5 text-[11px] text-muted-foreground">
+              {side.receives.length ? side.receives.map(r => <li key={r} className="truncate">{r}</li>) : <li>Nothing</li>}
+            </ul>
+          </div>
+        </Fragment>
+      ))}
+    </div>
+  );
+}
+
+function Citation({ c }: { c: ProtestCase }) {
+  if (!c.citation) return null;
+  return (
+    <Link
+      href={`/constitution#${c.citation.sectionId}`}
+      className="inline-flex items-center gap-1 text-[11px] font-semibold text-primary hover:underline"
+    >
+      <ScrollText className="h-3 w-3" />
+      Constitution: {c.citation.title}
+    </Link>
+  );
+}
+
+function Tally({ c }: { c: ProtestCase }) {
+  const veto = c.votes.filter(v => v.vote === 'veto');
+  const stand = c.votes.filter(v => v.vote === 'stand');
+  return (
+    <div>
+      <div className="flex items-center justify-between text-[11px] text-muted-foreground">
+        <span>
+          <span className="font-semibold text-rose-500">{veto.length} veto</span>
+          {' · '}
+          <span className="font-semibold text-emerald-500">{stand.length} let it stand</span>
+        </span>
+        <span>{c.vetoThreshold} to recommend a veto</span>
+      </div>
+      <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-muted">
+        <div
+          className="h-full rounded-full bg-rose-500 transition-all"
+          style={{ width: `${Math.min(100, (veto.length / Math.max(1, c.vetoThreshold)) * 100)}%` }}
+        />
+      </div>
+      {c.votes.length > 0 && (
+        <p className="mt-1 text-[10px] text-muted-foreground">
+          {c.votes.map(v => `${v.teamName} (${v.vote === 'veto' ? 'veto' : 'stand'})`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function RulingForm({ onRule }: { onRule: (decision: ProtestDecision, note: string) => Promise<void> }) {
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const rule = async (decision: ProtestDecision) => {
+    setBusy(true);
+    await onRule(decision, note);
+    setBusy(false);
+  };
+  return (
+    <div className="rounded-lg border border-primary/30 bg-primary/5 p-3">
+      <p className="text-[10px] font-bold uppercase tracking-[0.15em] text-primary">Commissioner ruling</p>
+      <textarea
+        value={note}
+        onChange={e => setNote(e.target.value)}
+        rows={2}
+        placeholder="The reasoning, as it will appear on the docket"
+        className="mt-2 w-full rounded-md border border-border bg-background px-2 py-1.5 text-xs text-foreground focus:border-primary focus:outline-none"
+      />
+      <div className="mt-2 flex gap-2">
+        <button onClick={() => rule('reversed')} disabled={busy || !note.trim()} className={BUTTON}>Reverse the trade</button>
+        <button onClick={() => rule('stands')} disabled={busy || !note.trim()} className={BUTTON}>Let it stand</button>
+      </div>
+    </div>
+  );
+}
+
+function CaseCard({
+  c, manager, canRule, onVote, onRule,
+}: {
+  c: DocketCase;
+  manager: LeagueManager | null;
+  canRule: boolean;
+  onVote: (vote: ProtestVoteChoice) => void;
+  onRule: (decision: ProtestDecision, note: string) => Promise<void>;
+}) {
+  const mine = manager ? c.votes.find(v => v.userId === manager.userId)?.vote : undefined;
+  const canVote = c.status === 'voting' && !!manager && !isParty(c.trade, manager);
+
+  return (
+    <article id={`case-${c.id}`} className="scroll-mt-24 rounded-xl border border-border bg-card p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={cn(
+          'rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider',
+          c.status === 'voting' ? 'bg-primary/10 text-primary'
+            : c.status === 'awaiting-ruling' ? 'bg-amber-500/10 text-amber-500'
+            : 'bg-muted text-muted-foreground',
+        )}>
+          {STATUS_LABEL[c.status]}
+        </span>
+        <span className="text-[11px] text-muted-foreground">
+          {c.trade.season} Week {c.trade.week} · filed by {c.filedBy.teamName} {formatDistanceToNow(new Date(c.filedAt), { addSuffix: true })}
+        </span>
+        {c.status === 'voting' && (
+          <span className="ml-auto text-[11px] text-muted-foreground">
+            closes {formatDistanceToNow(new Date(c.votingClosesAt), { addSuffix: true })}
+          </span>
+        )}
+      </div>
+
+      <div className="mt-3"><TradeSummary trade={c.trade} /></div>
+
+      <div className="mt-3 border-l-2 border-border pl-3">
+        <p className="text-xs text-foreground">{c.reason}</p>
+        <div className="mt-1"><Citation c={c} /></div>
+      </div>
+
+      <div className="mt-3"><Tally c={c} /></div>
+
+      {canVote && (
+        <div className="mt-3 flex items-center gap-2">
+          <button onClick={() => onVote('veto')} className={cn(BUTTON, mine === 'veto' && 'border-rose-500/60 text-rose-500')}>
+            Veto
+          </button>
+          <button onClick={() => onVote('stand')} className={cn(BUTTON, mine === 'stand' && 'border-emerald-500/60 text-emerald-500')}>
+            Let it stand
+          </button>
+          {mine && <span className="text-[11px] text-muted-foreground">You can change your vote until voting closes.</span>}
+        </div>
+      )}
+
+      {c.ruling ? (
+        <div className="mt-3 rounded-lg border border-border bg-muted/30 p-3">
+          <p className="flex items-center gap-1.5 text-xs font-semibold text-foreground">
+            <Gavel className="h-3.5 w-3.5" />
+            {c.ruling.decision === 'reversed' ? 'Trade reversed' : 'Trade stands'}
+            <span className="font-normal text-muted-foreground">
+              · {c.ruling.by} ({c.ruling.role}), {new Date(c.ruling.at).toLocaleDateString()}
+            </span>
+          </p>
+          <p className="mt-1 text-xs text-muted-foreground">{c.ruling.note}</p>
+        </div>
+      ) : canRule && (
+        <div className="mt-3"><RulingForm onRule={onRule} /></div>
+      )}
+    </article>
+  );
+}
+
+function FileProtest({ docket, onFiled }: { docket: Docket; onFiled: () => void }) {
+  const trades = docket.trades.filter(t => !isParty(t, docket.manager));
+  const [transactionId, setTransactionId] = useState('');
+  const [ground, setGround] = useState<ProtestGround>(docket.grounds[0]?.id);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = trades.find(t => t.transactionId === transactionId) ?? trades[0];
+
+  const file = async () => {
+    if (!selected) return;
+    setBusy(true); setError(null);
+    try {
+      const res = await fetch('/api/trades/protests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transactionId: selected.transactionId, ground, reason }),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Could not file the protest'); return; }
+      setReason('');
+      onFiled();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-border bg-card p-4">
+      <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">File a protest</h2>
+      {!docket.manager ? (
+        <p className="mt-2 text-xs text-muted-foreground">
+          <Link href="/signin" className="font-semibold text-primary hover:underline">Sign in</Link> to protest a trade or vote on one.
+        </p>
+      ) : trades.length === 0 ? (
+        <p className="mt-2 text-xs text-muted-foreground">
+          No trade you could protest is inside the {docket.windowHours}-hour review window.
+        </p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          <select
+            value={selected?.transactionId}
+            onChange={e => setTransactionId(e.target.value)}
+            className="w-full rounded-md border border-border bg-background px-2 py-1.5 text-xs text-foreground"
+          >
+            {trades.map(t => (
+              <option key={t.transactionId} value={t.transactionId}>
+                {t.sides.map(s => s.teamName).join(' ⇄ ')} · {formatDistanceToNow(new Date(t.created), { addSuffix: true })}
+              </option>
+            ))}
+          </select>
+          {selected && <TradeSummary trade={selected} />}
+          <select
+            value={ground}
+            onChange={e => setGround(e.target.value as ProtestGround)}
+            className="w-full rounded-md border border-border bg-background px-2 py-1.5 text-xs text-foreground"
+          >
+            {docket.grounds.map(g => <option key={g.id} value={g.id}>{g.label}</option>)}
+          </select>
+          <textarea
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            rows={3}
+            placeholder="What specifically makes this trade a violation? General dissatisfaction is not grounds for a veto."
+            className="w-full rounded-md border border-border bg-background px-2 py-1.5 text-xs text-foreground focus:border-primary focus:outline-none"
+          />
+          {error && (
+            <p className="rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>
+          )}
+          <button onClick={file} disabled={busy || !reason.trim()} className={BUTTON}>
+            {busy ? 'Filing…' : 'File protest'}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
+
+// ── Main view ────────────────────────────────────────────────────────────────
+
+/**
+ * The league's trade protests: open cases to vote on, and every past ruling,
+ * each tied to the constitution section it cites.
+ */
+export default function DocketView() {
+  const [docket, setDocket] = useState<Docket | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const d = await fetch('/api/trades/protests').then(r => r.json());
+      if (d.error) { setError(d.error); return; }
+      setDocket(d);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const send = useCallback(async (url: string, method: 'PATCH' | 'POST', body: object) => {
+    setError(null);
+    try {
+      const res = await fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? 'Request failed'); return; }
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [load]);
+
+  if (!docket) {
+    return error
+      ? <p className="rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>
+      : <div className="flex justify-center py-12"><LoadingSpinner /></div>;
+  }
+
+  const open = docket.cases.filter(c => c.status !== 'ruled');
+  const past = docket.cases.filter(c => c.status === 'ruled');
+  const card = (c: DocketCase) => (
+    <CaseCard
+      key={c.id}
+      c={c}
+      manager={docket.manager}
+      canRule={docket.canRule}
+      onVote={vote => send('/api/trades/protests', 'PATCH', { caseId: c.id, vote })}
+      onRule={(decision, note) => send('/api/admin/protests', 'POST', { caseId: c.id, decision, note })}
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-muted-foreground">
+        Any manager outside a trade may protest it within {docket.windowHours} hours, citing the rule it breaks.
+        The rest of the league then has {docket.windowHours} hours to vote; the Commissioner makes the final ruling.
+        See <Link href="/constitution#trades-not-made-in-good-faith" className="font-semibold text-primary hover:underline">Trade Integrity</Link>.
+      </p>
+
+      {error && <p className="rounded-md border border-red-500/30 bg-red-500/5 p-2 text-[11px] text-red-500">{error}</p>}
+
+      <FileProtest docket={docket} onFiled={load} />
+
+      <section className="space-y-3">
+        <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">Open cases</h2>
+        {open.length ? open.map(card) : <p className="text-xs text-muted-foreground">No open protests.</p>}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-[10px] font-bold uppercase tracking-[0.15em] text-muted-foreground">Past rulings</h2>
+        {past.length ? past.map(card) : <p className="text-xs text-muted-foreground">No rulings yet.</p>}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { PageLayout } from '@/components/layout/PageLayout';
+import DocketView from './DocketView';
+
+export const metadata = { title: 'Trade Docket | League Pulse' };
+
+export default function TradeDocketPage() {
+  return (
+    <PageLayout
+      title="Trade Docket"
+      subtitle="Protested trades, the league's votes on them, and the Commissioner's rulings"
+    >
+      <DocketView />
+    </PageLayout>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import type { LeagueManager } from '@/lib/managerContext';
+
+/**
+ * The signed-in manager, for every client view that defaults to "my team".
+ *
+ * Loaded once per page load from /api/manager. The session cookie is
+ * httpOnly, so this is the only way the browser learns who it is.
+ */
+
+interface ManagerContextValue {
+  /** Null when signed out, or signed in but not a manager in this league. */
+  manager: LeagueManager | null;
+  /** Every manager in the league. */
+  managers: LeagueManager[];
+  /** False until the first answer from the server. */
+  ready: boolean;
+  /** Resolves to an error message, or null on success. */
+  signIn: (code: string) => Promise<string | null>;
+  signOut: () => Promise<void>;
+}
+
+const ManagerContext = createContext<ManagerContextValue | null>(null);
+
+export function useManager() {
+  const ctx = useContext(ManagerContext);
+  if (!ctx) throw new Error('useManager must be used within ManagerProvider');
+  return ctx;
+}
+
+export function ManagerProvider({ children }: { children: ReactNode }) {
+  const [manager, setManager] = useState<LeagueManager | null>(null);
+  const [managers, setManagers] = useState<LeagueManager[]>([]);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/manager')
+      .then(r => r.json())
+      .then(d => {
+        setManager(d.manager ?? null);
+        setManagers(d.managers ?? []);
+      })
+      .catch(() => {})
+      .finally(() => setReady(true));
+  }, []);
+
+  const signIn = useCallback(async (code: string) => {
+    try {
+      const res = await fetch('/api/manager', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const d = await res.json();
+      if (!res.ok) return d.error ?? 'Sign-in failed';
+      setManager(d.manager ?? null);
+      return null;
+    } catch {
+      return 'Could not reach the server.';
+    }
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/manager', { method: 'DELETE' }).catch(() => {});
+    setManager(null);
+  }, []);
+
+  return (
+    <ManagerContext.Provider value={{ manager, managers, ready, signIn, signOut }}>
+      {children}
+    </ManagerContext.Provider>
+  );
+}
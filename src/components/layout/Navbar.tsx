@@ -18,11 +18,16 @@ import {
   Shuffle,
   Shirt,
   ListOrdered,
+  Split,
+  Scale,
+  Gavel,
   ChevronDown,
   Menu,
   X,
 } from 'lucide-react';
 import { ThemeToggle } from '@/components/ui/ThemeToggle';
+import { LeagueSwitcher } from '@/components/ui/LeagueSwitcher';
+import { ManagerMenu } from '@/components/ui/ManagerMenu';
 import Logo from '@/components/ui/Logo';
 import { cn } from '@/lib/utils';
 import { useInstallPrompt } from '@/components/pwa/InstallPromptProvider';
@@ -50,11 +55,14 @@ const MORE_NAV: NavItem[] = [
   // Re-add this entry once a tier without the row cap is available.
   { name: 'Player Rankings', href: '/rankings',  icon: ListOrdered  },
   { name: 'Schedule Lab', href: '/schedule-lab', icon: Shuffle      },
+  { name: 'Playoff Scenarios', href: '/playoff-scenarios', icon: Split },
+  { name: 'Trade Builder', href: '/trades/builder', icon: Scale },
   { name: 'Transactions', href: '/transactions', icon: Receipt      },
   { name: 'Drafts',       href: '/drafts',       icon: ClipboardList },
   { name: 'The Desk',     href: '/desk',         icon: Megaphone    },
   { name: 'Media',        href: '/media',        icon: Newspaper    },
   { name: 'Constitution', href: '/constitution', icon: Scroll       },
+  { name: 'Trade Docket', href: '/trades/docket', icon: Gavel        },
 ];
 
 const ALL_NAV = [...PRIMARY_NAV, ...MORE_NAV];
@@ -257,6 +265,8 @@ export default function Navbar({ logoUrl, leagueName }: NavbarProps) {
 
           {/* Right controls */}
           <div className="flex items-center gap-2">
+            <LeagueSwitcher />
+            <ManagerMenu />
             <ThemeToggle />
             <button
               onClick={() => setIsOpen(!isOpen)}
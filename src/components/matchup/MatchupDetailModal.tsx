@@ -8,6 +8,8 @@ import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { CloseIcon } from '@/components/icons/MediaIcons';
 import { cn } from '@/lib/utils';
 import type { PlayerCard } from '@/lib/playerStats';
+import type { LiveMatchup, LiveTeam, PlayerGameStatus } from '@/lib/liveScoring';
+import type { ProjectedMatchup } from '@/lib/projections';
 
 interface Side {
   userId: string;
@@ -34,7 +36,56 @@ export interface MatchupTarget {
   b: { userId: string; teamName: string; avatar: string };
 }
 
-type Tab = 'h2h' | 'rosters';
+type Tab = 'live' | 'h2h' | 'rosters';
+
+const TAB_LABEL: Record<Tab, string> = { live: 'Live', h2h: 'Previous Meetings', rosters: 'Rosters' };
+
+const STATUS_LABEL: Record<PlayerGameStatus, string> = {
+  yet: 'Yet to play', playing: 'Playing', finished: 'Final', bye: 'Bye',
+};
+
+function LiveList({ team, teamName, deltas }: { team: LiveTeam; teamName: string; deltas: Record<string, number> }) {
+  return (
+    <div>
+      <div className="mb-2 flex items-baseline justify-between gap-2">
+        <span className="truncate text-sm font-semibold text-foreground">{teamName}</span>
+        <span className="shrink-0 font-display text-lg font-bold tabular-nums text-foreground">{team.points.toFixed(1)}</span>
+      </div>
+      <p className="mb-2 text-[11px] text-muted-foreground">
+        {team.yetToPlay} yet to play · {team.playing} playing · {team.finished} done · proj {team.projected.toFixed(1)}
+      </p>
+      <ul className="space-y-1">
+        {team.starters.map(p => {
+          const delta = deltas[p.playerId] ?? 0;
+          return (
+            <li key={p.playerId}
+              className={cn('flex items-center gap-2 rounded-md border px-2 py-1.5',
+                p.status === 'playing' ? 'border-primary/40 bg-primary/[0.04]' : 'border-border')}>
+              <span className="w-9 shrink-0 text-[10px] font-bold text-muted-foreground">{p.position}</span>
+              <span className="min-w-0 flex-1">
+                <span className="block truncate text-xs text-foreground">{p.name}</span>
+                <span className={cn('block truncate text-[10px]',
+                  p.status === 'playing' ? 'text-primary' : 'text-muted-foreground')}>
+                  {p.status === 'playing' && p.gameDetail ? p.gameDetail : STATUS_LABEL[p.status]}
+                </span>
+              </span>
+              {delta !== 0 && (
+                <span className={cn('shrink-0 text-[10px] font-bold tabular-nums',
+                  delta > 0 ? 'text-emerald-500' : 'text-red-500')}>
+                  {delta > 0 ? '+' : ''}{delta.toFixed(1)}
+                </span>
+              )}
+              <span className={cn('w-10 shrink-0 text-right text-xs font-semibold tabular-nums',
+                p.status === 'yet' ? 'text-muted-foreground' : 'text-foreground')}>
+                {p.points.toFixed(1)}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
 
 function StarterList({ side, statsSeason }: { side: Side; statsSeason: string }) {
   return (
@@ -64,17 +115,32 @@ function StarterList({ side, statsSeason }: { side: Side; statsSeason: string })
   );
 }
 
+/**
+ * `live` is passed while the matchups page is polling a game window; it adds
+ * a Live tab and a win-probability bar, and updates in place with each poll.
+ * `deltas` are per-player point changes since the previous poll.
+ * `projection` is the pre-game estimate for a week not yet under way, shown
+ * in the same place when there is nothing live.
+ */
 export default function MatchupDetailModal({
-  target, onClose,
-}: { target: MatchupTarget | null; onClose: () => void }) {
+  target, onClose, live, projection, deltas = {},
+}: {
+  target: MatchupTarget | null;
+  onClose: () => void;
+  live?: LiveMatchup | null;
+  projection?: ProjectedMatchup | null;
+  deltas?: Record<string, number>;
+}) {
   const [detail, setDetail] = useState<Detail | null>(null);
   const [loading, setLoading] = useState(false);
-  const [tab, setTab] = useState<Tab>('h2h');
+  // Null until the user picks one, so the default can follow whether the
+  // matchup is live without resetting a deliberate choice on every poll.
+  const [tab, setTab] = useState<Tab | null>(null);
 
   useEffect(() => {
     if (!target) { setDetail(null); return; }
     let cancelled = false;
-    setLoading(true); setDetail(null); setTab('h2h');
+    setLoading(true); setDetail(null); setTab(null);
     fetch(`/api/matchup?a=${target.a.userId}&b=${target.b.userId}`)
       .then(r => r.json())
       .then(d => { if (!cancelled && !d.error) setDetail(d); })
@@ -96,6 +162,20 @@ export default function MatchupDetailModal({
   const decided = (h2h?.aWins ?? 0) + (h2h?.bWins ?? 0);
   const total = h2h?.meetings ?? 0;
 
+  // Live teams are in Sleeper's matchup order; the header is in target order.
+  const liveSides = live && target
+    ? (live.teams[0].userId === target.a.userId ? live.teams : [live.teams[1], live.teams[0]])
+    : null;
+  const odds = live ?? projection ?? null;
+  const aWinProb = odds && target
+    ? (odds.teams[0].userId === target.a.userId ? odds.winProbability : 1 - odds.winProbability)
+    : null;
+  const projectedSides = !live && projection && target
+    ? (projection.teams[0].userId === target.a.userId ? projection.teams : [projection.teams[1], projection.teams[0]])
+    : null;
+  const tabs: Tab[] = live ? ['live', 'h2h', 'rosters'] : ['h2h', 'rosters'];
+  const activeTab: Tab = tab && tabs.includes(tab) ? tab : tabs[0];
+
   return (
     <AnimatePresence>
       {target && (
@@ -135,6 +215,29 @@ export default function MatchupDetailModal({
                 </Link>
               </div>
 
+              {aWinProb != null && (
+                <div className="mt-4">
+                  <div className="flex items-baseline justify-between text-xs">
+                    <span className="font-display text-lg font-bold tabular-nums text-primary">{Math.round(aWinProb * 100)}%</span>
+                    <span className="flex items-center gap-1.5 text-[10px] uppercase tracking-widest text-muted-foreground">
+                      {live && <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-red-500" />}
+                      {live ? 'Live' : 'Projected'} win probability
+                    </span>
+                    <span className="font-display text-lg font-bold tabular-nums text-foreground">{Math.round((1 - aWinProb) * 100)}%</span>
+                  </div>
+                  <div className="mt-1.5 flex h-1.5 overflow-hidden rounded-full bg-muted">
+                    <motion.div className="bg-primary" animate={{ width: `${aWinProb * 100}%` }} transition={{ duration: 0.6 }} />
+                    <div className="flex-1 bg-muted-foreground/50" />
+                  </div>
+                  {projectedSides && (
+                    <p className="mt-1.5 text-center text-[11px] tabular-nums text-muted-foreground">
+                      Projected {projectedSides[0].projected.toFixed(1)} to {projectedSides[1].projected.toFixed(1)}
+                      {projectedSides.some(s => s.ecrFactor != null) && ' · incl. expert rankings'}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {h2h && total > 0 && (
                 <div className="mt-4">
                   <div className="flex items-baseline justify-between text-xs">
@@ -163,24 +266,31 @@ export default function MatchupDetailModal({
             ) : (
               <>
                 <div className="flex gap-1 border-b border-border px-5 sm:px-6">
-                  {(['h2h', 'rosters'] as Tab[]).map(t => (
+                  {tabs.map(t => (
                     <button
                       key={t}
                       onClick={() => setTab(t)}
                       className={cn(
                         'border-b-2 px-3 py-2.5 text-xs font-semibold transition-colors',
-                        tab === t
+                        activeTab === t
                           ? 'border-primary text-primary'
                           : 'border-transparent text-muted-foreground hover:text-foreground',
                       )}
                     >
-                      {t === 'h2h' ? 'Previous Meetings' : 'Rosters'}
+                      {TAB_LABEL[t]}
                     </button>
                   ))}
                 </div>
 
                 <div className="p-5 sm:p-6">
-                  {tab === 'h2h' && (
+                  {activeTab === 'live' && liveSides && (
+                    <div className="grid gap-6 sm:grid-cols-2">
+                      <LiveList team={liveSides[0]} teamName={target.a.teamName} deltas={deltas} />
+                      <LiveList team={liveSides[1]} teamName={target.b.teamName} deltas={deltas} />
+                    </div>
+                  )}
+
+                  {activeTab === 'h2h' && (
                     detail.h2h.games.length ? (
                       <ul className="space-y-1.5">
                         {detail.h2h.games.map((g, i) => {
@@ -211,7 +321,7 @@ export default function MatchupDetailModal({
                     )
                   )}
 
-                  {tab === 'rosters' && (
+                  {activeTab === 'rosters' && (
                     <div className="grid gap-6 sm:grid-cols-2">
                       <StarterList side={detail.sides[0]} statsSeason={detail.statsSeason} />
                       <StarterList side={detail.sides[1]} statsSeason={detail.statsSeason} />
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Layers } from 'lucide-react';
+import { LEAGUE_CHAINS, LEAGUE_COOKIE, DEFAULT_LEAGUE_KEY } from '@/config/league';
+
+/**
+ * Picks which configured league chain the site shows. Renders nothing for the
+ * usual single-league deployment.
+ *
+ * The choice is a cookie rather than client state because the server needs it
+ * too: every API route and server component resolves its league from it.
+ */
+export function LeagueSwitcher() {
+  const [current, setCurrent] = useState(DEFAULT_LEAGUE_KEY);
+
+  useEffect(() => {
+    const match = document.cookie.match(new RegExp(`(?:^|;\\s*)${LEAGUE_COOKIE}=([^;]+)`));
+    const key = match ? decodeURIComponent(match[1]) : null;
+    if (key && LEAGUE_CHAINS.some(c => c.key === key)) setCurrent(key);
+  }, []);
+
+  if (LEAGUE_CHAINS.length < 2) return null;
+
+  const choose = (key: string) => {
+    document.cookie = `${LEAGUE_COOKIE}=${encodeURIComponent(key)}; path=/; max-age=31536000; samesite=lax`;
+    // Most views load their data once on mount, so a soft navigation would
+    // leave the previous league's numbers on screen.
+    window.location.reload();
+  };
+
+  return (
+    <label className="relative inline-flex h-8 items-center gap-1.5 rounded-md border border-border bg-card pl-2 pr-1 text-muted-foreground hover:text-foreground">
+      <Layers className="h-3.5 w-3.5 shrink-0" />
+      <span className="sr-only">League</span>
+      <select
+        value={current}
+        onChange={e => choose(e.target.value)}
+        className="max-w-[9rem] truncate bg-transparent text-xs font-semibold uppercase tracking-widest text-foreground focus:outline-none"
+      >
+        {LEAGUE_CHAINS.map(c => (
+          <option key={c.key} value={c.key}>{c.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
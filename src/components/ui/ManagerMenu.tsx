@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { AnimatePresence, motion } from 'framer-motion';
+import { LogIn, LogOut, User } from 'lucide-react';
+import Avatar from '@/components/ui/Avatar';
+import { useManager } from '@/components/auth/ManagerProvider';
+
+/** Who is signed in, beside the theme toggle: a sign-in link, or their team and a way out. */
+export function ManagerMenu() {
+  const { manager, ready, signOut } = useManager();
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  if (!ready) return null;
+
+  if (!manager) {
+    return (
+      <Link
+        href="/signin"
+        className="inline-flex h-8 items-center gap-1.5 rounded-md border border-border bg-card px-2 text-xs font-semibold uppercase tracking-widest text-muted-foreground hover:text-foreground"
+      >
+        <LogIn className="h-3.5 w-3.5 shrink-0" />
+        <span className="hidden sm:inline">Sign in</span>
+      </Link>
+    );
+  }
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="inline-flex h-8 items-center gap-1.5 rounded-md border border-border bg-card pl-1 pr-2 text-xs font-semibold text-foreground"
+        aria-label="Your team"
+      >
+        {manager.avatar ? <Avatar avatarId={manager.avatar} size={22} className="rounded" /> : <User className="h-3.5 w-3.5" />}
+        <span className="hidden max-w-[8rem] truncate sm:inline">{manager.teamName}</span>
+      </button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4, scale: 0.97 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -4, scale: 0.97 }}
+            transition={{ duration: 0.12 }}
+            className="absolute right-0 top-full z-50 mt-2 w-48 rounded-xl border border-border bg-card/95 py-1.5 shadow-lg backdrop-blur-xl"
+          >
+            <Link
+              href={`/team/${manager.userId}`}
+              onClick={() => setOpen(false)}
+              className="flex items-center gap-2.5 px-4 py-2.5 text-xs font-semibold uppercase tracking-widest text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+            >
+              <User className="h-3.5 w-3.5 shrink-0" />
+              My team
+            </Link>
+            <button
+              onClick={() => { setOpen(false); signOut(); }}
+              className="flex w-full items-center gap-2.5 px-4 py-2.5 text-xs font-semibold uppercase tracking-widest text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+            >
+              <LogOut className="h-3.5 w-3.5 shrink-0" />
+              Sign out
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
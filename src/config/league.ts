@@ -1,59 +1,110 @@
-import { getAllLinkedLeagueIds } from '@/lib/api';
+import { getAllLinkedLeagueIds, getLeagueInfo } from '@/lib/api';
 
-// The initial league ID from environment variables
-export const INITIAL_LEAGUE_ID = process.env.NEXT_PUBLIC_LEAGUE_ID || 'YOUR_LEAGUE_ID';
+/**
+ * League chains this deployment serves.
+ *
+ * A "chain" is one league followed across seasons through Sleeper's
+ * previous_league_id links, identified by any one of its league IDs. Most
+ * deployments have exactly one and configure it with NEXT_PUBLIC_LEAGUE_ID.
+ * A group that runs several (a redraft main league and a dynasty side league,
+ * say) lists them all in NEXT_PUBLIC_LEAGUES:
+ *
+ *   NEXT_PUBLIC_LEAGUES=main:1234567890:Main League,dynasty:9876543210:Dynasty
+ *
+ * Each entry is key:leagueId[:label]. The first entry is the default.
+ *
+ * Which chain a request is about is decided per request, never per process:
+ * the league switcher in the navbar writes LEAGUE_COOKIE, the browser reads it
+ * directly, and the server resolves it through lib/leagueContext.ts.
+ */
+
+export interface LeagueChain {
+  /** Short, URL- and cookie-safe identifier. */
+  key: string;
+  label: string;
+  /** Any league ID in the chain; the rest are discovered from Sleeper. */
+  rootLeagueId: string;
+}
+
+export const LEAGUE_COOKIE = 'lp_league';
+
+function parseChains(): LeagueChain[] {
+  const raw = process.env.NEXT_PUBLIC_LEAGUES?.trim();
+  if (raw) {
+    const chains = raw
+      .split(',')
+      .map(entry => entry.trim().split(':').map(s => s.trim()))
+      .filter(([key, id]) => key && id)
+      .map(([key, id, label]) => ({ key, rootLeagueId: id, label: label || key }));
+    if (chains.length) return chains;
+  }
+
+  const single = process.env.NEXT_PUBLIC_LEAGUE_ID;
+  return single ? [{ key: 'main', label: 'Main', rootLeagueId: single }] : [];
+}
+
+export const LEAGUE_CHAINS: LeagueChain[] = parseChains();
 
-// Cache for linked league IDs
-let linkedLeagueIds: string[] | null = null;
+export const DEFAULT_LEAGUE_KEY = LEAGUE_CHAINS[0]?.key ?? 'main';
+
+// The default chain's root league ID, kept under its historical name because
+// "is a league configured at all" checks across the app still test it.
+export const INITIAL_LEAGUE_ID = LEAGUE_CHAINS[0]?.rootLeagueId || 'YOUR_LEAGUE_ID';
+
+/** Resolves a chain key, falling back to the default for unknown or missing keys. */
+export function getLeagueChain(key?: string | null): LeagueChain | null {
+  return LEAGUE_CHAINS.find(c => c.key === key) ?? LEAGUE_CHAINS[0] ?? null;
+}
 
 /**
- * Gets all linked league IDs, with the most recent season first
+ * The chain chosen in the switcher, when running in the browser. On the server
+ * there is no ambient request here; server callers pass the key they resolved
+ * from lib/leagueContext.ts.
  */
-export async function getLinkedLeagueIds(): Promise<string[]> {
-  if (linkedLeagueIds) {
-    return linkedLeagueIds;
-  }
+function browserLeagueKey(): string | undefined {
+  if (typeof document === 'undefined') return undefined;
+  const match = document.cookie.match(new RegExp(`(?:^|;\\s*)${LEAGUE_COOKIE}=([^;]+)`));
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
 
-  if (!INITIAL_LEAGUE_ID || INITIAL_LEAGUE_ID === 'YOUR_LEAGUE_ID') {
+/**
+ * Gets all linked league IDs for a chain, with the most recent season first.
+ * Memoisation lives in getAllLinkedLeagueIds, keyed by root ID, so chains
+ * never share an entry.
+ */
+export async function getLinkedLeagueIds(key?: string): Promise<string[]> {
+  const chain = getLeagueChain(key ?? browserLeagueKey());
+  if (!chain || chain.rootLeagueId === 'YOUR_LEAGUE_ID') {
     return [];
   }
 
   try {
-    linkedLeagueIds = await getAllLinkedLeagueIds(INITIAL_LEAGUE_ID);
-    return linkedLeagueIds;
+    return await getAllLinkedLeagueIds(chain.rootLeagueId);
   } catch (error) {
     console.error('Failed to get linked league IDs:', error);
-    return [INITIAL_LEAGUE_ID];
+    return [chain.rootLeagueId];
   }
 }
 
 /**
- * Gets the most recent league ID
+ * Gets the most recent league ID in a chain
  */
-export async function getCurrentLeagueId(): Promise<string> {
-  const ids = await getLinkedLeagueIds();
-  return ids[0] || INITIAL_LEAGUE_ID;
+export async function getCurrentLeagueId(key?: string): Promise<string> {
+  const ids = await getLinkedLeagueIds(key);
+  return ids[0] || getLeagueChain(key ?? browserLeagueKey())?.rootLeagueId || INITIAL_LEAGUE_ID;
 }
 
 /**
- * Gets all league IDs for a specific season
+ * Gets the league ID a chain used for a specific season
  */
-export async function getLeagueIdForSeason(season: string): Promise<string | null> {
-  const ids = await getLinkedLeagueIds();
-  const league = await fetch(`https://api.sleeper.app/v1/league/${ids[0]}`).then(res => res.json());
-  
-  // If the requested season matches the current league, return it
-  if (league.season === season) {
-    return ids[0];
-  }
-
-  // Otherwise, find the league ID for the requested season
+export async function getLeagueIdForSeason(season: string, key?: string): Promise<string | null> {
+  const ids = await getLinkedLeagueIds(key);
   for (const id of ids) {
-    const leagueInfo = await fetch(`https://api.sleeper.app/v1/league/${id}`).then(res => res.json());
-    if (leagueInfo.season === season) {
+    const leagueInfo = await getLeagueInfo(id);
+    if (leagueInfo?.season === season) {
       return id;
     }
   }
 
   return null;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,217 @@
+/**
+ * Server-only: who is signed in to the admin panel, and what they may do.
+ *
+ * There are two roles, after the constitution's Commissioner & Deputy. A
+ * deputy can do everything in the panel except manage admin accounts and
+ * hand out manager invite codes, both of which are the commissioner's alone.
+ *
+ * ADMIN_PASSWORD always signs in as the built-in commissioner ('owner'), so a
+ * fresh deploy has a way in. Further accounts, commissioners or deputies, are
+ * created from the panel and stored with scrypt-hashed passwords.
+ *
+ * Signing in sets ADMIN_COOKIE to a session signed as in lib/sessionSigning.ts
+ * for ADMIN_SESSION_MAX_AGE. The session records which version of the
+ * account's password made it, so changing a password (or ADMIN_PASSWORD)
+ * signs out every session made with the old one, and deleting an account
+ * ends its sessions outright.
+ */
+import { createHash, randomBytes, randomUUID, scryptSync } from 'crypto';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { readJson, writeJson } from './jsonStore';
+import { canSignSessions, safeEqual, signToken, verifyToken } from './sessionSigning';
+
+export const ADMIN_COOKIE = 'lp_admin';
+export const ADMIN_SESSION_MAX_AGE = 12 * 60 * 60; // seconds
+
+export type AdminRole = 'commissioner' | 'deputy';
+
+interface AdminAccount {
+  id: string;
+  name: string;
+  role: AdminRole;
+  /** `scrypt$<salt>$<hash>`, both hex. */
+  passwordHash: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** An account as the panel sees it. */
+export type AdminAccountSummary = Omit<AdminAccount, 'passwordHash'> & { builtIn: boolean };
+
+export interface AdminSession {
+  accountId: string;
+  name: string;
+  role: AdminRole;
+}
+
+const ACCOUNTS_KEY = 'lp_admin_accounts';
+const ACCOUNTS_FILE = 'admin-accounts.json';
+
+const OWNER_ID = 'owner';
+const OWNER_NAME = 'Commissioner';
+const MIN_PASSWORD_LENGTH = 8;
+
+/** ADMIN_PASSWORD, or a development default. Null in production when unset,
+ *  which leaves the built-in commissioner unable to sign in. */
+const ownerPassword = (): string | null =>
+  process.env.ADMIN_PASSWORD || (process.env.NODE_ENV === 'production' ? null : 'admin123');
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  return `scrypt$${salt}$${scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+function checkPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  return safeEqual(scryptSync(password, salt, 32).toString('hex'), hash);
+}
+
+async function loadAccounts(): Promise<AdminAccount[]> {
+  return readJson<AdminAccount[]>(ACCOUNTS_KEY, ACCOUNTS_FILE, []);
+}
+
+/** What a session must match to still be valid: changes whenever the password does. */
+function versionOf(account: AdminAccount | null): string | null {
+  if (account) return String(Date.parse(account.updatedAt));
+  const password = ownerPassword();
+  return password && createHash('sha256').update(password).digest('hex').slice(0, 16);
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// ── Sessions ─────────────────────────────────────────────────────────────────
+
+/**
+ * The session cookie value for valid credentials, or null. A blank name (or
+ * the built-in one) with ADMIN_PASSWORD is the built-in commissioner.
+ */
+export async function signInAdmin(name: string, password: string): Promise<{ session: AdminSession; token: string } | null> {
+  if (!canSignSessions()) return null;
+  let session: AdminSession | null = null;
+  let version: string | null = null;
+  const owner = ownerPassword();
+  if ((!name.trim() || sameName(name, OWNER_NAME)) && owner && safeEqual(password, owner)) {
+    session = { accountId: OWNER_ID, name: OWNER_NAME, role: 'commissioner' };
+    version = versionOf(null);
+  } else {
+    const account = (await loadAccounts()).find(a => sameName(a.name, name));
+    if (account && checkPassword(password, account.passwordHash)) {
+      session = { accountId: account.id, name: account.name, role: account.role };
+      version = versionOf(account);
+    }
+  }
+  if (!session || !version) return null;
+  return { session, token: signToken('admin', [session.accountId, version, String(Date.now())]) };
+}
+
+/**
+ * Whether a cookie value is a signed, unexpired admin session. Checks the
+ * signature only, not the account, so it is cheap enough for src/proxy.ts; use
+ * getAdminSession for the real thing.
+ */
+export function isAdminToken(token: string | undefined): boolean {
+  const fields = verifyToken(token, 'admin', 3);
+  return !!fields && Date.now() - Number(fields[2]) <= ADMIN_SESSION_MAX_AGE * 1000;
+}
+
+/** The signed-in admin, if any. */
+export async function getAdminSession(): Promise<AdminSession | null> {
+  let token: string | undefined;
+  try {
+    token = (await cookies()).get(ADMIN_COOKIE)?.value;
+  } catch {
+    return null;
+  }
+  if (!isAdminToken(token)) return null;
+  const [accountId, version] = verifyToken(token, 'admin', 3)!;
+
+  if (accountId === OWNER_ID) {
+    return version === versionOf(null) ? { accountId, name: OWNER_NAME, role: 'commissioner' } : null;
+  }
+  const account = (await loadAccounts()).find(a => a.id === accountId);
+  if (!account || versionOf(account) !== version) return null;
+  return { accountId, name: account.name, role: account.role };
+}
+
+/**
+ * The signed-in admin if they hold `role` (deputy: any admin), or the 401/403
+ * response to return instead:
+ *
+ *   const admin = await requireAdmin();
+ *   if (admin instanceof NextResponse) return admin;
+ */
+export async function requireAdmin(role: AdminRole = 'deputy'): Promise<AdminSession | NextResponse> {
+  const session = await getAdminSession();
+  if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  if (role === 'commissioner' && session.role !== 'commissioner') {
+    return NextResponse.json({ error: 'Only a commissioner can do that' }, { status: 403 });
+  }
+  return session;
+}
+
+// ── Accounts ─────────────────────────────────────────────────────────────────
+
+const summarize = (a: AdminAccount): AdminAccountSummary => ({
+  id: a.id, name: a.name, role: a.role, createdAt: a.createdAt, updatedAt: a.updatedAt, builtIn: false,
+});
+
+/** Every account, the built-in commissioner first. */
+export async function listAdminAccounts(): Promise<AdminAccountSummary[]> {
+  const owner: AdminAccountSummary = {
+    id: OWNER_ID, name: OWNER_NAME, role: 'commissioner', createdAt: '', updatedAt: '', builtIn: true,
+  };
+  return [owner, ...(await loadAccounts()).map(summarize)];
+}
+
+function validatePassword(password: string): void {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+/** Throws with a message fit for the panel when the name is taken or the password too short. */
+export async function createAdminAccount(name: string, role: AdminRole, password: string): Promise<AdminAccountSummary> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('A name is required');
+  validatePassword(password);
+  const accounts = await loadAccounts();
+  if (sameName(trimmed, OWNER_NAME) || accounts.some(a => sameName(a.name, trimmed))) {
+    throw new Error(`There is already an admin called ${trimmed}`);
+  }
+  const now = new Date().toISOString();
+  const account: AdminAccount = {
+    id: randomUUID(), name: trimmed, role, passwordHash: hashPassword(password), createdAt: now, updatedAt: now,
+  };
+  await writeJson(ACCOUNTS_KEY, ACCOUNTS_FILE, [...accounts, account]);
+  return summarize(account);
+}
+
+/** Changes an account's role and/or password; a new password signs out its sessions. */
+export async function updateAdminAccount(
+  id: string,
+  changes: { role?: AdminRole; password?: string },
+): Promise<AdminAccountSummary | null> {
+  const accounts = await loadAccounts();
+  const account = accounts.find(a => a.id === id);
+  if (!account) return null;
+  if (changes.role) account.role = changes.role;
+  if (changes.password !== undefined) {
+    validatePassword(changes.password);
+    account.passwordHash = hashPassword(changes.password);
+    account.updatedAt = new Date().toISOString();
+  }
+  await writeJson(ACCOUNTS_KEY, ACCOUNTS_FILE, accounts);
+  return summarize(account);
+}
+
+export async function deleteAdminAccount(id: string): Promise<boolean> {
+  const accounts = await loadAccounts();
+  const remaining = accounts.filter(a => a.id !== id);
+  if (remaining.length === accounts.length) return false;
+  await writeJson(ACCOUNTS_KEY, ACCOUNTS_FILE, remaining);
+  return true;
+}
+
+export const isAdminRole = (value: unknown): value is AdminRole => value === 'commissioner' || value === 'deputy';
@@ -1,16 +1,20 @@
 import { z } from 'zod';
-import { tool } from 'ai';
+import { tool, type ToolSet } from 'ai';
 import {
   getLeagueInfo, getLeagueRosters, getLeagueUsers, getLeagueMatchups,
   getNFLState, getAllLinkedLeagueIds, getSeasonTransactions, getLeagueWeeks,
   getAdvancedTeamMetrics, generateComprehensiveLeagueHistory,
 } from '@/lib/api';
-import { getCurrentLeagueId } from '@/config/league';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
 import { fetchRivalriesData } from '@/lib/rivalries';
 import {
   getPlayersDirectory, getSeasonStats, resolveStatsSeason, buildPlayerCard,
 } from '@/lib/playerStats';
 import { getSnapshot } from '@/lib/fantasyProsStore';
+import { getLineupAdvice as optimiseLineups, type LineupPlayer } from '@/lib/lineupOptimizer';
+import { getTankingReport, isTankingChatToolEnabled } from '@/lib/tanking';
+import { fetchLeagueSettings, searchSections } from '@/lib/constitution';
+import { getConstitution } from '@/lib/constitutionStore';
 
 /**
  * Tools that let the assistant query the live Sleeper league on demand.
@@ -45,7 +49,7 @@ function matchTeam<T extends { teamName: string; manager: string }>(query: strin
 }
 
 async function leagueContext() {
-  const leagueId = await getCurrentLeagueId();
+  const leagueId = await getRequestLeagueId();
   const [league, rosters, users, nflState] = await Promise.all([
     getLeagueInfo(leagueId), getLeagueRosters(leagueId), getLeagueUsers(leagueId), getNFLState(),
   ]);
@@ -63,8 +67,52 @@ async function leagueContext() {
   return { leagueId, league, teams, nflState };
 }
 
+/**
+ * The tanking detector's flags, only when the commissioner has opted in from
+ * the admin panel: an accusation is theirs to make public. Cleared flags are
+ * left out.
+ */
+async function tankingTools(): Promise<ToolSet> {
+  const chain = await getRequestLeague();
+  if (!chain || !(await isTankingChatToolEnabled(chain.rootLeagueId))) return {};
+  return {
+    getTankingFlags: tool({
+      description:
+        'Lineups this season the tanking detector flagged: weeks a team started well under its best ' +
+        'possible points through an empty slot, a starter who never played, or a benched player the ' +
+        'experts ranked as a clear starter. Each flag says whether the commissioner has confirmed it; ' +
+        'an unreviewed flag is a suspicion, not a finding.',
+      inputSchema: z.object({
+        team: z.string().optional().describe('Team name or manager name to filter to; omit for every team'),
+      }),
+      execute: async ({ team }) => {
+        const { leagueId, teams } = await leagueContext();
+        const match = team ? matchTeam(team, teams) : null;
+        if (team && !match) return { error: `No team matching "${team}".`, available: teams.map(t => t.teamName) };
+
+        const report = await getTankingReport(chain.rootLeagueId, leagueId);
+        return {
+          season: report.season,
+          flags: report.flags
+            .filter(f => f.review?.status !== 'cleared' && (!match || f.rosterId === match.rosterId))
+            .map(f => ({
+              team: f.teamName, week: f.week,
+              started: f.actual, bestPossible: f.optimal, efficiency: `${f.efficiency}%`,
+              eliminatedAlready: f.eliminated,
+              lostGameBestLineupWouldHaveWon: f.lostGame?.opponent ?? null,
+              evidence: f.evidence,
+              status: f.review ? 'confirmed by the commissioner' : 'unreviewed',
+            })),
+        };
+      },
+    }),
+  };
+}
+
 export async function buildChatTools() {
   return {
+    ...(await tankingTools()),
+
     listTeams: tool({
       description:
         'List every team in the league with its manager and current record. Use this first when ' +
@@ -111,6 +159,38 @@ export async function buildChatTools() {
       },
     }),
 
+    getLineupAdvice: tool({
+      description:
+        'Start/sit advice for one team this week: its current lineup against the best lineup it ' +
+        'could set, slot by slot, with each swap and its projected gain. Projections use weekly ' +
+        'FantasyPros ranks, injuries and byes; players whose game has started are locked.',
+      inputSchema: z.object({
+        team: z.string().describe('Team name or manager name; partial matches work'),
+      }),
+      execute: async ({ team }) => {
+        const { leagueId, teams } = await leagueContext();
+        const match = matchTeam(team, teams);
+        if (!match) return { error: `No team matching "${team}".`, available: teams.map(t => t.teamName) };
+
+        const advice = (await optimiseLineups(leagueId)).find(a => a.rosterId === match.rosterId);
+        if (!advice) return { error: 'No lineup to set: the league is not in a live season.' };
+        const brief = (p: LineupPlayer | null) =>
+          p && {
+            name: p.name, position: p.position, nflTeam: p.nflTeam, projected: p.projected,
+            injury: p.injury, onBye: p.onBye, locked: p.locked,
+          };
+        return {
+          teamName: match.teamName,
+          week: advice.week,
+          currentProjected: advice.currentProjected,
+          optimalProjected: advice.optimalProjected,
+          usesExpertRanks: advice.ecrWeek != null,
+          changes: advice.changes.map(c => ({ start: brief(c.start), sit: brief(c.sit), gain: c.gain })),
+          lineup: advice.slots.map(s => ({ slot: s.slot, current: brief(s.current), recommended: brief(s.recommended) })),
+        };
+      },
+    }),
+
     getMatchups: tool({
       description:
         'Matchups for a given week of the current season, with both teams and their scores. ' +
@@ -271,5 +351,57 @@ export async function buildChatTools() {
         };
       },
     }),
+
+    searchConstitution: tool({
+      description:
+        'Search the league constitution (its bylaws and rules, as the commissioner has published them) ' +
+        'for the sections that answer a rules question: trades, picks, keepers, vetoes, protests, ' +
+        'conduct, penalties. Returns each section\'s text and a link to it, plus the settings Sleeper ' +
+        'enforces (pick trading, deadlines, playoff size, waivers) with the link to where the ' +
+        'constitution page lists them. Quote or paraphrase only what these say, and cite the link.',
+      inputSchema: z.object({
+        query: z.string().describe('The rules question or its key words, e.g. "trade future draft picks"'),
+      }),
+      execute: async ({ query }) => {
+        const chain = await getRequestLeague();
+        const [{ meta, sections }, settings] = await Promise.all([
+          getConstitution(chain?.rootLeagueId ?? null),
+          getRequestLeagueId().then(fetchLeagueSettings).catch(() => null),
+        ]);
+        const matches = searchSections(sections, query);
+        return {
+          version: meta.version,
+          sections: matches.map(s => ({
+            title: s.parent ? `${s.parent} › ${s.title}` : s.title,
+            link: `/constitution#${s.id}`,
+            text: s.text.length > 1500 ? `${s.text.slice(0, 1500)}…` : s.text,
+          })),
+          ...(matches.length === 0 && { note: 'No written section mentions that; only the Sleeper settings below apply.' }),
+          sleeperSettings: settings && [
+            {
+              title: 'Draft', link: '/constitution#draft',
+              pickTrading: settings.pickTrading, rounds: settings.draftRounds, type: settings.draftType,
+              keepersPerTeam: settings.maxKeepers,
+            },
+            {
+              title: 'Schedule & Playoffs', link: '/constitution#schedule-playoffs',
+              playoffTeams: settings.playoffTeams, playoffsStartWeek: settings.playoffWeekStart,
+              tradeDeadlineWeek: settings.tradeDeadline || null, tradeReviewDays: settings.tradeReviewDays,
+              vetoVotesNeeded: settings.vetoVotesNeeded,
+            },
+            {
+              title: 'Roster & Lineup', link: '/constitution#roster-lineup',
+              slots: settings.rosterPositions.join(', '), irSlots: settings.reserveSlots, taxiSlots: settings.taxiSlots,
+            },
+            {
+              title: 'Waivers & Free Agency', link: '/constitution#waivers',
+              type: ['rolling', 'FAAB', 'free agency'][settings.waiverType] ?? settings.waiverType,
+              faabBudget: settings.waiverBudget,
+            },
+            { title: 'Scoring System', link: '/constitution#scoring', scoring: settings.scoringSettings },
+          ],
+        };
+      },
+    }),
   };
 }
@@ -10,7 +10,7 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { MODEL_FAST } from './claude';
 import { getRedis } from '../redisClient';
-import { getPosts, getQueuedCount, lastGeneratedAt, lastPublishAt } from './store';
+import { getDraftCount, getPosts, getQueuedCount, isReviewRequired, lastGeneratedAt, lastPublishAt } from './store';
 
 export type CheckStatus = 'pass' | 'fail' | 'warn';
 
@@ -189,11 +189,21 @@ function checkAdminPassword(): Check {
   const pw = process.env.ADMIN_PASSWORD?.trim();
   if (!pw) {
     return warn('admin_password', 'Admin password', 'ADMIN_PASSWORD is not set',
-      'Set it so this back office is protected in production.');
+      'In production the built-in commissioner cannot sign in without it, and with no ' +
+      'SESSION_SECRET either, nobody can.');
   }
   return ok('admin_password', 'Admin password', 'Set');
 }
 
+function checkSessionSecret(): Check {
+  if (!process.env.SESSION_SECRET?.trim()) {
+    return warn('session_secret', 'Session secret', 'SESSION_SECRET is not set',
+      'Admin and manager sessions are signed with the admin password instead, so changing ' +
+      'that password signs everyone out. Set a long random value.');
+  }
+  return ok('session_secret', 'Session secret', 'Set');
+}
+
 /** Whether the filesystem fallback would work. Informational: on Vercel it
  *  never does, which is precisely why Redis is required. */
 async function checkFilesystem(): Promise<Check> {
@@ -212,9 +222,10 @@ async function checkFilesystem(): Promise<Check> {
 }
 
 async function checkContent(): Promise<Check[]> {
-  const [visible, queued, generatedAt, publishAt] = await Promise.all([
+  const [visible, queued, drafts, generatedAt, publishAt] = await Promise.all([
     getPosts(200).catch(() => []),
     getQueuedCount().catch(() => 0),
+    getDraftCount().catch(() => 0),
     lastGeneratedAt().catch(() => 0),
     lastPublishAt().catch(() => 0),
   ]);
@@ -239,6 +250,11 @@ async function checkContent(): Promise<Check[]> {
     feed,
     batch,
     ok('queued', 'Queued posts', `${queued} written but not yet due`),
+    drafts
+      ? warn('drafts', 'Awaiting review', `${drafts} draft${drafts === 1 ? '' : 's'} in the review inbox`,
+          'Nothing in the inbox reaches the feed until it is approved.')
+      : ok('drafts', 'Awaiting review',
+          isReviewRequired() ? 'Inbox is empty' : 'Review is off; scheduler output publishes on its own'),
     publishAt
       ? ok('next_publish', 'Next release',
           publishAt > Date.now()
@@ -258,6 +274,7 @@ export async function runDiagnostics(opts: { live: boolean }): Promise<{
     await checkRedis(),
     checkCronSecret(),
     checkAdminPassword(),
+    checkSessionSecret(),
     await checkFilesystem(),
     ...(await checkContent()),
   ];
@@ -0,0 +1,26 @@
+/**
+ * Fact-checks generated copy before it is published.
+ *
+ * Each checker pulls one kind of claim out of the text by pattern and judges
+ * it against the league's own record: trades (who sent whom where) in
+ * factCheck/trades.ts, results (records, scores, margins, head to head,
+ * streaks, titles) in factCheck/results.ts. A checker whose data cannot be
+ * loaded is skipped rather than failing the piece; the others still run.
+ */
+import { checkTradeClaims } from './trades';
+import { checkResultClaims, type ClaimContext } from './results';
+
+export { checkTradeClaims, loadTradeFacts, type TradeFact } from './trades';
+export { checkResultClaims, loadResultFacts, type ClaimContext, type ResultFacts, type TeamResults } from './results';
+export { collectText } from './text';
+
+/** Every contradiction any checker finds, empty when the copy is clean. */
+export async function checkClaims(text: string, context: ClaimContext = {}): Promise<string[]> {
+  const run = (name: string, check: (text: string, context: ClaimContext) => Promise<string[]>) =>
+    check(text, context).catch(err => {
+      console.error(`[factCheck] ${name} checker failed:`, err instanceof Error ? err.message : err);
+      return [] as string[];
+    });
+  const found = await Promise.all([run('trade', checkTradeClaims), run('result', checkResultClaims)]);
+  return found.flat();
+}
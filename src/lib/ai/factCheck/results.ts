@@ -0,0 +1,404 @@
+import {
+  getLeagueUsers, getAllLinkedLeagueIds, generateComprehensiveLeagueHistory,
+} from '@/lib/api';
+import { getRequestLeagueId } from '@/lib/leagueContext';
+import { fetchRivalriesData } from '@/lib/rivalries';
+import { buildLeagueBrief } from '../leagueBrief';
+import { COUNT, sentences, toCount } from './text';
+
+/**
+ * Verifies what copy says about results: records, weekly scores, who beat whom
+ * and by how much, head-to-head tallies, streaks and championships.
+ *
+ * The writers get the standings and the latest week in the brief, and get the
+ * rest from tools, and still misquote them: a 6-3 team called 7-2, a two-time
+ * champion called a three-time one, a 12-point win reported as a blowout by
+ * thirty. Every one of those is a number the league already knows, so each is
+ * checked against the same sources the pages render: the brief for this
+ * season's records, the rivalries data for every game ever played between two
+ * managers, and the league history for titles.
+ *
+ * As with trades, only shapes that parse unambiguously are judged. A sentence
+ * that reaches into another season, hedges into the future ("should beat"), or
+ * names a number without saying which game it means is left alone.
+ */
+
+/** What the caller knows that the league data does not say yet. */
+export interface ClaimContext {
+  /** A week of the current season that has finished, though Sleeper still
+   *  reports it as the week in progress, as on the Tuesday after it. */
+  settledWeek?: number;
+  /** The league the copy is about, when there is no request to read it from. */
+  leagueId?: string;
+}
+
+interface Game {
+  season: string;
+  week: number;
+  opponentId: string;
+  score: number;
+  opponentScore: number;
+}
+
+export interface TeamResults {
+  userId: string;
+  /** This season's team name, used when reporting. */
+  name: string;
+  /** Lowercased names the copy may use: team names past and present, the manager's. */
+  aliases: string[];
+  /** This season's record, from the brief. */
+  record: { wins: number; losses: number; ties: number } | null;
+  /** Every game, oldest first, including any in the live week. */
+  games: Game[];
+  /** Seasons won; null when the history could not be built. */
+  titles: string[] | null;
+}
+
+export interface ResultFacts {
+  season: string;
+  /** The week of `season` still being played, whose games are not results
+   *  yet; null outside the regular season. */
+  liveWeek: number | null;
+  teams: TeamResults[];
+  /** Champion of each season with one, by user id. */
+  champions: Map<string, string>;
+}
+
+const cache = new Map<string, { at: number; facts: ResultFacts }>();
+const TTL_MS = 5 * 60 * 1000;
+
+function parseRecord(text: string): TeamResults['record'] {
+  const m = text.match(/^(\d+)-(\d+)(?:-(\d+))?$/);
+  return m ? { wins: Number(m[1]), losses: Number(m[2]), ties: Number(m[3] ?? 0) } : null;
+}
+
+const fmtRecord = (r: { wins: number; losses: number; ties?: number }) =>
+  r.ties ? `${r.wins}-${r.losses}-${r.ties}` : `${r.wins}-${r.losses}`;
+
+const fmtScore = (n: number) => String(Number(n.toFixed(2)));
+
+/** Index every current manager's record, games and titles. */
+export async function loadResultFacts(forLeague?: string): Promise<ResultFacts> {
+  const leagueId = forLeague ?? await getRequestLeagueId();
+  const cached = cache.get(leagueId);
+  if (cached && Date.now() - cached.at < TTL_MS) return cached.facts;
+
+  const [brief, rivalries, users, history] = await Promise.all([
+    buildLeagueBrief(false, leagueId),
+    fetchRivalriesData(leagueId),
+    getLeagueUsers(leagueId),
+    getAllLinkedLeagueIds(leagueId).then(generateComprehensiveLeagueHistory).catch(() => null),
+  ]);
+
+  const champions = new Map<string, string>();
+  for (const r of history?.records ?? []) {
+    if (r.type === 'championship') champions.set(r.season, r.userId);
+  }
+
+  // The current week's games are still being played, so their scores are
+  // partial and must not be quoted back as results. They are kept here and
+  // left out at check time, unless the caller knows the week has finished.
+  const live = brief.status === 'in_season' && brief.seasonType === 'regular';
+
+  const managerById = new Map(rivalries.managers.map(m => [m.userId, m]));
+  const teams: TeamResults[] = users.map(u => {
+    const name: string = u.metadata?.team_name || u.display_name || 'Unknown';
+    const past = managerById.get(u.user_id);
+    const names = [name, u.display_name, past?.teamName, past?.username]
+      .filter((n): n is string => typeof n === 'string' && n.trim().length >= 3)
+      .map(n => n.trim().toLowerCase());
+
+    const games: Game[] = Object.entries(rivalries.h2h[u.user_id] ?? {})
+      .flatMap(([opponentId, entry]) => entry.games.map(g => ({
+        season: g.season, week: g.week, opponentId, score: g.score, opponentScore: g.opponentScore,
+      })))
+      .sort((a, b) => Number(a.season) - Number(b.season) || a.week - b.week);
+
+    const briefTeam = brief.teams.find(t => t.teamName === name);
+    return {
+      userId: u.user_id,
+      name,
+      aliases: [...new Set(names)],
+      record: briefTeam ? parseRecord(briefTeam.record) : null,
+      games,
+      titles: history ? [...champions].filter(([, id]) => id === u.user_id).map(([season]) => season).sort() : null,
+    };
+  });
+
+  // A name two managers share identifies neither of them.
+  const owners = new Map<string, number>();
+  for (const t of teams) for (const a of t.aliases) owners.set(a, (owners.get(a) ?? 0) + 1);
+  for (const t of teams) t.aliases = t.aliases.filter(a => owners.get(a) === 1);
+
+  const facts = { season: brief.season, liveWeek: live ? brief.week : null, teams, champions };
+  cache.set(leagueId, { at: Date.now(), facts });
+  return facts;
+}
+
+interface Mention { team: TeamResults; index: number; end: number }
+
+/** Every team named in a sentence, in order. Where two names overlap the longer wins. */
+function mentions(sentence: string, teams: TeamResults[]): Mention[] {
+  const lower = sentence.toLowerCase();
+  const found: Mention[] = [];
+  for (const team of teams) {
+    for (const alias of team.aliases) {
+      for (let i = lower.indexOf(alias); i !== -1; i = lower.indexOf(alias, i + 1)) {
+        const edge = (c: string | undefined) => !c || !/[a-z0-9]/.test(c);
+        if (edge(lower[i - 1]) && edge(lower[i + alias.length])) found.push({ team, index: i, end: i + alias.length });
+      }
+    }
+  }
+  found.sort((a, b) => a.index - b.index || b.end - a.end);
+  const out: Mention[] = [];
+  for (const m of found) {
+    if (out.length && m.index < out[out.length - 1].end) continue;
+    out.push(m);
+  }
+  return out;
+}
+
+/** Whether a stated figure matches, allowing for rounding to the places it was given to. */
+function close(claimed: string, actual: number): boolean {
+  const places = (claimed.split('.')[1] ?? '').length;
+  return Math.abs(Number(claimed) - actual) <= 10 ** -places + 1e-9;
+}
+
+const won = (g: Game) => g.score > g.opponentScore;
+const lost = (g: Game) => g.score < g.opponentScore;
+
+/** A game as it finished, winner's score first. */
+function finalScore(g: Game): string {
+  const hi = Math.max(g.score, g.opponentScore), lo = Math.min(g.score, g.opponentScore);
+  return `${fmtScore(hi)}-${fmtScore(lo)} in week ${g.week} of ${g.season}`;
+}
+
+/** A sentence about some other season, or about a stretch rather than now. */
+function otherTime(sentence: string, season: string): boolean {
+  const years = sentence.match(/\b(?:19|20)\d{2}\b/g) ?? [];
+  return years.some(y => y !== season)
+    || /\b(?:last (?:season|year)|since|after week|through week|before|earlier|once|used to|all[- ]time|history)\b/i.test(sentence);
+}
+
+/** The games a sentence can mean between two teams: a named week, or any this season. */
+function gamesBetween(a: TeamResults, b: TeamResults, sentence: string, season: string): Game[] {
+  const week = sentence.match(/\bweek (\d{1,2})\b/i);
+  const year = sentence.match(/\b((?:19|20)\d{2})\b/)?.[1];
+  const inSeason = /\blast (?:season|year)\b/i.test(sentence) ? String(Number(season) - 1) : year ?? season;
+  return a.games.filter(g =>
+    g.opponentId === b.userId && g.season === inSeason && (!week || g.week === Number(week[1])));
+}
+
+/** The game a sentence means for one team: a named week, or last week's. */
+function gameFor(team: TeamResults, sentence: string, season: string): Game | null {
+  const week = sentence.match(/\bweek (\d{1,2})\b/i);
+  const year = sentence.match(/\b((?:19|20)\d{2})\b/)?.[1] ?? season;
+  if (week) return team.games.find(g => g.season === year && g.week === Number(week[1])) ?? null;
+  if (/\b(?:last|this) week\b/i.test(sentence)) {
+    const current = team.games.filter(g => g.season === season);
+    return current[current.length - 1] ?? null;
+  }
+  return null;
+}
+
+const RECORD = /\b(\d{1,2})-(\d{1,2})(?:-(\d{1,2}))?\b/g;
+/** What comes before a record stated as a team's standing. */
+const RECORD_LEAD = /\b(?:is|are|at|to|now|sits?|sitting|stands?|standing|record of)\s+$/i;
+/** What comes after a pair of numbers that are not the team's record. */
+const NOT_RECORD = /^\s*(?:start|run|stretch|finish|streak|skid|against|vs\.?|versus|over|in\b|on\b|series|lead|edge|win|loss|victory|defeat|head)/i;
+const H2H_CONTEXT = /\b(?:all[- ]time|head[- ]to[- ]head|against|vs\.?|versus|over|series|lifetime|meetings)\b/i;
+
+const BEAT = /\b(?:beat|edged(?: out)?|crushed|downed|topped|defeated|handled|blew out|dismantled|outlasted|outscored|held off|routed|smoked|thumped|took down|knocked off)\s+(?:the\s+)?$/i;
+const LOST_TO = /\b(?:lost to|fell to|dropped one to|(?:was|were) beaten by|lost against)\s+(?:the\s+)?$/i;
+const HEDGE = /\b(?:will|would|could|should|might|may|can|must|to|going to|gonna|if)\s+(?:\w+\s+)?$/i;
+const SCORED = /^(?:'s?)?\s+(?:\w+\s+)?(?:scored|put up|posted|dropped|hung|racked up|managed|mustered|tallied|piled up|exploded for|erupted for)\s+(\d{2,3}(?:\.\d{1,2})?)\b(?!\s*(?:-|–|yards|yds|receptions|catches|carries|targets|touchdowns|tds))/i;
+
+const TITLE_COUNT = new RegExp(
+  `\\b${COUNT}[- ](?:time (?:league )?champions?|championships?|titles?|rings?)\\b` +
+  '(?!\\s+(?:game|week|matchup|round|run|odds|window|shots?|appearances?|chances?|droughts?|in\\b))', 'i');
+const TITLE_YEAR = /\bwon the ((?:19|20)\d{2}) (?:title|championship|crown)\b|\b((?:19|20)\d{2}) (?:league )?champions?\b/i;
+const NO_TITLE = /\b(?:never won (?:a |the )?(?:title|championship|ring)|(?:chasing|seeking|looking for|still after) (?:their|a|his|her) first (?:title|championship|ring))\b/i;
+/** Qualifiers that make a title count cover only part of the league's history. */
+const SPAN = /\b(?:since|before|after|through|between|in the (?:last|past)|over the (?:last|past)|(?:19|20)\d{2})\b/i;
+const WIN_RUN = new RegExp(`\\b(?:has|have|'s|is|are)\\s+(?:now\\s+)?(won|lost)\\s+${COUNT}\\s+(?:straight|in a row|consecutive)`, 'i');
+const STREAK = new RegExp(`\\b(?:on|riding|extended|extends|carrying)\\s+an?\\s+${COUNT}[- ]game\\s+(winning|win|losing)\\s+(?:streak|skid|run)`, 'i');
+
+/** The current run of wins or losses this season: positive for wins, negative for losses. */
+function currentRun(team: TeamResults, season: string): number {
+  const games = team.games.filter(g => g.season === season);
+  let run = 0;
+  for (let i = games.length - 1; i >= 0; i--) {
+    const g = games[i];
+    if (won(g) && run >= 0) run++;
+    else if (lost(g) && run <= 0) run--;
+    else break;
+  }
+  return run;
+}
+
+/**
+ * Returns a list of contradictions, empty when the copy is clean.
+ */
+export async function checkResultClaims(text: string, context: ClaimContext = {}): Promise<string[]> {
+  const facts = await loadResultFacts(context.leagueId);
+  const { season, champions } = facts;
+  const settled = (g: Game) =>
+    facts.liveWeek === null || g.season !== season || g.week < facts.liveWeek || g.week <= (context.settledWeek ?? 0);
+  const teams = facts.teams.map(t => ({ ...t, games: t.games.filter(settled) }));
+  const nameOf = (userId: string) => teams.find(t => t.userId === userId)?.name ?? 'another team';
+  const problems: string[] = [];
+
+  for (const sentence of sentences(text)) {
+    const ms = mentions(sentence, teams);
+    if (!ms.length) continue;
+    const distinct = new Set(ms.map(m => m.team.userId)).size;
+    const elsewhere = otherTime(sentence, season);
+    const ownerAt = (index: number) => [...ms].reverse().find(m => m.end <= index) ?? null;
+
+    // ── Records ──
+    for (const m of ms) {
+      const paren = sentence.slice(m.end).match(/^(?:'s)?\s*\((\d{1,2})-(\d{1,2})(?:-(\d{1,2}))?\)/);
+      if (paren && m.team.record && !elsewhere) {
+        const claimed = { wins: Number(paren[1]), losses: Number(paren[2]), ties: Number(paren[3] ?? 0) };
+        if (fmtRecord(claimed) !== fmtRecord(m.team.record)) {
+          problems.push(`Gives ${m.team.name} as ${fmtRecord(claimed)}, but their record is ${fmtRecord(m.team.record)}.`);
+        }
+      }
+    }
+    if (!elsewhere && !(distinct > 1 && H2H_CONTEXT.test(sentence))) {
+      for (const r of sentence.matchAll(RECORD)) {
+        const at = r.index ?? 0;
+        const owner = ownerAt(at);
+        if (!owner?.team.record || sentence[at - 1] === '(') continue;
+        const claimed = { wins: Number(r[1]), losses: Number(r[2]), ties: Number(r[3] ?? 0) };
+        if (claimed.wins + claimed.losses + claimed.ties > 18) continue;
+        if (!RECORD_LEAD.test(sentence.slice(owner.end, at)) || NOT_RECORD.test(sentence.slice(at + r[0].length))) continue;
+        if (fmtRecord(claimed) !== fmtRecord(owner.team.record)) {
+          problems.push(`Says ${owner.team.name} is ${fmtRecord(claimed)}, but their record is ${fmtRecord(owner.team.record)}.`);
+        }
+      }
+      if (distinct === 1 && ms[0].team.record) {
+        const { name, record } = ms[0].team;
+        if (/\b(?:undefeated|unbeaten)\b/i.test(sentence) && record.losses > 0) {
+          problems.push(`Calls ${name} unbeaten, but they are ${fmtRecord(record)}.`);
+        }
+        if (/\bwinless\b/i.test(sentence) && record.wins > 0) {
+          problems.push(`Calls ${name} winless, but they are ${fmtRecord(record)}.`);
+        }
+      }
+    }
+
+    // ── Head to head ──
+    if (distinct > 1 && H2H_CONTEXT.test(sentence) && !/\b(?:19|20)\d{2}\b/.test(sentence)) {
+      const thisSeason = /\bthis (?:season|year)\b/i.test(sentence);
+      for (const r of sentence.matchAll(/\b(\d{1,2})-(\d{1,2})\b/g)) {
+        const at = r.index ?? 0;
+        const x = Number(r[1]), y = Number(r[2]);
+        if (x > 30 || y > 30 || sentence[at - 1] === '(') continue;
+        const subject = ownerAt(at) ?? ms[0];
+        const opponent = ms.find(m => m.team !== subject.team);
+        if (!opponent) continue;
+        const games = subject.team.games.filter(g =>
+          g.opponentId === opponent.team.userId && (!thisSeason || g.season === season));
+        const wins = games.filter(won).length, losses = games.filter(lost).length;
+        // "trails the series 5-2" states the larger number first, as the lead.
+        const trailing = /\b(?:trails?|trailing|behind|down)\b/i.test(sentence.slice(subject.end, at));
+        const [cw, cl] = trailing ? [Math.min(x, y), Math.max(x, y)] : [x, y];
+        if (cw !== wins || cl !== losses) {
+          problems.push(
+            `Says ${subject.team.name} is ${cw}-${cl} against ${opponent.team.name}${thisSeason ? ' this season' : ''}, ` +
+            `but the head-to-head record is ${wins}-${losses}.`);
+        }
+      }
+    }
+
+    // ── Who beat whom, and by how much ──
+    for (let i = 0; i < ms.length - 1; i++) {
+      const a = ms[i], b = ms[i + 1];
+      if (a.team === b.team) continue;
+      const between = sentence.slice(a.end, b.index);
+      const aWon = BEAT.test(between) ? true : LOST_TO.test(between) ? false : null;
+      if (aWon === null || HEDGE.test(between.slice(0, between.search(aWon ? BEAT : LOST_TO)))) continue;
+
+      const games = gamesBetween(a.team, b.team, sentence, season);
+      if (!games.length) continue;
+      const after = sentence.slice(b.end);
+      const by = after.match(/^(?:'s)?,?\s+by\s+(\d{1,3}(?:\.\d{1,2})?)\b/i);
+      const score = after.match(/^,?\s+(\d{2,3}(?:\.\d{1,2})?)\s*[-–]\s*(\d{2,3}(?:\.\d{1,2})?)\b/);
+      const fits = (g: Game) =>
+        (aWon ? won(g) : lost(g))
+        && (!by || close(by[1], Math.abs(g.score - g.opponentScore)))
+        && (!score || (close(score[1], Math.max(g.score, g.opponentScore)) && close(score[2], Math.min(g.score, g.opponentScore))));
+      if (games.some(fits)) continue;
+
+      const g = games[games.length - 1];
+      const [winner, loser] = aWon ? [a.team.name, b.team.name] : [b.team.name, a.team.name];
+      const actualWinner = won(g) ? a.team.name : lost(g) ? b.team.name : null;
+      problems.push(actualWinner && actualWinner !== winner
+        ? `Says ${winner} beat ${loser}, but ${actualWinner} won ${finalScore(g)}.`
+        : `Says ${winner} beat ${loser}${by ? ` by ${by[1]}` : score ? ` ${score[1]}-${score[2]}` : ''}, ` +
+          `but it finished ${finalScore(g)}.`);
+    }
+
+    // ── Weekly scores ──
+    for (const m of ms) {
+      const s = sentence.slice(m.end).match(SCORED);
+      if (!s) continue;
+      const g = gameFor(m.team, sentence, season);
+      if (g && !close(s[1], g.score)) {
+        problems.push(`Says ${m.team.name} scored ${s[1]} in week ${g.week}, but they scored ${fmtScore(g.score)}.`);
+      }
+    }
+
+    // ── Streaks ──
+    if (!elsewhere) {
+      const run = sentence.match(WIN_RUN), streak = sentence.match(STREAK);
+      const claim = run
+        ? { at: run.index ?? 0, n: toCount(run[2]), winning: run[1].toLowerCase() === 'won' }
+        : streak ? { at: streak.index ?? 0, n: toCount(streak[1]), winning: !/losing/i.test(streak[2]) } : null;
+      const owner = claim && ownerAt(claim.at);
+      if (claim && owner && owner.team.games.some(g => g.season === season)) {
+        const actual = currentRun(owner.team, season);
+        const matches = claim.winning ? actual === claim.n : -actual === claim.n;
+        if (!matches) {
+          const now = actual > 0 ? `${actual} straight win${actual === 1 ? '' : 's'}`
+            : actual < 0 ? `${-actual} straight loss${actual === -1 ? '' : 'es'}` : 'no streak at all';
+          problems.push(`Says ${owner.team.name} has ${claim.winning ? 'won' : 'lost'} ${claim.n} straight, but they are on ${now}.`);
+        }
+      }
+    }
+
+    // ── Championships ──
+    for (const m of ms.filter(x => x.team.titles)) {
+      const titles = m.team.titles!;
+      const rest = sentence.slice(m.end);
+      const nextTeam = ms.find(x => x.index >= m.end);
+      const own = nextTeam ? rest.slice(0, nextTeam.index - m.end) : rest;
+
+      const count = own.match(TITLE_COUNT);
+      if (count && !SPAN.test(sentence) && toCount(count[1]) !== titles.length) {
+        problems.push(
+          `Says ${m.team.name} has ${toCount(count[1])} title${toCount(count[1]) === 1 ? '' : 's'}, ` +
+          `but they have won ${titles.length}${titles.length ? ` (${titles.join(', ')})` : ''}.`);
+      }
+      const year = own.match(TITLE_YEAR);
+      const yearSeason = year?.[1] ?? year?.[2];
+      const champion = yearSeason && champions.get(yearSeason);
+      if (champion && champion !== m.team.userId) {
+        problems.push(`Says ${m.team.name} won the ${yearSeason} title, but ${nameOf(champion)} did.`);
+      }
+      if (NO_TITLE.test(own) && titles.length) {
+        problems.push(`Says ${m.team.name} has never won a title, but they won ${titles.join(', ')}.`);
+      }
+      if (/\bdefending champ(?:ion)?s?\b/i.test(sentence) && distinct === 1) {
+        const latest = [...champions.keys()].sort().pop();
+        const holder = latest && champions.get(latest);
+        if (holder && holder !== m.team.userId) {
+          problems.push(`Calls ${m.team.name} the defending champion, but ${nameOf(holder)} won in ${latest}.`);
+        }
+      }
+    }
+  }
+
+  return [...new Set(problems)];
+}
@@ -0,0 +1,32 @@
+/**
+ * One sentence at a time: a claim never spans a full stop.
+ *
+ * Splitting naively on every period tore "A.J. Brown" in half, so neither
+ * fragment contained the player's full name and a false claim about him sailed
+ * through. The lookbehind has to reach past the period to the letter before
+ * it: a capital there means an initial, not a sentence ending.
+ */
+export function sentences(text: string): string[] {
+  return text.split(/(?<=[!?])\s+|(?<=\.)(?<![A-Z]\.)\s+/).filter(Boolean);
+}
+
+const NUMBER_WORDS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty',
+];
+
+/** A regex fragment matching a count written as digits or as a word. */
+export const COUNT = `(\\d+|${NUMBER_WORDS.join('|')})`;
+
+export function toCount(text: string): number {
+  const word = NUMBER_WORDS.indexOf(text.toLowerCase());
+  return word >= 0 ? word : Number(text);
+}
+
+/** Pull every string out of generated content so nested fields are checked too. */
+export function collectText(value: unknown, out: string[] = []): string[] {
+  if (typeof value === 'string') out.push(value);
+  else if (Array.isArray(value)) value.forEach(v => collectText(v, out));
+  else if (value && typeof value === 'object') Object.values(value).forEach(v => collectText(v, out));
+  return out;
+}
@@ -1,9 +1,11 @@
 import { getLeagueRosters, getLeagueUsers, getSeasonTransactions, getLeagueWeeks } from '@/lib/api';
-import { getCurrentLeagueId } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
 import { getPlayersDirectory } from '@/lib/playerStats';
+import type { ClaimContext } from './results';
+import { sentences } from './text';
 
 /**
- * Verifies generated copy against the real transaction record.
+ * Verifies trade claims in generated copy against the transaction record.
  *
  * The writers are given a brief that states every trade in both directions and
  * are told explicitly not to invert it. They invert it anyway: one post had
@@ -32,14 +34,15 @@ const AWAY = /\b(ship(?:ped|s|ping)?|sent|deal(?:t|ed)?|traded away|gave up|give
 /** Verbs that assert a team took a player in. */
 const IN = /\b(acquir(?:ed|es)|land(?:ed|s)|grabb(?:ed|s)|pick(?:ed)? up|brought in|added|got back|received|traded for)\b/i;
 
-let cache: { at: number; facts: Map<string, TradeFact>; teams: string[] } | null = null;
+const cache = new Map<string, { at: number; facts: Map<string, TradeFact>; teams: string[] }>();
 const TTL_MS = 5 * 60 * 1000;
 
 /** Index every traded player by who received and who surrendered him. */
-export async function loadTradeFacts(): Promise<{ facts: Map<string, TradeFact>; teams: string[] }> {
-  if (cache && Date.now() - cache.at < TTL_MS) return cache;
+export async function loadTradeFacts(force = false, forLeague?: string): Promise<{ facts: Map<string, TradeFact>; teams: string[] }> {
+  const leagueId = forLeague ?? await getRequestLeagueId();
+  const cached = cache.get(leagueId);
+  if (!force && cached && Date.now() - cached.at < TTL_MS) return cached;
 
-  const leagueId = await getCurrentLeagueId();
   const weeks = await getLeagueWeeks(leagueId).catch(() => 18);
   const [txs, rosters, users, players] = await Promise.all([
     getSeasonTransactions(leagueId, weeks),
@@ -79,20 +82,9 @@ export async function loadTradeFacts(): Promise<{ facts: Map<string, TradeFact>;
     }
   }
 
-  cache = { at: Date.now(), facts, teams: [...teamOf.values()] };
-  return cache;
-}
-
-/**
- * One sentence at a time: a claim never spans a full stop.
- *
- * Splitting naively on every period tore "A.J. Brown" in half, so neither
- * fragment contained the player's full name and a false claim about him sailed
- * through. The lookbehind has to reach past the period to the letter before
- * it: a capital there means an initial, not a sentence ending.
- */
-function sentences(text: string): string[] {
-  return text.split(/(?<=[!?])\s+|(?<=\.)(?<![A-Z]\.)\s+/).filter(Boolean);
+  const entry = { at: Date.now(), facts, teams: [...teamOf.values()] };
+  cache.set(leagueId, entry);
+  return entry;
 }
 
 /**
@@ -101,8 +93,8 @@ function sentences(text: string): string[] {
  * Only flags a sentence naming exactly one team and one traded player, with a
  * direction verb between them. Ambiguity is treated as innocent.
  */
-export async function checkTradeClaims(text: string): Promise<string[]> {
-  const { facts, teams } = await loadTradeFacts();
+export async function checkTradeClaims(text: string, context: ClaimContext = {}): Promise<string[]> {
+  const { facts, teams } = await loadTradeFacts(false, context.leagueId);
   const problems: string[] = [];
 
   for (const sentence of sentences(text)) {
@@ -157,11 +149,3 @@ export async function checkTradeClaims(text: string): Promise<string[]> {
 
   return [...new Set(problems)];
 }
-
-/** Pull every string out of generated content so nested fields are checked too. */
-export function collectText(value: unknown, out: string[] = []): string[] {
-  if (typeof value === 'string') out.push(value);
-  else if (Array.isArray(value)) value.forEach(v => collectText(v, out));
-  else if (value && typeof value === 'object') Object.values(value).forEach(v => collectText(v, out));
-  return out;
-}
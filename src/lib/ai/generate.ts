@@ -10,15 +10,19 @@
  */
 import { resolvePhase } from './seasonPhase';
 import { getLeagueInfo, getNFLState } from '@/lib/api';
-import { getCurrentLeagueId } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
 import { generateObject, generateText, streamText, stepCountIs } from 'ai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { buildChatTools } from './chatTools';
-import { checkTradeClaims, collectText } from './factCheck';
+import { checkClaims, collectText, type ClaimContext } from './factCheck';
 import { z } from 'zod';
 import { claude, MODEL_FAST, MODEL_SMART, GROUNDING_RULES, stripDashes } from './claude';
 import { buildLeagueBrief } from './leagueBrief';
-import type { Personality } from './personalities';
+import type { ContentKind, Personality } from './personalities';
+import {
+  previewBrief, recapBrief,
+  type PreviewMatchup, type PreviewSlate, type RecapResult, type RecapSlate,
+} from './weekly';
 
 function systemFor(p: Personality): string {
   return `${GROUNDING_RULES}
@@ -217,6 +221,33 @@ const PredictionsSchema = z.object({
   boldestTake: z.string(),
 });
 
+/** The writer's half of a matchup preview; the lineups and odds are the slate's. */
+const PreviewWireSchema = z.object({
+  headline: z.string(),
+  standfirst: z.string(),
+  matchups: z.array(z.object({
+    matchupId: z.number(),
+    pick: z.string().describe('Exact name of the team picked to win'),
+    take: z.string().describe('2-3 sentences on why, naming the players that decide it'),
+  })).min(1),
+  boldestTake: z.string(),
+});
+
+/** The writer's half of a weekly recap; the scores are the slate's. */
+const RecapWireSchema = z.object({
+  headline: z.string(),
+  standfirst: z.string(),
+  matchups: z.array(z.object({
+    matchupId: z.number(),
+    take: z.string().describe('1-2 sentences on how it was won'),
+  })).min(1),
+  topScorersTake: z.string(),
+  benchTake: z.string(),
+  closestGameTake: z.string(),
+  upsetTake: z.string().default(''),
+  boldestTake: z.string(),
+});
+
 export type PowerRankings = z.infer<typeof PowerRankingsSchema>;
 export type Predictions = z.infer<typeof PredictionsSchema>;
 
@@ -225,15 +256,71 @@ export type Tweet = z.infer<typeof TweetSchema>;
 export type Comment = z.infer<typeof CommentSchema>;
 export type TradeGrade = z.infer<typeof TradeGradeSchema>;
 
+/** The stored shape of every kind a writer returns whole. Previews and recaps
+ *  are the slate's data with the writer's takes threaded through, so they have
+ *  none; an edit to one is held to the shape it already has. */
+const CONTENT_SCHEMAS: Partial<Record<ContentKind, z.ZodTypeAny>> = {
+  article: ArticleSchema,
+  tweet: TweetSchema,
+  comment: CommentSchema,
+  tradeGrade: TradeGradeSchema,
+  powerRankings: PowerRankingsSchema,
+  predictions: PredictionsSchema,
+};
+
+/** Same keys, same array lengths, same types, and the same numbers. */
+function sameShape(prev: unknown, next: unknown): boolean {
+  if (typeof prev === 'string') return typeof next === 'string';
+  if (Array.isArray(prev)) {
+    return Array.isArray(next) && next.length === prev.length && prev.every((v, i) => sameShape(v, next[i]));
+  }
+  if (prev && typeof prev === 'object') {
+    if (!next || typeof next !== 'object' || Array.isArray(next)) return false;
+    const a = prev as Record<string, unknown>, b = next as Record<string, unknown>;
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => k in b && sameShape(a[k], b[k]));
+  }
+  return prev === next;
+}
+
+/**
+ * Why an edit to a post's content cannot be saved, or null when it can. The
+ * review inbox edits wording only; anything else would reach the feed in a
+ * shape its renderer for that kind cannot draw.
+ */
+export function contentEditProblem(kind: ContentKind, prev: unknown, next: unknown): string | null {
+  const schema = CONTENT_SCHEMAS[kind];
+  if (schema && !schema.safeParse(next).success) return `That is not a valid ${kind} post`;
+  if (!sameShape(prev, next)) return 'An edit can change the wording, not the structure or the numbers';
+  return null;
+}
+
+export interface MatchupPreview {
+  headline: string;
+  standfirst: string;
+  season: string;
+  week: number;
+  matchups: (PreviewMatchup & { pick: string; take: string })[];
+  boldestTake: string;
+}
+
+export interface WeeklyRecap extends Omit<RecapSlate, 'results'> {
+  headline: string;
+  standfirst: string;
+  results: (RecapResult & { take: string })[];
+  takes: { topScorers: string; bench: string; closestGame: string; upset: string };
+  boldestTake: string;
+}
+
 // ── Generators ─────────────────────────────────────────────────────────────
 
-async function briefBlock(): Promise<string> {
-  const brief = await buildLeagueBrief();
+async function briefBlock(forLeague?: string): Promise<string> {
+  const brief = await buildLeagueBrief(false, forLeague);
   // Same phase framing the chat assistant gets, so a persona does not write
   // start/sit copy in March or dynasty musings during a playoff week.
   let phaseBlock = '';
   try {
-    const leagueId = await getCurrentLeagueId();
+    const leagueId = forLeague ?? await getRequestLeagueId();
     const [league, nflState] = await Promise.all([getLeagueInfo(leagueId), getNFLState()]);
     const phase = resolvePhase(nflState, league);
     phaseBlock =
@@ -278,31 +365,34 @@ export function angleAt(index: number): string {
 }
 
 /**
- * Refuses to publish copy that contradicts the transaction record.
+ * Refuses to publish copy that contradicts the league's record.
  *
- * The brief states every trade in both directions and the prompt forbids
- * inverting it, and the writers still occasionally do. Prompt rules cannot make
- * this guarantee; a check can. One correction attempt, then the piece is
- * abandoned rather than published with a claim we have proven false.
+ * The brief states every trade in both directions and every record, and the
+ * prompt forbids inverting them, and the writers still occasionally do. Prompt
+ * rules cannot make this guarantee; a check can. One correction attempt, then
+ * the piece is abandoned rather than published with a claim we have proven
+ * false.
  */
 async function publishable<T>(
   content: T,
   regenerate: (correction: string) => Promise<T>,
+  context?: ClaimContext,
 ): Promise<T> {
-  const problems = await checkTradeClaims(collectText(content).join(' ')).catch(() => []);
+  const problems = await checkClaims(collectText(content).join(' '), context);
   if (!problems.length) return content;
 
-  console.error('[generate] false trade claim, regenerating:', problems);
+  console.error('[generate] false claim, regenerating:', problems);
   const corrected = await regenerate(
-    'Your previous draft contained claims that contradict the transaction record:' +
+    'Your previous draft contained claims that contradict the league record:' +
     `\n- ${problems.join('\n- ')}\n` +
-    'Re-read the trade lines in the league context. Each states who GETS and who ' +
-    'GIVES UP every asset. Write it again without those errors.',
+    'Re-read the league context and check anything else you looked up. Trade lines ' +
+    'state who GETS and who GIVES UP every asset; records, scores and titles are ' +
+    'exact. Write it again without those errors.',
   );
 
-  const still = await checkTradeClaims(collectText(corrected).join(' ')).catch(() => []);
+  const still = await checkClaims(collectText(corrected).join(' '), context);
   if (still.length) {
-    throw new Error(`Trade claims still wrong after correction: ${still.join('; ')}`);
+    throw new Error(`Claims still wrong after correction: ${still.join('; ')}`);
   }
   return corrected;
 }
@@ -395,9 +485,10 @@ Respond with ONLY a JSON object, no prose and no markdown fences:
  * @param subject A team the post must be about, for the same reason articles
  *   take one: unprompted, every writer reaches for the loudest story in the
  *   brief and the whole feed ends up about one manager.
+ * @param leagueId The league to write about, when there is no request to read it from.
  */
 export async function writeTweet(
-  p: Personality, subject?: string, angle?: string,
+  p: Personality, subject?: string, angle?: string, leagueId?: string,
 ): Promise<Tweet> {
   const { object } = await generateObject({
     model: claude(MODEL_FAST),
@@ -405,7 +496,7 @@ export async function writeTweet(
     schemaName: 'Post',
     schemaDescription: 'A single short social post',
     system: systemFor(p),
-    prompt: `${await briefBlock()}
+    prompt: `${await briefBlock(leagueId)}
 
 Write ONE short post for the league feed.
 
@@ -439,13 +530,40 @@ all.`,
       schemaName: 'Post',
       schemaDescription: 'A single short social post',
       system: systemFor(p),
-      prompt: `${await briefBlock()}\n\n${correction}`,
+      prompt: `${await briefBlock(leagueId)}\n\n${correction}`,
     });
     return stripDashes(retry.object);
-  });
+  }, { leagueId });
+}
+
+/** A message already in a comment thread, oldest first. */
+export interface ThreadMessage {
+  author: string;
+  text: string;
 }
 
-export async function writeComment(p: Personality, subject: string): Promise<Comment> {
+/**
+ * @param thread The comments under the post so far. With a thread the persona
+ *   answers its last message, in context, instead of reacting to the post cold.
+ */
+export async function writeComment(
+  p: Personality, subject: string, thread: ThreadMessage[] = [],
+): Promise<Comment> {
+  const ask = thread.length
+    ? `You are in the comments under this post:
+
+"${subject}"
+
+The thread so far, oldest first:
+${thread.map(m => `${m.author}: ${m.text}`).join('\n')}
+
+Reply in 1-3 sentences, in character, to ${thread[thread.length - 1].author}.
+Talk to them, not about them. If you disagree, say so and say why; a reply that
+only agrees adds nothing. Do not repeat a point already made above.`
+    : `React in 1-3 sentences, in character, to this:
+
+"${subject}"`;
+
   const { object } = await generateObject({
     model: claude(MODEL_FAST),
     schema: CommentSchema,
@@ -454,17 +572,29 @@ export async function writeComment(p: Personality, subject: string): Promise<Com
     system: systemFor(p),
     prompt: `${await briefBlock()}
 
-React in 1-3 sentences, in character, to this:
-
-"${subject}"`,
+${ask}`,
+  });
+  return publishable(stripDashes(object), async correction => {
+    const retry = await generateObject({
+      model: claude(MODEL_FAST),
+      schema: CommentSchema,
+      schemaName: 'Comment',
+      schemaDescription: 'A short in-character reaction',
+      system: systemFor(p),
+      prompt: `${await briefBlock()}\n\n${ask}\n\n${correction}`,
+    });
+    return stripDashes(retry.object);
   });
-  return stripDashes(object);
 }
 
 export interface TradeForGrading {
   season: string;
   week: number;
   sides: { teamName: string; receives: string[]; gives: string[] }[];
+  /** A trade someone is considering, not one that has gone through. */
+  proposed?: boolean;
+  /** The league it happened in, when there is no request to read it from. */
+  leagueId?: string;
 }
 
 export async function gradeTrade(p: Personality, trade: TradeForGrading): Promise<TradeGrade> {
@@ -472,18 +602,22 @@ export async function gradeTrade(p: Personality, trade: TradeForGrading): Promis
     .map(s => `${s.teamName} receives: ${s.receives.join(', ') || 'nothing'} | gives up: ${s.gives.join(', ') || 'nothing'}`)
     .join('\n');
 
-  const prompt = `${await briefBlock()}
+  const prompt = `${await briefBlock(trade.leagueId)}
 
-TRADE TO GRADE (${trade.season}, week ${trade.week}):
+${trade.proposed ? 'PROPOSED TRADE' : 'TRADE'} TO GRADE (${trade.season}, week ${trade.week}):
 ${desc}
 
 Grade this trade for each side, based on the production figures and team
 situations in the league context above.
 
-IMPORTANT: the rosters in the league context are CURRENT and already reflect
+${trade.proposed
+  ? `IMPORTANT: this trade has NOT happened. It is being considered, and the
+rosters in the league context are as they stand before it. Judge whether each
+side should accept it.`
+  : `IMPORTANT: the rosters in the league context are CURRENT and already reflect
 this trade having gone through. Do not treat a player appearing on a team's
 roster as evidence they were not traded — the trade description above is the
-record of who moved where.
+record of who moved where.`}
 
 If a player involved does not appear anywhere in the context, say you have
 limited information on them rather than guessing, and lower your confidence.
@@ -513,16 +647,23 @@ Include one entry in "sides" for every team in the trade.`;
     return TradeGradeSchema.parse(candidate);
   };
 
-  let lastErr: unknown;
-  for (let attempt = 0; attempt < 2; attempt++) {
-    const { text } = await generateText({
-      model: claude(MODEL_SMART),
-      system: systemFor(p),
-      prompt: attempt === 0 ? prompt : `${prompt}\n\nYour previous reply was not valid JSON. Return only the JSON object.`,
-    });
-    try { return stripDashes(parse(text)); } catch (e) { lastErr = e; }
-  }
-  throw new Error(`Trade grading returned unparseable output: ${lastErr instanceof Error ? lastErr.message : lastErr}`);
+  const draft = async (correction = ''): Promise<TradeGrade> => {
+    const ask = correction ? `${prompt}\n\n${correction}` : prompt;
+    let lastErr: unknown;
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const { text } = await generateText({
+        model: claude(MODEL_SMART),
+        system: systemFor(p),
+        prompt: attempt === 0 ? ask : `${ask}\n\nYour previous reply was not valid JSON. Return only the JSON object.`,
+      });
+      try { return stripDashes(parse(text)); } catch (e) { lastErr = e; }
+    }
+    throw new Error(`Trade grading returned unparseable output: ${lastErr instanceof Error ? lastErr.message : lastErr}`);
+  };
+
+  // A proposed trade is not in the record yet, so the checker would flag the
+  // very moves being graded. A completed one is checked like any post.
+  return trade.proposed ? draft() : publishable(await draft(), draft);
 }
 
 
@@ -614,3 +755,106 @@ Respond with ONLY a JSON object, no prose and no markdown fences:
         'Respond with ONLY the same JSON shape as before.'].join('\n\n'),
     }));
 }
+
+/**
+ * The week ahead, matchup by matchup. The writer picks a winner and argues
+ * it; the lineups, projections and odds it argues from are stored with the
+ * piece as they stood when it was written.
+ */
+export async function writeMatchupPreview(p: Personality, slate: PreviewSlate): Promise<MatchupPreview> {
+  const ask = `WEEK ${slate.week} MATCHUPS, with every lineup as currently set and each
+starter's projection:
+${previewBrief(slate)}
+
+Preview every one of these matchups. Pick a winner for each and say why, naming
+the starters who decide it. Where the model odds and your pick disagree, say so
+and argue it. Lineups can still change, so flag any starter who is injured or
+looks like a mistake.
+${EDITORIAL}
+
+Respond with ONLY a JSON object, no prose and no markdown fences:
+{
+  "headline": "punchy, under 90 characters",
+  "standfirst": "one sentence on the week's big story",
+  "matchups": [
+    { "matchupId": <the MATCHUP number above>, "pick": "<exact team name>",
+      "take": "2-3 sentences" }
+  ],
+  "boldestTake": "the call most likely to look stupid on Monday"`;
+
+  const write = async (correction?: string) => {
+    const wire = await generateJson({
+      schema: PreviewWireSchema,
+      probe: 'headline',
+      model: MODEL_FAST,
+      maxOutputTokens: 16000,
+      system: systemFor(p),
+      prompt: [await briefBlock(), ask, correction].filter(Boolean).join('\n\n'),
+    });
+    const byId = new Map(wire.matchups.map(m => [m.matchupId, m]));
+    return stripDashes({
+      headline: wire.headline,
+      standfirst: wire.standfirst,
+      season: slate.season,
+      week: slate.week,
+      matchups: slate.matchups.map(m => ({ ...m, pick: byId.get(m.matchupId)?.pick ?? '', take: byId.get(m.matchupId)?.take ?? '' })),
+      boldestTake: wire.boldestTake,
+    });
+  };
+  return publishable(await write(), write);
+}
+
+/**
+ * The week just finished: every result, the top scorers, the points left on
+ * benches, the closest game and the biggest upset. All of it is measured from
+ * the scoreboard; the writer supplies the verdicts.
+ */
+export async function writeWeeklyRecap(p: Personality, slate: RecapSlate): Promise<WeeklyRecap> {
+  const ask = `WEEK ${slate.week} IS FINAL. The scoreboard:
+${recapBrief(slate)}
+
+Recap the week. Say how each matchup was won, then react to the top scorers,
+the bench blunders, the closest game${slate.biggestUpset ? ' and the upset' : ''}. Every score and
+points figure you mention must match the scoreboard above exactly.
+${EDITORIAL}
+
+Respond with ONLY a JSON object, no prose and no markdown fences:
+{
+  "headline": "punchy, under 90 characters",
+  "standfirst": "one sentence on what the week meant",
+  "matchups": [
+    { "matchupId": <the MATCHUP number above>, "take": "1-2 sentences" }
+  ],
+  "topScorersTake": "1-2 sentences",
+  "benchTake": "1-2 sentences, or an empty string if there were no blunders",
+  "closestGameTake": "1-2 sentences",
+  "upsetTake": "1-2 sentences, or an empty string if there was no upset",
+  "boldestTake": "the single most contentious claim you are making"`;
+
+  const write = async (correction?: string) => {
+    const wire = await generateJson({
+      schema: RecapWireSchema,
+      probe: 'headline',
+      model: MODEL_FAST,
+      maxOutputTokens: 16000,
+      system: systemFor(p),
+      prompt: [await briefBlock(), ask, correction].filter(Boolean).join('\n\n'),
+    });
+    const byId = new Map(wire.matchups.map(m => [m.matchupId, m.take]));
+    return stripDashes({
+      ...slate,
+      headline: wire.headline,
+      standfirst: wire.standfirst,
+      results: slate.results.map(r => ({ ...r, take: byId.get(r.matchupId) ?? '' })),
+      takes: {
+        topScorers: wire.topScorersTake,
+        bench: slate.benchBlunders.length ? wire.benchTake : '',
+        closestGame: wire.closestGameTake,
+        upset: slate.biggestUpset ? wire.upsetTake : '',
+      },
+      boldestTake: wire.boldestTake,
+    });
+  };
+  // Sleeper can still report the recapped week as current on a Tuesday.
+  return publishable(await write(), write, { settledWeek: slate.week });
+}
@@ -20,14 +20,16 @@ import {
   getAllLinkedLeagueIds,
   generateComprehensiveLeagueHistory,
 } from '@/lib/api';
-import { getCurrentLeagueId } from '@/config/league';
+import { LEAGUE_CHAINS } from '@/config/league';
+import { getRequestLeague, getRequestLeagueId } from '@/lib/leagueContext';
+import { getPlayoffOdds } from '@/lib/playoffOdds';
+import { getProvider } from '@/lib/providers';
 import {
   getPlayersDirectory,
   getSeasonStats,
   resolveStatsSeason,
 } from '@/lib/playerStats';
 
-const BASE = 'https://api.sleeper.app/v1';
 const TTL_MS = 5 * 60 * 1000;
 
 export interface BriefTeam {
@@ -54,6 +56,14 @@ export interface BriefMove {
   summary: string;
 }
 
+export interface BriefOdds {
+  teamName: string;
+  /** Percent, rounded. */
+  playoffs: number;
+  bye: number | null;
+  status: 'clinched bye' | 'clinched' | 'eliminated' | null;
+}
+
 export interface LeagueBrief {
   leagueName: string;
   season: string;
@@ -67,6 +77,8 @@ export interface LeagueBrief {
   teams: BriefTeam[];
   recentMatchups: BriefMatchup[];
   recentMoves: BriefMove[];
+  /** Simulated playoff odds while the regular season is still undecided. */
+  playoffOdds: { simulations: number; remainingWeeks: number[]; playoffTeams: number; teams: BriefOdds[] } | null;
   moveTotals: { trade: number; waiver: number; free_agent: number };
   history: {
     seasons: number;
@@ -77,17 +89,20 @@ export interface LeagueBrief {
   text: string;
 }
 
-let cache: { brief: LeagueBrief; ts: number } | null = null;
+// Keyed by league ID: each configured league chain gets its own brief.
+const cache = new Map<string, { brief: LeagueBrief; ts: number }>();
 
 function fmtRecord(s: any): string {
   const w = s?.wins ?? 0, l = s?.losses ?? 0, t = s?.ties ?? 0;
   return t ? `${w}-${l}-${t}` : `${w}-${l}`;
 }
 
-export async function buildLeagueBrief(force = false): Promise<LeagueBrief> {
-  if (!force && cache && Date.now() - cache.ts < TTL_MS) return cache.brief;
+/** Pass `forLeague` when there is no request to read it from, as in a cron run. */
+export async function buildLeagueBrief(force = false, forLeague?: string): Promise<LeagueBrief> {
+  const leagueId = forLeague ?? await getRequestLeagueId();
+  const cached = cache.get(leagueId);
+  if (!force && cached && Date.now() - cached.ts < TTL_MS) return cached.brief;
 
-  const leagueId = await getCurrentLeagueId();
   const [league, users, rosters, nflState, seasons] = await Promise.all([
     getLeagueInfo(leagueId),
     getLeagueUsers(leagueId),
@@ -169,9 +184,7 @@ export async function buildLeagueBrief(force = false): Promise<LeagueBrief> {
     const weeks = Math.max(1, currentWeek);
     const batches = await Promise.all(
       Array.from({ length: Math.min(weeks, 6) }, (_, i) =>
-        fetch(`${BASE}/league/${leagueId}/transactions/${weeks - i}`, { cache: 'no-store' })
-          .then(r => (r.ok ? r.json() : []))
-          .catch(() => []),
+        getProvider().getTransactions(leagueId, weeks - i, { freshness: 'live' }).catch(() => []),
       ),
     );
     for (const tx of batches.flat() as any[]) {
@@ -261,6 +274,30 @@ export async function buildLeagueBrief(force = false): Promise<LeagueBrief> {
     }
   } catch { /* transactions are supplementary — a failure must not sink the brief */ }
 
+  // ── Playoff odds ─────────────────────────────────────────────────────────
+  let playoffOdds: LeagueBrief['playoffOdds'] = null;
+  if (league?.status === 'in_season' && nflState?.season_type === 'regular') {
+    try {
+      const chain = forLeague
+        ? await getAllLinkedLeagueIds(leagueId).then(ids => LEAGUE_CHAINS.find(c => ids.includes(c.rootLeagueId)) ?? null)
+        : await getRequestLeague();
+      const odds = chain ? await getPlayoffOdds(leagueId, chain.rootLeagueId) : null;
+      if (odds?.remainingWeeks.length) {
+        playoffOdds = {
+          simulations: odds.simulations,
+          remainingWeeks: odds.remainingWeeks,
+          playoffTeams: odds.playoffTeams,
+          teams: odds.teams.map(t => ({
+            teamName: t.teamName,
+            playoffs: Math.round(t.playoffOdds * 100),
+            bye: odds.byes > 0 ? Math.round(t.byeOdds * 100) : null,
+            status: t.clinchedBye ? 'clinched bye' : t.clinchedPlayoffs ? 'clinched' : t.eliminated ? 'eliminated' : null,
+          })),
+        };
+      }
+    } catch { /* odds are supplementary; the standings still stand */ }
+  }
+
   // ── History ──────────────────────────────────────────────────────────────
   let history: LeagueBrief['history'] = { seasons: seasons.length, champions: [], allTimeHigh: 0 };
   try {
@@ -294,6 +331,7 @@ export async function buildLeagueBrief(force = false): Promise<LeagueBrief> {
       ...recentMoves.filter(m => m.type === 'trade').slice(0, 16),
       ...recentMoves.filter(m => m.type !== 'trade').slice(0, 10),
     ],
+    playoffOdds,
     /** Totals across the whole window, not just the moves listed. */
     moveTotals: {
       trade: recentMoves.filter(m => m.type === 'trade').length,
@@ -305,7 +343,7 @@ export async function buildLeagueBrief(force = false): Promise<LeagueBrief> {
   };
   brief.text = renderBrief(brief);
 
-  cache = { brief, ts: Date.now() };
+  cache.set(leagueId, { brief, ts: Date.now() });
   return brief;
 }
 
@@ -363,6 +401,25 @@ export function renderBrief(b: LeagueBrief): string {
     }
   }
 
+  if (b.playoffOdds) {
+    const o = b.playoffOdds;
+    const weeks = o.remainingWeeks.length === 1
+      ? `week ${o.remainingWeeks[0]}`
+      : `weeks ${o.remainingWeeks[0]}-${o.remainingWeeks[o.remainingWeeks.length - 1]}`;
+    // Models asked about "who is still alive" reason from records and get
+    // tiebreaks wrong. These are computed; CLINCHED and ELIMINATED are certain.
+    lines.push(
+      '',
+      `PLAYOFF ODDS (${o.simulations} simulations of ${weeks}; ${o.playoffTeams} teams qualify). ` +
+      'Quote these; never estimate odds yourself. CLINCHED and ELIMINATED are mathematical certainties; ' +
+      'no other team is either.',
+    );
+    for (const t of o.teams) {
+      const bye = t.bye != null ? `, bye ${t.bye}%` : '';
+      lines.push(`  ${t.teamName}: playoffs ${t.playoffs}%${bye}${t.status ? ` — ${t.status.toUpperCase()}` : ''}`);
+    }
+  }
+
   if (b.recentMatchups.length) {
     lines.push('', 'MOST RECENT SCORES:');
     for (const m of b.recentMatchups) {
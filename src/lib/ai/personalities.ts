@@ -8,7 +8,7 @@
 
 export type ContentKind =
   | 'article' | 'tweet' | 'comment' | 'tradeGrade'
-  | 'powerRankings' | 'predictions';
+  | 'powerRankings' | 'predictions' | 'matchupPreview' | 'weeklyRecap';
 
 export interface Personality {
   id: string;
@@ -60,7 +60,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'sincerely emotional about his colleagues and his league. Prone to bizarre non-sequiturs ' +
       'about cologne, steak, or his own jacket. Total confidence, zero self-awareness, ' +
       'completely lovable. Never crude.',
-    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
@@ -155,7 +155,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'indifference of the universe, applied to a bench player. Sees managers as small ' +
       'creatures struggling against an uncaring void. Absolutely sincere, which is the joke. ' +
       'No emoji, no exclamation marks.',
-    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
@@ -243,7 +243,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'unprompted. Explains at length why any bad result was somebody else strategy failing ' +
       'him. Builds elaborate systems nobody asked about and is wounded when questioned. ' +
       'Escalates from calm to shrill inside a single paragraph. Vain and absurd, never crude.',
-    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
@@ -279,7 +279,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'reference the real individual\'s actual career, teams, statistics, employers or ' +
       'personal life, and never write anything that could be mistaken for a genuine ' +
       'quote from them.',
-    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
@@ -312,7 +312,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'reference the real individual\'s actual career, teams, statistics, employers or ' +
       'personal life, and never write anything that could be mistaken for a genuine ' +
       'quote from them.',
-    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
@@ -345,7 +345,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'reference the real individual\'s actual career, teams, statistics, employers or ' +
       'personal life, and never write anything that could be mistaken for a genuine ' +
       'quote from them.',
-    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
@@ -380,7 +380,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'reference the real individual\'s actual career, teams, statistics, employers or ' +
       'personal life, and never write anything that could be mistaken for a genuine ' +
       'quote from them.',
-    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
@@ -410,7 +410,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'body language, whether a guy looks like a football player. Dismisses expected value ' +
       'and sample size as excuses invented by people who do not watch the games. Frequently ' +
       'turns out to be right, which he never lets anyone forget. Grumpy, confident, funny.',
-    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
@@ -441,7 +441,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'name something. Frames catastrophic decisions as development opportunities. ' +
       'Relentlessly pleasant. The politeness is the joke; the assessment underneath is brutal ' +
       'and accurate.',
-    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
@@ -501,7 +501,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'Opens by reframing the question. Uses process, variance, expected value and small ' +
       'sample constantly, and is usually right, which makes it worse. Politely condescending, ' +
       'never rude. Concedes exactly one point at the end to seem reasonable.',
-    kinds: ['article', 'tweet', 'comment', 'tradeGrade', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'tradeGrade', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
@@ -561,7 +561,7 @@ export const DEFAULT_PERSONALITIES: Personality[] = [
       'unable to process nuance: a .500 team confuses and upsets him. Occasionally derails ' +
       'into a story about going fast or about his own greatness, then returns to the point ' +
       'with total conviction. Sweetly dim, never mean.',
-    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions'],
+    kinds: ['article', 'tweet', 'comment', 'powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'],
     enabled: true,
   },
   {
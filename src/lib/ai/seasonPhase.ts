@@ -39,7 +39,8 @@ const GUIDANCE: Record<SeasonPhase, string> = {
     'pretenders, trade deadline planning, bye week coverage, and whether a team should buy or sell.',
   late:
     'Weeks 10 to 14, the playoff push. Relevant topics: playoff seeding scenarios, must-win ' +
-    'matchups, schedule strength down the stretch, and whether a team is mathematically alive. ' +
+    'matchups, schedule strength down the stretch, and whether a team is mathematically alive; ' +
+    'the PLAYOFF ODDS in the brief are computed, so quote them rather than reasoning from records. ' +
     'Long-term dynasty value matters much less than winning now.',
   playoffs:
     'League playoffs. Only what wins this week matters: matchups, injuries, and start/sit calls. ' +
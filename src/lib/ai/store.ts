@@ -19,7 +19,7 @@ export interface FeedPost {
   /** Resolved DiceBear URL, stored with the post so an avatar change does not
    *  retroactively restyle old bylines. */
   personaAvatar?: string;
-  kind: 'article' | 'tweet' | 'comment' | 'tradeGrade' | 'powerRankings' | 'predictions';
+  kind: ContentKind;
   content: any;
   /** When it was generated. */
   createdAt: string;
@@ -32,15 +32,39 @@ export interface FeedPost {
   /** The team a piece was commissioned about, so coverage can be rotated
    *  around the league instead of piling onto whoever is most newsworthy. */
   subject?: string;
+  /** The league event a piece covers, e.g. 'weeklyRecap:2026:7', so a
+   *  scheduled job that runs twice does not cover it twice. */
+  eventKey?: string;
+  /** Editorial state. Absent on posts written before review existed, which
+   *  count as approved. */
+  status?: PostStatus;
+  /** Who last approved, rejected or edited the piece. */
+  review?: { by: string; at: string; edited?: boolean };
 }
 
+export type PostStatus = 'draft' | 'approved' | 'rejected';
+
 const MAX_POSTS = 300;
 
+/**
+ * Whether scheduler output waits in the review inbox instead of publishing on
+ * its own. Set AI_DESK_REVIEW=1 per environment: on in production, say, so a
+ * person signs off on what readers see, and off in preview deployments. Admin
+ * publishes from the back office are already reviewed by whoever clicked.
+ */
+export function isReviewRequired(): boolean {
+  return /^(1|true|on|review)$/i.test(process.env.AI_DESK_REVIEW ?? '');
+}
+
+const isLive = (p: FeedPost) => (p.status ?? 'approved') === 'approved';
+
 const DATA_DIR   = path.join(process.cwd(), 'data');
 const POSTS_FILE = path.join(DATA_DIR, 'ai-posts.json');
 const PEOPLE_FILE = path.join(DATA_DIR, 'ai-personalities.json');
 const POSTS_KEY  = 'lp_ai_posts';
 const PEOPLE_KEY = 'lp_ai_personalities';
+const THREADS_FILE = path.join(DATA_DIR, 'ai-threads.json');
+const THREADS_KEY = 'lp_ai_threads';
 
 async function ensureDir() {
   try { await fs.access(DATA_DIR); } catch { await fs.mkdir(DATA_DIR, { recursive: true }); }
@@ -132,7 +156,7 @@ export async function getPosts(limit = 60): Promise<FeedPost[]> {
   const all = await readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []);
   const now = Date.now();
   return all
-    .filter(p => new Date(p.publishAt ?? p.createdAt).getTime() <= now)
+    .filter(p => isLive(p) && new Date(p.publishAt ?? p.createdAt).getTime() <= now)
     .sort((a, b) =>
       new Date(b.publishAt ?? b.createdAt).getTime() - new Date(a.publishAt ?? a.createdAt).getTime())
     .slice(0, limit);
@@ -143,7 +167,7 @@ export async function getPosts(limit = 60): Promise<FeedPost[]> {
 export async function getQueuedCount(): Promise<number> {
   const all = await readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []);
   const now = Date.now();
-  return all.filter(p => new Date(p.publishAt ?? p.createdAt).getTime() > now).length;
+  return all.filter(p => isLive(p) && new Date(p.publishAt ?? p.createdAt).getTime() > now).length;
 }
 
 export async function addPost(post: FeedPost): Promise<void> {
@@ -155,6 +179,75 @@ export async function addPost(post: FeedPost): Promise<void> {
 export async function deletePost(id: string): Promise<void> {
   const all = await readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []);
   await writeJson(POSTS_KEY, POSTS_FILE, all.filter(p => p.id !== id));
+  const threads = await readJson<Record<string, PostThread>>(THREADS_KEY, THREADS_FILE, {});
+  if (threads[id]) {
+    delete threads[id];
+    await writeJson(THREADS_KEY, THREADS_FILE, threads);
+  }
+}
+
+// ── Review ─────────────────────────────────────────────────────────────────
+
+/** Drafts awaiting review, soonest scheduled first, then the latest rejections. */
+export async function getReviewQueue(): Promise<{ drafts: FeedPost[]; rejected: FeedPost[] }> {
+  const all = await readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []);
+  return {
+    drafts: all
+      .filter(p => p.status === 'draft')
+      .sort((a, b) => new Date(a.publishAt).getTime() - new Date(b.publishAt).getTime()),
+    rejected: all
+      .filter(p => p.status === 'rejected')
+      .sort((a, b) => (b.review?.at ?? '').localeCompare(a.review?.at ?? ''))
+      .slice(0, 10),
+  };
+}
+
+export async function getDraftCount(): Promise<number> {
+  const all = await readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []);
+  return all.filter(p => p.status === 'draft').length;
+}
+
+/**
+ * Approve or reject a batch. An approved draft whose slot has already passed
+ * goes out now rather than appearing back-dated under newer posts.
+ * Returns the posts it changed; ids that are missing are skipped.
+ */
+export async function reviewPosts(ids: string[], status: 'approved' | 'rejected', by: string): Promise<FeedPost[]> {
+  const all = await readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []);
+  const wanted = new Set(ids);
+  const now = new Date();
+  const changed: FeedPost[] = [];
+  for (const p of all) {
+    if (!wanted.has(p.id)) continue;
+    p.status = status;
+    p.review = { ...p.review, by, at: now.toISOString() };
+    if (status === 'approved' && new Date(p.publishAt).getTime() < now.getTime()) p.publishAt = now.toISOString();
+    changed.push(p);
+  }
+  if (changed.length) await writeJson(POSTS_KEY, POSTS_FILE, all);
+  return changed;
+}
+
+/** Any post by id, whatever its status. */
+export async function getPost(id: string): Promise<FeedPost | null> {
+  const all = await readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []);
+  return all.find(p => p.id === id) ?? null;
+}
+
+/** Edit a post's copy or move its slot. Null when there is no such post. */
+export async function updatePost(
+  id: string,
+  patch: { content?: unknown; publishAt?: string },
+  by: string,
+): Promise<FeedPost | null> {
+  const all = await readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []);
+  const post = all.find(p => p.id === id);
+  if (!post) return null;
+  if (patch.content !== undefined) post.content = patch.content;
+  if (patch.publishAt) post.publishAt = patch.publishAt;
+  post.review = { ...post.review, by, at: new Date().toISOString(), edited: post.review?.edited || patch.content !== undefined };
+  await writeJson(POSTS_KEY, POSTS_FILE, all);
+  return post;
 }
 
 /** Generation time of the most recently written post, so a re-triggered cron
@@ -164,10 +257,18 @@ export async function lastGeneratedAt(): Promise<number> {
   return all.reduce((max, p) => Math.max(max, new Date(p.createdAt).getTime()), 0);
 }
 
-/** Latest scheduled publish time, so a new batch queues after the last one. */
+/** Latest scheduled publish time, so a new batch queues after the last one.
+ *  Drafts hold their slot; rejected posts give theirs up. */
 export async function lastPublishAt(): Promise<number> {
   const all = await readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []);
-  return all.reduce((max, p) => Math.max(max, new Date(p.publishAt ?? p.createdAt).getTime()), 0);
+  return all.filter(p => p.status !== 'rejected').reduce((max, p) => Math.max(max, new Date(p.publishAt ?? p.createdAt).getTime()), 0);
+}
+
+/** Whether a piece already covers this event. A rejected one does not count,
+ *  so the next run can try again. */
+export async function hasPostFor(eventKey: string): Promise<boolean> {
+  const all = await readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []);
+  return all.some(p => p.eventKey === eventKey && p.status !== 'rejected');
 }
 
 /** Subjects of recent pieces, newest first. Used to spread coverage. */
@@ -179,6 +280,227 @@ export async function getRecentSubjects(limit = 30): Promise<string[]> {
     .filter((s): s is string => Boolean(s));
 }
 
+// ── Threads ────────────────────────────────────────────────────────────────
+//
+// Reactions and replies live under their own key, keyed by post id, rather
+// than on the posts themselves: the scheduler rewrites the post list while
+// readers are reacting, and one read-modify-write must not undo the other.
+
+export type ReactionId = 'fire' | 'laugh' | 'facts' | 'cap' | 'salty';
+
+export const REACTIONS: Record<ReactionId, string> = {
+  fire: '🔥', laugh: '😂', facts: '💯', cap: '🧢', salty: '🧂',
+};
+
+export type ReplyAuthor =
+  | { kind: 'manager'; userId: string; teamName: string; avatar: string }
+  | { kind: 'persona'; personalityId: string; name: string; handle: string; accent: string; avatar?: string };
+
+export interface PostReply {
+  id: string;
+  /** The top-level reply this answers; absent for a reply to the post itself.
+   *  Threads are one level deep, so answering a nested reply answers its parent. */
+  parentId?: string;
+  author: ReplyAuthor;
+  text: string;
+  createdAt: string;
+}
+
+export interface PostThread {
+  /** User ids of the managers who left each reaction. */
+  reactions: Partial<Record<ReactionId, string[]>>;
+  replies: PostReply[];
+  /** When the scheduler last started a persona argument here, so it does not
+   *  keep piling onto the same post. */
+  argumentAt?: string;
+}
+
+/** A thread as a reader sees it: counts rather than who reacted. */
+export interface ThreadView {
+  reactions: Partial<Record<ReactionId, number>>;
+  /** The reactions the viewer has left. */
+  mine: ReactionId[];
+  replies: PostReply[];
+}
+
+const MAX_REPLIES = 200;
+export const MAX_REPLY_LENGTH = 500;
+
+const emptyThread = (): PostThread => ({ reactions: {}, replies: [] });
+
+export function threadView(thread: PostThread | undefined, viewerId?: string | null): ThreadView {
+  const t = thread ?? emptyThread();
+  const entries = Object.entries(t.reactions) as [ReactionId, string[]][];
+  return {
+    reactions: Object.fromEntries(entries.filter(([, ids]) => ids.length).map(([r, ids]) => [r, ids.length])),
+    mine: viewerId ? entries.filter(([, ids]) => ids.includes(viewerId)).map(([r]) => r) : [],
+    replies: t.replies,
+  };
+}
+
+/**
+ * Applies a change to one post's thread. Null when the post is not live, so
+ * nobody can react to a draft by guessing its id. Threads whose post has aged
+ * out of the store are dropped on the way.
+ */
+async function editThread(
+  postId: string,
+  change: (thread: PostThread, post: FeedPost) => void,
+): Promise<{ thread: PostThread; post: FeedPost } | null> {
+  const [posts, threads] = await Promise.all([
+    readJson<FeedPost[]>(POSTS_KEY, POSTS_FILE, []),
+    readJson<Record<string, PostThread>>(THREADS_KEY, THREADS_FILE, {}),
+  ]);
+  const post = posts.find(p => p.id === postId);
+  if (!post || !isLive(post) || new Date(post.publishAt).getTime() > Date.now()) return null;
+
+  const thread = threads[postId] ?? emptyThread();
+  change(thread, post);
+  const ids = new Set(posts.map(p => p.id));
+  const kept = Object.fromEntries(Object.entries(threads).filter(([id]) => ids.has(id)));
+  await writeJson(THREADS_KEY, THREADS_FILE, { ...kept, [postId]: thread });
+  return { thread, post };
+}
+
+/** Threads for the given posts, by post id. Posts nobody has touched are absent. */
+export async function getThreads(postIds: string[]): Promise<Record<string, PostThread>> {
+  const threads = await readJson<Record<string, PostThread>>(THREADS_KEY, THREADS_FILE, {});
+  return Object.fromEntries(postIds.filter(id => threads[id]).map(id => [id, threads[id]]));
+}
+
+/** Adds the manager's reaction, or takes it back if they had already left it. */
+export async function toggleReaction(postId: string, reaction: ReactionId, userId: string): Promise<PostThread | null> {
+  const edited = await editThread(postId, thread => {
+    const ids = thread.reactions[reaction] ?? [];
+    thread.reactions[reaction] = ids.includes(userId) ? ids.filter(id => id !== userId) : [...ids, userId];
+  });
+  return edited?.thread ?? null;
+}
+
+/**
+ * Adds a reply under a post, attaching an answer to a nested reply to that
+ * reply's parent. Returns the stored reply with the thread and post, or null
+ * when the post is not live.
+ */
+export async function addReply(
+  postId: string,
+  input: { author: ReplyAuthor; text: string; parentId?: string },
+): Promise<{ reply: PostReply; thread: PostThread; post: FeedPost } | null> {
+  let reply: PostReply | undefined;
+  const edited = await editThread(postId, thread => {
+    const parent = input.parentId ? thread.replies.find(r => r.id === input.parentId) : undefined;
+    const rootId = parent ? (parent.parentId ?? parent.id) : undefined;
+    const now = new Date();
+    reply = {
+      id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      ...(rootId ? { parentId: rootId } : {}),
+      author: input.author,
+      text: input.text.trim().slice(0, MAX_REPLY_LENGTH),
+      createdAt: now.toISOString(),
+    };
+    thread.replies = [...thread.replies, reply].slice(-MAX_REPLIES);
+  });
+  return edited && reply ? { reply, ...edited } : null;
+}
+
+/** Removes a reply and anything nested under it. Returns the reply, or null if there was none. */
+export async function deleteReply(postId: string, replyId: string): Promise<PostReply | null> {
+  let removed: PostReply | undefined;
+  await editThread(postId, thread => {
+    removed = thread.replies.find(r => r.id === replyId);
+    if (removed) thread.replies = thread.replies.filter(r => r.id !== replyId && r.parentId !== replyId);
+  });
+  return removed ?? null;
+}
+
+/** Marks a thread as argued over, so the scheduler moves on to other posts. */
+export async function markArgued(postId: string): Promise<void> {
+  await editThread(postId, thread => { thread.argumentAt = new Date().toISOString(); });
+}
+
+/**
+ * Live posts from the last `withinMs` that managers have engaged with, most
+ * engaged first: a reaction counts one, a manager's reply two. Posts argued
+ * over in the same window are left out, as are posts nobody has touched.
+ */
+export async function getPopularPosts(withinMs: number, limit: number): Promise<FeedPost[]> {
+  const since = Date.now() - withinMs;
+  const [posts, threads] = await Promise.all([
+    getPosts(MAX_POSTS),
+    readJson<Record<string, PostThread>>(THREADS_KEY, THREADS_FILE, {}),
+  ]);
+  const score = (t: PostThread) =>
+    Object.values(t.reactions).reduce((n, ids) => n + (ids?.length ?? 0), 0) +
+    2 * t.replies.filter(r => r.author.kind === 'manager').length;
+  return posts
+    .filter(p => new Date(p.publishAt).getTime() >= since)
+    .flatMap(p => {
+      const t = threads[p.id];
+      if (!t || (t.argumentAt && new Date(t.argumentAt).getTime() >= since)) return [];
+      const s = score(t);
+      return s > 0 ? [{ post: p, s }] : [];
+    })
+    .sort((a, b) => b.s - a.s)
+    .slice(0, limit)
+    .map(x => x.post);
+}
+
+// ── Trade watch ────────────────────────────────────────────────────────────
+
+/** How far the trade watcher has read a league's transactions. */
+export interface TradeWatchMark {
+  /** status_updated of the newest trade already taken. */
+  since: number;
+  /** transaction_ids taken lately, so a trade completing in the same
+   *  millisecond as the mark is not mistaken for one already covered. */
+  seen: string[];
+}
+
+const TRADE_WATCH_KEY = 'lp_ai_trade_watch';
+const TRADE_WATCH_FILE = path.join(DATA_DIR, 'ai-trade-watch.json');
+
+/** Null until the watcher first runs against the league. */
+export async function getTradeWatchMark(leagueId: string): Promise<TradeWatchMark | null> {
+  const all = await readJson<Record<string, TradeWatchMark>>(TRADE_WATCH_KEY, TRADE_WATCH_FILE, {});
+  return all[leagueId] ?? null;
+}
+
+export async function saveTradeWatchMark(leagueId: string, mark: TradeWatchMark): Promise<void> {
+  const all = await readJson<Record<string, TradeWatchMark>>(TRADE_WATCH_KEY, TRADE_WATCH_FILE, {});
+  await writeJson(TRADE_WATCH_KEY, TRADE_WATCH_FILE, { ...all, [leagueId]: mark });
+}
+
+/** Claims outlive the two weeks of transactions the watcher reads. */
+const TRADE_CLAIM_TTL_S = 30 * 24 * 60 * 60;
+const TRADE_CLAIMS_DIR = path.join(DATA_DIR, 'ai-trade-claims');
+
+/**
+ * Takes a trade for coverage. True for exactly one caller per trade, however
+ * many runs overlap: Redis SET NX, or an exclusive file create without it.
+ * The mark above is read-then-write and cannot promise that on its own.
+ */
+export async function claimTrade(leagueId: string, transactionId: string): Promise<boolean> {
+  const { client, backend } = getRedis();
+  if (client) {
+    try {
+      return await client.setIfAbsent(
+        `lp_ai_trade_claim_${leagueId}_${transactionId}`, new Date().toISOString(), TRADE_CLAIM_TTL_S);
+    } catch (err) {
+      throw new StorageUnavailableError(
+        `${backend} write failed: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  try {
+    await fs.mkdir(TRADE_CLAIMS_DIR, { recursive: true });
+    await fs.writeFile(
+      path.join(TRADE_CLAIMS_DIR, `${leagueId}-${transactionId}`), new Date().toISOString(), { flag: 'wx' });
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') return false;
+    throw new StorageUnavailableError(err instanceof Error ? err.message : String(err));
+  }
+}
+
 // ── Assistant ──────────────────────────────────────────────────────────────
 
 export interface AssistantConfig {
@@ -209,7 +531,7 @@ export async function saveAssistant(config: AssistantConfig): Promise<void> {
  *  they existed cannot have opted in, so they are granted to whoever already
  *  writes long-form. Pre-existing kinds are left exactly as saved, so an admin
  *  who deliberately unchecked one keeps that choice. */
-const NEW_KINDS: ContentKind[] = ['powerRankings', 'predictions'];
+const NEW_KINDS: ContentKind[] = ['powerRankings', 'predictions', 'matchupPreview', 'weeklyRecap'];
 
 export async function getPersonalities(): Promise<Personality[]> {
   const saved = await readJson<Personality[] | null>(PEOPLE_KEY, PEOPLE_FILE, null);
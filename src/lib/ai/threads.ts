@@ -0,0 +1,101 @@
+/**
+ * Server-only: personas talking in the comments under desk posts.
+ *
+ * A persona answers whoever it was addressed by, with the branch of the thread
+ * it is answering as context, and the scheduler starts the occasional
+ * argument between two of them under whatever managers are engaging with.
+ * Every reply goes through writeComment, so it is fact-checked like a post.
+ */
+import { personaAvatarUrl } from './avatar';
+import { writeComment, type ThreadMessage } from './generate';
+import type { Personality } from './personalities';
+import { addReply, markArgued, type FeedPost, type PostReply, type PostThread } from './store';
+
+/** Turns in a scheduled argument: an opening shot, the answer, the last word. */
+const ARGUMENT_TURNS = 3;
+
+/** What the post says, for the prompt: a short post's text, or a long piece's headline. */
+function postSummary(post: FeedPost): string {
+  const c = (post.content ?? {}) as Record<string, unknown>;
+  const text = [c.text, c.headline, c.standfirst, c.verdict].filter(v => typeof v === 'string' && v).join('. ');
+  return `${post.personaName} (${post.kind === 'tweet' || post.kind === 'comment' ? 'post' : post.kind}): ${text}`;
+}
+
+const authorName = (r: PostReply) => (r.author.kind === 'manager' ? r.author.teamName : r.author.name);
+
+/** The branch a reply belongs to: the top-level reply and everything under it, oldest first. */
+function branch(thread: PostThread, rootId?: string): ThreadMessage[] {
+  if (!rootId) return [];
+  return thread.replies
+    .filter(r => r.id === rootId || r.parentId === rootId)
+    .map(r => ({ author: authorName(r), text: r.text }));
+}
+
+/**
+ * The persona a manager's reply is addressed to: the author of the reply it
+ * answered, or the post's author when it answered the post. Null when it
+ * answered another manager, which is their conversation to have.
+ */
+export function addresseeOf(post: FeedPost, thread: PostThread, answeredId?: string): string | null {
+  if (!answeredId) return post.personalityId;
+  const answered = thread.replies.find(r => r.id === answeredId);
+  return answered?.author.kind === 'persona' ? answered.author.personalityId : null;
+}
+
+/**
+ * Writes a persona's reply in a branch of the thread and stores it. With no
+ * rootId it starts a new top-level reply to the post.
+ */
+export async function replyAsPersona(
+  persona: Personality,
+  post: FeedPost,
+  thread: PostThread,
+  rootId?: string,
+): Promise<{ reply: PostReply; thread: PostThread } | null> {
+  const { text } = await writeComment(persona, postSummary(post), branch(thread, rootId));
+  const added = await addReply(post.id, {
+    author: {
+      kind: 'persona',
+      personalityId: persona.id,
+      name: persona.name,
+      handle: persona.handle,
+      accent: persona.accent,
+      avatar: personaAvatarUrl(persona),
+    },
+    text,
+    parentId: rootId,
+  });
+  return added && { reply: added.reply, thread: added.thread };
+}
+
+/**
+ * Two personas arguing under a post: one who did not write it opens, the
+ * author (or, if they are off the desk, a third) answers, and the opener gets
+ * the last word. Stops at `deadline` between turns, keeping what was written.
+ * Returns the number of replies posted.
+ */
+export async function seedArgument(
+  post: FeedPost,
+  thread: PostThread,
+  people: Personality[],
+  deadline: number,
+): Promise<number> {
+  const commenters = people.filter(p => p.enabled && p.kinds.includes('comment')).sort(() => Math.random() - 0.5);
+  const opener = commenters.find(p => p.id !== post.personalityId);
+  const answerer = commenters.find(p => p.id === post.personalityId)
+    ?? commenters.find(p => p.id !== opener?.id);
+  if (!opener || !answerer) return 0;
+
+  await markArgued(post.id);
+  let current = thread;
+  let rootId: string | undefined;
+  let posted = 0;
+  for (let turn = 0; turn < ARGUMENT_TURNS && Date.now() < deadline; turn++) {
+    const added = await replyAsPersona(turn % 2 === 0 ? opener : answerer, post, current, rootId);
+    if (!added) break;
+    current = added.thread;
+    rootId ??= added.reply.id;
+    posted++;
+  }
+  return posted;
+}
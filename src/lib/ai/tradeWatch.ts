@@ -0,0 +1,238 @@
+/**
+ * Server-only: the desk reacting to trades as they go through.
+ *
+ * Each run reads the last two weeks of transactions and compares them against
+ * a high-water mark kept in the store. Every trade past the mark gets a grade
+ * from a writer who grades trades and a couple of posts from others, one per
+ * side where it can, all through the same fact check as the rest of the desk.
+ * A trade is claimed in the store, atomically, before anything is written, so
+ * an overlapping or repeated run never covers it twice; the mark only saves
+ * re-reading what is long done. A trade whose pieces fail is not retried; the
+ * watcher moves on, as the daily batch does.
+ *
+ * Runs come from the feed, which sets one off at most every few minutes while
+ * anyone is reading it, and from the daily cron route. Neither knows which
+ * league a trade might be in, so both go through every configured chain, and
+ * every league read here is by the ID passed in rather than the request's.
+ */
+import { getCurrentLeagueId, LEAGUE_CHAINS } from '@/config/league';
+import { getLeagueInfo, getLeagueTransactions, getNFLState } from '@/lib/api';
+import { getLeagueManagers } from '@/lib/managerContext';
+import { getPlayersDirectory } from '@/lib/playerStats';
+import { rateLimit } from '@/lib/rateLimit';
+import type { SleeperTransaction } from '@/types/sleeper';
+import { personaAvatarUrl } from './avatar';
+import { loadTradeFacts } from './factCheck';
+import { gradeTrade, writeTweet, type TradeForGrading } from './generate';
+import { buildLeagueBrief } from './leagueBrief';
+import type { ContentKind, Personality } from './personalities';
+import {
+  addPost, claimTrade, getPersonalities, getTradeWatchMark, isReviewRequired, saveTradeWatchMark,
+  type FeedPost,
+} from './store';
+
+/** Grading uses the slow model; two trades is what fits in one invocation. */
+const MAX_TRADES_PER_RUN = 2;
+const TWEETS_PER_TRADE = 2;
+/** transaction_ids remembered next to the mark. Trades are rare; this is weeks of them. */
+const SEEN_KEPT = 50;
+/** How often the feed may set off a run. */
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+export const tradeKey = (transactionId: string) => `tradeGrade:${transactionId}`;
+
+export interface TradeCoverage {
+  transactionId: string;
+  graded: boolean;
+  tweets: number;
+  /** Set when another run had claimed the trade and nothing was written. */
+  skipped?: 'already-claimed';
+}
+
+export interface TradeWatchResult {
+  /** First run against the league: the mark was set and nothing written, so
+   *  switching the watcher on does not grade the back catalogue. */
+  primed?: boolean;
+  trades: TradeCoverage[];
+}
+
+/** One chain's part of a run over every league. */
+export interface LeagueTradeWatch extends TradeWatchResult {
+  chain: string;
+  leagueId: string;
+  /** Set when the league could not be read; the other chains still ran. */
+  error?: string;
+}
+
+/** Completed trades from this week and last, oldest first. */
+async function recentTrades(leagueId: string): Promise<SleeperTransaction[]> {
+  const week = Math.max(1, (await getNFLState()).week ?? 1);
+  const batches = await Promise.all(
+    [...new Set([Math.max(1, week - 1), week])].map(w => getLeagueTransactions(leagueId, w)),
+  );
+  return batches.flat()
+    .filter(tx => tx.type === 'trade' && tx.status === 'complete')
+    .sort((a, b) => a.status_updated - b.status_updated);
+}
+
+/** A completed trade as gradeTrade takes it: who got and gave what, by team. */
+async function describeTrade(leagueId: string, tx: SleeperTransaction): Promise<TradeForGrading> {
+  const [league, managers, players] = await Promise.all([
+    getLeagueInfo(leagueId),
+    getLeagueManagers(leagueId),
+    getPlayersDirectory().catch((): Record<string, never> => ({})),
+  ]);
+  const teamName = (rosterId: number) => managers.find(m => m.rosterId === rosterId)?.teamName ?? `Team ${rosterId}`;
+  const playerName = (id: string) => {
+    const p = players[id];
+    return p ? `${`${p.first_name ?? ''} ${p.last_name ?? ''}`.trim()} (${p.fantasy_positions?.[0] ?? p.position ?? '?'})` : `Player ${id}`;
+  };
+  const moved = (map: Record<string, number> | null, rosterId: number) =>
+    Object.entries(map ?? {}).filter(([, rid]) => rid === rosterId).map(([pid]) => playerName(pid));
+  const pick = (p: { season: string; round: number }) => `${p.season} Round ${p.round} pick`;
+
+  return {
+    season: league.season,
+    week: tx.leg,
+    leagueId,
+    sides: tx.roster_ids.map(rosterId => ({
+      teamName: teamName(rosterId),
+      receives: [...moved(tx.adds, rosterId), ...(tx.draft_picks ?? []).filter(p => p.owner_id === rosterId).map(pick)],
+      gives: [...moved(tx.drops, rosterId), ...(tx.draft_picks ?? []).filter(p => p.previous_owner_id === rosterId).map(pick)],
+    })),
+  };
+}
+
+function postFor(persona: Personality, kind: ContentKind, content: unknown, extra: Partial<FeedPost>): FeedPost {
+  const now = new Date().toISOString();
+  return {
+    id: `${Date.now()}-${persona.id}-${kind}`,
+    personalityId: persona.id,
+    personaName: persona.name,
+    personaHandle: persona.handle,
+    personaAccent: persona.accent,
+    personaAvatar: personaAvatarUrl(persona),
+    kind,
+    content,
+    createdAt: now,
+    // A trade is news now; with review on it waits in the inbox like the rest.
+    publishAt: now,
+    source: 'cron',
+    status: isReviewRequired() ? 'draft' : 'approved',
+    ...extra,
+  };
+}
+
+const shuffled = <T>(list: T[]) => [...list].sort(() => Math.random() - 0.5);
+
+/** The grade and the reaction posts for one trade. Failures are logged, not thrown. */
+async function cover(leagueId: string, tx: SleeperTransaction, people: Personality[]): Promise<TradeCoverage> {
+  const coverage: TradeCoverage = { transactionId: tx.transaction_id, graded: false, tweets: 0 };
+  const trade = await describeTrade(leagueId, tx);
+
+  const grader = shuffled(people.filter(p => p.kinds.includes('tradeGrade')))[0];
+  if (grader) {
+    try {
+      const grade = await gradeTrade(grader, trade);
+      await addPost(postFor(grader, 'tradeGrade', grade, { eventKey: tradeKey(tx.transaction_id) }));
+      coverage.graded = true;
+    } catch (err) {
+      console.error(`[trade-watch] grade of ${tx.transaction_id} failed:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  const tweeters = shuffled(people.filter(p => p.kinds.includes('tweet') && p.id !== grader?.id));
+  for (let i = 0; i < Math.min(TWEETS_PER_TRADE, tweeters.length); i++) {
+    const side = trade.sides[i % trade.sides.length];
+    const others = trade.sides.filter(s => s !== side).map(s => s.teamName).join(' and ');
+    const angle = `the trade ${side.teamName} just made with ${others}: they get ` +
+      `${side.receives.join(', ') || 'nothing'} and give up ${side.gives.join(', ') || 'nothing'}`;
+    try {
+      const tweet = await writeTweet(tweeters[i], side.teamName, angle, leagueId);
+      await addPost(postFor(tweeters[i], 'tweet', tweet, {
+        subject: side.teamName,
+        eventKey: `${tradeKey(tx.transaction_id)}:tweet:${i}`,
+      }));
+      coverage.tweets++;
+    } catch (err) {
+      console.error(`[trade-watch] post ${i} on ${tx.transaction_id} failed:`, err instanceof Error ? err.message : err);
+    }
+  }
+  return coverage;
+}
+
+/**
+ * Covers every trade past the league's mark, oldest first, up to
+ * MAX_TRADES_PER_RUN. Stops taking new trades at `deadline`; the rest wait for
+ * the next run.
+ */
+export async function watchTrades(leagueId: string, deadline: number): Promise<TradeWatchResult> {
+  const trades = await recentTrades(leagueId);
+  let mark = await getTradeWatchMark(leagueId);
+  if (!mark) {
+    await saveTradeWatchMark(leagueId, {
+      since: Math.max(0, ...trades.map(tx => tx.status_updated)),
+      seen: trades.map(tx => tx.transaction_id).slice(-SEEN_KEPT),
+    });
+    return { primed: true, trades: [] };
+  }
+
+  const { since, seen } = mark;
+  const fresh = trades
+    .filter(tx => tx.status_updated >= since && !seen.includes(tx.transaction_id))
+    .slice(0, MAX_TRADES_PER_RUN);
+  if (!fresh.length) return { trades: [] };
+
+  // The brief and the trade checker cache for minutes; a trade that just went
+  // through would be missing from both, and a correct grade flagged as false.
+  await Promise.all([buildLeagueBrief(true, leagueId), loadTradeFacts(true, leagueId)]);
+  const people = (await getPersonalities()).filter(p => p.enabled);
+
+  const covered: TradeCoverage[] = [];
+  for (const tx of fresh) {
+    if (Date.now() > deadline) break;
+    const claimed = await claimTrade(leagueId, tx.transaction_id);
+    mark = {
+      since: Math.max(mark.since, tx.status_updated),
+      seen: [...mark.seen, tx.transaction_id].slice(-SEEN_KEPT),
+    };
+    await saveTradeWatchMark(leagueId, mark);
+
+    if (!claimed) {
+      covered.push({ transactionId: tx.transaction_id, graded: false, tweets: 0, skipped: 'already-claimed' });
+      continue;
+    }
+    covered.push(await cover(leagueId, tx, people));
+  }
+  return { trades: covered };
+}
+
+/**
+ * Runs the watcher over the current league of every configured chain, one
+ * after another, until `deadline`.
+ */
+export async function watchAllLeagues(deadline: number): Promise<LeagueTradeWatch[]> {
+  const results: LeagueTradeWatch[] = [];
+  for (const chain of LEAGUE_CHAINS) {
+    if (Date.now() > deadline) break;
+    const leagueId = await getCurrentLeagueId(chain.key);
+    try {
+      results.push({ chain: chain.key, leagueId, ...(await watchTrades(leagueId, deadline)) });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`[trade-watch] ${chain.key} (${leagueId}) failed:`, msg);
+      results.push({ chain: chain.key, leagueId, trades: [], error: msg });
+    }
+  }
+  return results;
+}
+
+/**
+ * Runs every league's watcher at most once per POLL_INTERVAL_MS, whoever asks.
+ * Vercel's Hobby plan only schedules daily, so the feed calls this after
+ * serving readers; that is what gets a trade covered within minutes.
+ */
+export async function pollTrades(deadline: number): Promise<void> {
+  const { ok } = await rateLimit('lp_ai_trade_watch_rl', 1, POLL_INTERVAL_MS);
+  if (ok) await watchAllLeagues(deadline);
+}
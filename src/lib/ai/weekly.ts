@@ -0,0 +1,319 @@
+/**
+ * Server-only: the facts behind the desk's weekly pieces, the matchup
+ * preview and the recap.
+ *
+ * The writers supply the takes; every number they are rendered beside comes
+ * from here, so a preview's lineups and projections and a recap's scores are
+ * the league's, never the model's. The same slate is handed to the writer as
+ * its brief and stored with the post for DeskView to draw.
+ */
+import { getLeagueInfo, getLeagueMatchups, getLeagueRosters, getLeagueUsers, getNFLState } from '@/lib/api';
+import { getLineupAdvice } from '@/lib/lineupOptimizer';
+import { optimalPoints } from '@/lib/lineupHistory';
+import { isStartingSlot } from '@/lib/lineupSlots';
+import { getPlayersDirectory } from '@/lib/playerStats';
+import { getProjections } from '@/lib/projections';
+import type { SleeperMatchup } from '@/types/sleeper';
+
+export interface PreviewStarter {
+  slot: string;
+  name: string;
+  position: string;
+  nflTeam: string;
+  projected: number;
+  injury: string | null;
+}
+
+export interface PreviewTeam {
+  teamName: string;
+  /** The lineup as set, player by player. */
+  lineupProjected: number;
+  /** The season model's expectation for the team, when the week is in it. */
+  modelProjected: number | null;
+  starters: PreviewStarter[];
+}
+
+export interface PreviewMatchup {
+  matchupId: number;
+  teams: [PreviewTeam, PreviewTeam];
+  /** Chance teams[0] wins, 0-1; null outside the regular season. */
+  winProbability: number | null;
+}
+
+export interface PreviewSlate {
+  season: string;
+  week: number;
+  matchups: PreviewMatchup[];
+}
+
+export interface RecapResult {
+  matchupId: number;
+  teams: [{ teamName: string; points: number }, { teamName: string; points: number }];
+  winner: string;
+  margin: number;
+}
+
+export interface RecapScorer {
+  name: string;
+  position: string;
+  teamName: string;
+  points: number;
+}
+
+export interface BenchBlunder {
+  teamName: string;
+  /** Optimal lineup minus the lineup that was set. */
+  pointsLeft: number;
+  /** The benched player who scored most. */
+  benched: { name: string; points: number };
+  /** Set when the best lineup would have won a game that was lost. */
+  costGame: boolean;
+}
+
+export interface RecapUpset {
+  winner: string;
+  loser: string;
+  /** Each side's average score in the weeks before this one. */
+  winnerAverage: number;
+  loserAverage: number;
+}
+
+export interface RecapSlate {
+  season: string;
+  week: number;
+  results: RecapResult[];
+  topScorers: RecapScorer[];
+  benchBlunders: BenchBlunder[];
+  closestGame: RecapResult | null;
+  biggestUpset: RecapUpset | null;
+}
+
+const TOP_SCORERS = 5;
+const BLUNDERS = 3;
+/** Smaller gaps between the lineup set and the best one are noise, not a blunder. */
+const MIN_BLUNDER_POINTS = 5;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function pairs(matchups: SleeperMatchup[]): [SleeperMatchup, SleeperMatchup][] {
+  const byId = new Map<number, SleeperMatchup[]>();
+  for (const m of matchups) {
+    if (!m.matchup_id) continue;
+    byId.set(m.matchup_id, [...(byId.get(m.matchup_id) ?? []), m]);
+  }
+  return [...byId.values()]
+    .filter((p): p is [SleeperMatchup, SleeperMatchup] => p.length === 2)
+    .sort(([a], [b]) => a.matchup_id - b.matchup_id);
+}
+
+const scored = (week: SleeperMatchup[]) => {
+  const games = pairs(week);
+  return games.length > 0 && games.every(([a, b]) => a.points > 0 && b.points > 0);
+};
+
+async function teamNames(leagueId: string): Promise<Map<number, string>> {
+  const [rosters, users] = await Promise.all([getLeagueRosters(leagueId), getLeagueUsers(leagueId)]);
+  const userById = new Map(users.map(u => [u.user_id, u]));
+  return new Map(rosters.map(r => {
+    const u = r.owner_id ? userById.get(r.owner_id) : undefined;
+    return [r.roster_id as number, u?.metadata?.team_name || u?.display_name || `Team ${r.roster_id}`];
+  }));
+}
+
+const playerName = (players: Record<string, { full_name?: string; first_name?: string; last_name?: string }>, id: string) => {
+  const p = players[id] ?? {};
+  return p.full_name || [p.first_name, p.last_name].filter(Boolean).join(' ') || id;
+};
+
+/** A key for the event a weekly piece covers, so a re-run does not cover it twice. */
+export const weeklyKey = (kind: 'matchupPreview' | 'weeklyRecap', season: string, week: number) =>
+  `${kind}:${season}:${week}`;
+
+/**
+ * The week a recap covers: the latest one with every game scored. On a
+ * Tuesday that is the week Sleeper still reports, or the one before it once
+ * Sleeper has moved on.
+ */
+export async function recapWeek(leagueId: string): Promise<number | null> {
+  const state = await getNFLState();
+  for (let week = state.week; week >= Math.max(1, state.week - 1); week--) {
+    if (scored(await getLeagueMatchups(leagueId, week))) return week;
+  }
+  return null;
+}
+
+/** The finished week, from the scoreboard alone. Null when there is nothing to recap. */
+export async function buildRecapSlate(leagueId: string, week?: number): Promise<RecapSlate | null> {
+  const target = week ?? await recapWeek(leagueId);
+  if (!target) return null;
+  const [league, names, players, weeks] = await Promise.all([
+    getLeagueInfo(leagueId),
+    teamNames(leagueId),
+    getPlayersDirectory(),
+    Promise.all(Array.from({ length: target }, (_, i) => getLeagueMatchups(leagueId, i + 1).catch(() => [] as SleeperMatchup[]))),
+  ]);
+  const games = pairs(weeks[target - 1]);
+  if (!games.length || !scored(weeks[target - 1])) return null;
+  const slots: string[] = (league?.roster_positions ?? []).filter(isStartingSlot);
+  const name = (m: SleeperMatchup) => names.get(m.roster_id) ?? `Team ${m.roster_id}`;
+
+  const results: RecapResult[] = games.map(([a, b]) => ({
+    matchupId: a.matchup_id,
+    teams: [{ teamName: name(a), points: round2(a.points) }, { teamName: name(b), points: round2(b.points) }],
+    winner: a.points >= b.points ? name(a) : name(b),
+    margin: round2(Math.abs(a.points - b.points)),
+  }));
+
+  const topScorers = games.flat()
+    .flatMap(m => (m.starters ?? []).filter(id => id && id !== '0').map(id => ({
+      name: playerName(players, id),
+      position: players[id]?.position ?? (/^[A-Z]{2,3}$/.test(id) ? 'DEF' : ''),
+      teamName: name(m),
+      points: round2(m.players_points?.[id] ?? 0),
+    })))
+    .sort((x, y) => y.points - x.points)
+    .slice(0, TOP_SCORERS);
+
+  const benchBlunders = games.flatMap(pair => pair.map((m, i): BenchBlunder | null => {
+    if (!m.players_points || !slots.length) return null;
+    const pointsLeft = round2(optimalPoints(m, slots, players) - m.points);
+    const starters = new Set(m.starters ?? []);
+    const best = (m.players ?? [])
+      .filter(id => !starters.has(id))
+      .map(id => ({ name: playerName(players, id), points: round2(m.players_points?.[id] ?? 0) }))
+      .sort((x, y) => y.points - x.points)[0];
+    if (pointsLeft < MIN_BLUNDER_POINTS || !best) return null;
+    const opponent = pair[1 - i];
+    return {
+      teamName: name(m),
+      pointsLeft,
+      benched: best,
+      costGame: m.points < opponent.points && m.points + pointsLeft > opponent.points,
+    };
+  }))
+    .filter((b): b is BenchBlunder => !!b)
+    .sort((x, y) => y.pointsLeft - x.pointsLeft)
+    .slice(0, BLUNDERS);
+
+  const closestGame = [...results].sort((x, y) => x.margin - y.margin)[0] ?? null;
+
+  // An upset is the winner who had been scoring least next to the loser
+  // going in. Week one has no form to upset.
+  const form = new Map<number, { total: number; games: number }>();
+  for (const m of weeks.slice(0, target - 1).flat()) {
+    if (!m.matchup_id || !(m.points > 0)) continue;
+    const f = form.get(m.roster_id) ?? { total: 0, games: 0 };
+    form.set(m.roster_id, { total: f.total + m.points, games: f.games + 1 });
+  }
+  const avg = (m: SleeperMatchup) => {
+    const f = form.get(m.roster_id);
+    return f ? f.total / f.games : null;
+  };
+  const upsets = games.flatMap(([a, b]) => {
+    const [w, l] = a.points >= b.points ? [a, b] : [b, a];
+    const wa = avg(w), la = avg(l);
+    return wa !== null && la !== null && la > wa
+      ? [{ winner: name(w), loser: name(l), winnerAverage: round2(wa), loserAverage: round2(la) }]
+      : [];
+  });
+  const biggestUpset = upsets.sort((x, y) => (y.loserAverage - y.winnerAverage) - (x.loserAverage - x.winnerAverage))[0] ?? null;
+
+  return {
+    season: String(league?.season ?? ''),
+    week: target,
+    results,
+    topScorers,
+    benchBlunders,
+    closestGame,
+    biggestUpset,
+  };
+}
+
+/**
+ * The coming week: each matchup with both lineups as they are set, every
+ * starter's projection, and the season model's odds. Null when the week has
+ * no matchups, as in the offseason.
+ */
+export async function buildPreviewSlate(leagueId: string, rootLeagueId: string): Promise<PreviewSlate | null> {
+  const advice = await getLineupAdvice(leagueId);
+  const week = advice[0]?.week;
+  if (!week) return null;
+  const [league, names, matchups, projections] = await Promise.all([
+    getLeagueInfo(leagueId),
+    teamNames(leagueId),
+    getLeagueMatchups(leagueId, week),
+    getProjections(leagueId, rootLeagueId).catch(err => {
+      console.warn('[weekly] projections skipped:', err instanceof Error ? err.message : err);
+      return null;
+    }),
+  ]);
+  const adviceByRoster = new Map(advice.map(a => [a.rosterId, a]));
+
+  const team = (m: SleeperMatchup, modelProjected: number | null): PreviewTeam => {
+    const a = adviceByRoster.get(m.roster_id);
+    return {
+      teamName: names.get(m.roster_id) ?? `Team ${m.roster_id}`,
+      lineupProjected: a?.currentProjected ?? 0,
+      modelProjected,
+      starters: (a?.slots ?? []).flatMap(s => s.current ? [{
+        slot: s.slot,
+        name: s.current.name,
+        position: s.current.position,
+        nflTeam: s.current.nflTeam,
+        projected: s.current.projected,
+        injury: s.current.injury,
+      }] : []),
+    };
+  };
+
+  const out = pairs(matchups).map(([a, b]): PreviewMatchup => {
+    const projected = projections?.matchups.find(p => p.week === week && p.matchupId === a.matchup_id);
+    const sideFor = (m: SleeperMatchup) => projected?.teams.find(t => t.rosterId === m.roster_id)?.projected ?? null;
+    const aFirst = !projected || projected.teams[0].rosterId === a.roster_id;
+    return {
+      matchupId: a.matchup_id,
+      teams: [team(a, sideFor(a)), team(b, sideFor(b))],
+      winProbability: projected ? (aFirst ? projected.winProbability : round2(1 - projected.winProbability)) : null,
+    };
+  });
+  if (!out.length) return null;
+  return { season: String(league?.season ?? ''), week, matchups: out };
+}
+
+/** The slate as plain lines for a writer's prompt. */
+export function previewBrief(slate: PreviewSlate): string {
+  return slate.matchups.map(m => {
+    const [a, b] = m.teams;
+    const odds = m.winProbability !== null
+      ? ` Model odds: ${a.teamName} ${Math.round(m.winProbability * 100)}%, ${b.teamName} ${Math.round((1 - m.winProbability) * 100)}%.`
+      : '';
+    const lineup = (t: PreviewTeam) =>
+      `${t.teamName} (lineup projects ${t.lineupProjected}${t.modelProjected !== null ? `, season model ${t.modelProjected}` : ''}): ` +
+      t.starters.map(s => `${s.slot} ${s.name} ${s.position} ${s.nflTeam} ${s.projected}${s.injury ? ` [${s.injury}]` : ''}`).join('; ');
+    return `MATCHUP ${m.matchupId}.${odds}\n  ${lineup(a)}\n  ${lineup(b)}`;
+  }).join('\n');
+}
+
+/** The slate as plain lines for a writer's prompt. */
+export function recapBrief(slate: RecapSlate): string {
+  const lines = [
+    'RESULTS:',
+    ...slate.results.map(r =>
+      `  MATCHUP ${r.matchupId}: ${r.teams[0].teamName} ${r.teams[0].points}, ${r.teams[1].teamName} ${r.teams[1].points} (${r.winner} by ${r.margin})`),
+    'TOP SCORERS:',
+    ...slate.topScorers.map(s => `  ${s.name} (${s.position}, ${s.teamName}) ${s.points}`),
+  ];
+  if (slate.benchBlunders.length) {
+    lines.push('BENCH BLUNDERS:', ...slate.benchBlunders.map(b =>
+      `  ${b.teamName} left ${b.pointsLeft} on the bench; ${b.benched.name} scored ${b.benched.points} sitting down${b.costGame ? '. It cost them the game' : ''}`));
+  }
+  if (slate.closestGame) {
+    const c = slate.closestGame;
+    lines.push(`CLOSEST GAME: ${c.teams[0].teamName} ${c.teams[0].points}, ${c.teams[1].teamName} ${c.teams[1].points}`);
+  }
+  if (slate.biggestUpset) {
+    const u = slate.biggestUpset;
+    lines.push(`BIGGEST UPSET: ${u.winner} (averaging ${u.winnerAverage} before this week) beat ${u.loser} (averaging ${u.loserAverage})`);
+  }
+  return lines.join('\n');
+}
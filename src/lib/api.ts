@@ -7,8 +7,7 @@ import {
   SleeperMatchup,
   SleeperTransaction,
 } from "@/types/sleeper";
-
-const BASE_URL = 'https://api.sleeper.app/v1';
+import { getProvider } from './providers';
 
 // Cache for league IDs, TTL of 1 hour so warm serverless instances pick up
 // newly linked seasons (e.g. a new pre-draft league) without waiting for a cold start.
@@ -49,12 +48,10 @@ export async function getAllLinkedLeagueIds(leagueId: string): Promise<string[]>
       const fwdLeague = await getLeagueInfo(forwardId);
       if (!fwdLeague) break;
       const nextSeason = (parseInt(fwdLeague.season) + 1).toString();
-      const ownerLeagues: any[] = await fetch(
-        `${BASE_URL}/user/${currentOwner.user_id}/leagues/nfl/${nextSeason}`
-      )
-        .then(res => res.ok ? res.json() : [])
-        .catch(() => []);
-      const nextLeague = ownerLeagues.find((l: any) => l.previous_league_id === forwardId);
+      const ownerLeagues = await getProvider()
+        .getUserLeagues(currentOwner.user_id, nextSeason)
+        .catch(() => [] as SleeperLeague[]);
+      const nextLeague = ownerLeagues.find(l => l.previous_league_id === forwardId);
       if (!nextLeague) break;
       linkedIds.add(nextLeague.league_id);
       forwardId = nextLeague.league_id;
@@ -102,29 +99,17 @@ export async function getUserLeagues(userId: string, season?: string): Promise<S
     if (!owner) return [];
 
     const nextSeason = (parseInt(league.season) + 1).toString();
-    const response = await fetch(`${BASE_URL}/user/${owner.user_id}/leagues/nfl/${nextSeason}`);
-    if (!response.ok) return [];
-    return response.json();
+    return getProvider().getUserLeagues(owner.user_id, nextSeason).catch(() => []);
   }
 
   // When season is provided, fetch leagues for that season
-  const response = await fetch(`${BASE_URL}/user/${userId}/leagues/nfl/${season}`);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch user leagues: ${response.statusText}`);
-  }
-  return response.json();
+  return getProvider().getUserLeagues(userId, season);
 }
 
-export async function getLeagueInfo(leagueId: string) {
+export async function getLeagueInfo(leagueId: string): Promise<any> {
   try {
-    const response = await fetch(`${BASE_URL}/league/${leagueId}`);
-    if (!response.ok) {
-      if (response.status === 404) {
-        return null; // League not found
-      }
-      throw new Error(`Failed to fetch league info: ${response.status} ${response.statusText}`);
-    }
-    return await response.json();
+    // Null when the league does not exist
+    return await getProvider().getLeague(leagueId);
   } catch (error) {
     console.error(`Error fetching league ${leagueId}:`, error);
     throw error;
@@ -132,62 +117,33 @@ export async function getLeagueInfo(leagueId: string) {
 }
 
 export async function getLeagueUsers(leagueId: string): Promise<SleeperUser[]> {
-  const response = await fetch(`${BASE_URL}/league/${leagueId}/users`);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch league users: ${response.statusText}`);
-  }
-  return response.json();
+  return getProvider().getLeagueUsers(leagueId);
 }
 
-export async function getLeagueRosters(leagueId: string, season?: string): Promise<any[]> {
-  const response = await fetch(`https://api.sleeper.app/v1/league/${leagueId}${season ? `/${season}` : ''}/rosters`);
-  if (!response.ok) {
-    throw new Error('Failed to fetch league rosters');
-  }
-  return response.json();
+export async function getLeagueRosters(leagueId: string): Promise<any[]> {
+  return getProvider().getRosters(leagueId);
 }
 
 export async function getPlayoffBracket(leagueId: string): Promise<any> {
-  const response = await fetch(`https://api.sleeper.app/v1/league/${leagueId}/winners_bracket`);
-  if (!response.ok) {
-    // If winners bracket fails, try losers bracket
-    const losersResponse = await fetch(`https://api.sleeper.app/v1/league/${leagueId}/losers_bracket`);
-    if (!losersResponse.ok) {
-      throw new Error('Failed to fetch playoff bracket');
-    }
-    return { winners_bracket: null, losers_bracket: await losersResponse.json() };
-  }
-  
-  // Try to get both brackets
-  try {
-    const losersResponse = await fetch(`https://api.sleeper.app/v1/league/${leagueId}/losers_bracket`);
-    const losers_bracket = losersResponse.ok ? await losersResponse.json() : null;
-    return { 
-      winners_bracket: await response.json(), 
-      losers_bracket 
-    };
-  } catch (error) {
-    return { 
-      winners_bracket: await response.json(), 
-      losers_bracket: null 
-    };
+  const provider = getProvider();
+  const [winners_bracket, losers_bracket] = await Promise.all([
+    provider.getBracket(leagueId, 'winners').catch(() => null),
+    provider.getBracket(leagueId, 'losers').catch(() => null),
+  ]);
+  if (!winners_bracket && !losers_bracket) {
+    throw new Error('Failed to fetch playoff bracket');
   }
+  return { winners_bracket, losers_bracket };
 }
 
 export async function getLeagueMatchups(leagueId: string, week: number): Promise<SleeperMatchup[]> {
-  const response = await fetch(`${BASE_URL}/league/${leagueId}/matchups/${week}`);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch league matchups: ${response.statusText}`);
-  }
-  return response.json();
+  return getProvider().getMatchups(leagueId, week);
 }
 
 export async function getLeagueTransactions(leagueId: string, week: number): Promise<SleeperTransaction[]> {
   try {
-    const response = await fetch(`${BASE_URL}/league/${leagueId}/transactions/${week}`);
-    if (!response.ok) return [];
-    const data = await response.json();
-    return Array.isArray(data) ? data.filter((t: SleeperTransaction) => t.status === 'complete') : [];
+    const data = await getProvider().getTransactions(leagueId, week);
+    return Array.isArray(data) ? data.filter(t => t.status === 'complete') : [];
   } catch {
     return [];
   }
@@ -201,11 +157,7 @@ export async function getSeasonTransactions(leagueId: string, totalWeeks: number
 }
 
 export async function getNFLState(): Promise<SleeperNFLState> {
-  const response = await fetch(`${BASE_URL}/state/nfl`);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch NFL state: ${response.statusText}`);
-  }
-  return response.json();
+  return getProvider().getNFLState();
 }
 
 // New functions for multi-season support
@@ -230,8 +182,8 @@ export async function getAllLeagueSeasons(leagueId: string): Promise<string[]> {
 
     // Check for next season's league
     const nextSeason = (parseInt(currentLeague.season) + 1).toString();
-    const ownerLeagues = await fetch(`${BASE_URL}/user/${currentOwner.user_id}/leagues/nfl/${nextSeason}`).then(res => res.ok ? res.json() : []);
-    const nextLeague = ownerLeagues.find((l: any) => l.previous_league_id === leagueId);
+    const ownerLeagues = await getProvider().getUserLeagues(currentOwner.user_id, nextSeason).catch(() => []);
+    const nextLeague = ownerLeagues.find(l => l.previous_league_id === leagueId);
     if (nextLeague) {
       seasons.push(nextLeague.season);
     }
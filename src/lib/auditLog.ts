@@ -0,0 +1,50 @@
+/**
+ * Server-only: an append-only record of every change made from the admin
+ * panel: who made it, in which role, and what it touched.
+ *
+ * There is deliberately no way to edit or remove an entry. Each one is
+ * appended on its own (jsonStore's appendRecord), never by rewriting the log,
+ * so two admins acting at once both get recorded. Redis keeps the newest
+ * AUDIT_KEPT entries, years of them at the rate admins change things.
+ */
+import { appendRecord, readRecords } from './jsonStore';
+import type { AdminSession } from './adminAuth';
+
+export interface AuditEntry {
+  at: string;
+  actor: string;
+  role: AdminSession['role'];
+  /** e.g. 'theme.save', 'personalities.update', 'account.create'. */
+  action: string;
+  /** What was changed, when the action alone does not say: a post id, an account name. */
+  target?: string;
+  detail?: string;
+}
+
+const AUDIT_KEY = 'lp_admin_audit_log';
+const AUDIT_FILE = 'admin-audit.jsonl';
+const AUDIT_KEPT = 10_000;
+
+/**
+ * Records an admin change. Never throws: a change that has already been made
+ * is not undone because the log could not be written, but the failure is
+ * logged.
+ */
+export async function appendAudit(
+  admin: AdminSession,
+  action: string,
+  extra: { target?: string; detail?: string } = {},
+): Promise<void> {
+  const entry: AuditEntry = { at: new Date().toISOString(), actor: admin.name, role: admin.role, action, ...extra };
+  try {
+    await appendRecord(AUDIT_KEY, AUDIT_FILE, entry, AUDIT_KEPT);
+  } catch (err) {
+    console.error('[auditLog] failed to record', entry, err);
+  }
+}
+
+/** The most recent entries, newest first. */
+export async function listAudit(limit = 200): Promise<AuditEntry[]> {
+  const entries = await readRecords<AuditEntry>(AUDIT_KEY, AUDIT_FILE, limit);
+  return entries.reverse();
+}
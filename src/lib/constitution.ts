@@ -2,6 +2,9 @@ import fs from 'fs';
 import path from 'path';
 import matter from 'gray-matter';
 import { marked } from 'marked';
+import { JSDOM } from 'jsdom';
+import DOMPurify from 'dompurify';
+import { getProvider } from './providers';
 
 export interface ConstitutionMeta {
   version: string;
@@ -56,6 +59,10 @@ function slugify(text: string): string {
     .replace(/\s+/g, '-');
 }
 
+// Amendments are written by any manager, so the rendered markdown goes through
+// DOMPurify before the page puts it in the DOM.
+const purify = DOMPurify(new JSDOM('').window as unknown as Window & typeof globalThis);
+
 function stripHtml(html: string): string {
   return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
 }
@@ -88,17 +95,40 @@ export function parseLeagueSettings(raw: any, draftType: string | null = null):
   };
 }
 
-export function getMarkdownSections(): { meta: ConstitutionMeta; sections: ConstitutionSection[] } {
+/**
+ * A season's live Sleeper settings, with the draft type of its most recent
+ * draft (the league object does not carry it). Null when Sleeper has no such
+ * league.
+ */
+export async function fetchLeagueSettings(leagueId: string): Promise<LeagueSettings | null> {
+  const provider = getProvider();
+  const [leagueRaw, drafts] = await Promise.all([
+    provider.getLeague(leagueId),
+    provider.getDrafts(leagueId, { freshness: 'recent' }).catch(() => []),
+  ]);
+  if (!leagueRaw) return null;
+  const latestDraft = [...drafts].sort((a, b) => Number(b.season) - Number(a.season))[0];
+  return parseLeagueSettings(leagueRaw, latestDraft?.type ?? null);
+}
+
+/** The constitution as shipped in content/constitution.md: front matter and markdown body. */
+export function readConstitutionFile(): { meta: ConstitutionMeta; markdown: string } {
   const filePath = path.join(process.cwd(), 'content', 'constitution.md');
   const raw = fs.readFileSync(filePath, 'utf-8');
   const { data, content } = matter(raw);
 
-  const meta: ConstitutionMeta = {
-    version:     data.version     ?? '1.0',
-    lastUpdated: data.lastUpdated ?? '',
-    description: data.description,
+  return {
+    meta: {
+      version:     data.version     ?? '1.0',
+      lastUpdated: data.lastUpdated ?? '',
+      description: data.description,
+    },
+    markdown: content.trim(),
   };
+}
 
+/** Splits a constitution's markdown into one section per heading. */
+export function renderSections(markdown: string): ConstitutionSection[] {
   const sections: ConstitutionSection[] = [];
   let currentHeading: { level: number; title: string } | null = null;
   let buffer: string[] = [];
@@ -106,7 +136,7 @@ export function getMarkdownSections(): { meta: ConstitutionMeta; sections: Const
   const flush = () => {
     if (!currentHeading) return;
     const bodyMd = buffer.join('\n').trim();
-    const html   = bodyMd ? (marked.parse(bodyMd, { async: false }) as string) : '';
+    const html   = bodyMd ? purify.sanitize(marked.parse(bodyMd, { async: false }) as string) : '';
     sections.push({
       id:    slugify(currentHeading.title),
       level: currentHeading.level,
@@ -117,7 +147,7 @@ export function getMarkdownSections(): { meta: ConstitutionMeta; sections: Const
     buffer = [];
   };
 
-  for (const line of content.split('\n')) {
+  for (const line of markdown.split('\n')) {
     const match = line.match(/^(#{1,3})\s+(.+)$/);
     if (match) {
       flush();
@@ -128,5 +158,52 @@ export function getMarkdownSections(): { meta: ConstitutionMeta; sections: Const
   }
   flush();
 
-  return { meta, sections };
+  return sections;
+}
+
+// ── Search ────────────────────────────────────────────────────────────────────
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if',
+  'in', 'is', 'it', 'my', 'of', 'on', 'or', 'out', 'the', 'to', 'what', 'when', 'who', 'with', 'you',
+]);
+
+/** Lowercased words with plural and tense endings trimmed, so "remove" finds "removal". */
+function terms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w && !STOPWORDS.has(w))
+    .map(w => (w.length > 4 ? w.replace(/(?:ing|al|ed|es|e|s)$/, '') : w));
+}
+
+/**
+ * The sections that best answer a free-text question, best first. Each query
+ * term scores by how rare it is across the document, counted three times over
+ * in a title, and a section's parent heading is carried along for context.
+ */
+export function searchSections(
+  sections: ConstitutionSection[],
+  query: string,
+  limit = 3,
+): (ConstitutionSection & { parent: string | null; score: number })[] {
+  const wanted = [...new Set(terms(query))];
+  if (wanted.length === 0) return [];
+
+  const indexed = sections.map(s => ({ title: terms(s.title), text: terms(s.text) }));
+  const df = new Map(wanted.map(t => [t, indexed.filter(d => d.title.includes(t) || d.text.includes(t)).length]));
+
+  let parent: string | null = null;
+  return sections
+    .map((s, i) => {
+      if (s.level <= 2) parent = s.title;
+      const score = wanted.reduce((sum, t) => {
+        const hits = 3 * indexed[i].title.filter(w => w === t).length + indexed[i].text.filter(w => w === t).length;
+        return sum + (hits ? Math.log(1 + sections.length / df.get(t)!) * (1 + Math.log(hits)) : 0);
+      }, 0);
+      return { ...s, parent: s.level > 2 ? parent : null, score };
+    })
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
 }
@@ -0,0 +1,306 @@
+/**
+ * Server-only: where the constitution's written rules and the league's live
+ * Sleeper settings disagree, and what Sleeper changed since last season.
+ *
+ * The constitution is prose, so claims are found by pattern: a sentence like
+ * "6 teams make the playoffs", "the FAAB budget is $100" or "0.5 points per
+ * reception" becomes a structured claim about one setting, tied to the
+ * section it was found in. Only phrasings listed below are recognised; a rule
+ * written some other way is simply not checked, which is why the report says
+ * how many claims it found. Numbers may be digits or words up to twenty.
+ *
+ * Sleeper is treated as the truth about what the league actually runs on, so
+ * a mismatch is reported as the constitution being out of date, though the
+ * fix may just as well be in Sleeper.
+ */
+import { getProvider } from './providers';
+import { fetchLeagueSettings, type ConstitutionSection, type LeagueSettings } from './constitution';
+import { getConstitution } from './constitutionStore';
+
+export interface ConstitutionClaim {
+  setting: string;
+  label: string;
+  claimed: number;
+  sectionId: string;
+  sectionTitle: string;
+  /** The sentence the claim was read from. */
+  quote: string;
+}
+
+export interface DriftFinding extends ConstitutionClaim {
+  /** Both sides, formatted for display. */
+  says: string;
+  sleeper: string;
+}
+
+export interface SettingsChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface DriftReport {
+  season: string;
+  /** How many claims the constitution makes that could be checked. */
+  claimsChecked: number;
+  drift: DriftFinding[];
+  previousSeason: string | null;
+  /** Sleeper settings that differ from the previous season's. */
+  seasonChanges: SettingsChange[];
+}
+
+const NUMBER_WORDS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty',
+];
+const NUM = `(\\d+(?:\\.\\d+)?|${NUMBER_WORDS.join('|')})`;
+
+function toNumber(text: string): number | null {
+  const word = NUMBER_WORDS.indexOf(text.toLowerCase());
+  if (word >= 0) return word;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+const WAIVER_TYPES: Record<number, string> = { 0: 'rolling waivers', 1: 'FAAB', 2: 'free agency (no waivers)' };
+
+interface ClaimPattern {
+  setting: string;
+  label: string;
+  patterns: RegExp[];
+  /** The claimed value from a match; the first capture group by default. */
+  read?: (m: RegExpMatchArray) => number | null;
+  actual: (s: LeagueSettings) => number;
+  format?: (n: number) => string;
+}
+
+const score = (key: string) => (s: LeagueSettings) => s.scoringSettings[key] ?? 0;
+const points = (n: number) => `${n} pt${n === 1 ? '' : 's'}`;
+const slots = (slot: string) => (s: LeagueSettings) => s.rosterPositions.filter(p => p === slot).length;
+
+const CLAIMS: ClaimPattern[] = [
+  {
+    setting: 'numTeams', label: 'Teams in the league',
+    patterns: [new RegExp(`\\b${NUM}[- ]team league\\b`, 'i'), new RegExp(`\\bleague (?:of|has|is made up of) ${NUM} (?:teams|managers)\\b`, 'i')],
+    actual: s => s.numTeams,
+  },
+  {
+    setting: 'playoffTeams', label: 'Playoff teams',
+    patterns: [
+      new RegExp(`\\b${NUM} teams (?:make|qualify for|advance to|reach) the playoffs\\b`, 'i'),
+      new RegExp(`\\btop ${NUM} teams? (?:make|qualify for|advance to|reach)\\b`, 'i'),
+      new RegExp(`\\b${NUM}[- ]team playoffs?\\b`, 'i'),
+    ],
+    actual: s => s.playoffTeams,
+  },
+  {
+    setting: 'playoffWeekStart', label: 'Playoffs start',
+    patterns: [/\bplayoffs? (?:begin|begins|start|starts|kick off|kicks off) (?:in |on )?week (\d+)/i],
+    actual: s => s.playoffWeekStart,
+    format: n => `Week ${n}`,
+  },
+  {
+    setting: 'tradeDeadline', label: 'Trade deadline',
+    patterns: [/\btrade deadline (?:is|falls (?:in|after)|is after|is the end of)? ?(?:the end of )?week (\d+)/i],
+    actual: s => s.tradeDeadline,
+    format: n => (n ? `Week ${n}` : 'none'),
+  },
+  {
+    setting: 'tradeReviewDays', label: 'Trade review window',
+    patterns: [new RegExp(`\\b${NUM}[- ](hour|day)s? (?:trade )?review (?:window|period)\\b`, 'i')],
+    read: m => {
+      const n = toNumber(m[1]);
+      return n === null ? null : /hour/i.test(m[2]) ? n / 24 : n;
+    },
+    actual: s => s.tradeReviewDays,
+    format: n => (n ? (n * 24) % 24 === 0 && n < 3 ? `${n * 24} hours` : `${n} day${n === 1 ? '' : 's'}` : 'none'),
+  },
+  {
+    setting: 'vetoVotesNeeded', label: 'Veto votes needed',
+    patterns: [new RegExp(`\\b${NUM} (?:veto )?votes? (?:are |is )?(?:needed|required) to veto\\b`, 'i')],
+    actual: s => s.vetoVotesNeeded,
+  },
+  {
+    setting: 'waiverType', label: 'Waiver system',
+    patterns: [/\bwaivers? (?:are|is|use|uses|run on|runs on) (?:a |an )?(FAAB|rolling|free agent acquisition budget)\b/i],
+    read: m => (/rolling/i.test(m[1]) ? 0 : 1),
+    actual: s => s.waiverType,
+    format: n => WAIVER_TYPES[n] ?? String(n),
+  },
+  {
+    setting: 'waiverBudget', label: 'FAAB budget',
+    patterns: [/\$(\d+) (?:FAAB|waiver) budget\b/i, /\b(?:FAAB|waiver) budget (?:is|of) \$?(\d+)/i],
+    actual: s => s.waiverBudget,
+    format: n => `$${n}`,
+  },
+  {
+    setting: 'maxKeepers', label: 'Keepers per team',
+    patterns: [new RegExp(`\\bkeep (?:up to )?${NUM} players\\b`, 'i'), new RegExp(`\\b${NUM} keepers?\\b`, 'i')],
+    actual: s => s.maxKeepers,
+  },
+  {
+    setting: 'draftRounds', label: 'Draft rounds',
+    patterns: [new RegExp(`\\b${NUM}[- ]round (?:rookie )?draft\\b`, 'i'), new RegExp(`\\bdraft (?:has|lasts|is) ${NUM} rounds\\b`, 'i')],
+    actual: s => s.draftRounds,
+  },
+  {
+    setting: 'benchSlots', label: 'Bench spots',
+    patterns: [new RegExp(`\\b${NUM} bench (?:spots|slots)\\b`, 'i')],
+    actual: slots('BN'),
+  },
+  {
+    setting: 'reserveSlots', label: 'IR slots',
+    patterns: [new RegExp(`\\b${NUM} (?:IR|injured reserve) (?:spots|slots)\\b`, 'i')],
+    actual: s => s.reserveSlots,
+  },
+  {
+    setting: 'taxiSlots', label: 'Taxi squad',
+    patterns: [new RegExp(`\\btaxi squad of ${NUM}\\b`, 'i'), new RegExp(`\\b${NUM} taxi (?:spots|slots)\\b`, 'i')],
+    actual: s => s.taxiSlots,
+  },
+  {
+    setting: 'rec', label: 'Points per reception',
+    patterns: [new RegExp(`\\b${NUM} points? per reception\\b`, 'i'), /\b(full|half)[- ]PPR\b/i],
+    read: m => (/^full$/i.test(m[1]) ? 1 : /^half$/i.test(m[1]) ? 0.5 : toNumber(m[1])),
+    actual: score('rec'),
+    format: points,
+  },
+  {
+    setting: 'pass_td', label: 'Passing TD',
+    patterns: [
+      new RegExp(`\\b${NUM} points? (?:per|for (?:a|each)) passing (?:TD|touchdown)\\b`, 'i'),
+      new RegExp(`\\bpassing (?:TDs|touchdowns) (?:are worth|score|count for) ${NUM} points?\\b`, 'i'),
+    ],
+    actual: score('pass_td'),
+    format: points,
+  },
+  {
+    setting: 'rush_td', label: 'Rushing TD',
+    patterns: [
+      new RegExp(`\\b${NUM} points? (?:per|for (?:a|each)) rushing (?:TD|touchdown)\\b`, 'i'),
+      new RegExp(`\\brushing (?:TDs|touchdowns) (?:are worth|score|count for) ${NUM} points?\\b`, 'i'),
+    ],
+    actual: score('rush_td'),
+    format: points,
+  },
+  {
+    setting: 'rec_td', label: 'Receiving TD',
+    patterns: [
+      new RegExp(`\\b${NUM} points? (?:per|for (?:a|each)) receiving (?:TD|touchdown)\\b`, 'i'),
+      new RegExp(`\\breceiving (?:TDs|touchdowns) (?:are worth|score|count for) ${NUM} points?\\b`, 'i'),
+    ],
+    actual: score('rec_td'),
+    format: points,
+  },
+  {
+    setting: 'bonus_rec_te', label: 'TE reception bonus',
+    patterns: [new RegExp(`\\b(?:tight ends?|TEs?) (?:get|earn|receive) (?:an? )?(?:extra |additional |bonus )?${NUM} points? per reception\\b`, 'i')],
+    actual: score('bonus_rec_te'),
+    format: points,
+  },
+];
+
+const sentences = (text: string) => text.split(/(?<=[.!?])\s+/);
+
+/** Every checkable claim the constitution makes, in document order. */
+export function extractClaims(sections: ConstitutionSection[]): ConstitutionClaim[] {
+  const claims: ConstitutionClaim[] = [];
+  for (const section of sections) {
+    for (const sentence of sentences(section.text)) {
+      for (const c of CLAIMS) {
+        for (const re of c.patterns) {
+          const m = sentence.match(re);
+          const claimed = m ? (c.read ?? (x => toNumber(x[1])))(m) : null;
+          if (claimed === null) continue;
+          claims.push({
+            setting: c.setting, label: c.label, claimed,
+            sectionId: section.id, sectionTitle: section.title, quote: sentence,
+          });
+          break;
+        }
+      }
+    }
+  }
+  return claims;
+}
+
+/** The claims Sleeper's settings contradict. */
+export function compareClaims(claims: ConstitutionClaim[], settings: LeagueSettings): DriftFinding[] {
+  const byKey = new Map(CLAIMS.map(c => [c.setting, c]));
+  return claims.flatMap(claim => {
+    const c = byKey.get(claim.setting)!;
+    const actual = c.actual(settings);
+    if (Math.abs(actual - claim.claimed) < 1e-9) return [];
+    const format = c.format ?? String;
+    return [{ ...claim, says: format(claim.claimed), sleeper: format(actual) }];
+  });
+}
+
+// ── Season over season ───────────────────────────────────────────────────────
+
+const SETTING_LABELS: { key: keyof LeagueSettings; label: string; format?: (v: LeagueSettings) => string }[] = [
+  { key: 'numTeams', label: 'Teams' },
+  { key: 'leagueType', label: 'League type', format: s => ['Redraft', 'Keeper', 'Dynasty'][s.leagueType] ?? String(s.leagueType) },
+  { key: 'playoffTeams', label: 'Playoff teams' },
+  { key: 'playoffWeekStart', label: 'Playoffs start', format: s => `Week ${s.playoffWeekStart}` },
+  { key: 'tradeDeadline', label: 'Trade deadline', format: s => (s.tradeDeadline ? `Week ${s.tradeDeadline}` : 'none') },
+  { key: 'tradeReviewDays', label: 'Trade review days' },
+  { key: 'vetoVotesNeeded', label: 'Veto votes needed' },
+  { key: 'pickTrading', label: 'Pick trading', format: s => (s.pickTrading ? 'on' : 'off') },
+  { key: 'waiverType', label: 'Waiver system', format: s => WAIVER_TYPES[s.waiverType] ?? String(s.waiverType) },
+  { key: 'waiverBudget', label: 'FAAB budget', format: s => `$${s.waiverBudget}` },
+  { key: 'maxKeepers', label: 'Keepers' },
+  { key: 'draftRounds', label: 'Draft rounds' },
+  { key: 'reserveSlots', label: 'IR slots' },
+  { key: 'taxiSlots', label: 'Taxi slots' },
+  { key: 'leagueAverageMatch', label: 'Median matchup', format: s => (s.leagueAverageMatch ? 'on' : 'off') },
+];
+
+function lineup(positions: string[]): string {
+  const counts = new Map<string, number>();
+  for (const p of positions) counts.set(p, (counts.get(p) ?? 0) + 1);
+  return [...counts].map(([p, n]) => (n > 1 ? `${n} ${p}` : p)).join(', ');
+}
+
+/** Every setting that differs between two seasons. */
+export function diffSeasons(before: LeagueSettings, after: LeagueSettings): SettingsChange[] {
+  const changes: SettingsChange[] = [];
+  for (const { key, label, format } of SETTING_LABELS) {
+    const show = format ?? ((s: LeagueSettings) => String(s[key]));
+    if (show(before) !== show(after)) changes.push({ label, before: show(before), after: show(after) });
+  }
+  if (lineup(before.rosterPositions) !== lineup(after.rosterPositions)) {
+    changes.push({ label: 'Roster slots', before: lineup(before.rosterPositions), after: lineup(after.rosterPositions) });
+  }
+  const keys = new Set([...Object.keys(before.scoringSettings), ...Object.keys(after.scoringSettings)]);
+  for (const key of [...keys].sort()) {
+    const a = before.scoringSettings[key] ?? 0, b = after.scoringSettings[key] ?? 0;
+    if (a !== b) changes.push({ label: `Scoring: ${key}`, before: String(a), after: String(b) });
+  }
+  return changes;
+}
+
+/**
+ * The constitution (the league's current version) against this season's
+ * settings, and this season's settings against last season's.
+ */
+export async function checkConstitutionDrift(storeId: string | null, leagueId: string): Promise<DriftReport | null> {
+  const [{ sections }, settings, league] = await Promise.all([
+    getConstitution(storeId),
+    fetchLeagueSettings(leagueId),
+    getProvider().getLeague(leagueId),
+  ]);
+  if (!settings) return null;
+
+  const claims = extractClaims(sections);
+  const previousId = league?.previous_league_id;
+  const previous = previousId && previousId !== '0' ? await fetchLeagueSettings(previousId).catch(() => null) : null;
+
+  return {
+    season: settings.season,
+    claimsChecked: claims.length,
+    drift: compareClaims(claims, settings),
+    previousSeason: previous?.season ?? null,
+    seasonChanges: previous ? diffSeasons(previous, settings) : [],
+  };
+}
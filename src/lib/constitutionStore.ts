@@ -0,0 +1,286 @@
+/**
+ * Server-only: the league's constitution as the commissioner maintains it,
+ * every version it has been through, and the amendments managers propose.
+ *
+ * Until the first edit the constitution is content/constitution.md, and that
+ * file stays the first version in the history. Each save after that is a new
+ * version with its own number (the last part bumped: 0.2 -> 0.3), date,
+ * author and change note; old versions are never rewritten, so any two can be
+ * redlined against each other.
+ *
+ * An amendment is a full proposed text, written against the version current
+ * when it was proposed. Every manager may vote, openly; proposing is the
+ * proposer's yes. The constitution's ratification bar is three-fourths of
+ * the active membership, fixed on the proposal when it is made. A ratified
+ * amendment still waits for the commissioner to merge it (the constitution
+ * has them "update this document"), and one whose base version has since
+ * been replaced cannot be merged over the newer text: it is proposed again.
+ */
+import { readJson, writeJson } from './jsonStore';
+import { readConstitutionFile, renderSections, type ConstitutionMeta, type ConstitutionSection } from './constitution';
+import { getLeagueManagers, type LeagueManager } from './managerContext';
+import type { AdminSession } from './adminAuth';
+
+export interface ConstitutionVersion {
+  version: string;
+  /** Markdown body, without front matter. */
+  markdown: string;
+  description?: string;
+  /** ISO date. */
+  publishedAt: string;
+  by: string;
+  note: string;
+  /** Set when the version is a merged amendment. */
+  amendmentId?: string;
+}
+
+export type AmendmentVoteChoice = 'yes' | 'no';
+export type AmendmentStatus = 'open' | 'ratified' | 'failed' | 'merged' | 'rejected';
+
+export interface AmendmentVote {
+  userId: string;
+  teamName: string;
+  vote: AmendmentVoteChoice;
+  at: string;
+}
+
+export interface Amendment {
+  id: string;
+  title: string;
+  rationale: string;
+  /** The full proposed text. */
+  markdown: string;
+  baseVersion: string;
+  proposedBy: { userId: string; teamName: string };
+  proposedAt: string;
+  votes: AmendmentVote[];
+  votesNeeded: number;
+  electorate: number;
+  resolution: { outcome: 'merged' | 'rejected'; note: string; by: string; at: string; version?: string } | null;
+}
+
+export class ConstitutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConstitutionError';
+  }
+}
+
+interface ConstitutionStore {
+  versions: ConstitutionVersion[];
+  amendments: Amendment[];
+}
+
+const RATIFICATION_SHARE = 3 / 4;
+const MIN_TITLE_LENGTH = 5;
+const MIN_RATIONALE_LENGTH = 20;
+const MAX_MARKDOWN_LENGTH = 50_000;
+
+const keyFor = (leagueId: string) => `lp_constitution_${leagueId}`;
+const fileFor = (leagueId: string) => `constitution-${leagueId}.json`;
+
+function seedVersion(): ConstitutionVersion {
+  const { meta, markdown } = readConstitutionFile();
+  return {
+    version: meta.version,
+    markdown,
+    description: meta.description,
+    publishedAt: meta.lastUpdated,
+    by: 'Original document',
+    note: 'As shipped in content/constitution.md.',
+  };
+}
+
+async function load(storeId: string | null): Promise<ConstitutionStore> {
+  // With no league configured there is nowhere to keep edits: the shipped file is all there is.
+  if (!storeId) return { versions: [seedVersion()], amendments: [] };
+  const store = await readJson<ConstitutionStore>(keyFor(storeId), fileFor(storeId), { versions: [], amendments: [] });
+  return store.versions.length ? store : { ...store, versions: [seedVersion()] };
+}
+
+async function save(storeId: string, store: ConstitutionStore): Promise<void> {
+  await writeJson(keyFor(storeId), fileFor(storeId), store);
+}
+
+/** "0.2" -> "0.3", "2" -> "3"; anything else gets a count-based number. */
+function nextVersion(current: string, count: number): string {
+  const parts = current.split('.');
+  const last = Number(parts[parts.length - 1]);
+  if (!current || !Number.isInteger(last)) return `${count + 1}.0`;
+  parts[parts.length - 1] = String(last + 1);
+  return parts.join('.');
+}
+
+const normalise = (markdown: string) => markdown.replace(/\r\n/g, '\n').trim();
+
+// ── Versions ─────────────────────────────────────────────────────────────────
+
+/** Every version, oldest first. The last is current. */
+export async function getConstitutionVersions(storeId: string | null): Promise<ConstitutionVersion[]> {
+  return (await load(storeId)).versions;
+}
+
+/** The current version, parsed the way the constitution page shows it. */
+export async function getConstitution(storeId: string | null): Promise<{ meta: ConstitutionMeta; sections: ConstitutionSection[] }> {
+  const versions = await getConstitutionVersions(storeId);
+  const current = versions[versions.length - 1];
+  return {
+    meta: { version: current.version, lastUpdated: current.publishedAt, description: current.description },
+    sections: renderSections(current.markdown),
+  };
+}
+
+function appendVersion(
+  store: ConstitutionStore,
+  input: { markdown: string; description?: string; note: string },
+  by: string,
+  amendmentId?: string,
+): ConstitutionVersion {
+  const current = store.versions[store.versions.length - 1];
+  const markdown = normalise(input.markdown);
+  const description = input.description?.trim() || current.description;
+  if (!markdown) throw new ConstitutionError('The constitution cannot be empty');
+  if (markdown === current.markdown && description === current.description) {
+    throw new ConstitutionError('Nothing has changed since the current version');
+  }
+  const version: ConstitutionVersion = {
+    version: nextVersion(current.version, store.versions.length),
+    markdown,
+    description,
+    publishedAt: new Date().toISOString(),
+    by,
+    note: input.note.trim(),
+    ...(amendmentId ? { amendmentId } : {}),
+  };
+  store.versions.push(version);
+  return version;
+}
+
+/** A commissioner's edit, published as the next version. */
+export async function publishConstitution(
+  storeId: string,
+  admin: AdminSession,
+  input: { markdown: string; description?: string; note: string },
+): Promise<ConstitutionVersion> {
+  if (!input.note.trim()) throw new ConstitutionError('Say what changed and why');
+  const store = await load(storeId);
+  const version = appendVersion(store, input, admin.name);
+  await save(storeId, store);
+  return version;
+}
+
+// ── Amendments ───────────────────────────────────────────────────────────────
+
+export function amendmentStatus(a: Amendment): AmendmentStatus {
+  if (a.resolution) return a.resolution.outcome;
+  const yes = a.votes.filter(v => v.vote === 'yes').length;
+  const no = a.votes.filter(v => v.vote === 'no').length;
+  if (yes >= a.votesNeeded) return 'ratified';
+  if (a.electorate - no < a.votesNeeded) return 'failed';
+  return 'open';
+}
+
+/** Every amendment, newest first. */
+export async function listAmendments(storeId: string): Promise<Amendment[]> {
+  return (await load(storeId)).amendments.sort((a, b) => b.proposedAt.localeCompare(a.proposedAt));
+}
+
+export async function proposeAmendment(
+  storeId: string,
+  leagueId: string,
+  manager: LeagueManager,
+  input: { title: string; rationale: string; markdown: string },
+): Promise<Amendment> {
+  const title = input.title.trim();
+  const rationale = input.rationale.trim();
+  if (title.length < MIN_TITLE_LENGTH) throw new ConstitutionError('Give the amendment a title');
+  if (rationale.length < MIN_RATIONALE_LENGTH) throw new ConstitutionError('Explain what the amendment changes and why');
+
+  const store = await load(storeId);
+  const current = store.versions[store.versions.length - 1];
+  const markdown = normalise(input.markdown);
+  if (!markdown) throw new ConstitutionError('The proposed text cannot be empty');
+  if (markdown.length > MAX_MARKDOWN_LENGTH) {
+    throw new ConstitutionError(`The proposed text cannot be longer than ${MAX_MARKDOWN_LENGTH.toLocaleString()} characters`);
+  }
+  if (markdown === current.markdown) throw new ConstitutionError('The proposed text is the same as the current constitution');
+
+  const electorate = (await getLeagueManagers(leagueId)).length;
+  const now = new Date();
+  const amendment: Amendment = {
+    id: `${now.getTime()}-${manager.rosterId}`,
+    title,
+    rationale,
+    markdown,
+    baseVersion: current.version,
+    proposedBy: { userId: manager.userId, teamName: manager.teamName },
+    proposedAt: now.toISOString(),
+    votes: [{ userId: manager.userId, teamName: manager.teamName, vote: 'yes', at: now.toISOString() }],
+    votesNeeded: Math.max(1, Math.ceil(electorate * RATIFICATION_SHARE)),
+    electorate,
+    resolution: null,
+  };
+  store.amendments.push(amendment);
+  await save(storeId, store);
+  return amendment;
+}
+
+/** Casts or changes a manager's vote until the amendment is resolved. */
+export async function voteOnAmendment(
+  storeId: string,
+  manager: LeagueManager,
+  amendmentId: string,
+  vote: AmendmentVoteChoice,
+): Promise<Amendment> {
+  const store = await load(storeId);
+  const a = store.amendments.find(x => x.id === amendmentId);
+  if (!a) throw new ConstitutionError('No such amendment');
+  if (a.resolution) throw new ConstitutionError('Voting on this amendment has closed');
+
+  a.votes = [
+    ...a.votes.filter(v => v.userId !== manager.userId),
+    { userId: manager.userId, teamName: manager.teamName, vote, at: new Date().toISOString() },
+  ];
+  await save(storeId, store);
+  return a;
+}
+
+/**
+ * Merges a ratified amendment as the next version, or rejects one. Only a
+ * ratified amendment merges; any can be rejected (withdrawn, superseded or
+ * out of order).
+ */
+export async function resolveAmendment(
+  storeId: string,
+  admin: AdminSession,
+  amendmentId: string,
+  outcome: 'merged' | 'rejected',
+  note: string,
+): Promise<Amendment> {
+  const store = await load(storeId);
+  const a = store.amendments.find(x => x.id === amendmentId);
+  if (!a) throw new ConstitutionError('No such amendment');
+  if (a.resolution) throw new ConstitutionError(`This amendment was already ${a.resolution.outcome}`);
+
+  const at = new Date().toISOString();
+  if (outcome === 'merged') {
+    if (amendmentStatus(a) !== 'ratified') throw new ConstitutionError('Only a ratified amendment can be merged');
+    const current = store.versions[store.versions.length - 1];
+    if (current.version !== a.baseVersion) {
+      throw new ConstitutionError(
+        `This amendment was written against version ${a.baseVersion}, and the constitution is now at ${current.version}. ` +
+        'It needs to be proposed again against the current text.',
+      );
+    }
+    const yes = a.votes.filter(v => v.vote === 'yes').length;
+    const version = appendVersion(store, {
+      markdown: a.markdown,
+      note: `Amendment "${a.title}", ratified ${yes} of ${a.electorate}.${note.trim() ? ` ${note.trim()}` : ''}`,
+    }, admin.name, a.id);
+    a.resolution = { outcome, note: note.trim(), by: admin.name, at, version: version.version };
+  } else {
+    a.resolution = { outcome, note: note.trim(), by: admin.name, at };
+  }
+  await save(storeId, store);
+  return a;
+}
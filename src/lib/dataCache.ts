@@ -0,0 +1,209 @@
+/**
+ * Server-only: the one cache every league read goes through.
+ *
+ * Before this, each route kept its own module-level Map with its own TTL, so a
+ * cold serverless instance started from nothing and every route that needed
+ * the player directory downloaded it separately. Now there are two tiers:
+ *
+ *   memory  - per instance, checked first, holds everything
+ *   Redis   - shared and persistent, via getRedis(); what a cold instance
+ *             warms itself from. Skipped when no Redis is configured.
+ *
+ * Each key is read under a policy: fresh for `freshMs`, then stale for another
+ * `staleMs`. A stale entry is returned immediately while one background load
+ * replaces it, so a page never waits on Sleeper for data it already had. Past
+ * that window it is a miss. Concurrent misses for the same key share a single
+ * load rather than each firing their own request.
+ *
+ * If a load fails and any copy exists, however old, that copy is served and
+ * the failure is counted. Sleeper being briefly down should not blank a page.
+ */
+import { getRedis } from './redisClient';
+
+export interface CachePolicy {
+  /** Served as-is for this long after it was loaded. */
+  freshMs: number;
+  /** Then served while a background load replaces it, for this much longer. */
+  staleMs: number;
+  /** Write through to Redis. Defaults to true; payloads over MAX_PERSIST_BYTES never are. */
+  persist?: boolean;
+}
+
+export interface CacheCounters {
+  hits: number;
+  staleHits: number;
+  /** Found in Redis after a memory miss. */
+  redisHits: number;
+  misses: number;
+  /** Requests that joined a load already in flight instead of starting one. */
+  coalesced: number;
+  errors: number;
+}
+
+export interface CacheStats {
+  backend: string;
+  entries: number;
+  inFlight: number;
+  since: string;
+  totals: CacheCounters;
+  /** Keyed by the first two segments of the cache key, e.g. "sleeper:matchups". */
+  byEndpoint: Record<string, CacheCounters>;
+}
+
+interface Entry<T> {
+  value: T;
+  /** When it was loaded, epoch ms. */
+  at: number;
+}
+
+const REDIS_PREFIX = 'lp_cache:';
+// Hosted Redis plans cap request size, and a multi-megabyte GET on every cold
+// start costs about what the origin fetch did. The player directory (~19MB)
+// and season stats (~2MB) stay in memory only.
+export const MAX_PERSIST_BYTES = 1_000_000;
+// A background load on a frozen serverless instance may never settle. Past
+// this age an in-flight load is presumed dead and a new one is started.
+const IN_FLIGHT_TIMEOUT_MS = 120_000; // 2 min
+const MAX_MEMORY_ENTRIES = 2_000;
+
+const memory = new Map<string, Entry<unknown>>();
+const inFlight = new Map<string, { promise: Promise<unknown>; startedAt: number }>();
+const counters = new Map<string, CacheCounters>();
+const since = new Date().toISOString();
+
+function endpointOf(key: string): string {
+  return key.split(':').slice(0, 2).join(':');
+}
+
+function count(key: string, field: keyof CacheCounters) {
+  const name = endpointOf(key);
+  let c = counters.get(name);
+  if (!c) {
+    c = { hits: 0, staleHits: 0, redisHits: 0, misses: 0, coalesced: 0, errors: 0 };
+    counters.set(name, c);
+  }
+  c[field]++;
+}
+
+function remember<T>(key: string, entry: Entry<T>) {
+  // Re-inserting moves the key to the end, so the Map's order is oldest write
+  // first and the front is what to evict.
+  memory.delete(key);
+  memory.set(key, entry);
+  if (memory.size > MAX_MEMORY_ENTRIES) {
+    const oldest = memory.keys().next().value;
+    if (oldest !== undefined) memory.delete(oldest);
+  }
+}
+
+async function readRedis<T>(key: string): Promise<Entry<T> | null> {
+  const { client } = getRedis();
+  if (!client) return null;
+  try {
+    const raw = await client.get(REDIS_PREFIX + key);
+    return raw ? (JSON.parse(raw) as Entry<T>) : null;
+  } catch (err) {
+    console.warn('[dataCache] redis read failed', key, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+async function writeRedis<T>(key: string, entry: Entry<T>, policy: CachePolicy) {
+  if (policy.persist === false) return;
+  const { client } = getRedis();
+  if (!client) return;
+  const raw = JSON.stringify(entry);
+  if (raw.length > MAX_PERSIST_BYTES) return;
+  try {
+    const ttlSeconds = Math.ceil((policy.freshMs + policy.staleMs) / 1000);
+    await client.set(REDIS_PREFIX + key, raw, ttlSeconds);
+  } catch (err) {
+    console.warn('[dataCache] redis write failed', key, err instanceof Error ? err.message : err);
+  }
+}
+
+function load<T>(key: string, policy: CachePolicy, loader: () => Promise<T>): Promise<T> {
+  const running = inFlight.get(key);
+  if (running && Date.now() - running.startedAt < IN_FLIGHT_TIMEOUT_MS) {
+    count(key, 'coalesced');
+    return running.promise as Promise<T>;
+  }
+
+  const promise = (async () => {
+    try {
+      const value = await loader();
+      const entry = { value, at: Date.now() };
+      remember(key, entry);
+      await writeRedis(key, entry, policy);
+      return value;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+  inFlight.set(key, { promise, startedAt: Date.now() });
+  return promise;
+}
+
+/** Read `key` through both tiers, loading it with `loader` when neither has a usable copy. */
+export async function cached<T>(key: string, policy: CachePolicy, loader: () => Promise<T>): Promise<T> {
+  let entry = memory.get(key) as Entry<T> | undefined;
+  let fromRedis = false;
+  // Another instance may have refreshed this since we last did.
+  if (policy.persist !== false && (!entry || Date.now() - entry.at >= policy.freshMs)) {
+    const persisted = await readRedis<T>(key);
+    if (persisted && (!entry || persisted.at > entry.at)) {
+      entry = persisted;
+      fromRedis = true;
+      remember(key, persisted);
+    }
+  }
+
+  const age = entry ? Date.now() - entry.at : Infinity;
+  if (entry && age < policy.freshMs) {
+    count(key, fromRedis ? 'redisHits' : 'hits');
+    return entry.value;
+  }
+  if (entry && age < policy.freshMs + policy.staleMs) {
+    count(key, 'staleHits');
+    load(key, policy, loader).catch(err => {
+      count(key, 'errors');
+      console.warn('[dataCache] background refresh failed', key, err instanceof Error ? err.message : err);
+    });
+    return entry.value;
+  }
+
+  count(key, 'misses');
+  try {
+    return await load(key, policy, loader);
+  } catch (err) {
+    count(key, 'errors');
+    if (entry) return entry.value;
+    throw err;
+  }
+}
+
+/** Drop a key from both tiers, so the next read loads it fresh. */
+export async function invalidate(key: string): Promise<void> {
+  memory.delete(key);
+  const { client } = getRedis();
+  if (!client) return;
+  try { await client.del(REDIS_PREFIX + key); } catch { /* it will expire on its own */ }
+}
+
+export function getCacheStats(): CacheStats {
+  const totals: CacheCounters = { hits: 0, staleHits: 0, redisHits: 0, misses: 0, coalesced: 0, errors: 0 };
+  const byEndpoint: Record<string, CacheCounters> = {};
+  for (const [name, c] of [...counters.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    byEndpoint[name] = { ...c };
+    for (const k of Object.keys(totals) as (keyof CacheCounters)[]) totals[k] += c[k];
+  }
+  const { backend } = getRedis();
+  return {
+    backend: backend === 'none' ? 'memory' : `memory+${backend}`,
+    entries: memory.size,
+    inFlight: inFlight.size,
+    since,
+    totals,
+    byEndpoint,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * FantasyPros rankings, keyed the way the rest of the app keys players.
+ *
+ * FantasyPros has its own player ids and Sleeper has no cross-reference to
+ * them, so the two are joined on name and position.
+ */
+import type { EcrSnapshot } from './fantasyProsStore';
+import type { EcrPlayer, RankingMode } from './fantasypros';
+
+/** FantasyPros and Sleeper spell names differently often enough that an exact
+ *  match loses real players. Strip punctuation, suffixes, and case. */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[.'`]/g, '')
+    .replace(/\s+(jr|sr|ii|iii|iv|v)$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** The `name|position` key both sides are matched on. */
+export function playerKey(name: string, position: string): string {
+  return `${normalizeName(name)}|${position}`;
+}
+
+/** A Sleeper player record's display name, as FantasyPros would print it. */
+export function sleeperName(p: { full_name?: string; first_name?: string; last_name?: string }): string {
+  return p.full_name || `${p.first_name ?? ''} ${p.last_name ?? ''}`.trim();
+}
+
+/**
+ * Sleeper player id -> that player's row on the positional boards of one
+ * mode, for the ids asked about. Players the (free-tier truncated) boards do
+ * not reach are absent.
+ */
+export function ecrBySleeperId(
+  snapshot: EcrSnapshot,
+  mode: RankingMode,
+  playerIds: Iterable<string>,
+  players: Record<string, { full_name?: string; first_name?: string; last_name?: string; position?: string }>,
+): Map<string, EcrPlayer> {
+  const byKey = new Map<string, EcrPlayer>();
+  for (const [position, board] of Object.entries(snapshot.boards[mode] ?? {})) {
+    if (position === 'ALL' || !board) continue;
+    for (const p of board.players) byKey.set(playerKey(p.name, p.position), p);
+  }
+
+  const out = new Map<string, EcrPlayer>();
+  for (const id of playerIds) {
+    const p = players[id];
+    const name = p ? sleeperName(p) : '';
+    if (!name || !p?.position) continue;
+    const row = byKey.get(playerKey(name, p.position));
+    if (row) out.set(id, row);
+  }
+  return out;
+}
+
+/** "WR12" -> 12. Null when FantasyPros left the positional rank off. */
+export function positionRank(p: EcrPlayer): number | null {
+  const n = Number(p.posRank?.replace(/^\D+/, ''));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
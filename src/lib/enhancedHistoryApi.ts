@@ -16,7 +16,7 @@ export interface EnhancedHistoricalRecord {
   type: 'championship' | 'playoff' | 'highScore' | 'lowScore' | 'winStreak' | 
         'blowout' | 'closeGame' | 'consistency' | 'explosiveness' | 'seasonHigh' | 'seasonLow' | 
         'playoffAppearance' | 'regularSeasonChamp' | 'perfectSeason' | 'mostImproved' | 'biggestUpset' |
-        'runnerUp' | 'championshipGame' | 'playoffHighScore' | 'playoffLowScore';
+        'runnerUp' | 'championshipGame' | 'playoffHighScore' | 'playoffLowScore' | 'benchBlunder' | 'benchLoss' | 'lineupEfficiency';
   season: string;
   week?: number;
   userId: string;
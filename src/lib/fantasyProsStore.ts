@@ -5,12 +5,20 @@
  * per day by the scheduled refresh and every reader is served from here. The
  * snapshot records when it was taken so the UI can be honest about staleness
  * rather than implying the numbers are live.
+ *
+ * Each snapshot replaces the last, so the weekly positional ranks are also
+ * archived by week: the tanking detector asks what the experts thought of a
+ * lineup when it was set, not what they think now. The last refresh of a week
+ * wins, which is the one closest to its games.
  */
 import { readJson, writeJson } from './jsonStore';
+import { playerKey, positionRank } from './ecrMatch';
 import type { EcrBoard, RankedPosition, RankingMode } from './fantasypros';
 
 const KEY = 'lp_fp_snapshot';
 const FILE = 'fantasypros.json';
+const WEEKLY_KEY = 'lp_fp_weekly_ranks';
+const WEEKLY_FILE = 'fantasypros-weekly.json';
 
 export interface EcrSnapshot {
   season: string;
@@ -30,4 +38,35 @@ export async function getSnapshot(): Promise<EcrSnapshot | null> {
 
 export async function saveSnapshot(snapshot: EcrSnapshot): Promise<void> {
   await writeJson(KEY, FILE, snapshot);
+  if (snapshot.week > 0) await archiveWeeklyRanks(snapshot);
+}
+
+/** One week's positional ranks, keyed by ecrMatch's `name|position`. */
+export interface WeeklyRanks {
+  fetchedAt: string;
+  ranks: Record<string, number>;
+}
+
+/** Archived weekly ranks, keyed `${season}:${week}`. */
+export async function getWeeklyRanks(): Promise<Record<string, WeeklyRanks>> {
+  return readJson<Record<string, WeeklyRanks>>(WEEKLY_KEY, WEEKLY_FILE, {});
+}
+
+async function archiveWeeklyRanks(snapshot: EcrSnapshot): Promise<void> {
+  const ranks: Record<string, number> = {};
+  for (const [position, board] of Object.entries(snapshot.boards.weekly ?? {})) {
+    if (position === 'ALL' || !board) continue;
+    for (const p of board.players) {
+      const rank = positionRank(p);
+      if (rank) ranks[playerKey(p.name, p.position)] = rank;
+    }
+  }
+  if (!Object.keys(ranks).length) return;
+
+  // This season and last are all the detector looks at.
+  const archive = await getWeeklyRanks();
+  const keep = Object.fromEntries(Object.entries(archive)
+    .filter(([key]) => Number(key.split(':')[0]) >= Number(snapshot.season) - 1));
+  keep[`${snapshot.season}:${snapshot.week}`] = { fetchedAt: snapshot.fetchedAt, ranks };
+  await writeJson(WEEKLY_KEY, WEEKLY_FILE, keep);
 }
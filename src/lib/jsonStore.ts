@@ -65,6 +65,48 @@ export async function writeJson(key: string, filename: string, value: unknown):
   }
 }
 
+/**
+ * Adds one record to an append-only list without reading it first, so
+ * concurrent appends cannot lose each other: RPUSH in Redis, one line of an
+ * appended file locally. Past `keep` records the oldest are dropped (Redis only;
+ * a local file keeps everything).
+ */
+export async function appendRecord(key: string, filename: string, value: unknown, keep: number): Promise<void> {
+  const { client, backend } = getRedis();
+  if (client) {
+    try {
+      await client.push(key, JSON.stringify(value), keep);
+      return;
+    } catch (err) {
+      throw new StorageUnavailableError(
+        `${backend} write failed: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+  }
+  try {
+    await ensureDir();
+    await fs.appendFile(path.join(DATA_DIR, filename), `${JSON.stringify(value)}\n`);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new StorageUnavailableError(
+      /EROFS|EACCES|read-only/i.test(msg) ? 'read-only filesystem and no REDIS_URL' : msg,
+    );
+  }
+}
+
+/** The newest `count` records appendRecord wrote, oldest first. */
+export async function readRecords<T>(key: string, filename: string, count: number): Promise<T[]> {
+  try {
+    const { client } = getRedis();
+    const lines = client
+      ? await client.lastItems(key, count)
+      : (await fs.readFile(path.join(DATA_DIR, filename), 'utf-8')).split('\n').filter(Boolean).slice(-count);
+    return lines.map(line => JSON.parse(line) as T);
+  } catch {
+    return [];
+  }
+}
+
 export function storageBackend(): string {
   const { backend } = getRedis();
   return backend === 'none' ? 'file' : backend;
@@ -0,0 +1,47 @@
+/**
+ * Server-only: which league chain the current request is about.
+ *
+ * The navbar's league switcher stores the chosen chain in a cookie, and every
+ * route, server component and server-side library resolves it from here, so
+ * one warm instance can serve the main league and a side league back to back
+ * without either leaking into the other. An explicit ?league=<key> on the
+ * request URL wins over the cookie, which keeps API links shareable.
+ *
+ * Outside a request (a build-time render, a script) there is no cookie to
+ * read and the default chain applies.
+ */
+import { cookies } from 'next/headers';
+import {
+  LEAGUE_COOKIE,
+  getLeagueChain,
+  getCurrentLeagueId,
+  getLinkedLeagueIds,
+  type LeagueChain,
+} from '@/config/league';
+
+export async function getRequestLeagueKey(request?: Request): Promise<string | undefined> {
+  if (request) {
+    const fromQuery = new URL(request.url).searchParams.get('league');
+    if (fromQuery) return fromQuery;
+  }
+  try {
+    return (await cookies()).get(LEAGUE_COOKIE)?.value;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The chain for this request, or null when no league is configured at all. */
+export async function getRequestLeague(request?: Request): Promise<LeagueChain | null> {
+  return getLeagueChain(await getRequestLeagueKey(request));
+}
+
+/** The current-season league ID of this request's chain. */
+export async function getRequestLeagueId(request?: Request): Promise<string> {
+  return getCurrentLeagueId(await getRequestLeagueKey(request));
+}
+
+/** Every league ID in this request's chain, most recent season first. */
+export async function getRequestLinkedLeagueIds(request?: Request): Promise<string[]> {
+  return getLinkedLeagueIds(await getRequestLeagueKey(request));
+}
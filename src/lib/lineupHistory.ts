@@ -0,0 +1,236 @@
+/**
+ * Server-only: every lineup each manager has set, against the best one they
+ * could have set with the players they had that week.
+ *
+ * Sleeper's matchups carry what every rostered player scored, so the best
+ * lineup is a matter of hindsight: fill the season's starting slots (its
+ * roster_positions, which change between seasons) from those points, as
+ * lib/lineupSlots.ts fills them. Positions come from the player directory,
+ * which is why this runs here and not in the browser with the rest of the
+ * history. A player listed at more than one position may fill either.
+ *
+ * A bench loss is a head-to-head loss the best lineup would have won against
+ * the opponent's actual score. Median games are left out of it.
+ */
+import {
+  getAllLinkedLeagueIds, getLeagueInfo, getLeagueUsers, getLeagueRosters,
+  getLeagueMatchups, getLeagueWeeks, getNFLState,
+} from './api';
+import { getPlayersDirectory } from './playerStats';
+import { fillSlots, isStartingSlot } from './lineupSlots';
+import { cached, type CachePolicy } from './dataCache';
+import type { EnhancedHistoricalRecord } from './enhancedHistoryApi';
+import type { Player } from './providers';
+import type { SleeperMatchup } from '@/types/sleeper';
+
+export interface LineupTotals {
+  weeks: number;
+  actual: number;
+  optimal: number;
+  pointsLeftOnBench: number;
+  /** Actual as a percentage of optimal, 0-100. */
+  efficiency: number;
+  benchLosses: number;
+}
+
+export interface SeasonLineups extends LineupTotals {
+  season: string;
+}
+
+export interface ManagerLineups {
+  userId: string;
+  career: LineupTotals;
+  seasons: SeasonLineups[];
+}
+
+export interface LineupHistoryPayload {
+  managers: ManagerLineups[];
+  /** benchBlunder, benchLoss and lineupEfficiency records, ten of each. */
+  records: EnhancedHistoricalRecord[];
+  updatedAt: string;
+}
+
+const HISTORY_POLICY: CachePolicy = { freshMs: 900_000, staleMs: 6 * 3_600_000 }; // 15 min, then 6h stale
+
+// A season needs this many scored weeks before its efficiency is a record.
+const MIN_RECORD_WEEKS = 8;
+const RECORDS_PER_TYPE = 10;
+
+interface WeekLine {
+  userId: string;
+  name: string;
+  avatar: string;
+  season: string;
+  week: number;
+  actual: number;
+  optimal: number;
+  isPlayoff: boolean;
+  /** Set when a head-to-head game was lost and the best lineup would have won it. */
+  benchLoss?: { opponent: string; opponentPoints: number };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** The most the roster could have scored that week. */
+export function optimalPoints(m: SleeperMatchup, slots: string[], players: Record<string, Player>): number {
+  const points = m.players_points ?? {};
+  const pool = (m.players ?? []).map(id => ({ playerId: id, points: points[id] ?? 0 }));
+  const best = fillSlots(slots, pool, {
+    positionsOf: p => {
+      const info = players[p.playerId];
+      return info?.fantasy_positions?.length ? info.fantasy_positions : [info?.position ?? ''];
+    },
+    valueOf: p => p.points,
+  });
+  // Never below what was actually scored: a player whose listed position has
+  // since changed can look ineligible for the slot he really filled.
+  return Math.max(m.points ?? 0, best.reduce((s, p) => s + (p?.points ?? 0), 0));
+}
+
+async function seasonLines(leagueId: string, players: Record<string, Player>, nflState: { season: string; week: number }): Promise<WeekLine[]> {
+  const league = await getLeagueInfo(leagueId);
+  if (!league) return [];
+  const slots: string[] = (league.roster_positions ?? []).filter(isStartingSlot);
+  const [users, rosters, totalWeeks] = await Promise.all([
+    getLeagueUsers(leagueId), getLeagueRosters(leagueId), getLeagueWeeks(leagueId),
+  ]);
+  // The week in progress is not a lineup decision that has played out yet.
+  const lastWeek = league.season === nflState.season ? Math.min(totalWeeks, nflState.week - 1) : totalWeeks;
+  if (lastWeek < 1) return [];
+
+  const userById = new Map(users.map(u => [u.user_id, u]));
+  const ownerByRoster = new Map(rosters.map(r => [r.roster_id, r.owner_id as string]));
+  const playoffStart = league.settings?.playoff_week_start || 15;
+  const weeks = await Promise.all(
+    Array.from({ length: lastWeek }, (_, i) => getLeagueMatchups(leagueId, i + 1).catch(() => [] as SleeperMatchup[])),
+  );
+
+  const lines: WeekLine[] = [];
+  weeks.forEach((matchups, i) => {
+    const week = i + 1;
+    const scored = matchups.filter(m => typeof m.points === 'number' && m.points > 0);
+    const byRoster = new Map<number, WeekLine>();
+    for (const m of scored) {
+      const userId = ownerByRoster.get(m.roster_id);
+      const user = userId ? userById.get(userId) : undefined;
+      if (!userId || !user || !m.players_points) continue;
+      const line: WeekLine = {
+        userId,
+        name: user.display_name,
+        avatar: user.avatar ?? '',
+        season: league.season,
+        week,
+        actual: m.points,
+        optimal: optimalPoints(m, slots, players),
+        isPlayoff: week >= playoffStart,
+      };
+      byRoster.set(m.roster_id, line);
+      lines.push(line);
+    }
+
+    const groups = new Map<number, SleeperMatchup[]>();
+    for (const m of scored) {
+      if (m.matchup_id == null) continue;
+      groups.set(m.matchup_id, [...(groups.get(m.matchup_id) ?? []), m]);
+    }
+    for (const group of groups.values()) {
+      if (group.length !== 2) continue;
+      for (const [me, them] of [[group[0], group[1]], [group[1], group[0]]]) {
+        const line = byRoster.get(me.roster_id);
+        if (!line || me.points >= them.points || line.optimal <= them.points) continue;
+        const opponent = userById.get(ownerByRoster.get(them.roster_id) ?? '');
+        line.benchLoss = { opponent: opponent?.display_name ?? `Roster ${them.roster_id}`, opponentPoints: them.points };
+      }
+    }
+  });
+  return lines;
+}
+
+function totals(lines: WeekLine[]): LineupTotals {
+  const actual = lines.reduce((s, l) => s + l.actual, 0);
+  const optimal = lines.reduce((s, l) => s + l.optimal, 0);
+  return {
+    weeks: lines.length,
+    actual: round2(actual),
+    optimal: round2(optimal),
+    pointsLeftOnBench: round2(optimal - actual),
+    efficiency: optimal > 0 ? Math.round((actual / optimal) * 1000) / 10 : 0,
+    benchLosses: lines.filter(l => l.benchLoss).length,
+  };
+}
+
+function buildRecords(lines: WeekLine[], managers: ManagerLineups[]): EnhancedHistoricalRecord[] {
+  const top = (records: EnhancedHistoricalRecord[]) => records
+    .sort((a, b) => b.value - a.value)
+    .slice(0, RECORDS_PER_TYPE)
+    .map((r, i) => ({ ...r, contextualRank: i + 1 }));
+
+  const blunders = top(lines.map(l => {
+    const left = round2(l.optimal - l.actual);
+    return {
+      type: 'benchBlunder' as const,
+      season: l.season, week: l.week, userId: l.userId, username: l.name, avatar: l.avatar,
+      value: left,
+      description: `${l.name} left ${left.toFixed(2)} points on the bench in Week ${l.week}${l.isPlayoff ? ' (Playoffs)' : ''}`,
+      isPlayoff: l.isPlayoff,
+    };
+  }));
+
+  const losses = top(lines.filter(l => l.benchLoss).map(l => {
+    const { opponent, opponentPoints } = l.benchLoss!;
+    const left = round2(l.optimal - l.actual);
+    return {
+      type: 'benchLoss' as const,
+      season: l.season, week: l.week, userId: l.userId, username: l.name, avatar: l.avatar,
+      value: left,
+      description: `${l.name} lost to ${opponent} by ${(opponentPoints - l.actual).toFixed(2)} in Week ${l.week} with ${left.toFixed(2)} points on the bench`,
+      details: { winnerScore: opponentPoints, loserScore: l.actual, opponent, margin: round2(opponentPoints - l.actual) },
+      isPlayoff: l.isPlayoff,
+    };
+  }));
+
+  const nameOf = new Map(lines.map(l => [l.userId, { name: l.name, avatar: l.avatar }]));
+  const efficient = top(managers.flatMap(m => m.seasons
+    .filter(s => s.weeks >= MIN_RECORD_WEEKS)
+    .map(s => {
+      const who = nameOf.get(m.userId)!;
+      return {
+        type: 'lineupEfficiency' as const,
+        season: s.season, userId: m.userId, username: who.name, avatar: who.avatar,
+        value: s.efficiency,
+        description: `${who.name} started ${s.efficiency.toFixed(1)}% of the best possible points across ${s.season}`,
+      };
+    })));
+
+  return [...blunders, ...losses, ...efficient];
+}
+
+async function buildLineupHistory(leagueId: string): Promise<LineupHistoryPayload> {
+  const [leagueIds, players, nflState] = await Promise.all([
+    getAllLinkedLeagueIds(leagueId), getPlayersDirectory(), getNFLState(),
+  ]);
+  const state = { season: nflState.season, week: nflState.week ?? 1 };
+  const lines = (await Promise.all(leagueIds.map(id => seasonLines(id, players, state).catch(err => {
+    console.error('[lineupHistory]', id, err);
+    return [] as WeekLine[];
+  })))).flat();
+
+  const byUser = new Map<string, WeekLine[]>();
+  for (const l of lines) byUser.set(l.userId, [...(byUser.get(l.userId) ?? []), l]);
+
+  const managers: ManagerLineups[] = [...byUser].map(([userId, mine]) => {
+    const seasons = [...new Set(mine.map(l => l.season))].sort();
+    return {
+      userId,
+      career: totals(mine),
+      seasons: seasons.map(season => ({ season, ...totals(mine.filter(l => l.season === season)) })),
+    };
+  });
+
+  return { managers, records: buildRecords(lines, managers), updatedAt: new Date().toISOString() };
+}
+
+/** Hindsight lineups for every manager across a league's linked seasons. */
+export function getLineupHistory(leagueId: string): Promise<LineupHistoryPayload> {
+  return cached(`route:lineup-history:${leagueId}`, HISTORY_POLICY, () => buildLineupHistory(leagueId));
+}
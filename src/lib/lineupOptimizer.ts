@@ -0,0 +1,254 @@
+/**
+ * Server-only: the best lineup each roster could set this week, and the
+ * start/sit changes that get there.
+ *
+ * Every player gets a projection for the week. Players on a weekly
+ * FantasyPros board are projected from their expert rank: the points per
+ * game that rank at that position actually produced this season, blended
+ * with the player's own rate. Everyone else (the free tier only ranks the top
+ * of each position) falls back to their own rate. ESPN's injury report rules
+ * out anyone Out, Doubtful, on IR or suspended and marks down Questionable;
+ * a bye rules a player out; a player whose game has kicked off is locked
+ * where he is, as Sleeper locks him. The slots are then filled as
+ * lib/lineupSlots.ts fills them.
+ */
+import { getProvider } from './providers';
+import { getSnapshot } from './fantasyProsStore';
+import { ecrBySleeperId, playerKey, positionRank, sleeperName } from './ecrMatch';
+import { getInjuries } from './mediaSources';
+import { getWeekGames, gamesByTeam } from './nflGames';
+import {
+  getPlayersDirectory,
+  getSeasonStats,
+  resolveStatsSeason,
+  buildPlayerCard,
+} from './playerStats';
+import { SLOT_ELIGIBILITY, fillSlots, isStartingSlot } from './lineupSlots';
+import { cached, type CachePolicy } from './dataCache';
+
+export interface LineupPlayer {
+  playerId: string;
+  name: string;
+  position: string;
+  nflTeam: string;
+  projected: number;
+  /** What the projection rests on. */
+  basis: 'expert rank' | 'season rate' | 'fallback';
+  /** FantasyPros positional rank this week, e.g. "WR12". */
+  ecrRank: string | null;
+  injury: string | null;
+  onBye: boolean;
+  /** Game has started: Sleeper will not let him move. */
+  locked: boolean;
+  /** Will not play: injured out, suspended or on bye. */
+  unavailable: boolean;
+}
+
+export interface LineupSlot {
+  slot: string;
+  current: LineupPlayer | null;
+  recommended: LineupPlayer | null;
+  /** A different player should be in this slot. */
+  changed: boolean;
+}
+
+export interface LineupChange {
+  start: LineupPlayer;
+  /** Who he replaces; null when an empty or dead slot is being filled. */
+  sit: LineupPlayer | null;
+  gain: number;
+}
+
+export interface LineupAdvice {
+  rosterId: number;
+  userId: string | null;
+  season: string;
+  week: number;
+  slots: LineupSlot[];
+  changes: LineupChange[];
+  currentProjected: number;
+  optimalProjected: number;
+  /** The FantasyPros week folded in, when the snapshot covers this one. */
+  ecrWeek: number | null;
+}
+
+const LINEUP_POLICY: CachePolicy = { freshMs: 600_000, staleMs: 3_600_000 }; // 10 min, then 1h stale
+
+// Used when a player has no scoring history at all.
+const FALLBACK_PPG: Record<string, number> = { QB: 14, RB: 7, WR: 7, TE: 5, K: 7, DEF: 6 };
+// How much of an expert-ranked projection comes from the rank over the player's own rate.
+const ECR_BLEND = 0.6;
+const QUESTIONABLE_DISCOUNT = 0.85;
+// Games before a player's own rate is trusted for the rank curve.
+const MIN_GAMES = 3;
+
+const OUT = /^(out|doubtful|injured reserve|ir|suspended|pup|nfi|cov)/i;
+const QUESTIONABLE = /^(questionable|day-to-day)/i;
+
+/**
+ * Position -> points per game of the nth best player there, for turning an
+ * expert rank into points.
+ */
+function rankCurves(stats: Record<string, { pts_ppr?: number; gp?: number }>, players: Record<string, { position?: string }>) {
+  const byPos = new Map<string, number[]>();
+  for (const [id, st] of Object.entries(stats)) {
+    if (typeof st?.pts_ppr !== 'number' || !st.gp || st.gp < MIN_GAMES) continue;
+    const pos = players[id]?.position;
+    if (!pos) continue;
+    byPos.set(pos, [...(byPos.get(pos) ?? []), st.pts_ppr / st.gp]);
+  }
+  for (const list of byPos.values()) list.sort((a, b) => b - a);
+  return byPos;
+}
+
+/**
+ * Swap recommended starters back into the slots they already hold where both
+ * slots allow it, so a lineup that only needs one change shows one change.
+ */
+function keepInPlace(slots: string[], recommended: (LineupPlayer | null)[], current: (LineupPlayer | null)[]) {
+  const fits = (p: LineupPlayer | null, i: number) => !p || (SLOT_ELIGIBILITY[slots[i]] ?? []).includes(p.position);
+  for (let i = 0; i < slots.length; i++) {
+    const want = current[i];
+    if (!want || recommended[i]?.playerId === want.playerId) continue;
+    const j = recommended.findIndex(p => p?.playerId === want.playerId);
+    if (j < 0 || recommended[i]?.locked || !fits(want, i) || !fits(recommended[i], j)) continue;
+    [recommended[i], recommended[j]] = [recommended[j], recommended[i]];
+  }
+  return recommended;
+}
+
+async function buildLineups(leagueId: string): Promise<LineupAdvice[]> {
+  const provider = getProvider();
+  const [league, rosters, nflState] = await Promise.all([
+    provider.getLeague(leagueId),
+    provider.getRosters(leagueId),
+    provider.getNFLState(),
+  ]);
+  if (!league) throw new Error(`League ${leagueId} not found`);
+
+  const season = league.season;
+  // A past season's rosters have no lineup left to set.
+  if (nflState.season !== season) return [];
+  const week = Math.max(1, nflState.week ?? 1);
+  const statsSeason = await resolveStatsSeason(season);
+  const [players, stats, snapshot, injuries, games] = await Promise.all([
+    getPlayersDirectory(),
+    getSeasonStats(statsSeason),
+    getSnapshot().catch(() => null),
+    getInjuries().catch(err => {
+      console.warn('[lineupOptimizer] injury report unavailable:', err instanceof Error ? err.message : err);
+      return [];
+    }),
+    getWeekGames(season, week),
+  ]);
+
+  const slots = (league.roster_positions ?? []).filter(isStartingSlot);
+  const curves = rankCurves(stats, players);
+  const gameOf = gamesByTeam(games);
+  const injuryOf = new Map(injuries.map(i => [playerKey(i.playerName, i.position), i.status]));
+
+  const ecrWeek = snapshot && snapshot.season === season && snapshot.week === week ? week : null;
+  const ranked = ecrWeek && snapshot
+    ? ecrBySleeperId(snapshot, 'weekly', rosters.flatMap(r => r.players ?? []), players)
+    : new Map();
+
+  const project = (id: string): LineupPlayer => {
+    const card = buildPlayerCard(id, players, stats);
+    const ecr = ranked.get(id);
+    const rank = ecr ? positionRank(ecr) : null;
+    const fromRank = rank ? curves.get(card.position)?.[rank - 1] ?? null : null;
+    const own = card.gamesPlayed && card.gamesPlayed >= MIN_GAMES ? card.pointsPerGame : null;
+
+    let projected: number;
+    let basis: LineupPlayer['basis'];
+    if (fromRank != null) {
+      projected = own != null ? ECR_BLEND * fromRank + (1 - ECR_BLEND) * own : fromRank;
+      basis = 'expert rank';
+    } else if (card.pointsPerGame != null) {
+      projected = card.pointsPerGame;
+      basis = 'season rate';
+    } else {
+      projected = FALLBACK_PPG[card.position] ?? 0;
+      basis = 'fallback';
+    }
+
+    const name = sleeperName(players[id] ?? {}) || card.name;
+    const injury = injuryOf.get(playerKey(name, card.position)) ?? card.injuryStatus;
+    const game = gameOf.get(card.nflTeam);
+    // With no schedule to go on, the expert board's bye week is the fallback.
+    const onBye = games.length
+      ? !game
+      : Boolean(ecr?.byeWeek && Number(ecr.byeWeek) === week);
+    const unavailable = onBye || card.nflTeam === 'FA' || Boolean(injury && OUT.test(injury));
+    if (unavailable) projected = 0;
+    else if (injury && QUESTIONABLE.test(injury)) projected *= QUESTIONABLE_DISCOUNT;
+
+    return {
+      playerId: id,
+      name: card.name,
+      position: card.position,
+      nflTeam: card.nflTeam,
+      projected: Number(projected.toFixed(2)),
+      basis,
+      ecrRank: ecr?.posRank ?? null,
+      injury: injury || null,
+      onBye,
+      locked: Boolean(game && game.state !== 'pre'),
+      unavailable,
+    };
+  };
+
+  return rosters.map((r): LineupAdvice => {
+    const pool = (r.players ?? []).filter(Boolean).map(project);
+    const byId = new Map(pool.map(p => [p.playerId, p]));
+    const current = slots.map((_, i) => {
+      const id = r.starters?.[i];
+      return id && id !== '0' ? byId.get(id) ?? null : null;
+    });
+
+    const lockedIn = new Map<number, LineupPlayer>();
+    current.forEach((p, i) => { if (p?.locked) lockedIn.set(i, p); });
+    // Locked starters keep their slot; locked bench players cannot come in.
+    const best = fillSlots(slots, pool, {
+      positionsOf: p => [p.position],
+      valueOf: p => p.projected,
+      fixed: lockedIn,
+      canMove: p => !p.locked,
+    });
+    const recommended = keepInPlace(slots, best, current);
+
+    const currentIds = new Set(current.filter(Boolean).map(p => p!.playerId));
+    const recommendedIds = new Set(recommended.filter(Boolean).map(p => p!.playerId));
+    const starts = recommended.filter((p): p is LineupPlayer => !!p && !currentIds.has(p.playerId))
+      .sort((a, b) => b.projected - a.projected);
+    const sits = current.filter((p): p is LineupPlayer => !!p && !recommendedIds.has(p.playerId))
+      .sort((a, b) => a.projected - b.projected);
+
+    const total = (ps: (LineupPlayer | null)[]) => Number(ps.reduce((s, p) => s + (p?.projected ?? 0), 0).toFixed(2));
+    return {
+      rosterId: r.roster_id,
+      userId: r.owner_id ?? null,
+      season,
+      week,
+      slots: slots.map((slot, i) => ({
+        slot,
+        current: current[i],
+        recommended: recommended[i],
+        changed: recommended[i]?.playerId !== current[i]?.playerId,
+      })),
+      // Best newcomer for the worst benched starter, and so on down.
+      changes: starts.map((start, i) => {
+        const sit = sits[i] ?? null;
+        return { start, sit, gain: Number((start.projected - (sit?.projected ?? 0)).toFixed(2)) };
+      }),
+      currentProjected: total(current),
+      optimalProjected: total(recommended),
+      ecrWeek,
+    };
+  });
+}
+
+/** Lineup advice for every roster in a league, for the current week. */
+export function getLineupAdvice(leagueId: string): Promise<LineupAdvice[]> {
+  return cached(`route:lineups:${leagueId}`, LINEUP_POLICY, () => buildLineups(leagueId));
+}
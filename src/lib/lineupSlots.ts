@@ -0,0 +1,57 @@
+/**
+ * Sleeper's starting slots and how to fill them best. Shared by this week's
+ * lineup advice (lib/lineupOptimizer.ts) and the look back at every lineup
+ * already set (lib/lineupHistory.ts).
+ *
+ * Slots are filled narrowest first (QB before SUPER_FLEX, RB before FLEX),
+ * each with the best player left who is eligible. That is optimal whenever
+ * the flex slots nest inside each other, which every Sleeper layout does
+ * unless it mixes WRRB_FLEX with REC_FLEX.
+ */
+
+/** Which positions may fill each Sleeper starting slot. */
+export const SLOT_ELIGIBILITY: Record<string, string[]> = {
+  QB: ['QB'], RB: ['RB'], WR: ['WR'], TE: ['TE'], K: ['K'], DEF: ['DEF'],
+  DL: ['DL'], LB: ['LB'], DB: ['DB'],
+  FLEX: ['RB', 'WR', 'TE'],
+  WRRB_FLEX: ['RB', 'WR'],
+  REC_FLEX: ['WR', 'TE'],
+  SUPER_FLEX: ['QB', 'RB', 'WR', 'TE'],
+  IDP_FLEX: ['DL', 'LB', 'DB'],
+};
+
+/** False for BN, IR and TAXI, which score nothing. */
+export function isStartingSlot(slot: string): boolean {
+  return slot in SLOT_ELIGIBILITY;
+}
+
+export interface FillOptions<T> {
+  positionsOf: (p: T) => string[];
+  valueOf: (p: T) => number;
+  /** Slot index -> a player who must stay there. */
+  fixed?: Map<number, T>;
+  /** Players who may not be moved into a slot. */
+  canMove?: (p: T) => boolean;
+}
+
+/** The best player for each slot, null where nobody eligible is left. */
+export function fillSlots<T extends { playerId: string }>(slots: string[], pool: T[], opts: FillOptions<T>): (T | null)[] {
+  const fixed = opts.fixed ?? new Map<number, T>();
+  const out: (T | null)[] = slots.map((_, i) => fixed.get(i) ?? null);
+  const used = new Set([...fixed.values()].map(p => p.playerId));
+  const order = slots
+    .map((_, i) => i)
+    .filter(i => !fixed.has(i))
+    .sort((a, b) => (SLOT_ELIGIBILITY[slots[a]]?.length ?? 0) - (SLOT_ELIGIBILITY[slots[b]]?.length ?? 0));
+  const ranked = [...pool].sort((a, b) => opts.valueOf(b) - opts.valueOf(a));
+
+  for (const i of order) {
+    const eligible = SLOT_ELIGIBILITY[slots[i]] ?? [];
+    const best = ranked.find(p =>
+      !used.has(p.playerId) &&
+      (opts.canMove?.(p) ?? true) &&
+      opts.positionsOf(p).some(pos => eligible.includes(pos)));
+    if (best) { out[i] = best; used.add(best.playerId); }
+  }
+  return out;
+}
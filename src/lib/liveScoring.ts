@@ -0,0 +1,160 @@
+/**
+ * Server-only: the current week's matchups as they stand right now.
+ *
+ * Sleeper's matchup payload gives each starter's points so far. Joined with
+ * the NFL game each starter is in (lib/nflGames.ts) that says who is done,
+ * who is mid-game and who has not kicked off, and from that a rough live win
+ * probability: each side's current score plus what its unfinished starters
+ * would add at their season scoring rate, scaled by how much of their game is
+ * left, with spread shrinking as games finish.
+ *
+ * Deltas between polls are the browser's business; this is one snapshot.
+ */
+import { getProvider } from './providers';
+import { getWeekGames, gamesByTeam, isGameWindow, type NFLGame } from './nflGames';
+import { winProbability } from './projections';
+import {
+  getPlayersDirectory,
+  getSeasonStats,
+  resolveStatsSeason,
+  buildPlayerCard,
+} from './playerStats';
+
+export type PlayerGameStatus = 'yet' | 'playing' | 'finished' | 'bye';
+
+export interface LivePlayer {
+  playerId: string;
+  name: string;
+  position: string;
+  nflTeam: string;
+  points: number;
+  status: PlayerGameStatus;
+  /** e.g. "Q3 4:12". Empty on a bye. */
+  gameDetail: string;
+  /** Points still expected from this player this week. */
+  remaining: number;
+}
+
+export interface LiveTeam {
+  rosterId: number;
+  userId: string | null;
+  points: number;
+  /** Current points plus everything still expected. */
+  projected: number;
+  starters: LivePlayer[];
+  yetToPlay: number;
+  playing: number;
+  /** Game over, or on bye: nothing left to add. */
+  finished: number;
+}
+
+export interface LiveMatchup {
+  matchupId: number;
+  teams: [LiveTeam, LiveTeam];
+  /** Chance teams[0] wins, 0-1. */
+  winProbability: number;
+}
+
+export interface LiveScoreboard {
+  season: string;
+  week: number;
+  /** True while games are on. The browser polls only while this holds. */
+  live: boolean;
+  updatedAt: string;
+  matchups: LiveMatchup[];
+}
+
+// Used when a starter has no scoring history (a rookie in week 1, say).
+const FALLBACK_PPG: Record<string, number> = { QB: 17, RB: 10, WR: 10, TE: 7, K: 8, DEF: 7 };
+// Weekly fantasy scoring is noisy: a standard deviation around half the mean.
+const SD_SHARE = 0.5;
+
+/**
+ * Where a starter's game stands, and the share of it still to play. With no
+ * schedule at all (ESPN unreachable) a bye cannot be told from a missing
+ * feed, so points on the board are read as mid-game and none as not started.
+ */
+function playerGame(game: NFLGame | undefined, haveSchedule: boolean, points: number): { status: PlayerGameStatus; share: number } {
+  if (!haveSchedule) return points ? { status: 'playing', share: 0.5 } : { status: 'yet', share: 1 };
+  if (!game) return { status: 'bye', share: 0 };
+  if (game.state === 'pre') return { status: 'yet', share: 1 };
+  if (game.state === 'in') return { status: 'playing', share: game.remaining };
+  return { status: 'finished', share: 0 };
+}
+
+export async function buildLiveScoreboard(leagueId: string): Promise<LiveScoreboard> {
+  const provider = getProvider();
+  const nflState = await provider.getNFLState({ freshness: 'live' });
+  const week = Math.max(1, nflState.week ?? 1);
+  const season = nflState.season;
+
+  const statsSeason = await resolveStatsSeason(season);
+  const [matchups, rosters, games, players, stats] = await Promise.all([
+    provider.getMatchups(leagueId, week, { freshness: 'live' }),
+    provider.getRosters(leagueId),
+    getWeekGames(season, week),
+    getPlayersDirectory(),
+    getSeasonStats(statsSeason),
+  ]);
+  const gameOf = gamesByTeam(games);
+  const ownerOf = new Map(rosters.map(r => [r.roster_id, r.owner_id ?? null]));
+
+  const buildTeam = (m: (typeof matchups)[number]): LiveTeam & { variance: number } => {
+    let variance = 0;
+    const starters = (m.starters ?? []).filter(id => id && id !== '0').map((id): LivePlayer => {
+      const card = buildPlayerCard(id, players, stats);
+      const game = gameOf.get(card.nflTeam);
+      const points = m.players_points?.[id] ?? 0;
+      const { status, share } = playerGame(game, games.length > 0, points);
+      const ppg = card.pointsPerGame ?? FALLBACK_PPG[card.position] ?? 8;
+      variance += (SD_SHARE * ppg) ** 2 * share;
+      return {
+        playerId: id,
+        name: card.name,
+        position: card.position,
+        nflTeam: card.nflTeam,
+        points: Number(points.toFixed(2)),
+        status,
+        gameDetail: game?.detail ?? '',
+        remaining: Number((ppg * share).toFixed(2)),
+      };
+    });
+    const points = Number((m.points ?? 0).toFixed(2));
+    return {
+      rosterId: m.roster_id,
+      userId: ownerOf.get(m.roster_id) ?? null,
+      points,
+      projected: Number((points + starters.reduce((s, p) => s + p.remaining, 0)).toFixed(2)),
+      starters,
+      yetToPlay: starters.filter(p => p.status === 'yet').length,
+      playing: starters.filter(p => p.status === 'playing').length,
+      finished: starters.filter(p => p.status === 'finished' || p.status === 'bye').length,
+      variance,
+    };
+  };
+
+  const byMatchup = new Map<number, typeof matchups>();
+  for (const m of matchups) {
+    if (!m.matchup_id) continue;
+    byMatchup.set(m.matchup_id, [...(byMatchup.get(m.matchup_id) ?? []), m]);
+  }
+
+  const live: LiveMatchup[] = [];
+  for (const [matchupId, pair] of [...byMatchup.entries()].sort(([a], [b]) => a - b)) {
+    if (pair.length !== 2) continue;
+    const [{ variance: va, ...a }, { variance: vb, ...b }] = pair.map(buildTeam);
+    live.push({
+      matchupId,
+      teams: [a, b],
+      winProbability: Number(winProbability({ projected: a.projected, variance: va }, { projected: b.projected, variance: vb }).toFixed(3)),
+    });
+  }
+
+  return {
+    season,
+    week,
+    live: nflState.season_type === 'regular' && isGameWindow(games),
+    updatedAt: new Date().toISOString(),
+    matchups: live,
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Server-only: which manager the current request is from.
+ *
+ * A manager signs in by redeeming an invite code the commissioner issued for
+ * their Sleeper user id (admin → Managers). Redeeming it sets MANAGER_COOKIE
+ * to a session signed with SESSION_SECRET, so the cookie cannot be edited
+ * into someone else's. A code works on every device until the commissioner
+ * reissues or revokes it, and doing either signs out every session made with
+ * the old one.
+ *
+ * Identity is a Sleeper user id, not a roster, because user ids carry across
+ * seasons and league chains; getRequestManager resolves it to this league's
+ * roster.
+ */
+import { createHash, randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { getProvider } from './providers';
+import { readJson, writeJson } from './jsonStore';
+import { safeEqual, signToken, verifyToken } from './sessionSigning';
+
+export const MANAGER_COOKIE = 'lp_manager';
+
+export interface LeagueManager {
+  userId: string;
+  rosterId: number;
+  teamName: string;
+  avatar: string;
+}
+
+interface Invite {
+  /** sha256 of the normalised code; the code itself is shown once and never stored. */
+  codeHash: string;
+  issuedAt: string;
+}
+
+const INVITES_KEY = 'lp_manager_invites';
+const INVITES_FILE = 'manager-invites.json';
+
+export const SESSION_MAX_AGE = 180 * 24 * 60 * 60; // seconds
+
+// No 0/O or 1/I, so a code read out over text cannot be misread.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const normaliseCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+const hashCode = (code: string) => createHash('sha256').update(normaliseCode(code)).digest('hex');
+
+async function loadInvites(): Promise<Record<string, Invite>> {
+  return readJson<Record<string, Invite>>(INVITES_KEY, INVITES_FILE, {});
+}
+
+/** Every manager who owns a roster in the league. */
+export async function getLeagueManagers(leagueId: string): Promise<LeagueManager[]> {
+  const provider = getProvider();
+  const [rosters, users] = await Promise.all([
+    provider.getRosters(leagueId, { freshness: 'recent' }),
+    provider.getLeagueUsers(leagueId, { freshness: 'recent' }),
+  ]);
+  const userById = new Map(users.map(u => [u.user_id, u]));
+  return rosters.flatMap(r => {
+    const user = r.owner_id ? userById.get(r.owner_id) : undefined;
+    if (!user) return [];
+    return [{
+      userId: user.user_id,
+      rosterId: r.roster_id,
+      teamName: user.metadata?.team_name || user.display_name,
+      avatar: user.avatar ?? '',
+    }];
+  });
+}
+
+// ── Invites ──────────────────────────────────────────────────────────────────
+
+/** When each manager's current code was issued, by user id. */
+export async function listInvites(): Promise<Record<string, string>> {
+  const invites = await loadInvites();
+  return Object.fromEntries(Object.entries(invites).map(([userId, i]) => [userId, i.issuedAt]));
+}
+
+/** Issues a fresh code for a manager, replacing (and signing out) any earlier one. */
+export async function issueInvite(userId: string): Promise<string> {
+  const bytes = randomBytes(8);
+  const raw = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  const invites = await loadInvites();
+  invites[userId] = { codeHash: hashCode(raw), issuedAt: new Date().toISOString() };
+  await writeJson(INVITES_KEY, INVITES_FILE, invites);
+  return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+}
+
+export async function revokeInvite(userId: string): Promise<void> {
+  const invites = await loadInvites();
+  if (!invites[userId]) return;
+  delete invites[userId];
+  await writeJson(INVITES_KEY, INVITES_FILE, invites);
+}
+
+// ── Sessions ─────────────────────────────────────────────────────────────────
+
+/**
+ * The session cookie value for a valid code, or null. The session records
+ * which issue of the code made it, which is how reissuing revokes it.
+ */
+export async function redeemInvite(code: string): Promise<{ userId: string; session: string } | null> {
+  const hash = hashCode(code);
+  const invites = await loadInvites();
+  const entry = Object.entries(invites).find(([, i]) => safeEqual(i.codeHash, hash));
+  if (!entry) return null;
+  const [userId, invite] = entry;
+  return { userId, session: signToken('manager', [userId, String(Date.parse(invite.issuedAt)), String(Date.now())]) };
+}
+
+/** The Sleeper user id of the signed-in manager, if any. */
+export async function getRequestManagerId(): Promise<string | null> {
+  let fields: string[] | null;
+  try {
+    fields = verifyToken((await cookies()).get(MANAGER_COOKIE)?.value, 'manager', 3);
+  } catch {
+    return null;
+  }
+  if (!fields) return null;
+  const [userId, issued, signedAt] = fields;
+  if (Date.now() - Number(signedAt) > SESSION_MAX_AGE * 1000) return null;
+
+  const invite = (await loadInvites())[userId];
+  return invite && String(Date.parse(invite.issuedAt)) === issued ? userId : null;
+}
+
+/** The signed-in manager in this league, or null when signed out or not a member. */
+export async function getRequestManager(leagueId: string): Promise<LeagueManager | null> {
+  const userId = await getRequestManagerId();
+  if (!userId) return null;
+  return (await getLeagueManagers(leagueId)).find(m => m.userId === userId) ?? null;
+}
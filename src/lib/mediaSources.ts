@@ -1,7 +1,7 @@
 import { fetchRssFeed } from './rss';
 import { sleeperAPI } from './sleeperApi';
 import { getLeagueUsers, getLeagueRosters } from './api';
-import { getCurrentLeagueId } from '@/config/league';
+import { getRequestLeagueId } from '@/lib/leagueContext';
 
 const ESPN_NEWS_URL = 'http://site.api.espn.com/apis/site/v2/sports/football/nfl/news';
 const ESPN_INJURIES_URL = 'http://site.api.espn.com/apis/site/v2/sports/football/nfl/injuries';
@@ -386,12 +386,14 @@ function playerBelongsToTeam(playerName: string, team: FantasyTeam): boolean {
   return team.playerNames.includes(normalizeName(playerName));
 }
 
-const teamsCache = withCache<FantasyTeam[]>(15 * 60 * 1000);
+// One slot per league: the fantasy teams differ between league chains.
+const teamsCaches = new Map<string, ReturnType<typeof withCache<FantasyTeam[]>>>();
 
 /** Every fantasy manager in the current league with their live roster, for tailoring content to "their guys". */
 export async function getFantasyTeams(): Promise<FantasyTeam[]> {
-  return teamsCache(async () => {
-    const leagueId = await getCurrentLeagueId();
+  const leagueId = await getRequestLeagueId();
+  if (!teamsCaches.has(leagueId)) teamsCaches.set(leagueId, withCache<FantasyTeam[]>(15 * 60 * 1000));
+  return teamsCaches.get(leagueId)!(async () => {
     const [users, rosters, players] = await Promise.all([
       getLeagueUsers(leagueId),
       getLeagueRosters(leagueId),
@@ -0,0 +1,123 @@
+/**
+ * Server-only: which NFL games are on, from ESPN's public scoreboard.
+ *
+ * Sleeper publishes fantasy points but not game state, and live scoring needs
+ * both: a player on 0.0 could be having a terrible day or not have kicked off.
+ * ESPN's scoreboard is the same unauthenticated JSON API the media feed
+ * already reads news and injuries from.
+ */
+import { cached, type CachePolicy } from './dataCache';
+
+const ESPN_SCOREBOARD_URL = 'https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard';
+
+// Game clocks move every few seconds; this only has to keep up with polling.
+const GAMES_POLICY: CachePolicy = { freshMs: 30_000, staleMs: 60_000, persist: false };
+
+const REGULATION_SECONDS = 4 * 15 * 60;
+
+// ESPN and Sleeper agree on every team abbreviation but one.
+const ESPN_TO_SLEEPER: Record<string, string> = { WSH: 'WAS' };
+
+export type GameState = 'pre' | 'in' | 'post';
+
+/** The slice of ESPN's scoreboard payload this reads. */
+interface EspnStatus {
+  period?: number;
+  clock?: number;
+  type?: { state?: string; shortDetail?: string };
+}
+interface EspnEvent {
+  id: string | number;
+  date: string;
+  status?: EspnStatus;
+  competitions?: { status?: EspnStatus; competitors?: { team?: { abbreviation?: string } }[] }[];
+}
+
+export interface NFLGame {
+  id: string;
+  /** ISO kickoff time. */
+  kickoff: string;
+  state: GameState;
+  /** Both teams, in Sleeper's abbreviations. */
+  teams: string[];
+  /** Share of regulation still to play, 0-1. Overtime counts as 0. */
+  remaining: number;
+  /** e.g. "Q3 4:12", "Final", or the kickoff time. */
+  detail: string;
+}
+
+function remainingShare(state: GameState, period: number, clockSeconds: number): number {
+  if (state === 'pre') return 1;
+  if (state === 'post' || period > 4) return 0;
+  const left = (4 - period) * 15 * 60 + clockSeconds;
+  return Math.min(1, Math.max(0, left / REGULATION_SECONDS));
+}
+
+/** Every game of a regular-season week. Empty when ESPN cannot be reached. */
+export async function getWeekGames(season: string, week: number): Promise<NFLGame[]> {
+  try {
+    return await cached(`espn:games:${season}:${week}`, GAMES_POLICY, async () => {
+      const res = await fetch(`${ESPN_SCOREBOARD_URL}?seasontype=2&week=${week}&dates=${season}`, { cache: 'no-store' });
+      if (!res.ok) throw new Error(`ESPN scoreboard failed: ${res.status}`);
+      const data: { events?: EspnEvent[] } = await res.json();
+      return (data?.events ?? []).map((e): NFLGame => {
+        const comp = e.competitions?.[0] ?? {};
+        const status: EspnStatus = comp.status ?? e.status ?? {};
+        const state: GameState = status.type?.state === 'in' ? 'in' : status.type?.state === 'post' ? 'post' : 'pre';
+        return {
+          id: String(e.id),
+          kickoff: e.date,
+          state,
+          teams: (comp.competitors ?? []).map(c => {
+            const abbr = String(c.team?.abbreviation ?? '');
+            return ESPN_TO_SLEEPER[abbr] ?? abbr;
+          }),
+          remaining: remainingShare(state, Number(status.period ?? 0), Number(status.clock ?? 0)),
+          detail: status.type?.shortDetail ?? '',
+        };
+      });
+    });
+  } catch (err) {
+    console.warn('[nflGames]', err instanceof Error ? err.message : err);
+    return [];
+  }
+}
+
+/** Team abbreviation -> its game this week. Teams on bye are absent. */
+export function gamesByTeam(games: NFLGame[]): Map<string, NFLGame> {
+  const out = new Map<string, NFLGame>();
+  for (const g of games) for (const t of g.teams) out.set(t, g);
+  return out;
+}
+
+const KICKOFF_LEAD_MS = 30 * 60_000;
+
+/**
+ * Thursday night, Sunday, Monday night, Eastern time. Only consulted when
+ * ESPN is unavailable; otherwise the real schedule decides.
+ */
+function inUsualWindow(now: Date): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York', weekday: 'short', hour: 'numeric', hourCycle: 'h23',
+  }).formatToParts(now);
+  const day = parts.find(p => p.type === 'weekday')?.value;
+  const hour = Number(parts.find(p => p.type === 'hour')?.value ?? 0);
+  switch (day) {
+    case 'Thu': return hour >= 20;
+    case 'Fri': return hour < 1;
+    case 'Sun': return hour >= 9;
+    case 'Mon': return hour < 1 || hour >= 19;
+    case 'Tue': return hour < 1;
+    default:    return false;
+  }
+}
+
+/** True while a game is being played, or one kicks off within half an hour. */
+export function isGameWindow(games: NFLGame[], now = new Date()): boolean {
+  if (!games.length) return inUsualWindow(now);
+  return games.some(g =>
+    g.state === 'in' ||
+    (g.state === 'pre' && new Date(g.kickoff).getTime() - now.getTime() < KICKOFF_LEAD_MS &&
+      new Date(g.kickoff).getTime() > now.getTime() - 4 * 3_600_000),
+  );
+}
@@ -3,18 +3,21 @@
  *
  * Both payloads are far too large to ship to the browser (the player dump is
  * ~19MB, season stats ~1.9MB), so everything here stays behind API routes and
- * is cached at module level — same pattern the transactions route already uses,
- * since Next's data cache caps out at 2MB.
+ * goes through the shared cache (lib/dataCache.ts) in memory only, since Next's
+ * data cache caps out at 2MB and Redis is no better a home for them.
  */
 
+import { getProvider } from './providers';
+import { cached, type CachePolicy } from './dataCache';
+
+// Season stat lines are NFL-wide rather than league data, so they come from
+// Sleeper whichever platform the league itself is on.
 const BASE = 'https://api.sleeper.app/v1';
 
-const PLAYERS_TTL_MS = 24 * 60 * 60 * 1000; // 24h — this dump changes slowly
-const STATS_TTL_MS   = 60 * 60 * 1000;      // 1h  — in-season this moves weekly
+const STATS_TTL_MS = 60 * 60 * 1000; // 1h — in-season this moves weekly
 
-let playersCache: { data: Record<string, any>; ts: number } | null = null;
-const statsCache = new Map<string, { data: Record<string, any>; ts: number }>();
-let statsSeasonCache: { season: string; ts: number } | null = null;
+const STATS_POLICY: CachePolicy = { freshMs: STATS_TTL_MS, staleMs: 24 * STATS_TTL_MS, persist: false };
+const STATS_SEASON_POLICY: CachePolicy = { freshMs: STATS_TTL_MS, staleMs: 24 * STATS_TTL_MS };
 
 export interface PlayerCard {
   playerId:   string;
@@ -32,20 +35,22 @@ export interface PlayerCard {
   positionRank: number | null;
 }
 
+/** The provider caches this (24h, memory only); it is not refetched per call. */
 export async function getPlayersDirectory(): Promise<Record<string, any>> {
-  if (playersCache && Date.now() - playersCache.ts < PLAYERS_TTL_MS) return playersCache.data;
-  const data = await fetch(`${BASE}/players/nfl`, { cache: 'no-store' }).then(r => r.json());
-  playersCache = { data, ts: Date.now() };
-  return data;
+  return getProvider().getPlayers();
 }
 
 export async function getSeasonStats(season: string): Promise<Record<string, any>> {
-  const hit = statsCache.get(season);
-  if (hit && Date.now() - hit.ts < STATS_TTL_MS) return hit.data;
-  const res = await fetch(`${BASE}/stats/nfl/regular/${season}`, { cache: 'no-store' });
-  const data = res.ok ? await res.json() : {};
-  statsCache.set(season, { data, ts: Date.now() });
-  return data;
+  try {
+    return await cached(`sleeper:stats:${season}`, STATS_POLICY, async () => {
+      const res = await fetch(`${BASE}/stats/nfl/regular/${season}`, { cache: 'no-store' });
+      if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+      return res.json();
+    });
+  } catch {
+    // A failed load is not cached, so the next call tries again.
+    return {};
+  }
 }
 
 /** Rows keyed TEAM_XXX are league-wide aggregates, not players. */
@@ -70,16 +75,10 @@ function scoredCount(stats: Record<string, any>): number {
  * hasn't produced meaningful data yet.
  */
 export async function resolveStatsSeason(currentSeason: string): Promise<string> {
-  if (statsSeasonCache && Date.now() - statsSeasonCache.ts < STATS_TTL_MS) {
-    return statsSeasonCache.season;
-  }
-  let season = currentSeason;
-  const current = await getSeasonStats(currentSeason);
-  if (scoredCount(current) < 50) {
-    season = String(Number(currentSeason) - 1);
-  }
-  statsSeasonCache = { season, ts: Date.now() };
-  return season;
+  return cached(`sleeper:statsSeason:${currentSeason}`, STATS_SEASON_POLICY, async () => {
+    const current = await getSeasonStats(currentSeason);
+    return scoredCount(current) < 50 ? String(Number(currentSeason) - 1) : currentSeason;
+  });
 }
 
 export function buildPlayerCard(
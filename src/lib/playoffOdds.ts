@@ -0,0 +1,255 @@
+/**
+ * Server-only: who makes the playoffs, by simulation, and who already has.
+ *
+ * The rest of the regular season is played out SIMULATIONS times with every
+ * team's score drawn from its projection (lib/projections.ts), then seeded the
+ * way Sleeper seeds: record first (a tie is half a win), total points for as
+ * the tiebreak. With the league-median game on, each week also pays a win to
+ * every team above that week's median.
+ *
+ * Clinched and eliminated are certainties, not rounded odds. With few enough
+ * head-to-head games left every outcome is enumerated; beyond that a simple
+ * bound is used. A tie on wins could go either way on points, and median
+ * games are assumed to go against the team in question (for a clinch) or its
+ * way (for an elimination), so a flag can arrive a week late but is never
+ * wrong.
+ */
+import { getProvider } from './providers';
+import { getProjections } from './projections';
+import { byesFor } from './playoffScenarios';
+import { cached, type CachePolicy } from './dataCache';
+
+export interface TeamOdds {
+  rosterId: number;
+  userId: string | null;
+  teamName: string;
+  avatar: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  /** Average final win total across simulations. */
+  projectedWins: number;
+  /** 0-1. */
+  playoffOdds: number;
+  byeOdds: number;
+  /** Index i is the chance of finishing as seed i + 1. */
+  seedOdds: number[];
+  clinchedPlayoffs: boolean;
+  clinchedBye: boolean;
+  eliminated: boolean;
+}
+
+export interface PlayoffOddsPayload {
+  season: string;
+  playoffTeams: number;
+  /** First-round byes the bracket gives its top seeds. */
+  byes: number;
+  /** Regular-season weeks still to be decided. */
+  remainingWeeks: number[];
+  simulations: number;
+  medianGames: boolean;
+  /** Current seed order. */
+  teams: TeamOdds[];
+  updatedAt: string;
+}
+
+const ODDS_POLICY: CachePolicy = { freshMs: 900_000, staleMs: 6 * 3_600_000 }; // 15 min, then 6h stale
+
+const SIMULATIONS = 10_000;
+// 2^18 outcomes is a fraction of a second; every extra game doubles it.
+const EXACT_MAX_GAMES = 18;
+
+/** mulberry32: seeded, so a cached answer and a fresh one agree. */
+function rng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+function gaussian(rand: () => number): number {
+  const u = Math.max(rand(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+}
+
+/** Team indexes in seed order: wins, then points for. */
+function seedOrder(wins: number[], points: number[]): number[] {
+  return wins.map((_, i) => i).sort((a, b) => wins[b] - wins[a] || points[b] - points[a]);
+}
+
+interface Certainty { clinchedPlayoffs: boolean; clinchedBye: boolean; eliminated: boolean }
+
+/**
+ * For each team, whether it is in (or out) whatever happens. `games` are the
+ * remaining head-to-head games as team index pairs; `medianLeft` is how many
+ * median games each team still has.
+ */
+function certainties(wins: number[], games: [number, number][], medianLeft: number, slots: number, byes: number): Certainty[] {
+  const n = wins.length;
+  const out = wins.map((): Certainty => ({ clinchedPlayoffs: true, clinchedBye: byes > 0, eliminated: true }));
+
+  // Checked against one set of final win totals: ahead of T counts every team
+  // that could finish level with it (pessimistic) or only those that must
+  // finish clear of it (optimistic).
+  const check = (final: number[]) => {
+    for (let t = 0; t < n; t++) {
+      let couldBeAhead = 0, mustBeAhead = 0;
+      for (let x = 0; x < n; x++) {
+        if (x === t) continue;
+        if (final[x] + medianLeft >= final[t]) couldBeAhead++;
+        if (final[x] > final[t] + medianLeft) mustBeAhead++;
+      }
+      const c = out[t];
+      if (couldBeAhead >= slots) c.clinchedPlayoffs = false;
+      if (couldBeAhead >= byes) c.clinchedBye = false;
+      if (mustBeAhead < slots) c.eliminated = false;
+    }
+  };
+
+  if (games.length <= EXACT_MAX_GAMES) {
+    const final = new Array<number>(n);
+    for (let mask = 0; mask < 2 ** games.length; mask++) {
+      for (let i = 0; i < n; i++) final[i] = wins[i];
+      games.forEach(([a, b], g) => { final[(mask >> g) & 1 ? a : b]++; });
+      check(final);
+      if (out.every(c => !c.clinchedPlayoffs && !c.clinchedBye && !c.eliminated)) break;
+    }
+    return out;
+  }
+
+  // Too many games to enumerate. A clinch needs T to stay ahead even losing
+  // out while everyone else wins out; an elimination needs enough teams
+  // already clear of T's best case.
+  const left = new Array<number>(n).fill(0);
+  for (const [a, b] of games) { left[a]++; left[b]++; }
+  const best = wins.map((w, i) => w + left[i]);
+  for (let t = 0; t < n; t++) {
+    let couldBeAhead = 0, mustBeAhead = 0;
+    for (let x = 0; x < n; x++) {
+      if (x === t) continue;
+      if (best[x] + medianLeft >= wins[t]) couldBeAhead++;
+      if (wins[x] > best[t] + medianLeft) mustBeAhead++;
+    }
+    out[t] = {
+      clinchedPlayoffs: couldBeAhead < slots,
+      clinchedBye: byes > 0 && couldBeAhead < byes,
+      eliminated: mustBeAhead >= slots,
+    };
+  }
+  return out;
+}
+
+async function buildPlayoffOdds(leagueId: string, rootLeagueId: string): Promise<PlayoffOddsPayload> {
+  const provider = getProvider();
+  const [league, rosters, users, projections] = await Promise.all([
+    provider.getLeague(leagueId),
+    provider.getRosters(leagueId),
+    provider.getLeagueUsers(leagueId),
+    getProjections(leagueId, rootLeagueId),
+  ]);
+  if (!league) throw new Error(`League ${leagueId} not found`);
+
+  const n = rosters.length;
+  const playoffTeams = Math.min(n, league.settings?.playoff_teams || 6);
+  const byes = byesFor(playoffTeams);
+  const medianGames = Boolean(league.settings?.league_average_match);
+  const userById = new Map(users.map(u => [u.user_id, u]));
+
+  const wins = rosters.map(r => (r.settings?.wins ?? 0) + (r.settings?.ties ?? 0) / 2);
+  const points = rosters.map(r => (r.settings?.fpts ?? 0) + (r.settings?.fpts_decimal ?? 0) / 100);
+  const indexOf = new Map(rosters.map((r, i) => [r.roster_id, i]));
+
+  // Sleeper's standings lag the schedule by a day or so after each week ends,
+  // so a week is only still to play if the standings have not counted it.
+  const counted = Math.max(0, ...rosters.map(r =>
+    ((r.settings?.wins ?? 0) + (r.settings?.losses ?? 0) + (r.settings?.ties ?? 0)) / (medianGames ? 2 : 1)));
+  const remainingWeeks = projections.weeks.filter(w => w > counted);
+  const remaining = projections.matchups.filter(m => remainingWeeks.includes(m.week));
+
+  const byWeek = remainingWeeks.map(w => remaining
+    .filter(m => m.week === w)
+    .map(m => m.teams.map(t => ({ i: indexOf.get(t.rosterId) ?? -1, mean: t.projected, sd: t.stdDev })))
+    .filter(pair => pair.every(s => s.i >= 0)));
+
+  // ── Simulate ──
+  const simulations = remainingWeeks.length ? SIMULATIONS : 1;
+  const seedCounts = rosters.map(() => new Array<number>(n).fill(0));
+  const winTotals = new Array<number>(n).fill(0);
+  const rand = rng(n * 1_000 + remainingWeeks.length);
+
+  for (let s = 0; s < simulations; s++) {
+    const w = [...wins];
+    const p = [...points];
+    for (const games of byWeek) {
+      const scores: number[] = [];
+      for (const [a, b] of games) {
+        const sa = Math.max(0, a.mean + a.sd * gaussian(rand));
+        const sb = Math.max(0, b.mean + b.sd * gaussian(rand));
+        p[a.i] += sa; p[b.i] += sb;
+        if (sa > sb) w[a.i]++; else if (sb > sa) w[b.i]++; else { w[a.i] += 0.5; w[b.i] += 0.5; }
+        scores.push(sa, sb);
+      }
+      if (medianGames && scores.length) {
+        const sorted = [...scores].sort((x, y) => x - y);
+        const median = (sorted[Math.floor((sorted.length - 1) / 2)] + sorted[Math.ceil((sorted.length - 1) / 2)]) / 2;
+        games.forEach(([a, b], g) => {
+          if (scores[2 * g] > median) w[a.i]++;
+          if (scores[2 * g + 1] > median) w[b.i]++;
+        });
+      }
+    }
+    seedOrder(w, p).forEach((team, seed) => { seedCounts[team][seed]++; });
+    for (let i = 0; i < n; i++) winTotals[i] += w[i];
+  }
+
+  // ── Certainties ──
+  const h2h: [number, number][] = byWeek.flatMap(games => games.map(([a, b]): [number, number] => [a.i, b.i]));
+  const sure = remainingWeeks.length
+    ? certainties(wins, h2h, medianGames ? remainingWeeks.length : 0, playoffTeams, byes)
+    : seedOrder(wins, points).reduce((acc, team, seed) => {
+        acc[team] = { clinchedPlayoffs: seed < playoffTeams, clinchedBye: seed < byes, eliminated: seed >= playoffTeams };
+        return acc;
+      }, new Array<Certainty>(n));
+
+  const teams: TeamOdds[] = seedOrder(wins, points).map(i => {
+    const r = rosters[i];
+    const u = r.owner_id ? userById.get(r.owner_id) : undefined;
+    const seedOdds = seedCounts[i].map(c => Number((c / simulations).toFixed(4)));
+    return {
+      rosterId: r.roster_id,
+      userId: r.owner_id ?? null,
+      teamName: u?.metadata?.team_name || u?.display_name || `Roster ${r.roster_id}`,
+      avatar: u?.avatar ?? '',
+      wins: r.settings?.wins ?? 0,
+      losses: r.settings?.losses ?? 0,
+      ties: r.settings?.ties ?? 0,
+      pointsFor: Number(points[i].toFixed(2)),
+      projectedWins: Number((winTotals[i] / simulations).toFixed(1)),
+      playoffOdds: Number(seedOdds.slice(0, playoffTeams).reduce((s, x) => s + x, 0).toFixed(4)),
+      byeOdds: Number(seedOdds.slice(0, byes).reduce((s, x) => s + x, 0).toFixed(4)),
+      seedOdds,
+      ...sure[i],
+    };
+  });
+
+  return {
+    season: league.season,
+    playoffTeams,
+    byes,
+    remainingWeeks,
+    simulations: remainingWeeks.length ? simulations : 0,
+    medianGames,
+    teams,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/** Playoff odds for a league's current season, from the shared cache. */
+export function getPlayoffOdds(leagueId: string, rootLeagueId: string): Promise<PlayoffOddsPayload> {
+  return cached(`route:playoff-odds:${leagueId}`, ODDS_POLICY, () => buildPlayoffOdds(leagueId, rootLeagueId));
+}
@@ -0,0 +1,259 @@
+/**
+ * "What do I need?" — standings under a chosen set of results, and the
+ * smallest sets of results that put a team in the playoffs for certain.
+ *
+ * Isomorphic: the scenario page recomputes on every pick in the browser. The
+ * server's part is assembling ScenarioData (the remaining schedule, standings
+ * so far and each team's projected scoring), in /api/playoff-scenarios.
+ *
+ * Seeding is Sleeper's: record first, points for as the tiebreak. Points for
+ * a game nobody has played yet are its projection, so a tiebreak decided by
+ * points is shown as exactly that, a projection. A path, on the other hand,
+ * only counts if it wins on record alone whatever else happens, and it
+ * assumes the team loses every median game still to come while its rivals
+ * win theirs.
+ */
+
+export interface ScenarioTeam {
+  rosterId: number;
+  userId: string | null;
+  teamName: string;
+  avatar: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+}
+
+export interface ScenarioGame {
+  /** `${week}:${matchupId}`. */
+  id: string;
+  week: number;
+  a: number;
+  b: number;
+  projected: [number, number];
+  /** Chance `a` wins, 0-1. */
+  winProbability: number;
+}
+
+export interface ScenarioData {
+  season: string;
+  playoffTeams: number;
+  byes: number;
+  medianGames: boolean;
+  /** Week -> roster ids projected to beat that week's median. */
+  projectedMedianWinners: Record<string, number[]>;
+  teams: ScenarioTeam[];
+  games: ScenarioGame[];
+  /** Team roster id -> certain already, from the playoff odds. */
+  clinched: number[];
+  eliminated: number[];
+}
+
+/** Game id -> winning roster id. Games left out go to the projected favourite. */
+export type Picks = Record<string, number>;
+
+export interface StandingRow {
+  rosterId: number;
+  seed: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  /** Points so far plus projected points for the games still to play. */
+  pointsFor: number;
+  /** Rosters level on record with this one, when points for had to decide. */
+  tiedWith: number[];
+}
+
+export interface Outcome {
+  gameId: string;
+  winner: number;
+  loser: number;
+  week: number;
+}
+
+export interface PathsResult {
+  status: 'clinched' | 'eliminated' | 'alive';
+  /** Each path is a set of results that is enough on its own. Shortest first. */
+  paths: Outcome[][];
+  /** True when the search stopped before trying every path of the longest size shown. */
+  truncated: boolean;
+}
+
+export function byesFor(playoffTeams: number): number {
+  if (playoffTeams < 2) return 0;
+  return 2 ** Math.ceil(Math.log2(playoffTeams)) - playoffTeams;
+}
+
+export function favouriteOf(g: ScenarioGame): number {
+  return g.winProbability >= 0.5 ? g.a : g.b;
+}
+
+/** Final standings if the season ends as picked. */
+export function resolveStandings(data: ScenarioData, picks: Picks): StandingRow[] {
+  const rows = new Map(data.teams.map(t => [t.rosterId, {
+    rosterId: t.rosterId, wins: t.wins, losses: t.losses, ties: t.ties, pointsFor: t.pointsFor,
+  }]));
+
+  for (const g of data.games) {
+    const winner = picks[g.id] ?? favouriteOf(g);
+    const loser = winner === g.a ? g.b : g.a;
+    const w = rows.get(winner), l = rows.get(loser);
+    if (w) w.wins++;
+    if (l) l.losses++;
+    const a = rows.get(g.a), b = rows.get(g.b);
+    if (a) a.pointsFor += g.projected[0];
+    if (b) b.pointsFor += g.projected[1];
+  }
+  if (data.medianGames) {
+    const weeks = new Set(data.games.map(g => g.week));
+    for (const week of weeks) {
+      const above = new Set(data.projectedMedianWinners[String(week)] ?? []);
+      for (const row of rows.values()) {
+        if (above.has(row.rosterId)) row.wins++; else row.losses++;
+      }
+    }
+  }
+
+  const record = (r: { wins: number; ties: number }) => r.wins + r.ties / 2;
+  const sorted = [...rows.values()].sort((a, b) => record(b) - record(a) || b.pointsFor - a.pointsFor);
+  return sorted.map((r, i) => ({
+    ...r,
+    pointsFor: Number(r.pointsFor.toFixed(2)),
+    seed: i + 1,
+    tiedWith: sorted.filter(o => o !== r && record(o) === record(r)).map(o => o.rosterId),
+  }));
+}
+
+// ── Paths ─────────────────────────────────────────────────────────────────────
+
+// Path sizes searched, and how many certainty checks a search may spend.
+const MAX_PATH = 4;
+const CHECK_BUDGET = 25_000;
+
+function combinations<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  const out: T[][] = [];
+  items.forEach((item, i) => {
+    for (const rest of combinations(items.slice(i + 1), k - 1)) out.push([item, ...rest]);
+  });
+  return out;
+}
+
+/**
+ * Whether team `t` is guaranteed one of `slots` places with `fixed` results
+ * settled. It is not if `slots` others can all finish level with it or better
+ * at once, with `t` losing every open game. Whether a given set of rivals can
+ * all get there is a supply-and-demand question over the open games between
+ * them: it can exactly when every subset of them needs no more wins than the
+ * open games it plays in can hand out.
+ */
+function guaranteed(
+  wins: number[],
+  games: [number, number][],
+  fixed: Map<number, number>,
+  t: number,
+  slots: number,
+  medianLeft: number,
+): boolean {
+  const w = [...wins];
+  const open: [number, number][] = [];
+  games.forEach(([a, b], i) => {
+    const winner = fixed.get(i);
+    if (winner !== undefined) w[winner]++;
+    else if (a === t) w[b]++;
+    else if (b === t) w[a]++;
+    else open.push([a, b]);
+  });
+
+  const target = w[t];
+  const need = w.map((x, i) => (i === t ? Infinity : Math.max(0, target - x - medianLeft)));
+  const level = need.filter(d => d === 0).length;
+  if (level >= slots) return false;
+
+  const degree = new Array<number>(w.length).fill(0);
+  for (const [a, b] of open) { degree[a]++; degree[b]++; }
+  const chasers = need
+    .map((d, i) => i)
+    .filter(i => need[i] > 0 && need[i] !== Infinity && need[i] <= degree[i]);
+  const short = slots - level;
+  if (chasers.length < short) return true;
+
+  for (const group of combinations(chasers, short)) {
+    let feasible = true;
+    for (let mask = 1; mask < 1 << group.length && feasible; mask++) {
+      const subset = group.filter((_, j) => (mask >> j) & 1);
+      const demand = subset.reduce((s, i) => s + need[i], 0);
+      const supply = open.filter(([a, b]) => subset.includes(a) || subset.includes(b)).length;
+      if (demand > supply) feasible = false;
+    }
+    if (feasible) return false;
+  }
+  return true;
+}
+
+/**
+ * The smallest sets of results that clinch a place for `rosterId`, either a
+ * playoff spot or, with `goal: 'bye'`, a first-round bye. A team's own wins
+ * are always tried first, then other teams' losses.
+ */
+export function pathsToPlayoffs(data: ScenarioData, rosterId: number, goal: 'playoffs' | 'bye' = 'playoffs'): PathsResult {
+  const index = new Map(data.teams.map((team, i) => [team.rosterId, i]));
+  const t = index.get(rosterId);
+  const slots = goal === 'bye' ? data.byes : data.playoffTeams;
+  if (t === undefined || slots < 1) return { status: 'eliminated', paths: [], truncated: false };
+  if (goal === 'playoffs') {
+    if (data.clinched.includes(rosterId)) return { status: 'clinched', paths: [], truncated: false };
+    if (data.eliminated.includes(rosterId)) return { status: 'eliminated', paths: [], truncated: false };
+  }
+
+  const wins = data.teams.map(team => team.wins + team.ties / 2);
+  const games = data.games.map((g): [number, number] => [index.get(g.a) ?? -1, index.get(g.b) ?? -1]);
+  const medianLeft = data.medianGames ? new Set(data.games.map(g => g.week)).size : 0;
+  let checks = 0;
+  const check = (fixed: Map<number, number>) => { checks++; return guaranteed(wins, games, fixed, t, slots, medianLeft); };
+
+  if (check(new Map())) return { status: 'clinched', paths: [], truncated: false };
+
+  // Every result that could help: this team winning, or a possible rival
+  // losing. A rival is anyone who could still finish level with this team.
+  const ownGames = games.map((g, i) => i).filter(i => games[i].includes(t));
+  const options: { game: number; winner: number }[] = ownGames.map(i => ({ game: i, winner: t }));
+  games.forEach(([a, b], i) => {
+    if (a === t || b === t) return;
+    for (const [winner, loser] of [[a, b], [b, a]]) {
+      const loserGames = games.filter(g => g.includes(loser)).length;
+      if (wins[loser] + loserGames + medianLeft >= wins[t]) options.push({ game: i, winner });
+    }
+  });
+  // Stronger rivals losing matters most, so they are tried first.
+  options.sort((x, y) => {
+    if (x.winner === t || y.winner === t) return (y.winner === t ? 1 : 0) - (x.winner === t ? 1 : 0);
+    const lx = games[x.game][0] === x.winner ? games[x.game][1] : games[x.game][0];
+    const ly = games[y.game][0] === y.winner ? games[y.game][1] : games[y.game][0];
+    return wins[ly] - wins[lx];
+  });
+
+  const found: { game: number; winner: number }[][] = [];
+  let truncated = false;
+  search: for (let size = 1; size <= Math.min(MAX_PATH, options.length); size++) {
+    for (const combo of combinations(options, size)) {
+      if (checks >= CHECK_BUDGET) { truncated = true; break search; }
+      // One result per game, and nothing that already contains a smaller path.
+      if (new Set(combo.map(o => o.game)).size !== combo.length) continue;
+      if (found.some(p => p.every(o => combo.some(c => c.game === o.game && c.winner === o.winner)))) continue;
+      if (check(new Map(combo.map(o => [o.game, o.winner])))) found.push(combo);
+    }
+    if (found.length) break;
+  }
+
+  // No path within MAX_PATH results does not mean out: it can still get in on
+  // points or median games, just not by results alone.
+  const paths = found.map(p => p.map(({ game, winner }): Outcome => {
+    const g = data.games[game];
+    const winnerId = data.teams[winner].rosterId;
+    return { gameId: g.id, winner: winnerId, loser: winnerId === g.a ? g.b : g.a, week: g.week };
+  }).sort((a, b) => a.week - b.week));
+
+  return { status: 'alive', paths, truncated };
+}
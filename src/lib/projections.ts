@@ -0,0 +1,270 @@
+/**
+ * Server-only: what each team should score in the weeks still to come, and
+ * who that favours in each scheduled matchup.
+ *
+ * A team's week is modelled as a normal distribution. The prior is the
+ * manager's scoring in earlier seasons (lib/nextGen.ts), or the league's when
+ * they have none; this season's completed weeks pull the estimate toward
+ * themselves as they accumulate, worth one prior week each after PRIOR_WEEKS.
+ * For the week the stored FantasyPros snapshot ranks, each roster's expert
+ * rankings nudge the mean up or down relative to the league.
+ *
+ * Win probability is then P(A - B > 0) with the two scores independent.
+ */
+import { getProvider } from './providers';
+import type { Matchup, Roster } from './providers/types';
+import { getNextGenPayload, type TeamStat } from './nextGen';
+import { getSnapshot } from './fantasyProsStore';
+import { ecrBySleeperId, positionRank } from './ecrMatch';
+import { getPlayersDirectory } from './playerStats';
+import { cached, type CachePolicy } from './dataCache';
+
+export interface TeamProjection {
+  rosterId: number;
+  userId: string | null;
+  /** Expected points in an ordinary week. */
+  mean: number;
+  stdDev: number;
+  /** Completed weeks of this season behind the estimate. */
+  games: number;
+}
+
+export interface ProjectedSide {
+  rosterId: number;
+  userId: string | null;
+  projected: number;
+  stdDev: number;
+  /** Multiplier from expert rankings, when the snapshot covers this week. */
+  ecrFactor: number | null;
+}
+
+export interface ProjectedMatchup {
+  week: number;
+  matchupId: number;
+  teams: [ProjectedSide, ProjectedSide];
+  /** Chance teams[0] wins, 0-1. */
+  winProbability: number;
+}
+
+export interface ProjectionsPayload {
+  season: string;
+  /** The NFL week in progress, or 0 before the season starts. */
+  currentWeek: number;
+  /** Every week with projected matchups, ascending. */
+  weeks: number[];
+  teams: TeamProjection[];
+  matchups: ProjectedMatchup[];
+  /** The FantasyPros snapshot folded in, if one covered any projected week. */
+  ecr: { week: number; fetchedAt: string } | null;
+  updatedAt: string;
+}
+
+const PROJECTIONS_POLICY: CachePolicy = { freshMs: 900_000, staleMs: 6 * 3_600_000 }; // 15 min, then 6h stale
+
+// How many of this season's weeks the prior is worth.
+const PRIOR_WEEKS = 4;
+// Used when the whole league is new and there is no history at all.
+const FALLBACK_MEAN = 110;
+const FALLBACK_SD = 25;
+// How far a roster's expert-ranked strength moves its mean, and the cap.
+const ECR_WEIGHT = 0.35;
+const ECR_MAX_SHIFT = 0.15;
+// Positional rank at which a starter stops adding anything over a waiver pickup.
+const REPLACEMENT_RANK: Record<string, number> = { QB: 30, RB: 60, WR: 72, TE: 30 };
+
+/** Standard normal CDF, Abramowitz-Stegun 7.1.26 (error under 1e-7). */
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** P(a > b) for independent normal scores. */
+export function winProbability(a: { projected: number; variance: number }, b: { projected: number; variance: number }): number {
+  const spread = Math.sqrt(a.variance + b.variance);
+  if (spread === 0) return a.projected > b.projected ? 1 : a.projected < b.projected ? 0 : 0.5;
+  return normalCdf((a.projected - b.projected) / spread);
+}
+
+function meanOf(xs: number[]): number {
+  return xs.length ? xs.reduce((s, x) => s + x, 0) / xs.length : 0;
+}
+
+function sdOf(xs: number[]): number {
+  if (xs.length < 2) return 0;
+  const m = meanOf(xs);
+  return Math.sqrt(xs.reduce((s, x) => s + (x - m) ** 2, 0) / xs.length);
+}
+
+/** Earlier seasons' regular-season scores for one manager. */
+function priorScores(stat: TeamStat | undefined, season: string): number[] {
+  if (!stat) return [];
+  return Object.entries(stat.weeklyScoresBySeason)
+    .filter(([s]) => s !== season)
+    .flatMap(([, scores]) => scores);
+}
+
+function groupPairs(matchups: Matchup[]): [Matchup, Matchup][] {
+  const byId = new Map<number, Matchup[]>();
+  for (const m of matchups) {
+    if (!m.matchup_id) continue;
+    byId.set(m.matchup_id, [...(byId.get(m.matchup_id) ?? []), m]);
+  }
+  return [...byId.values()]
+    .filter((p): p is [Matchup, Matchup] => p.length === 2)
+    .sort(([a], [b]) => a.matchup_id - b.matchup_id);
+}
+
+/**
+ * Each roster's expert-ranked starting strength over the league average, for
+ * the week the snapshot ranks. Starters are the best-ranked players at each
+ * position the lineup has a dedicated slot for; a bye or an injury simply
+ * drops a player off the weekly board.
+ */
+async function ecrFactors(rosters: Roster[], rosterPositions: string[], season: string, weeks: number[]) {
+  const snapshot = await getSnapshot().catch(() => null);
+  if (!snapshot || snapshot.season !== season || !weeks.includes(snapshot.week)) return null;
+
+  const players = await getPlayersDirectory();
+  const ranked = ecrBySleeperId(snapshot, 'weekly', rosters.flatMap(r => r.players ?? []), players);
+  if (!ranked.size) return null;
+
+  const slots: Record<string, number> = {};
+  for (const pos of rosterPositions) if (pos in REPLACEMENT_RANK) slots[pos] = (slots[pos] ?? 0) + 1;
+
+  const strength = new Map<number, number>();
+  for (const r of rosters) {
+    let total = 0;
+    for (const [pos, count] of Object.entries(slots)) {
+      const values = (r.players ?? [])
+        .map(id => ranked.get(id))
+        .filter(p => p?.position === pos)
+        .map(p => {
+          const rank = p ? positionRank(p) : null;
+          return rank ? Math.max(0, 1 - (rank - 1) / REPLACEMENT_RANK[pos]) : 0;
+        })
+        .sort((a, b) => b - a);
+      total += values.slice(0, count).reduce((s, v) => s + v, 0);
+    }
+    strength.set(r.roster_id, total);
+  }
+
+  const avg = meanOf([...strength.values()]);
+  if (!avg) return null;
+  const factors = new Map<number, number>();
+  for (const [rosterId, s] of strength) {
+    const shift = Math.max(-ECR_MAX_SHIFT, Math.min(ECR_MAX_SHIFT, ECR_WEIGHT * (s / avg - 1)));
+    factors.set(rosterId, Number((1 + shift).toFixed(3)));
+  }
+  return { week: snapshot.week, fetchedAt: snapshot.fetchedAt, factors };
+}
+
+async function buildProjections(leagueId: string, rootLeagueId: string): Promise<ProjectionsPayload> {
+  const provider = getProvider();
+  const [league, rosters, nflState, history] = await Promise.all([
+    provider.getLeague(leagueId),
+    provider.getRosters(leagueId),
+    provider.getNFLState(),
+    getNextGenPayload(rootLeagueId).catch(err => {
+      console.warn('[projections] no league history:', err instanceof Error ? err.message : err);
+      return null;
+    }),
+  ]);
+  if (!league) throw new Error(`League ${leagueId} not found`);
+
+  const season = league.season;
+  const inSeason = nflState.season === season && nflState.season_type === 'regular';
+  const currentWeek = inSeason ? Math.max(1, nflState.week ?? 1) : 0;
+  const lastRegularWeek = (league.settings?.playoff_week_start || 15) - 1;
+  const firstWeek = league.status === 'complete' ? lastRegularWeek + 1 : Math.max(1, currentWeek);
+  const weekRange = Array.from({ length: Math.max(0, lastRegularWeek - firstWeek + 1) }, (_, i) => firstWeek + i);
+
+  // This season's settled weeks, straight from the schedule rather than the
+  // history aggregate so a week still in progress never counts as a result.
+  const playedWeeks = Array.from({ length: Math.max(0, Math.min(currentWeek, lastRegularWeek + 1) - 1) }, (_, i) => i + 1);
+  const [played, upcoming] = await Promise.all([
+    Promise.all(playedWeeks.map(w => provider.getMatchups(leagueId, w))),
+    Promise.all(weekRange.map(w => provider.getMatchups(leagueId, w))),
+  ]);
+
+  const thisSeason = new Map<number, number[]>();
+  for (const week of played) {
+    for (const [a, b] of groupPairs(week)) {
+      if (!a.points && !b.points) continue;
+      for (const m of [a, b]) thisSeason.set(m.roster_id, [...(thisSeason.get(m.roster_id) ?? []), m.points ?? 0]);
+    }
+  }
+
+  const statByUser = new Map((history?.teams ?? []).map(t => [t.userId, t]));
+  const leagueScores = (history?.teams ?? []).flatMap(t => priorScores(t, season));
+  const leagueMean = leagueScores.length ? meanOf(leagueScores) : FALLBACK_MEAN;
+  const leagueSd = leagueScores.length > 1 ? sdOf(leagueScores) : FALLBACK_SD;
+
+  const teams: TeamProjection[] = rosters.map(r => {
+    const userId = r.owner_id ?? null;
+    const prior = priorScores(userId ? statByUser.get(userId) : undefined, season);
+    const priorMean = prior.length ? meanOf(prior) : leagueMean;
+    const priorSd = prior.length > 1 ? sdOf(prior) : leagueSd;
+
+    const current = thisSeason.get(r.roster_id) ?? [];
+    const n = current.length;
+    const mean = (PRIOR_WEEKS * priorMean + current.reduce((s, x) => s + x, 0)) / (PRIOR_WEEKS + n);
+    // Spread only moves off the prior once a few weeks say something about it.
+    const currentSd = n >= 3 ? sdOf(current) : priorSd;
+    const sd = Math.sqrt((PRIOR_WEEKS * priorSd ** 2 + n * currentSd ** 2) / (PRIOR_WEEKS + n));
+
+    return { rosterId: r.roster_id, userId, mean: Number(mean.toFixed(2)), stdDev: Number(sd.toFixed(2)), games: n };
+  });
+  const teamByRoster = new Map(teams.map(t => [t.rosterId, t]));
+
+  const ecr = await ecrFactors(rosters, league.roster_positions ?? [], season, weekRange).catch(err => {
+    console.warn('[projections] expert rankings skipped:', err instanceof Error ? err.message : err);
+    return null;
+  });
+
+  const matchups: ProjectedMatchup[] = [];
+  const weeks: number[] = [];
+  upcoming.forEach((week, i) => {
+    const w = weekRange[i];
+    const pairs = groupPairs(week);
+    if (pairs.length) weeks.push(w);
+    for (const pair of pairs) {
+      const [a, b] = pair.map((m): ProjectedSide => {
+        const t = teamByRoster.get(m.roster_id);
+        const factor = ecr?.week === w ? ecr.factors.get(m.roster_id) ?? null : null;
+        return {
+          rosterId: m.roster_id,
+          userId: t?.userId ?? null,
+          projected: Number(((t?.mean ?? leagueMean) * (factor ?? 1)).toFixed(2)),
+          stdDev: t?.stdDev ?? Number(leagueSd.toFixed(2)),
+          ecrFactor: factor,
+        };
+      });
+      matchups.push({
+        week: w,
+        matchupId: pair[0].matchup_id,
+        teams: [a, b],
+        winProbability: Number(winProbability(
+          { projected: a.projected, variance: a.stdDev ** 2 },
+          { projected: b.projected, variance: b.stdDev ** 2 },
+        ).toFixed(3)),
+      });
+    }
+  });
+
+  return {
+    season,
+    currentWeek,
+    weeks,
+    teams,
+    matchups,
+    ecr: ecr && weeks.includes(ecr.week) ? { week: ecr.week, fetchedAt: ecr.fetchedAt } : null,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/** Projections for the rest of a league's regular season, from the shared cache. */
+export function getProjections(leagueId: string, rootLeagueId: string): Promise<ProjectionsPayload> {
+  return cached(`route:projections:${leagueId}`, PROJECTIONS_POLICY, () => buildProjections(leagueId, rootLeagueId));
+}
@@ -0,0 +1,121 @@
+/**
+ * Completed seasons, frozen.
+ *
+ * Once a league's status is 'complete' nothing about it changes again, yet
+ * every history view used to re-fetch each of its weeks from Sleeper on every
+ * load. A SeasonArchive is one snapshot of everything a completed season has,
+ * and withArchive() wraps a provider so reads for an archived league are
+ * answered from it. Reads the archive does not cover fall through untouched.
+ *
+ * Isomorphic. Where archives come from is the caller's concern: the server
+ * reads storage (lib/seasonArchive.ts), the browser asks /api/archive.
+ */
+import type {
+  LeagueDataProvider,
+  League,
+  LeagueUser,
+  Roster,
+  Matchup,
+  Transaction,
+  Draft,
+  DraftPick,
+  TradedPick,
+  BracketMatch,
+} from './types';
+
+export interface SeasonArchive {
+  version: 1;
+  leagueId: string;
+  season: string;
+  /** ISO time the snapshot was taken. */
+  frozenAt: string;
+  league: League;
+  users: LeagueUser[];
+  rosters: Roster[];
+  /** Week -> that week's matchups. Weeks with none are absent. */
+  matchups: Record<string, Matchup[]>;
+  /** Week -> that week's transactions, every status. Weeks with none are absent. */
+  transactions: Record<string, Transaction[]>;
+  brackets: { winners: BracketMatch[] | null; losers: BracketMatch[] | null };
+  drafts: Draft[];
+  /** Draft id -> the single-draft lookup, which carries slot_to_roster_id. */
+  draftDetails: Record<string, Draft>;
+  draftPicks: Record<string, DraftPick[]>;
+  tradedPicks: TradedPick[];
+}
+
+/** Resolves to null when the league has no archive (yet), or on any failure. */
+export type ArchiveSource = (leagueId: string) => Promise<SeasonArchive | null>;
+
+export function withArchive(inner: LeagueDataProvider, source: ArchiveSource): LeagueDataProvider {
+  // Draft lookups carry no league id, so remember which archive each draft
+  // came from as archives are loaded.
+  const draftOwner = new Map<string, string>();
+
+  async function archiveFor(leagueId: string): Promise<SeasonArchive | null> {
+    const archive = await source(leagueId).catch(() => null);
+    if (archive) for (const d of archive.drafts) draftOwner.set(d.draft_id, leagueId);
+    return archive;
+  }
+
+  async function archiveForDraft(draftId: string): Promise<SeasonArchive | null> {
+    const leagueId = draftOwner.get(draftId);
+    return leagueId ? archiveFor(leagueId) : null;
+  }
+
+  return {
+    name: inner.name,
+
+    // The league record is how an archive is known to be due, so it is always
+    // read live rather than from the snapshot it would be deciding about.
+    getLeague: (id, opts) => inner.getLeague(id, opts),
+
+    getLeagueUsers: async (id, opts) =>
+      (await archiveFor(id))?.users ?? inner.getLeagueUsers(id, opts),
+    getRosters: async (id, opts) =>
+      (await archiveFor(id))?.rosters ?? inner.getRosters(id, opts),
+    getMatchups: async (id, week, opts) => {
+      const a = await archiveFor(id);
+      return a ? a.matchups[String(week)] ?? [] : inner.getMatchups(id, week, opts);
+    },
+    getTransactions: async (id, week, opts) => {
+      const a = await archiveFor(id);
+      return a ? a.transactions[String(week)] ?? [] : inner.getTransactions(id, week, opts);
+    },
+    getBracket: async (id, side, opts) => {
+      const a = await archiveFor(id);
+      return a ? a.brackets[side] : inner.getBracket(id, side, opts);
+    },
+
+    getDrafts: async (id, opts) =>
+      (await archiveFor(id))?.drafts ?? inner.getDrafts(id, opts),
+    getDraft: async (draftId, opts) =>
+      (await archiveForDraft(draftId))?.draftDetails[draftId] ?? inner.getDraft(draftId, opts),
+    getDraftPicks: async (draftId, opts) =>
+      (await archiveForDraft(draftId))?.draftPicks[draftId] ?? inner.getDraftPicks(draftId, opts),
+    getTradedPicks: async (id, opts) =>
+      (await archiveFor(id))?.tradedPicks ?? inner.getTradedPicks(id, opts),
+
+    getUserLeagues: (userId, season, opts) => inner.getUserLeagues(userId, season, opts),
+    getNFLState: (opts) => inner.getNFLState(opts),
+    getPlayers: (opts) => inner.getPlayers(opts),
+  };
+}
+
+/**
+ * The browser's source: the server's archive, over HTTP. One request per
+ * league per page load, answered with 404 for a season still in progress.
+ */
+export function httpArchiveSource(): ArchiveSource {
+  const seen = new Map<string, Promise<SeasonArchive | null>>();
+  return leagueId => {
+    let pending = seen.get(leagueId);
+    if (!pending) {
+      pending = fetch(`/api/archive/${encodeURIComponent(leagueId)}`)
+        .then(r => (r.ok ? (r.json() as Promise<SeasonArchive>) : null))
+        .catch(() => null);
+      seen.set(leagueId, pending);
+    }
+    return pending;
+  };
+}
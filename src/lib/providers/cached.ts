@@ -0,0 +1,75 @@
+/**
+ * Server-only: wraps a provider so every read goes through lib/dataCache.ts.
+ *
+ * The TTLs live here, per endpoint, because this is the one place that knows
+ * how often each kind of data actually changes. A caller's freshness hint
+ * narrows them: 'live' caps freshness at a minute, and 'settled' reads get
+ * their own key that is kept for a year, since a completed season cannot
+ * change. The separate key matters: a copy loaded mid-season must not be
+ * promoted to "final" just because a later caller asked for settled data.
+ */
+import { cached, type CachePolicy } from '../dataCache';
+import type { LeagueDataProvider, ReadOptions } from './types';
+
+const MIN = 60_000;
+const HOUR = 60 * MIN;
+const DAY = 24 * HOUR;
+
+const POLICIES = {
+  league:       { freshMs: HOUR,       staleMs: DAY },
+  users:        { freshMs: 30 * MIN,   staleMs: DAY },
+  rosters:      { freshMs: 5 * MIN,    staleMs: HOUR },
+  matchups:     { freshMs: 2 * MIN,    staleMs: 30 * MIN },
+  transactions: { freshMs: 5 * MIN,    staleMs: HOUR },
+  bracket:      { freshMs: 15 * MIN,   staleMs: DAY },
+  drafts:       { freshMs: HOUR,       staleMs: DAY },
+  draftPicks:   { freshMs: 30 * MIN,   staleMs: DAY },
+  tradedPicks:  { freshMs: 30 * MIN,   staleMs: DAY },
+  userLeagues:  { freshMs: 6 * HOUR,   staleMs: 7 * DAY },
+  state:        { freshMs: 5 * MIN,    staleMs: HOUR },
+  // Never persisted: see MAX_PERSIST_BYTES. One download per warm instance,
+  // shared by every route, instead of one per route.
+  players:      { freshMs: DAY,        staleMs: 7 * DAY, persist: false },
+} satisfies Record<string, CachePolicy>;
+
+type Endpoint = keyof typeof POLICIES;
+
+const SETTLED: CachePolicy = { freshMs: 365 * DAY, staleMs: 0 };
+const LIVE_FRESH_MS = MIN;
+
+export function withCache(inner: LeagueDataProvider): LeagueDataProvider {
+  function read<T>(endpoint: Endpoint, args: (string | number)[], opts: ReadOptions | undefined, load: () => Promise<T>): Promise<T> {
+    const base: CachePolicy = POLICIES[endpoint];
+    let key = [inner.name, endpoint, ...args].join(':');
+    let policy = base;
+    if (opts?.freshness === 'settled') {
+      key += ':settled';
+      policy = SETTLED;
+    } else if (opts?.freshness === 'live') {
+      policy = { ...base, freshMs: Math.min(base.freshMs, LIVE_FRESH_MS) };
+    }
+    return cached(key, policy, load);
+  }
+
+  return {
+    name: inner.name,
+
+    getLeague:       (id, opts) => read('league', [id], opts, () => inner.getLeague(id, opts)),
+    getLeagueUsers:  (id, opts) => read('users', [id], opts, () => inner.getLeagueUsers(id, opts)),
+    getRosters:      (id, opts) => read('rosters', [id], opts, () => inner.getRosters(id, opts)),
+    getMatchups:     (id, week, opts) => read('matchups', [id, week], opts, () => inner.getMatchups(id, week, opts)),
+    getTransactions: (id, week, opts) => read('transactions', [id, week], opts, () => inner.getTransactions(id, week, opts)),
+    getBracket:      (id, side, opts) => read('bracket', [id, side], opts, () => inner.getBracket(id, side, opts)),
+
+    getDrafts:      (id, opts) => read('drafts', [id], opts, () => inner.getDrafts(id, opts)),
+    getDraft:       (draftId, opts) => read('drafts', ['draft', draftId], opts, () => inner.getDraft(draftId, opts)),
+    getDraftPicks:  (draftId, opts) => read('draftPicks', [draftId], opts, () => inner.getDraftPicks(draftId, opts)),
+    getTradedPicks: (id, opts) => read('tradedPicks', [id], opts, () => inner.getTradedPicks(id, opts)),
+
+    getUserLeagues: (userId, season, opts) =>
+      read('userLeagues', [userId, season], opts, () => inner.getUserLeagues(userId, season, opts)),
+
+    getNFLState: (opts) => read('state', [], opts, () => inner.getNFLState(opts)),
+    getPlayers:  (opts) => read('players', [], opts, () => inner.getPlayers(opts)),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Server-only: a provider that reads canned JSON from disk, for running the
+ * app and its scripts with no network at all.
+ *
+ * Select it with LEAGUE_DATA_PROVIDER=fixture. Files live under
+ * LEAGUE_FIXTURE_DIR (default data/fixtures), already in the normalized shape,
+ * one file per lookup:
+ *
+ *   state.json                           players.json
+ *   leagues/<id>.json                    drafts/<draftId>.json
+ *   leagues/<id>/users.json              drafts/<draftId>/picks.json
+ *   leagues/<id>/rosters.json            users/<userId>/leagues/<season>.json
+ *   leagues/<id>/matchups/<week>.json
+ *   leagues/<id>/transactions/<week>.json
+ *   leagues/<id>/drafts.json
+ *   leagues/<id>/traded_picks.json
+ *   leagues/<id>/winners_bracket.json
+ *   leagues/<id>/losers_bracket.json
+ *
+ * A missing file means "does not exist", exactly like a 404 from Sleeper, so a
+ * fixture set only needs the weeks and seasons a test actually touches.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ProviderError, type LeagueDataProvider, type NFLState } from './types';
+
+const NUMERIC_ID = /^\d+$/;
+
+export function createFixtureProvider(
+  root = process.env.LEAGUE_FIXTURE_DIR?.trim() || path.join(process.cwd(), 'data', 'fixtures'),
+): LeagueDataProvider {
+  // Every id reaches a file path, so only plain numbers are looked up; the
+  // route serving this to the browser passes them in from the URL.
+  async function read<T>(file: string, missing: T, ...ids: (string | number)[]): Promise<T> {
+    if (!ids.every(id => NUMERIC_ID.test(String(id)))) return missing;
+    const full = path.resolve(root, file);
+    if (!full.startsWith(path.resolve(root) + path.sep)) return missing;
+    try {
+      return JSON.parse(await fs.readFile(full, 'utf-8')) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return missing;
+      throw new ProviderError('fixture', file, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return {
+    name: 'fixture',
+
+    getLeague:       (id) => read(`leagues/${id}.json`, null, id),
+    getLeagueUsers:  (id) => read(`leagues/${id}/users.json`, [], id),
+    getRosters:      (id) => read(`leagues/${id}/rosters.json`, [], id),
+    getMatchups:     (id, week) => read(`leagues/${id}/matchups/${week}.json`, [], id, week),
+    getTransactions: (id, week) => read(`leagues/${id}/transactions/${week}.json`, [], id, week),
+    getBracket:      (id, side) => read(`leagues/${id}/${side}_bracket.json`, null, id),
+
+    getDrafts:      (id) => read(`leagues/${id}/drafts.json`, [], id),
+    getDraft:       (draftId) => read(`drafts/${draftId}.json`, null, draftId),
+    getDraftPicks:  (draftId) => read(`drafts/${draftId}/picks.json`, [], draftId),
+    getTradedPicks: (id) => read(`leagues/${id}/traded_picks.json`, [], id),
+
+    getUserLeagues: (userId, season) => read(`users/${userId}/leagues/${season}.json`, [], userId, season),
+
+    getNFLState: async () => {
+      const state = await read<NFLState | null>('state.json', null);
+      if (!state) throw new ProviderError('fixture', 'state.json', 'no such fixture');
+      return state;
+    },
+    getPlayers: () => read('players.json', {}),
+  };
+}
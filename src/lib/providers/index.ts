@@ -0,0 +1,68 @@
+/**
+ * Which league platform the app reads from.
+ *
+ * LEAGUE_DATA_PROVIDER picks it: 'sleeper' (the default) or 'fixture'. New
+ * platforms register in providers/server.ts. The browser talks to Sleeper
+ * directly; in fixture mode, which needs the filesystem, it reads the same
+ * paths from /api/league-data instead. next.config.js hands the browser the
+ * choice as NEXT_PUBLIC_LEAGUE_DATA_PROVIDER.
+ *
+ * On the server, network providers are wrapped in the shared cache
+ * (providers/cached.ts), so every route reads through it without knowing.
+ * Fixtures are already local and are left unwrapped. Outermost on both sides
+ * is the season archive (providers/archived.ts): completed seasons are read
+ * from their snapshot, from storage on the server and /api/archive in the
+ * browser.
+ */
+import { createServerProviders } from '#providers/server';
+import { sleeperProvider, sleeperShapedProvider } from './sleeper';
+import { withArchive, httpArchiveSource } from './archived';
+import type { LeagueDataProvider } from './types';
+
+export type {
+  LeagueDataProvider,
+  ReadOptions,
+  Freshness,
+  League,
+  LeagueUser,
+  Roster,
+  Matchup,
+  Transaction,
+  NFLState,
+  Player,
+  Draft,
+  DraftPick,
+  TradedPick,
+  BracketMatch,
+} from './types';
+export type { SeasonArchive } from './archived';
+export { ProviderError } from './types';
+
+let serverProvider: LeagueDataProvider | null = null;
+let serverOrigin: LeagueDataProvider | null = null;
+let browserProvider: LeagueDataProvider | null = null;
+
+export function getProvider(): LeagueDataProvider {
+  if (typeof window !== 'undefined') {
+    browserProvider ??= withArchive(
+      process.env.NEXT_PUBLIC_LEAGUE_DATA_PROVIDER === 'fixture'
+        ? sleeperShapedProvider('fixture', '/api/league-data')
+        : sleeperProvider,
+      httpArchiveSource(),
+    );
+    return browserProvider;
+  }
+  if (!serverProvider) {
+    ({ provider: serverProvider, origin: serverOrigin } = createServerProviders());
+  }
+  return serverProvider;
+}
+
+/**
+ * Server only: the configured platform with no cache or archive in front of
+ * it. What archive snapshots are taken from.
+ */
+export function getOriginProvider(): LeagueDataProvider {
+  if (!serverOrigin) getProvider();
+  return serverOrigin!;
+}
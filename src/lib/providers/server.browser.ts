@@ -0,0 +1,9 @@
+/**
+ * What `#providers/server` resolves to in client bundles. index.ts only calls
+ * it when there is no window, so reaching it in the browser is a bug.
+ */
+import type { ServerProviders } from './server';
+
+export function createServerProviders(): ServerProviders {
+  throw new Error('League data providers for the server cannot be built in the browser');
+}
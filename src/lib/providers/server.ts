@@ -0,0 +1,36 @@
+/**
+ * Server-only: builds the provider LEAGUE_DATA_PROVIDER selects.
+ *
+ * Reached from index.ts through the `#providers/server` entry in package.json,
+ * which resolves to server.browser.ts in client bundles. That keeps this file,
+ * and the filesystem and Redis code under it, out of the browser entirely.
+ */
+import { createArchiveSource } from '../seasonArchive';
+import { withArchive } from './archived';
+import { withCache } from './cached';
+import { createFixtureProvider } from './fixture';
+import { sleeperProvider } from './sleeper';
+import type { LeagueDataProvider } from './types';
+
+export interface ServerProviders {
+  /** What the app reads through: cache and season archive in front. */
+  provider: LeagueDataProvider;
+  /** The platform itself, which archive snapshots are taken from. */
+  origin: LeagueDataProvider;
+}
+
+export function createServerProviders(): ServerProviders {
+  const name = process.env.LEAGUE_DATA_PROVIDER?.trim().toLowerCase() || 'sleeper';
+  let origin: LeagueDataProvider;
+  let reads: LeagueDataProvider;
+  if (name === 'fixture') {
+    // Fixtures are already local and are left unwrapped.
+    origin = createFixtureProvider();
+    reads = origin;
+  } else {
+    if (name !== 'sleeper') console.warn(`Unknown LEAGUE_DATA_PROVIDER "${name}", falling back to sleeper`);
+    origin = sleeperProvider;
+    reads = withCache(sleeperProvider);
+  }
+  return { origin, provider: withArchive(reads, createArchiveSource(origin)) };
+}
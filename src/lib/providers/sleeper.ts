@@ -0,0 +1,89 @@
+/**
+ * Sleeper: the reference provider. Sleeper's payloads already are the app's
+ * data model, so this is transport only: URLs, caching hints, retries.
+ *
+ * Isomorphic. Client components read Sleeper straight from the browser
+ * through lib/api.ts, which routes here. In fixture mode the browser reads the
+ * same URL layout from /api/league-data instead (sleeperShapedProvider).
+ */
+import {
+  ProviderError,
+  type LeagueDataProvider,
+  type ReadOptions,
+  type Freshness,
+  type League,
+  type NFLState,
+  type Player,
+  type Draft,
+  type BracketMatch,
+} from './types';
+
+const BASE = 'https://api.sleeper.app/v1';
+
+function requestInit(freshness?: Freshness): RequestInit {
+  switch (freshness) {
+    case 'live':    return { cache: 'no-store' };
+    case 'recent':  return { next: { revalidate: 3600 } };
+    case 'settled': return { next: { revalidate: 86400 } };
+    default:        return {};
+  }
+}
+
+/**
+ * Some routes fan out to ~50 Sleeper calls per season, and a transient failure
+ * would otherwise silently degrade the result (a pick showing as untraceable, a
+ * week of schedule zeroed out), so every read retries before giving up. A 404
+ * is an answer, not a failure: the thing does not exist.
+ */
+async function getJsonFrom<T>(
+  name: string, base: string, path: string, opts: ReadOptions | undefined, missing: T, tries = 3,
+): Promise<T> {
+  let lastError = 'unknown error';
+  for (let i = 0; i < tries; i++) {
+    try {
+      const r = await fetch(`${base}${path}`, requestInit(opts?.freshness));
+      if (r.ok) return (await r.json()) ?? missing;
+      if (r.status === 404) return missing;
+      lastError = `${r.status} ${r.statusText}`;
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : String(err);
+    }
+    if (i < tries - 1) await new Promise(res => setTimeout(res, 300 * (i + 1)));
+  }
+  throw new ProviderError(name, path, lastError);
+}
+
+/** A provider for any server that answers at Sleeper's paths under `base`. */
+export function sleeperShapedProvider(name: string, base: string): LeagueDataProvider {
+  const getJson = <T>(path: string, opts: ReadOptions | undefined, missing: T) =>
+    getJsonFrom(name, base, path, opts, missing);
+
+  return {
+    name,
+
+    getLeague:       (id, opts) => getJson<League | null>(`/league/${id}`, opts, null),
+    getLeagueUsers:  (id, opts) => getJson(`/league/${id}/users`, opts, []),
+    getRosters:      (id, opts) => getJson(`/league/${id}/rosters`, opts, []),
+    getMatchups:     (id, week, opts) => getJson(`/league/${id}/matchups/${week}`, opts, []),
+    getTransactions: (id, week, opts) => getJson(`/league/${id}/transactions/${week}`, opts, []),
+    getBracket:      (id, side, opts) => getJson<BracketMatch[] | null>(`/league/${id}/${side}_bracket`, opts, null),
+
+    getDrafts:      (id, opts) => getJson(`/league/${id}/drafts`, opts, []),
+    getDraft:       (draftId, opts) => getJson<Draft | null>(`/draft/${draftId}`, opts, null),
+    getDraftPicks:  (draftId, opts) => getJson(`/draft/${draftId}/picks`, opts, []),
+    getTradedPicks: (id, opts) => getJson(`/league/${id}/traded_picks`, opts, []),
+
+    getUserLeagues: (userId, season, opts) => getJson(`/user/${userId}/leagues/nfl/${season}`, opts, []),
+
+    getNFLState: async (opts) => {
+      const state = await getJson<NFLState | null>(`/state/nfl`, opts, null);
+      if (!state) throw new ProviderError(name, '/state/nfl', 'empty response');
+      return state;
+    },
+    // ~19 MB: far over the Next data cache's 2 MB entry limit, so never ask it
+    // to store this. Callers hold it in memory instead.
+    getPlayers: () => getJson<Record<string, Player>>(`/players/nfl`, { freshness: 'live' }, {}),
+  };
+}
+
+export const sleeperProvider = sleeperShapedProvider('sleeper', BASE);
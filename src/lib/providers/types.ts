@@ -0,0 +1,130 @@
+/**
+ * The league-platform contract.
+ *
+ * Every page, route and generator in the app consumes one data model: the one
+ * in types/sleeper.ts, because Sleeper was the only platform when it was
+ * written. Rather than rename a few thousand field accesses, that model *is*
+ * the normalized model, and a provider's job is to produce it. Sleeper's
+ * provider is close to a pass-through; an ESPN, Yahoo or MFL provider maps its
+ * platform's payloads into these shapes and the rest of the app never knows.
+ *
+ * The aliases below exist so provider code reads in platform-neutral terms.
+ */
+import type {
+  SleeperLeague,
+  SleeperUser,
+  SleeperRoster,
+  SleeperMatchup,
+  SleeperTransaction,
+  SleeperNFLState,
+  SleeperPlayer,
+} from '@/types/sleeper';
+
+export type League = SleeperLeague;
+export type LeagueUser = SleeperUser;
+export type Roster = SleeperRoster;
+export type Matchup = SleeperMatchup;
+export type Transaction = SleeperTransaction;
+export type NFLState = SleeperNFLState;
+export type Player = SleeperPlayer;
+
+export interface Draft {
+  draft_id: string;
+  league_id: string;
+  season: string;
+  status: 'pre_draft' | 'drafting' | 'paused' | 'complete' | string;
+  type: 'snake' | 'linear' | 'auction' | string;
+  start_time?: number | null;
+  /** Draft slot -> roster id. Only reliably present on the single-draft lookup. */
+  slot_to_roster_id?: Record<string, number> | null;
+  /** User id -> draft slot. */
+  draft_order?: Record<string, number> | null;
+  settings?: Record<string, number>;
+  metadata?: Record<string, string>;
+}
+
+export interface DraftPick {
+  draft_id: string;
+  pick_no: number;
+  round: number;
+  draft_slot: number;
+  roster_id: number;
+  player_id: string;
+  picked_by: string;
+  is_keeper?: boolean | null;
+  metadata?: Record<string, string>;
+}
+
+/** A future pick that has changed hands. roster_id is the original owner. */
+export interface TradedPick {
+  season: string;
+  round: number;
+  roster_id: number;
+  previous_owner_id: number;
+  owner_id: number;
+}
+
+export interface BracketMatch {
+  /** Round. */
+  r: number;
+  /** Match id within the bracket. */
+  m: number;
+  t1: number | null;
+  t2: number | null;
+  w: number | null;
+  l: number | null;
+  t1_from?: { w?: number; l?: number } | null;
+  t2_from?: { w?: number; l?: number } | null;
+  /** Placement this match decides (1 = championship). */
+  p?: number | null;
+}
+
+/**
+ * How fresh a read has to be. Providers translate this into whatever their
+ * transport understands; callers should not need to know it is HTTP.
+ *
+ *   live     - in-season data that can change minute to minute
+ *   recent   - changes a few times a day (rosters, users)
+ *   settled  - a completed season; it will never change again
+ *
+ * Omitted means the provider's default.
+ */
+export type Freshness = 'live' | 'recent' | 'settled';
+
+export interface ReadOptions {
+  freshness?: Freshness;
+}
+
+/**
+ * Lookups return null (single objects) or [] (lists) when the thing does not
+ * exist, and throw ProviderError when the platform could not be reached.
+ */
+export interface LeagueDataProvider {
+  readonly name: string;
+
+  getLeague(leagueId: string, opts?: ReadOptions): Promise<League | null>;
+  getLeagueUsers(leagueId: string, opts?: ReadOptions): Promise<LeagueUser[]>;
+  getRosters(leagueId: string, opts?: ReadOptions): Promise<Roster[]>;
+  getMatchups(leagueId: string, week: number, opts?: ReadOptions): Promise<Matchup[]>;
+  getTransactions(leagueId: string, week: number, opts?: ReadOptions): Promise<Transaction[]>;
+  getBracket(leagueId: string, side: 'winners' | 'losers', opts?: ReadOptions): Promise<BracketMatch[] | null>;
+
+  getDrafts(leagueId: string, opts?: ReadOptions): Promise<Draft[]>;
+  getDraft(draftId: string, opts?: ReadOptions): Promise<Draft | null>;
+  getDraftPicks(draftId: string, opts?: ReadOptions): Promise<DraftPick[]>;
+  getTradedPicks(leagueId: string, opts?: ReadOptions): Promise<TradedPick[]>;
+
+  /** Leagues a user belongs to in a season; how chains are followed forward. */
+  getUserLeagues(userId: string, season: string, opts?: ReadOptions): Promise<League[]>;
+
+  getNFLState(opts?: ReadOptions): Promise<NFLState>;
+  /** The full player directory, keyed by player id. Large: cache it. */
+  getPlayers(opts?: ReadOptions): Promise<Record<string, Player>>;
+}
+
+export class ProviderError extends Error {
+  constructor(provider: string, what: string, cause: string) {
+    super(`${provider}: failed to load ${what} (${cause})`);
+    this.name = 'ProviderError';
+  }
+}
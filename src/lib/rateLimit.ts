@@ -0,0 +1,44 @@
+/**
+ * Fixed-window request counting: Redis when configured, so every instance
+ * shares one count, and process memory otherwise (local dev).
+ *
+ * A limiter outage never takes a feature down with it; if Redis cannot be
+ * read the request is let through.
+ */
+import { getRedis } from './redisClient';
+
+const memoryHits = new Map<string, { count: number; resetAt: number }>();
+
+/** Counts one hit against `key` and says whether it is within `limit` for the window. */
+export async function rateLimit(key: string, limit: number, windowMs: number): Promise<{ ok: boolean; remaining: number }> {
+  const now = Date.now();
+  const { client } = getRedis();
+
+  if (!client) {
+    const hit = memoryHits.get(key);
+    if (!hit || now > hit.resetAt) {
+      memoryHits.set(key, { count: 1, resetAt: now + windowMs });
+      return { ok: true, remaining: limit - 1 };
+    }
+    hit.count += 1;
+    return { ok: hit.count <= limit, remaining: Math.max(limit - hit.count, 0) };
+  }
+
+  try {
+    // One atomic INCR, so parallel requests cannot all read the same count,
+    // and the window is the key's own expiry, so nothing outlives it.
+    const count = await client.incr(key, Math.ceil(windowMs / 1000));
+    return { ok: count <= limit, remaining: Math.max(limit - count, 0) };
+  } catch {
+    return { ok: true, remaining: limit };
+  }
+}
+
+/** The caller's address as the platform's proxy reports it. */
+export function clientIp(request: Request): string {
+  return (
+    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+  );
+}
@@ -17,8 +17,18 @@ export type RedisBackend = 'upstash-rest' | 'tcp' | 'none';
 
 export interface RedisLike {
   get(key: string): Promise<string | null>;
-  set(key: string, value: string): Promise<void>;
+  /** `ttlSeconds` lets Redis evict the key itself; omit it to keep it forever. */
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
   del(key: string): Promise<void>;
+  /** Atomically adds one to a counter and returns the new count. The first
+   *  increment starts the key's `ttlSeconds`; later ones leave it running. */
+  incr(key: string, ttlSeconds: number): Promise<number>;
+  /** SET NX: writes only when the key is missing, and says whether it did. */
+  setIfAbsent(key: string, value: string, ttlSeconds: number): Promise<boolean>;
+  /** RPUSH, which is atomic, then LTRIM down to the newest `keep` items. */
+  push(key: string, value: string, keep: number): Promise<void>;
+  /** The newest `count` items of a list, oldest first. */
+  lastItems(key: string, count: number): Promise<string[]>;
 }
 
 export interface RedisResolution {
@@ -63,8 +73,16 @@ export function getRedis(): RedisResolution {
         backend: 'upstash-rest',
         client: {
           get: (k) => c.get(k) as Promise<string | null>,
-          set: async (k, v) => { await c.set(k, v); },
+          set: async (k, v, ttl) => { await (ttl ? c.set(k, v, { ex: ttl }) : c.set(k, v)); },
           del: async (k) => { await c.del(k); },
+          incr: async (k, ttl) => {
+            const n = await c.incr(k);
+            if (n === 1) await c.expire(k, ttl);
+            return n;
+          },
+          setIfAbsent: async (k, v, ttl) => (await c.set(k, v, { nx: true, ex: ttl })) === 'OK',
+          push: async (k, v, keep) => { await c.rpush(k, v); await c.ltrim(k, -keep, -1); },
+          lastItems: (k, count) => c.lrange(k, -count, -1) as Promise<string[]>,
         },
       };
       return cached;
@@ -90,8 +108,20 @@ export function getRedis(): RedisResolution {
         backend: 'tcp',
         client: {
           get: async (k) => { await ready(); return c.get(k); },
-          set: async (k, v) => { await ready(); await c.set(k, v); },
+          set: async (k, v, ttl) => { await ready(); await (ttl ? c.set(k, v, { EX: ttl }) : c.set(k, v)); },
           del: async (k) => { await ready(); await c.del(k); },
+          incr: async (k, ttl) => {
+            await ready();
+            const n = await c.incr(k);
+            if (n === 1) await c.expire(k, ttl);
+            return n;
+          },
+          setIfAbsent: async (k, v, ttl) => {
+            await ready();
+            return (await c.set(k, v, { NX: true, EX: ttl })) === 'OK';
+          },
+          push: async (k, v, keep) => { await ready(); await c.rPush(k, v); await c.lTrim(k, -keep, -1); },
+          lastItems: async (k, count) => { await ready(); return c.lRange(k, -count, -1); },
         },
       };
       return cached;
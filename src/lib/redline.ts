@@ -0,0 +1,84 @@
+/**
+ * A word-level redline between two versions of a document.
+ *
+ * Isomorphic: the constitution page and the admin editor both diff in the
+ * browser. Words keep their trailing whitespace, so joining every part's
+ * text gives back either side exactly (same + removed is the old text, same
+ * + added the new one).
+ *
+ * The common head and tail are trimmed first, since most amendments touch a
+ * paragraph or two; the rest is a longest-common-subsequence diff. A rewrite
+ * too large to diff word by word falls back to whole lines.
+ */
+
+export interface RedlinePart {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Cells in the LCS table before word-level diffing gives way to lines.
+const MAX_CELLS = 4_000_000;
+
+const words = (text: string) => text.match(/\s+|\S+\s*/g) ?? [];
+const lines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+function push(out: RedlinePart[], kind: RedlinePart['kind'], text: string) {
+  if (!text) return;
+  const last = out[out.length - 1];
+  if (last?.kind === kind) last.text += text;
+  else out.push({ kind, text });
+}
+
+function lcs(a: string[], b: string[], out: RedlinePart[]) {
+  const n = a.length, m = b.length;
+  // table[i][j] = LCS length of a[i..] and b[j..], flattened.
+  const table = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[at(i, j)] = a[i] === b[j] ? table[at(i + 1, j + 1)] + 1 : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+    }
+  }
+  let i = 0, j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) { push(out, 'same', a[i]); i++; j++; }
+    else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) push(out, 'removed', a[i++]);
+    else push(out, 'added', b[j++]);
+  }
+  while (i < n) push(out, 'removed', a[i++]);
+  while (j < m) push(out, 'added', b[j++]);
+}
+
+function diffTokens(a: string[], b: string[], out: RedlinePart[]): boolean {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+  if ((midA.length + 1) * (midB.length + 1) > MAX_CELLS) return false;
+
+  push(out, 'same', a.slice(0, head).join(''));
+  lcs(midA, midB, out);
+  push(out, 'same', a.slice(a.length - tail).join(''));
+  return true;
+}
+
+/** The changes that turn `before` into `after`. */
+export function redline(before: string, after: string): RedlinePart[] {
+  const out: RedlinePart[] = [];
+  if (diffTokens(words(before), words(after), out)) return out;
+  out.length = 0;
+  if (diffTokens(lines(before), lines(after), out)) return out;
+  // Beyond even a line diff: show it as replaced wholesale.
+  return [{ kind: 'removed', text: before }, { kind: 'added', text: after }];
+}
+
+/** How many words a redline adds and removes. */
+export function redlineStats(parts: RedlinePart[]): { added: number; removed: number } {
+  const count = (kind: RedlinePart['kind']) => parts
+    .filter(p => p.kind === kind)
+    .reduce((s, p) => s + (p.text.match(/\S+/g)?.length ?? 0), 0);
+  return { added: count('added'), removed: count('removed') };
+}
@@ -6,7 +6,7 @@ import {
   getLeagueMatchups,
   getSeasonTransactions,
 } from '@/lib/api';
-import { INITIAL_LEAGUE_ID } from '@/config/league';
+import { getRequestLinkedLeagueIds } from '@/lib/leagueContext';
 
 export interface Manager {
   userId: string;
@@ -60,8 +60,8 @@ function emptyEntry(): H2HEntry {
   return { wins: 0, losses: 0, pointsFor: 0, pointsAgainst: 0, games: [] };
 }
 
-export async function fetchRivalriesData(): Promise<RivalriesResponse> {
-  const allLeagueIds = await getAllLinkedLeagueIds(INITIAL_LEAGUE_ID!);
+export async function fetchRivalriesData(leagueId?: string): Promise<RivalriesResponse> {
+  const allLeagueIds = leagueId ? await getAllLinkedLeagueIds(leagueId) : await getRequestLinkedLeagueIds();
 
   const managerMap = new Map<string, Manager>();
   const h2h: Record<string, Record<string, H2HEntry>> = {};
@@ -0,0 +1,211 @@
+/**
+ * Server-only: where frozen seasons live, and how they get frozen.
+ *
+ * The first read of a league whose status is 'complete' takes the snapshot and
+ * writes it through jsonStore (Redis, or data/archive-<leagueId>*.json locally).
+ * Every later read, on any instance, loads that instead of asking the platform.
+ * It is stored in pieces, each week's matchups and transactions and each
+ * draft's picks under its own key, so that no one value passes the size cap
+ * hosted Redis puts on a request (dataCache's MAX_PERSIST_BYTES). A season
+ * with a piece still over it is not archived and is read from the platform.
+ * The snapshot is taken from the origin provider, not through the shared
+ * cache: a cached copy of the final week could be minutes out of date, and an
+ * archive is forever.
+ *
+ * Sleeper does occasionally correct a finished season (a stat correction, a
+ * commissioner fixing a score), which is what rebuildSeason is for.
+ */
+import { readJson, writeJson } from './jsonStore';
+import { cached, invalidate, MAX_PERSIST_BYTES, type CachePolicy } from './dataCache';
+import type { LeagueDataProvider, League, Matchup, Transaction, Draft, DraftPick } from './providers/types';
+import type { ArchiveSource, SeasonArchive } from './providers/archived';
+
+// Sleeper's fantasy season never runs past week 18.
+const MAX_WEEK = 18;
+
+// Loaded archives are held in memory, and so is "not archived yet", which is
+// what keeps an in-season league from costing a storage read on every call.
+const MEMO_POLICY: CachePolicy = { freshMs: 600_000, staleMs: 0, persist: false }; // 10 min
+
+const archiveKey  = (leagueId: string) => `lp_archive:${leagueId}`;
+const archiveFile = (leagueId: string) => `archive-${leagueId}.json`;
+const memoKey     = (leagueId: string) => `archive:season:${leagueId}`;
+
+type Section = 'matchups' | 'transactions' | 'draftPicks';
+const SECTIONS: Section[] = ['matchups', 'transactions', 'draftPicks'];
+const partKey  = (leagueId: string, section: Section, id: string) => `${archiveKey(leagueId)}:${section}:${id}`;
+const partFile = (leagueId: string, section: Section, id: string) => `archive-${leagueId}-${section}-${id}.json`;
+
+/** What sits under the archive's own key: everything but the sectioned
+ *  records, and which weeks or drafts each section was stored for. */
+interface ArchiveHead extends Omit<SeasonArchive, Section> {
+  parts: Record<Section, string[]>;
+}
+
+export interface ArchiveStatus {
+  leagueId: string;
+  season: string;
+  status: string;
+  /** ISO time of the snapshot, or null when the season has none. */
+  frozenAt: string | null;
+  weeks: number;
+  transactions: number;
+}
+
+export async function loadArchive(leagueId: string): Promise<SeasonArchive | null> {
+  const head = await readJson<ArchiveHead | null>(archiveKey(leagueId), archiveFile(leagueId), null);
+  if (head?.version !== 1 || !head.parts) return null;
+
+  const { parts, ...rest } = head;
+  const sections = await Promise.all(SECTIONS.map(async section => {
+    const pieces = await Promise.all(parts[section].map(async id =>
+      [id, await readJson<unknown[] | null>(partKey(leagueId, section, id), partFile(leagueId, section, id), null)] as const));
+    // A piece gone missing makes the whole snapshot untrustworthy; take it again.
+    return pieces.every(([, v]) => v) ? Object.fromEntries(pieces) : null;
+  }));
+  if (sections.some(s => !s)) return null;
+  const [matchups, transactions, draftPicks] = sections as [
+    SeasonArchive['matchups'], SeasonArchive['transactions'], SeasonArchive['draftPicks'],
+  ];
+  return { ...rest, matchups, transactions, draftPicks };
+}
+
+async function saveArchive(archive: SeasonArchive): Promise<void> {
+  const { leagueId, matchups, transactions, draftPicks, ...rest } = archive;
+  const sections: Record<Section, Record<string, unknown[]>> = { matchups, transactions, draftPicks };
+  const head: ArchiveHead = {
+    ...rest,
+    leagueId,
+    parts: { matchups: Object.keys(matchups), transactions: Object.keys(transactions), draftPicks: Object.keys(draftPicks) },
+  };
+
+  const writes: [key: string, file: string, value: unknown][] = SECTIONS.flatMap(section =>
+    Object.entries(sections[section]).map(([id, value]) =>
+      [partKey(leagueId, section, id), partFile(leagueId, section, id), value] as [string, string, unknown]));
+  const tooBig = [...writes, [archiveKey(leagueId), archiveFile(leagueId), head] as const]
+    .find(([, , value]) => JSON.stringify(value).length > MAX_PERSIST_BYTES);
+  if (tooBig) throw new Error(`${tooBig[0]} is over ${MAX_PERSIST_BYTES} bytes, too big to store`);
+
+  // The head goes last: until it is written, the pieces are not an archive.
+  await Promise.all(writes.map(([key, file, value]) => writeJson(key, file, value)));
+  await writeJson(archiveKey(leagueId), archiveFile(leagueId), head);
+}
+
+/** Snapshot a completed season and store it, replacing any earlier snapshot. */
+export async function freezeSeason(
+  leagueId: string,
+  origin: LeagueDataProvider,
+  league?: League | null,
+): Promise<SeasonArchive> {
+  const info = league ?? await origin.getLeague(leagueId, { freshness: 'live' });
+  if (!info) throw new Error(`League ${leagueId} not found`);
+  if (info.status !== 'complete') {
+    throw new Error(`The ${info.season} season is not complete yet (status: ${info.status})`);
+  }
+
+  const opts = { freshness: 'live' } as const;
+  const weeks = Array.from({ length: MAX_WEEK }, (_, i) => i + 1);
+  const [users, rosters, matchupWeeks, txWeeks, winners, losers, drafts, tradedPicks] = await Promise.all([
+    origin.getLeagueUsers(leagueId, opts),
+    origin.getRosters(leagueId, opts),
+    Promise.all(weeks.map(w => origin.getMatchups(leagueId, w, opts))),
+    Promise.all(weeks.map(w => origin.getTransactions(leagueId, w, opts))),
+    origin.getBracket(leagueId, 'winners', opts),
+    origin.getBracket(leagueId, 'losers', opts),
+    origin.getDrafts(leagueId, opts),
+    origin.getTradedPicks(leagueId, opts),
+  ]);
+
+  const draftDetails: Record<string, Draft> = {};
+  const draftPicks: Record<string, DraftPick[]> = {};
+  await Promise.all(drafts.map(async d => {
+    const [detail, picks] = await Promise.all([
+      origin.getDraft(d.draft_id, opts),
+      origin.getDraftPicks(d.draft_id, opts),
+    ]);
+    if (detail) draftDetails[d.draft_id] = detail;
+    draftPicks[d.draft_id] = picks;
+  }));
+
+  const byWeek = <T>(batches: T[][]): Record<string, T[]> => {
+    const out: Record<string, T[]> = {};
+    batches.forEach((b, i) => { if (b.length) out[String(i + 1)] = b; });
+    return out;
+  };
+
+  const archive: SeasonArchive = {
+    version: 1,
+    leagueId,
+    season: info.season,
+    frozenAt: new Date().toISOString(),
+    league: info,
+    users,
+    rosters,
+    matchups: byWeek<Matchup>(matchupWeeks),
+    transactions: byWeek<Transaction>(txWeeks),
+    brackets: { winners, losers },
+    drafts,
+    draftDetails,
+    draftPicks,
+    tradedPicks,
+  };
+
+  await saveArchive(archive);
+  await invalidate(memoKey(leagueId));
+  return archive;
+}
+
+/**
+ * The archive for a league: stored if there is one, frozen now if the season
+ * has just completed, null while it is still being played.
+ */
+export function getSeasonArchive(leagueId: string, origin: LeagueDataProvider): Promise<SeasonArchive | null> {
+  return cached(memoKey(leagueId), MEMO_POLICY, async () => {
+    const stored = await loadArchive(leagueId);
+    if (stored) return stored;
+
+    const league = await origin.getLeague(leagueId);
+    if (league?.status !== 'complete') return null;
+    try {
+      return await freezeSeason(leagueId, origin, league);
+    } catch (err) {
+      // Most often a read-only filesystem with no Redis, or a piece over the
+      // size cap. Nothing is archived, so reads carry on against the platform
+      // exactly as before.
+      console.error('[seasonArchive] could not freeze', leagueId, err);
+      return null;
+    }
+  });
+}
+
+export function createArchiveSource(origin: LeagueDataProvider): ArchiveSource {
+  return leagueId => getSeasonArchive(leagueId, origin);
+}
+
+/** Re-snapshot a season from the platform, for when a finished season was corrected. */
+export async function rebuildSeason(leagueId: string, origin: LeagueDataProvider): Promise<ArchiveStatus> {
+  const archive = await freezeSeason(leagueId, origin);
+  return statusOf(archive.league, archive);
+}
+
+function statusOf(league: League, archive: SeasonArchive | null): ArchiveStatus {
+  return {
+    leagueId: league.league_id,
+    season: league.season,
+    status: league.status,
+    frozenAt: archive?.frozenAt ?? null,
+    weeks: archive ? Object.keys(archive.matchups).length : 0,
+    transactions: archive ? Object.values(archive.transactions).reduce((n, w) => n + w.length, 0) : 0,
+  };
+}
+
+/** One row per season of a chain, newest first, for the admin panel. */
+export async function listArchiveStatus(leagueIds: string[], origin: LeagueDataProvider): Promise<ArchiveStatus[]> {
+  const rows = await Promise.all(leagueIds.map(async id => {
+    const [league, archive] = await Promise.all([origin.getLeague(id), loadArchive(id)]);
+    return league ? statusOf(league, archive) : null;
+  }));
+  return rows
+    .filter((r): r is ArchiveStatus => r !== null)
+    .sort((a, b) => Number(b.season) - Number(a.season));
+}
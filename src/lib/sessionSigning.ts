@@ -0,0 +1,54 @@
+/**
+ * Server-only: tamper-proof cookie values for manager and admin sessions.
+ *
+ * A token is its dot-separated fields followed by an HMAC of them, keyed by
+ * SESSION_SECRET. Nothing here is encrypted; the fields are ids and
+ * timestamps, readable by their owner and useless to anyone else without the
+ * signature.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** What a token is for. Signed with its fields, so one kind of session cannot
+ *  be replayed as another: a manager cookie copied into the admin cookie is
+ *  the same shape and key, and only this tells them apart. */
+export type TokenPurpose = 'admin' | 'manager';
+
+/**
+ * Falls back to the admin password, then a development default, so a local
+ * checkout works unconfigured. In production there is no default: with
+ * neither set, nothing is signed and nothing is accepted.
+ */
+function sessionSecret(): string | null {
+  const secret = process.env.SESSION_SECRET || process.env.ADMIN_PASSWORD;
+  if (secret) return secret;
+  return process.env.NODE_ENV === 'production' ? null : 'admin123';
+}
+
+/** Whether sessions can be signed here at all. */
+export const canSignSessions = () => sessionSecret() !== null;
+
+const sign = (secret: string, payload: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+/** Constant-time string comparison. */
+export function safeEqual(a: string, b: string): boolean {
+  const x = Buffer.from(a), y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+/** Fields must not contain dots. Throws when no secret is configured (see canSignSessions). */
+export function signToken(purpose: TokenPurpose, fields: string[]): string {
+  const secret = sessionSecret();
+  if (!secret) throw new Error('Set SESSION_SECRET (or ADMIN_PASSWORD) to sign sessions');
+  const payload = [purpose, ...fields].join('.');
+  return `${payload}.${sign(secret, payload)}`;
+}
+
+/** The fields of a genuine `purpose` token with the expected number of them, or null. */
+export function verifyToken(token: string | undefined, purpose: TokenPurpose, fieldCount: number): string[] | null {
+  const secret = sessionSecret();
+  if (!token || !secret) return null;
+  const parts = token.split('.');
+  if (parts.length !== fieldCount + 2 || parts[0] !== purpose) return null;
+  const signature = parts.pop()!;
+  return safeEqual(signature, sign(secret, parts.join('.'))) ? parts.slice(1) : null;
+}
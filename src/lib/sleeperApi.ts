@@ -1,5 +1,7 @@
-import { leagueCache } from './hybridStorage';
+import { getProvider } from './providers';
 
+// Trending adds/drops are NFL-wide, not league data, so they always come from
+// Sleeper. Everything league-specific goes through the configured provider.
 const SLEEPER_BASE_URL = 'https://api.sleeper.app/v1';
 
 export interface SleeperLeague {
@@ -64,35 +66,24 @@ class SleeperAPI {
   private playerCacheTimeout = 24 * 60 * 60 * 1000; // 24 hours
 
   async fetchLeague(leagueId: string): Promise<SleeperLeague> {
-    const response = await fetch(`${SLEEPER_BASE_URL}/league/${leagueId}`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch league: ${response.statusText}`);
+    const league = await getProvider().getLeague(leagueId);
+    if (!league) {
+      throw new Error(`Failed to fetch league: ${leagueId} not found`);
     }
-    return response.json();
+    return league as unknown as SleeperLeague;
   }
 
   async fetchRosters(leagueId: string): Promise<SleeperRoster[]> {
-    const response = await fetch(`${SLEEPER_BASE_URL}/league/${leagueId}/rosters`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch rosters: ${response.statusText}`);
-    }
-    return response.json();
+    return getProvider().getRosters(leagueId);
   }
 
   async fetchUsers(leagueId: string): Promise<SleeperUser[]> {
-    const response = await fetch(`${SLEEPER_BASE_URL}/league/${leagueId}/users`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch users: ${response.statusText}`);
-    }
-    return response.json();
+    return getProvider().getLeagueUsers(leagueId);
   }
 
   async fetchMatchups(leagueId: string, week: number): Promise<SleeperMatchup[]> {
-    const response = await fetch(`${SLEEPER_BASE_URL}/league/${leagueId}/matchups/${week}`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch matchups: ${response.statusText}`);
-    }
-    return response.json();
+    const matchups = await getProvider().getMatchups(leagueId, week);
+    return matchups as unknown as SleeperMatchup[];
   }
 
   async fetchPlayers(): Promise<Record<string, PlayerInfo>> {
@@ -101,12 +92,7 @@ class SleeperAPI {
       return Object.fromEntries(this.playerCache);
     }
 
-    const response = await fetch(`${SLEEPER_BASE_URL}/players/nfl`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch players: ${response.statusText}`);
-    }
-    
-    const players = await response.json();
+    const players: Record<string, PlayerInfo> = await getProvider().getPlayers();
     
     // Update cache
     this.playerCache.clear();
@@ -119,11 +105,7 @@ class SleeperAPI {
   }
 
   async fetchNFLState(): Promise<any> {
-    const response = await fetch(`${SLEEPER_BASE_URL}/state/nfl`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch NFL state: ${response.statusText}`);
-    }
-    return response.json();
+    return getProvider().getNFLState();
   }
 
   async fetchTrendingPlayers(type: 'add' | 'drop' = 'add', lookback_hours = 24, limit = 25): Promise<any[]> {
@@ -138,13 +120,7 @@ class SleeperAPI {
 
   // Enhanced league data with analysis
   async getLeagueAnalysis(leagueId: string): Promise<any> {
-    // Try cache first
-    const cached = await leagueCache.getLeagueData(leagueId);
-    if (cached) {
-      return this.analyzeLeagueData(cached);
-    }
-
-    // Fetch fresh data
+    // Each read below is served from the shared cache (lib/dataCache.ts).
     const [league, rosters, users, nflState] = await Promise.all([
       this.fetchLeague(leagueId),
       this.fetchRosters(leagueId),
@@ -155,17 +131,7 @@ class SleeperAPI {
     const currentWeek = nflState.week;
     const matchups = await this.fetchMatchups(leagueId, currentWeek);
 
-    const leagueData = {
-      league,
-      rosters,
-      users,
-      matchups
-    };
-
-    // Cache the data
-    await leagueCache.setLeagueData(leagueId, leagueData);
-
-    return this.analyzeLeagueData(leagueData);
+    return this.analyzeLeagueData({ league, rosters, users, matchups });
   }
 
   private analyzeLeagueData(data: any) {
@@ -0,0 +1,366 @@
+/**
+ * Server-only: lineups that look like tanking, for the commissioner to
+ * review against the constitution's Tanking rule ("benching healthy,
+ * high-projected starters").
+ *
+ * Every lineup set this season is checked against the best one the roster
+ * could have set (lib/lineupHistory.ts). Hindsight alone is not evidence:
+ * anyone can start the wrong receiver. So a week is only flagged when the
+ * lineup gave a lot away AND the manager made a choice that was bad before
+ * kickoff:
+ *
+ *   - a starting slot left empty while an eligible bench player played;
+ *   - a starter who scored nothing, over an eligible bench player who did;
+ *   - a benched player FantasyPros ranked as a clear starter that week,
+ *     over an eligible starter it ranked far lower or not at all.
+ *
+ * Ranks come from the weekly archive in lib/fantasyProsStore.ts, so weeks
+ * before the archive began (or without a FantasyPros key) rely on the first
+ * two. Sleeper keeps no injury history: a benched player who scored counts
+ * as healthy, and the directory's current injury status is only used for
+ * the most recent week.
+ *
+ * A flagged team that was already mathematically eliminated, or that lost a
+ * game its best lineup would have won, is high severity. Elimination is the
+ * simple bound from lib/playoffOdds.ts: enough teams already clear of the
+ * team's best possible finish.
+ *
+ * Flags are recomputed (and cached) from Sleeper; only the commissioner's
+ * reviews and whether the chat assistant may cite the flags are stored.
+ */
+import { readJson, writeJson } from './jsonStore';
+import { getProvider, type Matchup, type Player } from './providers';
+import { getPlayersDirectory } from './playerStats';
+import { getLeagueManagers } from './managerContext';
+import { getWeeklyRanks, type WeeklyRanks } from './fantasyProsStore';
+import { playerKey, sleeperName } from './ecrMatch';
+import { optimalPoints } from './lineupHistory';
+import { SLOT_ELIGIBILITY, isStartingSlot } from './lineupSlots';
+import { cached, type CachePolicy } from './dataCache';
+import type { IntegrityReview } from './tradeIntegrity';
+import type { AdminSession } from './adminAuth';
+
+export interface TankingFlag {
+  /** `tank:<season>:<week>:<rosterId>`. */
+  id: string;
+  season: string;
+  week: number;
+  rosterId: number;
+  userId: string;
+  teamName: string;
+  severity: 'high' | 'medium';
+  /** Out of the playoffs whatever happened, before this week was played. */
+  eliminated: boolean;
+  actual: number;
+  optimal: number;
+  /** Actual as a percentage of optimal, 0-100. */
+  efficiency: number;
+  /** Set when the game was lost and the best lineup would have won it. */
+  lostGame: { opponent: string; opponentPoints: number } | null;
+  /** One line per questionable decision. */
+  evidence: string[];
+  /** Whether FantasyPros ranks were archived for the week. */
+  ranked: boolean;
+  review: IntegrityReview | null;
+}
+
+export interface TankingReport {
+  season: string;
+  flags: TankingFlag[];
+  /** Weeks checked, and how many of them had archived ranks. */
+  weeksChecked: number;
+  weeksRanked: number;
+  /** Whether the chat assistant may look the flags up. */
+  chatTool: boolean;
+}
+
+interface TankingStore {
+  reviews: Record<string, IntegrityReview>;
+  chatTool: boolean;
+}
+
+type UnreviewedFlag = Omit<TankingFlag, 'review'>;
+
+const TANKING_POLICY: CachePolicy = { freshMs: 900_000, staleMs: 6 * 3_600_000 }; // 15 min, then 6h stale
+
+// A week is worth a look when the lineup started less than this share of
+// its best possible points,
+const MAX_EFFICIENCY = 0.8;
+// and left at least this many points on the bench.
+const MIN_POINTS_LEFT = 20;
+// A bench player who outscored a zero-point starter by this much was a
+// real alternative, not another empty week.
+const MIN_ALTERNATIVE_POINTS = 5;
+// A positional rank this good is a clear starter in any league,
+const STARTER_RANK: Record<string, number> = { QB: 12, RB: 24, WR: 24, TE: 12 };
+// and a started player ranked more than this many times worse was a
+// choice, not a coin flip.
+const RANK_RATIO = 2;
+
+// A finished season is read to its last possible week; unplayed weeks are empty.
+const SEASON_WEEKS = 18;
+
+const OUT = /^(out|doubtful|injured reserve|ir|suspended|pup|nfi|cov)/i;
+
+const storeKey = (leagueId: string) => `lp_tanking_${leagueId}`;
+const storeFile = (leagueId: string) => `tanking-${leagueId}.json`;
+
+async function loadStore(storeId: string): Promise<TankingStore> {
+  return readJson<TankingStore>(storeKey(storeId), storeFile(storeId), { reviews: {}, chatTool: false });
+}
+
+async function saveStore(storeId: string, store: TankingStore): Promise<void> {
+  await writeJson(storeKey(storeId), storeFile(storeId), store);
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function positionsOf(id: string, players: Record<string, Player>): string[] {
+  const p = players[id];
+  return p?.fantasy_positions?.length ? p.fantasy_positions : [p?.position ?? ''];
+}
+
+function nameOf(id: string, players: Record<string, Player>): string {
+  const p = players[id];
+  return p ? sleeperName(p) || `Player ${id}` : `Player ${id}`;
+}
+
+// ── Standings ────────────────────────────────────────────────────────────────
+
+/**
+ * Roster ids out of the playoffs before each week, from the results of the
+ * weeks before it. Ties are half a win; median games count when the league
+ * plays them.
+ */
+function eliminations(
+  weeks: Matchup[][],
+  rosterIds: number[],
+  playoffTeams: number,
+  playoffStart: number,
+  medianGames: boolean,
+): Map<number, Set<number>> {
+  const wins = new Map(rosterIds.map(id => [id, 0]));
+  const out = new Map<number, Set<number>>();
+  const perWeek = medianGames ? 2 : 1;
+
+  weeks.forEach((matchups, i) => {
+    const week = i + 1;
+    if (week >= playoffStart) return;
+    const left = (playoffStart - week) * perWeek;
+    out.set(week, new Set(rosterIds.filter(t =>
+      rosterIds.filter(x => x !== t && (wins.get(x) ?? 0) > (wins.get(t) ?? 0) + left).length >= playoffTeams)));
+
+    const scored = matchups.filter(m => typeof m.points === 'number' && m.points > 0);
+    const groups = new Map<number, Matchup[]>();
+    for (const m of scored) {
+      if (m.matchup_id == null) continue;
+      groups.set(m.matchup_id, [...(groups.get(m.matchup_id) ?? []), m]);
+    }
+    for (const [a, b] of groups.values()) {
+      if (!a || !b) continue;
+      const credit = (m: Matchup, w: number) => wins.set(m.roster_id, (wins.get(m.roster_id) ?? 0) + w);
+      if (a.points > b.points) credit(a, 1);
+      else if (b.points > a.points) credit(b, 1);
+      else { credit(a, 0.5); credit(b, 0.5); }
+    }
+    if (medianGames && scored.length) {
+      const sorted = scored.map(m => m.points).sort((x, y) => x - y);
+      const median = (sorted[Math.floor((sorted.length - 1) / 2)] + sorted[Math.ceil((sorted.length - 1) / 2)]) / 2;
+      for (const m of scored) if (m.points > median) wins.set(m.roster_id, (wins.get(m.roster_id) ?? 0) + 1);
+    }
+  });
+  return out;
+}
+
+// ── Lineup decisions ─────────────────────────────────────────────────────────
+
+/** Decisions in one lineup that were questionable before kickoff. */
+function evidenceFor(
+  m: Matchup,
+  slots: string[],
+  players: Record<string, Player>,
+  ranks: WeeklyRanks | undefined,
+  injuries: boolean,
+): string[] {
+  const points = m.players_points ?? {};
+  const starters = slots.map((_, i) => m.starters?.[i] ?? '0');
+  const startSet = new Set(starters);
+  const bench = (m.players ?? []).filter(id => !startSet.has(id));
+  const eligible = (id: string, slot: string) =>
+    positionsOf(id, players).some(pos => (SLOT_ELIGIBILITY[slot] ?? []).includes(pos));
+  const rankOf = (id: string): number | null => {
+    const p = players[id];
+    return ranks && p ? ranks.ranks[playerKey(sleeperName(p), p.position)] ?? null : null;
+  };
+  const label = (id: string) => {
+    const rank = rankOf(id);
+    const status = injuries ? players[id]?.injury_status : null;
+    return `${nameOf(id, players)} (${rank ? `${players[id]?.position}${rank}` : positionsOf(id, players)[0] || '?'}` +
+      `${status ? `, ${status}` : ''}, ${round1(points[id] ?? 0)} pts)`;
+  };
+  // Each player is cited once, so one benched star is not three findings.
+  const used = new Set<string>();
+  // The best bench player who could have filled a slot, by points scored.
+  const bestFor = (slot: string) => bench
+    .filter(id => !used.has(id) && eligible(id, slot) && (points[id] ?? 0) >= MIN_ALTERNATIVE_POINTS)
+    .sort((a, b) => (points[b] ?? 0) - (points[a] ?? 0))[0];
+
+  const evidence: string[] = [];
+  starters.forEach((id, i) => {
+    const slot = slots[i];
+    if (!id || id === '0') {
+      const alt = bestFor(slot);
+      if (alt) {
+        used.add(alt);
+        evidence.push(`Left the ${slot} slot empty with ${label(alt)} on the bench`);
+      }
+      return;
+    }
+    if ((points[id] ?? 0) <= 0) {
+      const alt = bestFor(slot);
+      if (alt) {
+        used.add(alt); used.add(id);
+        const out = injuries && OUT.test(players[id]?.injury_status ?? '') ? ', who was listed out,' : '';
+        evidence.push(`Started ${label(id)}${out} over ${label(alt)}`);
+      }
+    }
+  });
+
+  if (ranks) {
+    for (const id of bench) {
+      const rank = rankOf(id);
+      const position = players[id]?.position ?? '';
+      // Healthy enough to play, as far as the record shows.
+      if (!rank || rank > (STARTER_RANK[position] ?? 0) || (points[id] ?? 0) <= 0 || used.has(id)) continue;
+      const over = starters
+        .map((s, i) => ({ s, slot: slots[i] }))
+        .filter(({ s, slot }) => s && s !== '0' && !used.has(s) && eligible(id, slot))
+        .find(({ s }) => {
+          const r = rankOf(s);
+          return r === null || r > rank * RANK_RATIO;
+        });
+      if (!over) continue;
+      used.add(id); used.add(over.s);
+      evidence.push(`Benched ${label(id)} for ${label(over.s)}`);
+    }
+  }
+  return evidence;
+}
+
+async function buildFlags(leagueId: string): Promise<Omit<TankingReport, 'chatTool' | 'flags'> & { flags: UnreviewedFlag[] }> {
+  const provider = getProvider();
+  const [league, nflState, managers, players, archive] = await Promise.all([
+    provider.getLeague(leagueId),
+    provider.getNFLState(),
+    getLeagueManagers(leagueId),
+    getPlayersDirectory(),
+    getWeeklyRanks().catch((): Record<string, WeeklyRanks> => ({})),
+  ]);
+  if (!league) return { season: '', flags: [], weeksChecked: 0, weeksRanked: 0 };
+
+  const slots: string[] = (league.roster_positions ?? []).filter(isStartingSlot);
+  // The week in progress is not a lineup that has played out yet.
+  const lastWeek = league.season === nflState.season ? (nflState.week ?? 1) - 1 : SEASON_WEEKS;
+  if (lastWeek < 1) return { season: league.season, flags: [], weeksChecked: 0, weeksRanked: 0 };
+
+  const weeks = await Promise.all(
+    Array.from({ length: lastWeek }, (_, i) => provider.getMatchups(leagueId, i + 1).catch(() => [] as Matchup[])),
+  );
+  const playoffStart = league.settings?.playoff_week_start || 15;
+  const out = eliminations(
+    weeks,
+    managers.map(m => m.rosterId),
+    Math.min(managers.length, league.settings?.playoff_teams || 6),
+    playoffStart,
+    Boolean(league.settings?.league_average_match),
+  );
+  const byRoster = new Map(managers.map(m => [m.rosterId, m]));
+
+  const flags: UnreviewedFlag[] = [];
+  let weeksChecked = 0, weeksRanked = 0;
+  weeks.forEach((matchups, i) => {
+    const week = i + 1;
+    const scored = matchups.filter(m => typeof m.points === 'number' && m.points > 0 && m.players_points);
+    if (!scored.length) return;
+    weeksChecked++;
+    const ranks = archive[`${league.season}:${week}`];
+    if (ranks) weeksRanked++;
+
+    for (const m of scored) {
+      const manager = byRoster.get(m.roster_id);
+      if (!manager) continue;
+      const optimal = optimalPoints(m, slots, players);
+      if (optimal <= 0 || m.points / optimal >= MAX_EFFICIENCY || optimal - m.points < MIN_POINTS_LEFT) continue;
+
+      const evidence = evidenceFor(m, slots, players, ranks, week === lastWeek);
+      if (!evidence.length) continue;
+
+      const opponent = m.matchup_id == null
+        ? undefined
+        : scored.find(o => o.matchup_id === m.matchup_id && o.roster_id !== m.roster_id);
+      const lostGame = opponent && opponent.points > m.points && optimal > opponent.points
+        ? { opponent: byRoster.get(opponent.roster_id)?.teamName ?? `Team ${opponent.roster_id}`, opponentPoints: opponent.points }
+        : null;
+      const eliminated = out.get(week)?.has(m.roster_id) ?? false;
+
+      flags.push({
+        id: `tank:${league.season}:${week}:${m.roster_id}`,
+        season: league.season,
+        week,
+        rosterId: m.roster_id,
+        userId: manager.userId,
+        teamName: manager.teamName,
+        severity: eliminated || lostGame ? 'high' : 'medium',
+        eliminated,
+        actual: round1(m.points),
+        optimal: round1(optimal),
+        efficiency: Math.round((m.points / optimal) * 1000) / 10,
+        lostGame,
+        evidence,
+        ranked: Boolean(ranks),
+      });
+    }
+  });
+  return { season: league.season, flags, weeksChecked, weeksRanked };
+}
+
+// ── Queue ────────────────────────────────────────────────────────────────────
+
+/**
+ * This season's flags with their reviews, unreviewed first, then latest
+ * week first. `leagueId` is the current season's; `storeId` keys reviews.
+ */
+export async function getTankingReport(storeId: string, leagueId: string): Promise<TankingReport> {
+  const [built, store] = await Promise.all([
+    cached(`route:tanking:${leagueId}`, TANKING_POLICY, () => buildFlags(leagueId)),
+    loadStore(storeId),
+  ]);
+  const flags = built.flags
+    .map(f => ({ ...f, review: store.reviews[f.id] ?? null }))
+    .sort((a, b) => Number(!!a.review) - Number(!!b.review) || b.week - a.week || a.teamName.localeCompare(b.teamName));
+  return { ...built, flags, chatTool: store.chatTool };
+}
+
+/** Records (or replaces) the commissioner's review of a flag. */
+export async function reviewTankingFlag(
+  storeId: string,
+  admin: AdminSession,
+  flagId: string,
+  status: IntegrityReview['status'],
+  note: string,
+): Promise<IntegrityReview> {
+  const store = await loadStore(storeId);
+  const review: IntegrityReview = { status, note: note.trim(), by: admin.name, role: admin.role, at: new Date().toISOString() };
+  store.reviews[flagId] = review;
+  await saveStore(storeId, store);
+  return review;
+}
+
+export async function isTankingChatToolEnabled(storeId: string): Promise<boolean> {
+  return (await loadStore(storeId)).chatTool;
+}
+
+export async function setTankingChatTool(storeId: string, enabled: boolean): Promise<void> {
+  const store = await loadStore(storeId);
+  await saveStore(storeId, { ...store, chatTool: enabled });
+}
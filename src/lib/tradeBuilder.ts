@@ -0,0 +1,118 @@
+/**
+ * Build-your-own trades: what each side gives and gets, what it is worth, and
+ * what it does to each team's starting lineup.
+ *
+ * Isomorphic: the builder page re-scores the trade on every click. The
+ * server's part is the market itself (every roster's players and future
+ * picks, valued), from getTradeMarket in lib/tradeEngine.ts.
+ *
+ * Fairness is on TradeProposal's scale, per side: 50 is even, lower means the
+ * side got more value than it gave, higher means it gave more than it got.
+ * In a two-team trade, side A's figure reads exactly like a suggested
+ * trade's.
+ */
+import { fillSlots } from './lineupSlots';
+
+export interface TradeAsset {
+  /** Sleeper player id, or `pick:<season>:<round>:<original roster id>`. */
+  id: string;
+  kind: 'player' | 'pick';
+  /** Player name, or e.g. "2027 Round 1 (Team X)". */
+  label: string;
+  /** 'PICK' for picks. */
+  position: string;
+  nflTeam: string;
+  avgPPG: number;
+  /** PlayerValue.value: production percentile within the position. */
+  production: number;
+  /** FantasyPros dynasty positional rank, e.g. "WR12", when ranked. */
+  dynastyRank: string | null;
+  /** What the trade is scored on, 0-100. */
+  tradeValue: number;
+}
+
+export interface MarketTeam {
+  rosterId: number;
+  /** Owner's Sleeper user id; null for an orphaned roster. */
+  userId: string | null;
+  teamName: string;
+  record: string;
+  avatar: string;
+  assets: TradeAsset[];
+}
+
+export interface TradeMarket {
+  season: string;
+  week: number;
+  /** Starting slots, from the league's roster positions. */
+  slots: string[];
+  teams: MarketTeam[];
+  /** When the dynasty board was pulled; null without one. */
+  ecrFetchedAt: string | null;
+}
+
+/** One asset changing hands. */
+export interface TradeMove {
+  assetId: string;
+  from: number;
+  to: number;
+}
+
+export interface TradeSide {
+  rosterId: number;
+  teamName: string;
+  gives: TradeAsset[];
+  receives: TradeAsset[];
+  valueOut: number;
+  valueIn: number;
+  fairness: number;
+  /** Best starting lineup's points per game, before and after. */
+  lineupBefore: number;
+  lineupAfter: number;
+}
+
+export interface TradeEvaluation {
+  sides: TradeSide[];
+  /** Side A's fairness in a two-team trade; the most lopsided side's otherwise. */
+  fairness: number;
+}
+
+/** Points per game of the best lineup this set of players can field. */
+export function lineupStrength(slots: string[], assets: TradeAsset[]): number {
+  const players = assets.filter(a => a.kind === 'player').map(a => ({ ...a, playerId: a.id }));
+  const best = fillSlots(slots, players, { positionsOf: p => [p.position], valueOf: p => p.avgPPG });
+  return Number(best.reduce((s, p) => s + (p?.avgPPG ?? 0), 0).toFixed(1));
+}
+
+export function evaluateTrade(market: TradeMarket, moves: TradeMove[]): TradeEvaluation {
+  const involved = [...new Set(moves.flatMap(m => [m.from, m.to]))];
+  const teams = new Map(market.teams.map(t => [t.rosterId, t]));
+  const assetOf = (rosterId: number, id: string) => teams.get(rosterId)?.assets.find(a => a.id === id);
+  const sum = (assets: TradeAsset[]) => assets.reduce((s, a) => s + a.tradeValue, 0);
+
+  const sides = involved.flatMap((rosterId): TradeSide[] => {
+    const team = teams.get(rosterId);
+    if (!team) return [];
+    const gives = moves.filter(m => m.from === rosterId).map(m => assetOf(m.from, m.assetId)).filter((a): a is TradeAsset => !!a);
+    const receives = moves.filter(m => m.to === rosterId).map(m => assetOf(m.from, m.assetId)).filter((a): a is TradeAsset => !!a);
+    const valueOut = sum(gives), valueIn = sum(receives);
+    const outIds = new Set(gives.map(a => a.id));
+    const after = [...team.assets.filter(a => !outIds.has(a.id)), ...receives];
+    return [{
+      rosterId,
+      teamName: team.teamName,
+      gives,
+      receives,
+      valueOut: Math.round(valueOut),
+      valueIn: Math.round(valueIn),
+      fairness: valueOut + valueIn > 0 ? Math.round((valueOut / (valueOut + valueIn)) * 100) : 50,
+      lineupBefore: lineupStrength(market.slots, team.assets),
+      lineupAfter: lineupStrength(market.slots, after),
+    }];
+  });
+
+  const fairness = sides.length === 2
+    ? sides[0].fairness
+    : sides.reduce((worst, s) => (Math.abs(s.fairness - 50) > Math.abs(worst - 50) ? s.fairness : worst), 50);
+  return { sides, fairness };
+}
@@ -0,0 +1,33 @@
+/**
+ * The parts of the trade engine the trade views use in the browser. Kept
+ * apart from lib/tradeEngine.ts, which reads storage and the data cache and
+ * must stay on the server.
+ */
+import type { TradeProposal } from './tradeEngine';
+
+export const POSITION_COLORS: Record<string, string> = {
+  QB:  'text-amber-400  bg-amber-400/10  border-amber-400/30',
+  RB:  'text-emerald-400 bg-emerald-400/10 border-emerald-400/30',
+  WR:  'text-sky-400    bg-sky-400/10    border-sky-400/30',
+  TE:  'text-violet-400 bg-violet-400/10 border-violet-400/30',
+  K:   'text-slate-400  bg-slate-400/10  border-slate-400/30',
+  DEF: 'text-rose-400   bg-rose-400/10   border-rose-400/30',
+};
+
+/**
+ * The same trade, whichever side is listed first and in whatever order its
+ * players come. Proposal ids only number one batch of suggestions; this
+ * recognises the deal when it is suggested again.
+ */
+export function dealKey(p: TradeProposal): string {
+  const side = (s: TradeProposal['sideA']) => `${s.rosterId}:${s.gives.map(g => g.playerId).sort().join(',')}`;
+  return [side(p.sideA), side(p.sideB)].sort().join('|');
+}
+
+/** The two sides of a dealKey: each roster and the player ids it gives. */
+export function parseDealKey(key: string): { rosterId: number; gives: string[] }[] {
+  return key.split('|').map(side => {
+    const [rosterId, gives = ''] = side.split(':');
+    return { rosterId: Number(rosterId), gives: gives ? gives.split(',') : [] };
+  });
+}
@@ -1,19 +1,15 @@
 import { generateObject } from 'ai';
 import { claude, MODEL_FAST } from '@/lib/ai/claude';
 import { z } from 'zod';
-
-const SLEEPER_BASE = 'https://api.sleeper.app/v1';
+import { getProvider } from '@/lib/providers';
+import { getSnapshot } from '@/lib/fantasyProsStore';
+import { ecrBySleeperId, positionRank } from '@/lib/ecrMatch';
+import { isStartingSlot } from '@/lib/lineupSlots';
+import { cached, type CachePolicy } from '@/lib/dataCache';
+import type { MarketTeam, TradeAsset, TradeMarket } from '@/lib/tradeBuilder';
+import { parseDealKey } from '@/lib/tradeColors';
 const RELEVANT_POSITIONS = ['QB', 'RB', 'WR', 'TE'] as const;
 
-export const POSITION_COLORS: Record<string, string> = {
-  QB:  'text-amber-400  bg-amber-400/10  border-amber-400/30',
-  RB:  'text-emerald-400 bg-emerald-400/10 border-emerald-400/30',
-  WR:  'text-sky-400    bg-sky-400/10    border-sky-400/30',
-  TE:  'text-violet-400 bg-violet-400/10 border-violet-400/30',
-  K:   'text-slate-400  bg-slate-400/10  border-slate-400/30',
-  DEF: 'text-rose-400   bg-rose-400/10   border-rose-400/30',
-};
-
 export interface PlayerValue {
   playerId: string;
   name: string;
@@ -75,17 +71,16 @@ const AiResponseSchema = z.object({
 
 async function fetchLeagueContext(leagueId: string) {
   // NFL state: short cache. Week number changes weekly.
-  const nflState = await fetch(`${SLEEPER_BASE}/state/nfl`, {
-    next: { revalidate: 3600 },
-  }).then(r => r.json());
+  const provider = getProvider();
+  const nflState = await provider.getNFLState({ freshness: 'recent' });
   const currentWeek: number = Math.max(1, nflState.week ?? 1);
 
   const [rosters, users, allPlayers] = await Promise.all([
     // Rosters/users: cache 1 h. Changes with trades/waivers.
-    fetch(`${SLEEPER_BASE}/league/${leagueId}/rosters`, { next: { revalidate: 3600 } }).then(r => r.json()),
-    fetch(`${SLEEPER_BASE}/league/${leagueId}/users`,   { next: { revalidate: 3600 } }).then(r => r.json()),
+    provider.getRosters(leagueId, { freshness: 'recent' }),
+    provider.getLeagueUsers(leagueId, { freshness: 'recent' }),
     // Players: ~19 MB. Too large for Next.js data cache; route-level revalidate covers this.
-    fetch(`${SLEEPER_BASE}/players/nfl`).then(r => r.json()),
+    provider.getPlayers(),
   ]);
 
   // Cap at 8 most-recent weeks. Enough signal, avoids excess fetching.
@@ -93,11 +88,8 @@ async function fetchLeagueContext(leagueId: string) {
   const startWeek    = Math.max(1, currentWeek - weeksToFetch + 1);
   const matchupWeeks: any[][] = await Promise.all(
     Array.from({ length: weeksToFetch }, (_, i) => startWeek + i).map(week =>
-      fetch(`${SLEEPER_BASE}/league/${leagueId}/matchups/${week}`, {
-        next: { revalidate: 1800 }, // 30 min. Scores finalize mid-week.
-      })
-        .then(r => r.ok ? r.json() : [])
-        .catch(() => [])
+      // Scores finalize mid-week; hourly is fresh enough for valuations.
+      provider.getMatchups(leagueId, week, { freshness: 'recent' }).catch(() => [])
     )
   );
 
@@ -310,6 +302,157 @@ export async function generateTradeProposals(leagueId: string): Promise<TradeRes
   return { proposals, teams: teamInfos };
 }
 
+// ── Trade builder market ──────────────────────────────────────────────────────
+
+const MARKET_POLICY: CachePolicy = { freshMs: 900_000, staleMs: 6 * 3_600_000 }; // 15 min, then 6h stale
+
+// A pick's worth on the 0-100 player scale, by round, for the next draft.
+// Every year further out is worth a little less.
+const PICK_VALUE = [70, 40, 20, 10];
+const LATE_PICK_VALUE = 5;
+const PICK_YEAR_DISCOUNT = 0.9;
+const PICK_YEARS = 3;
+// How much of a ranked player's trade value comes from dynasty ECR rather than production.
+const DYNASTY_WEIGHT = 0.5;
+
+/**
+ * Every roster's players and future picks, valued for the trade builder.
+ * Players are worth their PlayerValue production percentile, blended with
+ * where FantasyPros' dynasty board ranks them within their position when it
+ * does (the free tier ranks only the top of each). Picks are valued by round.
+ */
+export function getTradeMarket(leagueId: string): Promise<TradeMarket> {
+  return cached(`route:trade-market:${leagueId}`, MARKET_POLICY, async () => {
+    const provider = getProvider();
+    const [{ teams, playerValues, currentWeek }, league, rosters, users, tradedPicks, snapshot, allPlayers] = await Promise.all([
+      fetchLeagueContext(leagueId),
+      provider.getLeague(leagueId),
+      provider.getRosters(leagueId),
+      provider.getLeagueUsers(leagueId),
+      provider.getTradedPicks(leagueId).catch(() => []),
+      getSnapshot().catch(() => null),
+      provider.getPlayers(),
+    ]);
+    if (!league) throw new Error(`League ${leagueId} not found`);
+
+    // Dynasty rank, turned into a percentile among the league's rostered
+    // players at that position so it sits on the same scale as production.
+    const ranked = snapshot ? ecrBySleeperId(snapshot, 'dynasty', Object.keys(playerValues), allPlayers) : new Map();
+    const byPos = groupBy(Object.values(playerValues), p => p.position);
+    const playerAsset = (pv: PlayerValue): TradeAsset => {
+      const ecr = ranked.get(pv.playerId);
+      const rank = ecr ? positionRank(ecr) : null;
+      const n = byPos[pv.position]?.length ?? 1;
+      const dynasty = rank != null ? Math.max(0, 100 * (1 - (rank - 1) / Math.max(1, n - 1))) : null;
+      return {
+        id: pv.playerId,
+        kind: 'player',
+        label: pv.name,
+        position: pv.position,
+        nflTeam: pv.nflTeam,
+        avgPPG: Number(pv.avgPPG.toFixed(1)),
+        production: pv.value,
+        dynastyRank: ecr?.posRank ?? null,
+        tradeValue: Math.round(dynasty != null ? DYNASTY_WEIGHT * dynasty + (1 - DYNASTY_WEIGHT) * pv.value : pv.value),
+      };
+    };
+
+    // Every roster owns its own picks unless Sleeper records a trade of them.
+    // A season's draft is still ahead until the league is in season.
+    const nameOf = new Map(teams.map(t => [t.rosterId, t.teamName]));
+    const firstDraft = Number(league.season) + (['pre_draft', 'drafting'].includes(league.status) ? 0 : 1);
+    const rounds = league.settings?.draft_rounds || PICK_VALUE.length;
+    const pickOwner = new Map<string, number>();
+    for (let y = 0; y < PICK_YEARS; y++) {
+      for (let round = 1; round <= rounds; round++) {
+        for (const r of rosters) pickOwner.set(`${firstDraft + y}:${round}:${r.roster_id}`, r.roster_id);
+      }
+    }
+    for (const tp of tradedPicks) {
+      const key = `${tp.season}:${tp.round}:${tp.roster_id}`;
+      if (pickOwner.has(key)) pickOwner.set(key, tp.owner_id);
+    }
+    const picksOf = (rosterId: number): TradeAsset[] => [...pickOwner]
+      .filter(([, owner]) => owner === rosterId)
+      .map(([key]) => {
+        const [season, round, original] = key.split(':').map(Number);
+        const years = season - firstDraft;
+        return {
+          id: `pick:${key}`,
+          kind: 'pick' as const,
+          label: `${season} Round ${round}${original !== rosterId ? ` (${nameOf.get(original) ?? `Roster ${original}`})` : ''}`,
+          position: 'PICK',
+          nflTeam: '',
+          avgPPG: 0,
+          production: 0,
+          dynastyRank: null,
+          tradeValue: Math.round((PICK_VALUE[round - 1] ?? LATE_PICK_VALUE) * PICK_YEAR_DISCOUNT ** years),
+        };
+      })
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    const avatarOf = new Map(users.map(u => [u.user_id, u.avatar ?? '']));
+    const ownerOf = new Map(rosters.map(r => [r.roster_id, r.owner_id]));
+    const marketTeams: MarketTeam[] = teams.map(t => ({
+      rosterId: t.rosterId,
+      userId: ownerOf.get(t.rosterId) ?? null,
+      teamName: t.teamName,
+      record: t.record,
+      avatar: avatarOf.get(ownerOf.get(t.rosterId) ?? '') ?? '',
+      assets: [
+        ...(t.allPlayers as PlayerValue[]).map(playerAsset).sort((a, b) => b.tradeValue - a.tradeValue),
+        ...picksOf(t.rosterId),
+      ],
+    }));
+
+    return {
+      season: league.season,
+      week: currentWeek,
+      slots: (league.roster_positions ?? []).filter(isStartingSlot),
+      teams: marketTeams,
+      ecrFetchedAt: snapshot?.fetchedAt ?? null,
+    };
+  });
+}
+
+// ── Deals ──────────────────────────────────────────────────────────────────────
+
+/**
+ * A deal as it stands on today's rosters, from its dealKey alone, or null when
+ * it no longer can happen: a team is gone or a player has moved on. Built here
+ * rather than taken from whoever asked, so a record of the deal shows what
+ * the key says and nothing a browser sent with it. The AI copy (label,
+ * tagline, rationale) belongs to one batch of suggestions and is not kept.
+ */
+export async function proposalForDeal(leagueId: string, key: string): Promise<TradeProposal | null> {
+  const { teams } = await fetchLeagueContext(leagueId);
+  const sides = parseDealKey(key);
+  if (sides.length !== 2) return null;
+
+  const built = sides.map(({ rosterId, gives }) => {
+    const team = teams.find(t => t.rosterId === rosterId);
+    const players = gives.map(pid => team?.allPlayers.find(p => p.playerId === pid));
+    if (!team || !gives.length || players.some(p => !p)) return null;
+    return { rosterId, teamName: team.teamName, record: team.record, gives: players as PlayerValue[] };
+  });
+  const [sideA, sideB] = built;
+  if (!sideA || !sideB) return null;
+
+  const worth = (s: typeof sideA) => s.gives.reduce((n, p) => n + p.value, 0);
+  const total = worth(sideA) + worth(sideB);
+  return {
+    id: `deal-${sideA.rosterId}-${sideB.rosterId}`,
+    sideA,
+    sideB,
+    label: 'Mutual Interest',
+    labelVariant: 'green',
+    tagline: '',
+    rationale: '',
+    // Same scale as the suggestions: the side giving up more is the one robbed.
+    fairness: total ? Math.min(90, Math.max(10, Math.round((100 * worth(sideB)) / total))) : 50,
+  };
+}
+
 // ── Util ───────────────────────────────────────────────────────────────────────
 
 function groupBy<T>(arr: T[], key: (item: T) => string): Record<string, T[]> {
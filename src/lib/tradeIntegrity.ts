@@ -0,0 +1,291 @@
+/**
+ * Server-only: trades that may break the constitution's Trade Integrity
+ * rules, for the commissioner to review.
+ *
+ * Three checks, all over the trade tree (lib/tradeTree.ts):
+ *
+ *   Loan trades: two managers trade, and within a few weeks a second trade
+ *   between the same two sends assets from the first back where they came
+ *   from. Found by following each received asset's journey to the next
+ *   trade it appears in.
+ *
+ *   Value gaps: a trade this season where one side receives nearly all the
+ *   value, by the trade builder's values (PlayerValue production blended
+ *   with the FantasyPros dynasty board). Earlier seasons are left out, as
+ *   today's values say little about what a player was worth then.
+ *
+ *   One-way dealing: two managers who keep trading, with the same one coming
+ *   out ahead nearly every time: on value for this season's trades, on
+ *   points delivered for settled earlier ones.
+ *
+ * A finding is a reason to look, not a verdict. Findings are recomputed on
+ * every read; only the commissioner's review of each is stored, keyed by a
+ * finding id that stays the same for the same trades.
+ */
+import { readJson, writeJson } from './jsonStore';
+import { getTradeMarket } from './tradeEngine';
+import { getTradeTree, type AssetResult, type TradeTreeEntry } from './tradeTree';
+import type { TradeAsset } from './tradeBuilder';
+import type { AdminSession } from './adminAuth';
+
+export type IntegrityFindingKind = 'loan' | 'value-gap' | 'one-way';
+
+export interface IntegrityReview {
+  status: 'cleared' | 'confirmed';
+  note: string;
+  by: string;
+  role: AdminSession['role'];
+  at: string;
+}
+
+export interface IntegrityFinding {
+  /** Stable for the same trades, e.g. `loan:<tradeA>:<tradeB>`. */
+  id: string;
+  kind: IntegrityFindingKind;
+  severity: 'high' | 'medium';
+  title: string;
+  detail: string;
+  managers: { userId: string; teamName: string }[];
+  trades: { transactionId: string; season: string; week: number; created: number }[];
+  /** The constitution section the rule comes from. */
+  sectionId: string;
+  review: IntegrityReview | null;
+}
+
+export interface IntegrityOptions {
+  /** How soon a reversal must follow to count as a loan. */
+  loanWindowWeeks?: number;
+}
+
+const DEFAULT_LOAN_WINDOW_WEEKS = 8;
+// A value gap is one side receiving at least this share of the value exchanged,
+const EXTREME_SHARE = 0.8;
+// in a trade worth at least this much in total (two bench pieces swapped
+// unevenly are not worth a commissioner's time).
+const MIN_GAP_TOTAL = 60;
+// One-way dealing: at least this many trades with a clear winner, and the
+// same winner in at least this share of them.
+const MIN_PAIR_TRADES = 3;
+const ONE_WAY_SHARE = 0.75;
+// A trade has a clear winner when one side got at least this share.
+const CLEAR_WIN_SHARE = 0.6;
+
+const LOAN_SECTION = 'temporary-loan-trades';
+const GOOD_FAITH_SECTION = 'trades-not-made-in-good-faith';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const reviewsKey = (leagueId: string) => `lp_integrity_reviews_${leagueId}`;
+const reviewsFile = (leagueId: string) => `integrity-reviews-${leagueId}.json`;
+
+async function loadReviews(storeId: string): Promise<Record<string, IntegrityReview>> {
+  return readJson<Record<string, IntegrityReview>>(reviewsKey(storeId), reviewsFile(storeId), {});
+}
+
+const tradeRef = (t: TradeTreeEntry) => ({ transactionId: t.transactionId, season: t.season, week: t.week, created: t.created });
+const managersOf = (t: TradeTreeEntry) => t.sides.map(s => ({ userId: s.userId, teamName: s.teamName }));
+const pairKey = (t: TradeTreeEntry) => t.sides.map(s => s.userId).sort().join(':');
+const isTwoWay = (t: TradeTreeEntry) => t.sides.length === 2 && t.sides.every(s => s.userId);
+
+function assetKey(a: AssetResult): string {
+  return a.kind === 'pick' && a.pick ? `pick:${a.pick.season}:${a.pick.round}` : `player:${a.player?.id ?? ''}`;
+}
+
+function assetLabel(a: AssetResult): string {
+  if (a.kind === 'pick' && a.pick) return `${a.pick.season} Round ${a.pick.round} pick`;
+  return a.player?.name ?? 'Unknown player';
+}
+
+// ── Loan trades ──────────────────────────────────────────────────────────────
+
+function findLoans(trades: TradeTreeEntry[], windowWeeks: number): Omit<IntegrityFinding, 'review'>[] {
+  const byId = new Map(trades.map(t => [t.transactionId, t]));
+  const returned = new Map<string, { first: TradeTreeEntry; second: TradeTreeEntry; assets: string[] }>();
+
+  for (const first of trades.filter(isTwoWay)) {
+    for (const receiver of first.sides) {
+      const giver = first.sides.find(s => s !== receiver)!;
+      for (const asset of receiver.assets) {
+        const next = asset.journey.find(e => e.kind === 'traded' && e.tradeId);
+        const second = next?.tradeId ? byId.get(next.tradeId) : undefined;
+        if (!second || !isTwoWay(second) || pairKey(second) !== pairKey(first)) continue;
+        if (second.created - first.created > windowWeeks * WEEK_MS) continue;
+        const backToGiver = second.sides.find(s => s.userId === giver.userId);
+        if (!backToGiver?.assets.some(a => assetKey(a) === assetKey(asset))) continue;
+
+        const id = `loan:${first.transactionId}:${second.transactionId}`;
+        const entry = returned.get(id) ?? { first, second, assets: [] };
+        entry.assets.push(assetLabel(asset));
+        returned.set(id, entry);
+      }
+    }
+  }
+
+  return [...returned].map(([id, { first, second, assets }]) => {
+    const total = first.sides.reduce((n, s) => n + s.assets.length, 0);
+    const weeks = Math.max(1, Math.round((second.created - first.created) / WEEK_MS));
+    const [a, b] = first.sides;
+    return {
+      id,
+      kind: 'loan' as const,
+      severity: assets.length >= total ? 'high' as const : 'medium' as const,
+      title: `${a.teamName} and ${b.teamName} traded ${assets.length === 1 ? assets[0] : `${assets.length} assets`} back after ${weeks} week${weeks === 1 ? '' : 's'}`,
+      detail: `Returned: ${assets.join(', ')} (${assets.length} of ${total} assets in the first trade).`,
+      managers: managersOf(first),
+      trades: [tradeRef(first), tradeRef(second)],
+      sectionId: LOAN_SECTION,
+    };
+  });
+}
+
+// ── Value ────────────────────────────────────────────────────────────────────
+
+/** Today's trade value of each asset a side received, where the market knows it. */
+function valuer(assets: TradeAsset[]) {
+  const players = new Map(assets.filter(a => a.kind === 'player').map(a => [a.id, a.tradeValue]));
+  const picks = new Map(assets.filter(a => a.kind === 'pick').map(a => {
+    const [, season, round] = a.id.split(':');
+    return [`${season}:${round}`, a.tradeValue];
+  }));
+  return (a: AssetResult): number | null => {
+    if (a.kind === 'pick' && a.pick?.status === 'pending') return picks.get(`${a.pick.season}:${a.pick.round}`) ?? null;
+    const id = a.kind === 'pick' ? a.pick?.became?.id : a.player?.id;
+    return id ? players.get(id) ?? null : null;
+  };
+}
+
+interface ValuedTrade {
+  trade: TradeTreeEntry;
+  values: number[];
+  /** Share of the total value the best-off side received. */
+  share: number;
+  leader: number;
+}
+
+function valueTrades(trades: TradeTreeEntry[], season: string, value: (a: AssetResult) => number | null): Map<string, ValuedTrade> {
+  const valued = new Map<string, ValuedTrade>();
+  for (const trade of trades) {
+    if (trade.season !== season || !isTwoWay(trade)) continue;
+    const perAsset = trade.sides.map(s => s.assets.map(value));
+    // Skip trades the market cannot price: mostly players since released.
+    const known = perAsset.flat().filter(v => v !== null).length;
+    if (known < perAsset.flat().length / 2) continue;
+    const values = perAsset.map(vs => vs.reduce<number>((sum, v) => sum + (v ?? 0), 0));
+    const total = values[0] + values[1];
+    if (total <= 0) continue;
+    const leader = values[0] >= values[1] ? 0 : 1;
+    valued.set(trade.transactionId, { trade, values, share: values[leader] / total, leader });
+  }
+  return valued;
+}
+
+function findValueGaps(valued: Map<string, ValuedTrade>): Omit<IntegrityFinding, 'review'>[] {
+  return [...valued.values()]
+    .filter(v => v.share >= EXTREME_SHARE && v.values[0] + v.values[1] >= MIN_GAP_TOTAL)
+    .map(({ trade, values, share, leader }) => {
+      const winner = trade.sides[leader], loser = trade.sides[1 - leader];
+      return {
+        id: `value-gap:${trade.transactionId}`,
+        kind: 'value-gap' as const,
+        severity: share >= 0.9 ? 'high' as const : 'medium' as const,
+        title: `${winner.teamName} received ${Math.round(share * 100)}% of the value in a trade with ${loser.teamName}`,
+        detail: `Trade value received: ${winner.teamName} ${Math.round(values[leader])}, ${loser.teamName} ${Math.round(values[1 - leader])}. ` +
+          `${winner.teamName} got ${winner.assets.map(assetLabel).join(', ') || 'nothing'}; ` +
+          `${loser.teamName} got ${loser.assets.map(assetLabel).join(', ') || 'nothing'}.`,
+        managers: managersOf(trade),
+        trades: [tradeRef(trade)],
+        sectionId: GOOD_FAITH_SECTION,
+      };
+    });
+}
+
+// ── One-way dealing ──────────────────────────────────────────────────────────
+
+/** Who clearly came out ahead: on value this season, on points once settled. */
+function clearWinner(trade: TradeTreeEntry, valued: Map<string, ValuedTrade>): string | null {
+  const v = valued.get(trade.transactionId);
+  if (v) return v.share >= CLEAR_WIN_SHARE ? trade.sides[v.leader].userId : null;
+  const { status, leaderRosterId, share } = trade.outcome;
+  if (status !== 'settled' || leaderRosterId === null || share < CLEAR_WIN_SHARE) return null;
+  return trade.sides.find(s => s.rosterId === leaderRosterId)?.userId ?? null;
+}
+
+function findOneWay(trades: TradeTreeEntry[], valued: Map<string, ValuedTrade>): Omit<IntegrityFinding, 'review'>[] {
+  const pairs = new Map<string, TradeTreeEntry[]>();
+  for (const t of trades.filter(isTwoWay)) pairs.set(pairKey(t), [...(pairs.get(pairKey(t)) ?? []), t]);
+
+  return [...pairs].flatMap(([key, pairTrades]) => {
+    const decided = pairTrades.flatMap(t => {
+      const winner = clearWinner(t, valued);
+      return winner ? [{ trade: t, winner }] : [];
+    });
+    if (decided.length < MIN_PAIR_TRADES) return [];
+    const wins = new Map<string, number>();
+    for (const d of decided) wins.set(d.winner, (wins.get(d.winner) ?? 0) + 1);
+    const [winnerId, count] = [...wins].sort((a, b) => b[1] - a[1])[0];
+    if (count / decided.length < ONE_WAY_SHARE) return [];
+
+    // Newest trade first, so the names are the teams' current ones.
+    const latest = [...pairTrades].sort((a, b) => b.created - a.created)[0];
+    const winner = latest.sides.find(s => s.userId === winnerId)!;
+    const other = latest.sides.find(s => s.userId !== winnerId)!;
+    return [{
+      // Keyed to the latest trade as well as the pair: a cleared finding stays
+      // cleared, but a new trade between them is new evidence and reopens it.
+      id: `one-way:${key}:${latest.transactionId}`,
+      kind: 'one-way' as const,
+      severity: count === decided.length ? 'high' as const : 'medium' as const,
+      title: `${winner.teamName} came out ahead in ${count} of ${decided.length} trades with ${other.teamName}`,
+      detail: `${pairTrades.length} trades between them in all; ${decided.length} had a clear winner ` +
+        `(at least ${Math.round(CLEAR_WIN_SHARE * 100)}% of the value or points exchanged).`,
+      managers: managersOf(latest),
+      trades: pairTrades.map(tradeRef).sort((a, b) => b.created - a.created),
+      sectionId: GOOD_FAITH_SECTION,
+    }];
+  });
+}
+
+// ── Queue ────────────────────────────────────────────────────────────────────
+
+/**
+ * Every finding with its review, unreviewed first, then newest first.
+ * `leagueId` is the current season's, for values; `storeId` keys reviews.
+ */
+export async function getIntegrityFindings(
+  storeId: string,
+  leagueId: string,
+  opts: IntegrityOptions = {},
+): Promise<IntegrityFinding[]> {
+  const [tree, market, reviews] = await Promise.all([
+    getTradeTree(storeId),
+    getTradeMarket(leagueId).catch(() => null),
+    loadReviews(storeId),
+  ]);
+  const valued = market
+    ? valueTrades(tree.trades, market.season, valuer(market.teams.flatMap(t => t.assets)))
+    : new Map<string, ValuedTrade>();
+
+  const findings = [
+    ...findLoans(tree.trades, opts.loanWindowWeeks ?? DEFAULT_LOAN_WINDOW_WEEKS),
+    ...findValueGaps(valued),
+    ...findOneWay(tree.trades, valued),
+  ].map(f => ({ ...f, review: reviews[f.id] ?? null }));
+
+  const newest = (f: IntegrityFinding) => Math.max(...f.trades.map(t => t.created));
+  return findings.sort((a, b) => Number(!!a.review) - Number(!!b.review) || newest(b) - newest(a));
+}
+
+/** Records (or replaces) the commissioner's review of a finding. */
+export async function reviewIntegrityFinding(
+  storeId: string,
+  admin: AdminSession,
+  findingId: string,
+  status: IntegrityReview['status'],
+  note: string,
+): Promise<IntegrityReview> {
+  const reviews = await loadReviews(storeId);
+  const review: IntegrityReview = { status, note: note.trim(), by: admin.name, role: admin.role, at: new Date().toISOString() };
+  reviews[findingId] = review;
+  await writeJson(reviewsKey(storeId), reviewsFile(storeId), reviews);
+  return review;
+}
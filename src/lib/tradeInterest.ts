@@ -0,0 +1,130 @@
+/**
+ * Server-only: every manager's swipes on suggested trades, and the trades
+ * both sides swiped right on.
+ *
+ * Suggestions are regenerated every couple of hours and their ids are only
+ * positions in one batch, so a swipe is keyed by the deal itself: the two
+ * rosters and the players each gives. The same trade suggested again next
+ * week is the same deal, and a swipe on it still counts.
+ *
+ * Only the two teams in a deal can make it a match. Anyone may swipe on any
+ * card; a bystander's swipe is kept as their own record and nothing more.
+ * When the second side swipes right the deal becomes a match, and stays
+ * unseen by the first side until they next open the trades page. A later
+ * pass from either side calls it off.
+ */
+import { readJson, writeJson } from './jsonStore';
+import type { LeagueManager } from './managerContext';
+import { parseDealKey } from './tradeColors';
+import { proposalForDeal, type TradeProposal } from './tradeEngine';
+
+export type SwipeDirection = 'right' | 'left';
+
+export interface TradeSwipe {
+  dealKey: string;
+  userId: string;
+  rosterId: number;
+  direction: SwipeDirection;
+  at: string;
+}
+
+export interface TradeMatch {
+  dealKey: string;
+  /** The deal as it stood on the rosters when the match was made. */
+  proposal: TradeProposal;
+  matchedAt: string;
+  /** Managers who have seen the match since it was made. */
+  seenBy: string[];
+}
+
+/** One manager's view: what they swiped, and the matches they are part of. */
+export interface ManagerInterest {
+  swipes: Record<string, SwipeDirection>;
+  matches: (TradeMatch & { seen: boolean })[];
+}
+
+interface InterestState {
+  swipes: TradeSwipe[];
+  matches: TradeMatch[];
+}
+
+// Oldest swipes fall off past this; a season's worth for a full league.
+const MAX_SWIPES = 5000;
+
+const keyFor = (leagueId: string) => `lp_trade_interest_${leagueId}`;
+const fileFor = (leagueId: string) => `trade-interest-${leagueId}.json`;
+
+async function load(leagueId: string): Promise<InterestState> {
+  return readJson<InterestState>(keyFor(leagueId), fileFor(leagueId), { swipes: [], matches: [] });
+}
+
+async function save(leagueId: string, state: InterestState): Promise<void> {
+  await writeJson(keyFor(leagueId), fileFor(leagueId), { ...state, swipes: state.swipes.slice(-MAX_SWIPES) });
+}
+
+const isParty = (p: TradeProposal, manager: LeagueManager) =>
+  p.sideA.rosterId === manager.rosterId || p.sideB.rosterId === manager.rosterId;
+
+export async function getManagerInterest(leagueId: string, manager: LeagueManager): Promise<ManagerInterest> {
+  const state = await load(leagueId);
+  return {
+    swipes: Object.fromEntries(state.swipes.filter(s => s.userId === manager.userId).map(s => [s.dealKey, s.direction])),
+    matches: state.matches
+      .filter(m => isParty(m.proposal, manager))
+      .map(m => ({ ...m, seen: m.seenBy.includes(manager.userId) }))
+      .sort((a, b) => b.matchedAt.localeCompare(a.matchedAt)),
+  };
+}
+
+/**
+ * Records a swipe on the deal `key` and returns the match it completes or
+ * keeps, if any. A match is seen at once by whoever completed it, and its
+ * proposal is rebuilt from the rosters, so a deal that has stopped being
+ * possible does not become one.
+ */
+export async function recordSwipe(
+  leagueId: string,
+  manager: LeagueManager,
+  key: string,
+  direction: SwipeDirection,
+): Promise<TradeMatch | null> {
+  const state = await load(leagueId);
+  const rosterIds = parseDealKey(key).map(s => s.rosterId);
+  state.swipes = [
+    ...state.swipes.filter(s => !(s.userId === manager.userId && s.dealKey === key)),
+    { dealKey: key, userId: manager.userId, rosterId: manager.rosterId, direction, at: new Date().toISOString() },
+  ];
+
+  const existing = state.matches.find(m => m.dealKey === key) ?? null;
+  let match = existing;
+  if (rosterIds.includes(manager.rosterId)) {
+    if (direction === 'left') {
+      state.matches = state.matches.filter(m => m.dealKey !== key);
+      match = null;
+    } else if (!existing) {
+      const other = rosterIds.find(id => id !== manager.rosterId);
+      const theyWant = state.swipes.some(s => s.dealKey === key && s.rosterId === other && s.direction === 'right');
+      const proposal = theyWant ? await proposalForDeal(leagueId, key) : null;
+      if (proposal) {
+        match = { dealKey: key, proposal, matchedAt: new Date().toISOString(), seenBy: [manager.userId] };
+        state.matches.push(match);
+      }
+    }
+  }
+
+  await save(leagueId, state);
+  return match;
+}
+
+/** Marks every match the manager is part of as seen. */
+export async function markMatchesSeen(leagueId: string, manager: LeagueManager): Promise<void> {
+  const state = await load(leagueId);
+  let changed = false;
+  for (const m of state.matches) {
+    if (isParty(m.proposal, manager) && !m.seenBy.includes(manager.userId)) {
+      m.seenBy.push(manager.userId);
+      changed = true;
+    }
+  }
+  if (changed) await save(leagueId, state);
+}
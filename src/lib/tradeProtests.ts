@@ -0,0 +1,253 @@
+/**
+ * Server-only: trade protests, the votes on them, and the commissioner's
+ * rulings, as the constitution's Trade Integrity rules describe them.
+ *
+ * Any manager who was not part of a trade may protest it within the review
+ * window, and must give a specific reason under one of the grounds the
+ * constitution names; each ground cites the section it comes from. The other
+ * managers outside the trade then have one more window to vote to veto it or
+ * let it stand. The vote is advisory: the constitution leaves the decision
+ * with the Commissioner, who (or whose Deputy) records a ruling from the
+ * admin side. A ruling is a record only; reversing a trade still happens in
+ * Sleeper.
+ *
+ * The review window is the league's trade_review_days when Sleeper has one
+ * set, and the constitution's 48 hours otherwise. The veto threshold is the
+ * league's veto_votes_needed, or a majority of eligible voters. Both are
+ * fixed on a case when it is filed.
+ */
+import { readJson, writeJson } from './jsonStore';
+import { parseLeagueSettings } from './constitution';
+import { getConstitution } from './constitutionStore';
+import { getLeagueManagers, type LeagueManager } from './managerContext';
+import { getPlayersDirectory } from './playerStats';
+import { getProvider } from './providers';
+import type { AdminSession } from './adminAuth';
+
+export type ProtestGround = 'side-arrangement' | 'collusion' | 'lopsided' | 'loan-trade';
+
+/** Each ground and the constitution section, by title, that it cites. */
+export const PROTEST_GROUNDS: Record<ProtestGround, { label: string; sectionTitle: string }> = {
+  'side-arrangement': { label: 'Side arrangement outside the platform', sectionTitle: 'Trades Not Made in Good Faith' },
+  collusion:          { label: 'Collusion',                             sectionTitle: 'Trades Not Made in Good Faith' },
+  lopsided:           { label: 'Grossly lopsided value',                sectionTitle: 'Trades Not Made in Good Faith' },
+  'loan-trade':       { label: 'Loan trade',                            sectionTitle: 'Temporary Loan Trades' },
+};
+
+export type ProtestVoteChoice = 'veto' | 'stand';
+export type ProtestDecision = 'reversed' | 'stands';
+export type ProtestStatus = 'voting' | 'awaiting-ruling' | 'ruled';
+
+/** A trade as the docket shows it, frozen when the protest was filed. */
+export interface ProtestTrade {
+  transactionId: string;
+  season: string;
+  week: number;
+  /** When the trade went through (Sleeper's status_updated), epoch ms. Not
+   *  when it was proposed: an offer can sit for days before it is accepted. */
+  created: number;
+  sides: { rosterId: number; teamName: string; receives: string[] }[];
+}
+
+export interface ProtestVote {
+  userId: string;
+  teamName: string;
+  vote: ProtestVoteChoice;
+  at: string;
+}
+
+export interface ProtestRuling {
+  decision: ProtestDecision;
+  note: string;
+  by: string;
+  role: AdminSession['role'];
+  at: string;
+}
+
+export interface ProtestCase {
+  id: string;
+  trade: ProtestTrade;
+  filedBy: { userId: string; teamName: string };
+  filedAt: string;
+  ground: ProtestGround;
+  reason: string;
+  /** The constitution section the ground cites; null if it has since been renamed away. */
+  citation: { sectionId: string; title: string } | null;
+  votes: ProtestVote[];
+  votingClosesAt: string;
+  vetoThreshold: number;
+  ruling: ProtestRuling | null;
+}
+
+export class ProtestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtestError';
+  }
+}
+
+const DEFAULT_WINDOW_MS = 48 * 60 * 60 * 1000;
+const MIN_REASON_LENGTH = 20;
+
+const keyFor = (leagueId: string) => `lp_trade_protests_${leagueId}`;
+const fileFor = (leagueId: string) => `trade-protests-${leagueId}.json`;
+
+async function load(storeId: string): Promise<ProtestCase[]> {
+  return readJson<ProtestCase[]>(keyFor(storeId), fileFor(storeId), []);
+}
+
+async function save(storeId: string, cases: ProtestCase[]): Promise<void> {
+  await writeJson(keyFor(storeId), fileFor(storeId), cases);
+}
+
+export function statusOf(c: ProtestCase, now = Date.now()): ProtestStatus {
+  if (c.ruling) return 'ruled';
+  return now < Date.parse(c.votingClosesAt) ? 'voting' : 'awaiting-ruling';
+}
+
+const isParty = (trade: ProtestTrade, rosterId: number) => trade.sides.some(s => s.rosterId === rosterId);
+
+/** The review window and veto threshold, from the current season's Sleeper settings. */
+export async function getProtestRules(leagueId: string): Promise<{ windowMs: number; vetoVotesNeeded: number }> {
+  const raw = await getProvider().getLeague(leagueId, { freshness: 'recent' });
+  const settings = parseLeagueSettings(raw);
+  return {
+    windowMs: settings.tradeReviewDays > 0 ? settings.tradeReviewDays * 24 * 60 * 60 * 1000 : DEFAULT_WINDOW_MS,
+    vetoVotesNeeded: settings.vetoVotesNeeded,
+  };
+}
+
+/**
+ * Completed trades in the current season still inside the review window.
+ * Only this week's and last week's transactions are read: a window is days,
+ * not weeks.
+ */
+export async function getProtestableTrades(leagueId: string, windowMs: number): Promise<ProtestTrade[]> {
+  const provider = getProvider();
+  const [league, nflState, managers, players] = await Promise.all([
+    provider.getLeague(leagueId, { freshness: 'recent' }),
+    provider.getNFLState({ freshness: 'live' }),
+    getLeagueManagers(leagueId),
+    getPlayersDirectory().catch((): Record<string, never> => ({})),
+  ]);
+  if (!league) return [];
+  const week = Math.max(1, nflState.week ?? 1);
+  const batches = await Promise.all(
+    [...new Set([Math.max(1, week - 1), week])].map(w => provider.getTransactions(leagueId, w, { freshness: 'live' }).catch(() => [])),
+  );
+
+  const teamName = (rosterId: number) => managers.find(m => m.rosterId === rosterId)?.teamName ?? `Team ${rosterId}`;
+  const playerName = (id: string) => {
+    const p = players[id];
+    return p ? `${`${p.first_name ?? ''} ${p.last_name ?? ''}`.trim()} (${p.fantasy_positions?.[0] ?? p.position ?? '?'})` : `Player ${id}`;
+  };
+  const cutoff = Date.now() - windowMs;
+
+  return batches.flat()
+    .filter(tx => tx.type === 'trade' && tx.status === 'complete' && tx.status_updated >= cutoff)
+    .sort((a, b) => b.status_updated - a.status_updated)
+    .map(tx => ({
+      transactionId: tx.transaction_id,
+      season: league.season,
+      week: tx.leg,
+      created: tx.status_updated,
+      sides: tx.roster_ids.map(rosterId => ({
+        rosterId,
+        teamName: teamName(rosterId),
+        receives: [
+          ...Object.entries(tx.adds ?? {}).filter(([, rid]) => rid === rosterId).map(([pid]) => playerName(pid)),
+          ...(tx.draft_picks ?? []).filter(p => p.owner_id === rosterId).map(p => `${p.season} Round ${p.round} pick`),
+        ],
+      })),
+    }));
+}
+
+/** Every case, newest first. */
+export async function listProtests(storeId: string): Promise<ProtestCase[]> {
+  return (await load(storeId)).sort((a, b) => b.filedAt.localeCompare(a.filedAt));
+}
+
+export async function fileProtest(
+  storeId: string,
+  leagueId: string,
+  manager: LeagueManager,
+  input: { transactionId: string; ground: ProtestGround; reason: string },
+): Promise<ProtestCase> {
+  const reason = input.reason.trim();
+  if (!Object.hasOwn(PROTEST_GROUNDS, input.ground)) throw new ProtestError('Pick the rule the trade breaks');
+  if (reason.length < MIN_REASON_LENGTH) {
+    throw new ProtestError('State a specific reason. General dissatisfaction with a trade is not grounds for a veto.');
+  }
+
+  const { windowMs, vetoVotesNeeded } = await getProtestRules(leagueId);
+  const trade = (await getProtestableTrades(leagueId, windowMs)).find(t => t.transactionId === input.transactionId);
+  if (!trade) throw new ProtestError('That trade is outside the review window');
+  if (isParty(trade, manager.rosterId)) throw new ProtestError('You cannot protest a trade you are part of');
+
+  const cases = await load(storeId);
+  if (cases.some(c => c.trade.transactionId === trade.transactionId)) {
+    throw new ProtestError('That trade is already on the docket; vote on the open case instead');
+  }
+
+  const { sectionTitle } = PROTEST_GROUNDS[input.ground];
+  const section = (await getConstitution(storeId)).sections.find(s => s.title === sectionTitle);
+  const eligible = (await getLeagueManagers(leagueId)).filter(m => !isParty(trade, m.rosterId)).length;
+  const now = new Date();
+  const filed: ProtestCase = {
+    id: `${now.getTime()}-${trade.transactionId}`,
+    trade,
+    filedBy: { userId: manager.userId, teamName: manager.teamName },
+    filedAt: now.toISOString(),
+    ground: input.ground,
+    reason,
+    citation: section ? { sectionId: section.id, title: section.title } : null,
+    // Filing is the filer's veto vote.
+    votes: [{ userId: manager.userId, teamName: manager.teamName, vote: 'veto', at: now.toISOString() }],
+    votingClosesAt: new Date(now.getTime() + windowMs).toISOString(),
+    vetoThreshold: vetoVotesNeeded > 0 ? vetoVotesNeeded : Math.floor(eligible / 2) + 1,
+    ruling: null,
+  };
+  await save(storeId, [...cases, filed]);
+  return filed;
+}
+
+/** Casts or changes a manager's vote while the case is open. */
+export async function castProtestVote(
+  storeId: string,
+  manager: LeagueManager,
+  caseId: string,
+  vote: ProtestVoteChoice,
+): Promise<ProtestCase> {
+  const cases = await load(storeId);
+  const c = cases.find(x => x.id === caseId);
+  if (!c) throw new ProtestError('No such case');
+  if (statusOf(c) !== 'voting') throw new ProtestError('Voting on this case has closed');
+  if (isParty(c.trade, manager.rosterId)) throw new ProtestError('Teams in the trade do not vote on it');
+
+  c.votes = [
+    ...c.votes.filter(v => v.userId !== manager.userId),
+    { userId: manager.userId, teamName: manager.teamName, vote, at: new Date().toISOString() },
+  ];
+  await save(storeId, cases);
+  return c;
+}
+
+/**
+ * Records the commissioner's ruling. It may come before voting closes, and
+ * a later ruling replaces an earlier one (an appeal sent back to the
+ * Deputy, say); the audit log keeps both.
+ */
+export async function ruleOnProtest(
+  storeId: string,
+  admin: AdminSession,
+  caseId: string,
+  decision: ProtestDecision,
+  note: string,
+): Promise<ProtestCase> {
+  const cases = await load(storeId);
+  const c = cases.find(x => x.id === caseId);
+  if (!c) throw new ProtestError('No such case');
+  c.ruling = { decision, note: note.trim(), by: admin.name, role: admin.role, at: new Date().toISOString() };
+  await save(storeId, cases);
+  return c;
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { ADMIN_COOKIE, isAdminToken } from '@/lib/adminAuth';
+
+/**
+ * Turns away admin writes without an admin session before they reach a route.
+ *
+ * Only the signature and age of the session are checked here; each route
+ * still calls requireAdmin, which checks the account and its role. Reads are
+ * let through because some of these routes have public GETs (the theme, the
+ * personalities, the assistant's name).
+ */
+export function proxy(request: NextRequest) {
+  if (['GET', 'HEAD', 'OPTIONS'].includes(request.method)) return NextResponse.next();
+  // Signing in is the one write that cannot need a session.
+  if (request.nextUrl.pathname === '/api/admin/auth') return NextResponse.next();
+  if (isAdminToken(request.cookies.get(ADMIN_COOKIE)?.value)) return NextResponse.next();
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+}
+
+export const config = {
+  matcher: [
+    '/api/admin/:path*',
+    '/api/ai/personalities',
+    '/api/ai/assistant',
+    '/api/ai/generate',
+    '/api/ai/factcheck',
+    '/api/ai/review',
+  ],
+};
@@ -73,6 +73,7 @@ export interface SleeperLeague {
     bench_slots: number;
     trade_deadline: number;
     median_wins?: boolean; // Median games enabled
+    league_average_match?: number; // 1 when each week adds a game against the league median
   };
   season: string;
   scoring_settings: Record<string, number>;